@@ -5,6 +5,18 @@ import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
 import { BrowserRouter, Routes, Route } from "react-router-dom";
 import Index from "./pages/Index";
+import Apply from "./pages/Apply";
+import Admin from "./pages/Admin";
+import AdminApplications from "./pages/AdminApplications";
+import AdminApplicationDetail from "./pages/AdminApplicationDetail";
+import TransferReconciliation from "./pages/TransferReconciliation";
+import JudgingAssignments from "./pages/JudgingAssignments";
+import JudgeScoring from "./pages/JudgeScoring";
+import Receipts from "./pages/Receipts";
+import ResumePayment from "./pages/ResumePayment";
+import Status from "./pages/Status";
+import ApplicantChanges from "./pages/ApplicantChanges";
+import MockMailbox from "./pages/MockMailbox";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -17,6 +29,23 @@ const App = () => (
       <BrowserRouter>
         <Routes>
           <Route path="/" element={<Index />} />
+          <Route path="/apply/:type/payment" element={<Apply step="payment" />} />
+          <Route path="/apply/:type/done" element={<Apply step="success" />} />
+          <Route path="/apply/:type/:section?" element={<Apply step="application" />} />
+          <Route path="/pay/:applicationId" element={<ResumePayment />} />
+          <Route path="/receipts/:applicationId" element={<Receipts />} />
+          <Route path="/status" element={<Status />} />
+          <Route path="/status/changes/:applicationId/:section?" element={<ApplicantChanges />} />
+          <Route path="/dev/mailbox" element={<MockMailbox />} />
+          <Route path="/admin" element={<Admin />}>
+            <Route index element={<AdminApplications />} />
+            <Route path="applications/:applicationId" element={<AdminApplicationDetail />} />
+            <Route path="transfers" element={<TransferReconciliation />} />
+          </Route>
+          <Route path="/judging" element={<Admin area="judge" />}>
+            <Route index element={<JudgingAssignments />} />
+            <Route path=":applicationId" element={<JudgeScoring />} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -0,0 +1,82 @@
+import { createHttpAdapter } from './httpAdapter';
+import { createHttpApplicantAdapter } from './httpApplicantAdapter';
+import { createHttpPaymentProvider } from './httpPaymentProvider';
+import { createHttpStaffAdapter } from './httpStaffAdapter';
+import { createHttpUploadAdapter } from './httpUploadAdapter';
+import { createMockAdapter } from './mockAdapter';
+import { createMockApplicantAdapter } from './mockApplicantAdapter';
+import { createMockStaffAdapter } from './mockStaffAdapter';
+import { createMockUploadAdapter } from './mockUploadAdapter';
+import { createSandboxPaymentProvider } from './sandboxPaymentProvider';
+import type { ApplicantAdapter, PaymentProvider, StaffAdapter, SubmissionAdapter, UploadAdapter } from './types';
+
+let submissionAdapter: SubmissionAdapter | null = null;
+let uploadAdapter: UploadAdapter | null = null;
+let paymentProvider: PaymentProvider | null = null;
+let staffAdapter: StaffAdapter | null = null;
+let applicantAdapter: ApplicantAdapter | null = null;
+
+// The HTTP backend is used when VITE_API_URL is configured, otherwise the mock backend
+export const getSubmissionAdapter = (): SubmissionAdapter => {
+  if (!submissionAdapter) {
+    const apiUrl = import.meta.env.VITE_API_URL;
+    submissionAdapter = apiUrl ? createHttpAdapter(apiUrl) : createMockAdapter();
+  }
+  return submissionAdapter;
+};
+
+// Swap the backend, e.g. for tests or to point at a different server
+export const setSubmissionAdapter = (adapter: SubmissionAdapter): void => {
+  submissionAdapter = adapter;
+};
+
+export const getUploadAdapter = (): UploadAdapter => {
+  if (!uploadAdapter) {
+    const apiUrl = import.meta.env.VITE_API_URL;
+    uploadAdapter = apiUrl ? createHttpUploadAdapter(apiUrl) : createMockUploadAdapter();
+  }
+  return uploadAdapter;
+};
+
+export const setUploadAdapter = (adapter: UploadAdapter): void => {
+  uploadAdapter = adapter;
+};
+
+// Payments go through the HTTP API with the other requests when VITE_API_URL is
+// configured. The sandbox only charges what the mock backend stores, so it is
+// never used against a real server.
+export const getPaymentProvider = (): PaymentProvider => {
+  if (!paymentProvider) {
+    const apiUrl = import.meta.env.VITE_API_URL;
+    paymentProvider = apiUrl ? createHttpPaymentProvider(apiUrl) : createSandboxPaymentProvider();
+  }
+  return paymentProvider;
+};
+
+export const setPaymentProvider = (provider: PaymentProvider): void => {
+  paymentProvider = provider;
+};
+
+export const getStaffAdapter = (): StaffAdapter => {
+  if (!staffAdapter) {
+    const apiUrl = import.meta.env.VITE_API_URL;
+    staffAdapter = apiUrl ? createHttpStaffAdapter(apiUrl) : createMockStaffAdapter();
+  }
+  return staffAdapter;
+};
+
+export const setStaffAdapter = (adapter: StaffAdapter): void => {
+  staffAdapter = adapter;
+};
+
+export const getApplicantAdapter = (): ApplicantAdapter => {
+  if (!applicantAdapter) {
+    const apiUrl = import.meta.env.VITE_API_URL;
+    applicantAdapter = apiUrl ? createHttpApplicantAdapter(apiUrl) : createMockApplicantAdapter();
+  }
+  return applicantAdapter;
+};
+
+export const setApplicantAdapter = (adapter: ApplicantAdapter): void => {
+  applicantAdapter = adapter;
+};
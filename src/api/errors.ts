@@ -0,0 +1,41 @@
+import type { FormError } from '@/utils/formUtils';
+
+interface ApiErrorOptions {
+  status?: number;
+  fieldErrors?: FormError[];
+  retryable?: boolean;
+}
+
+// Error raised by the submissions backends. Field errors use the same shape as
+// client-side validation so forms can display them in place.
+export class ApiError extends Error {
+  readonly status?: number;
+  readonly fieldErrors: FormError[];
+  readonly retryable: boolean;
+
+  constructor(message: string, options: ApiErrorOptions = {}) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = options.status;
+    this.fieldErrors = options.fieldErrors ?? [];
+    this.retryable = options.retryable ?? false;
+  }
+}
+
+// The request never reached the server or the server was temporarily unavailable
+export class NetworkError extends ApiError {
+  constructor(message = 'Unable to reach the server. Please check your connection and try again.', status?: number) {
+    super(message, { status, retryable: true });
+    this.name = 'NetworkError';
+  }
+}
+
+// The user stopped the request, e.g. by cancelling a photo upload
+export class RequestCancelledError extends Error {
+  constructor(message = 'The request was cancelled.') {
+    super(message);
+    this.name = 'RequestCancelledError';
+  }
+}
+
+export const isApiError = (error: unknown): error is ApiError => error instanceof ApiError;
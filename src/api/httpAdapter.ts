@@ -0,0 +1,145 @@
+import type { FormError } from '@/utils/formUtils';
+import type { FeeQuote } from '@/utils/feeSchedule';
+import type { PaymentSchedule } from '@/utils/installmentPlans';
+import { ApiError, NetworkError } from './errors';
+import type {
+  ApplicationOverview,
+  ApplicationStatus,
+  ApplyPromoCodeRequest,
+  PaymentReceipt,
+  ResumePaymentRequest,
+  SelectPaymentPlanRequest,
+  StartApplicationRequest,
+  SubmissionAdapter,
+  SubmissionRequest,
+  SubmissionResult,
+} from './types';
+
+// Statuses worth retrying: the request may not have been processed at all
+export const RETRYABLE_STATUSES = [408, 429, 502, 503, 504];
+
+export interface ErrorResponseBody {
+  message?: string;
+  fieldErrors?: FormError[];
+}
+
+export const readErrorBody = async (response: Response): Promise<ErrorResponseBody> => {
+  try {
+    return await response.json();
+  } catch {
+    return {};
+  }
+};
+
+export const apiUrl = (baseUrl: string, path: string): string => `${baseUrl.replace(/\/$/, '')}${path}`;
+
+// JSON request to the API, with failures turned into ApiError or NetworkError
+export const requestJson = async <T>(url: string, init: RequestInit, fallbackMessage: string): Promise<T> => {
+  let response: Response;
+  try {
+    response = await fetch(url, { ...init, headers: { 'Content-Type': 'application/json', ...init.headers } });
+  } catch {
+    throw new NetworkError();
+  }
+
+  if (RETRYABLE_STATUSES.includes(response.status)) {
+    throw new NetworkError('The server is temporarily unavailable. Please try again.', response.status);
+  }
+
+  if (!response.ok) {
+    const error = await readErrorBody(response);
+    throw new ApiError(error.message || fallbackMessage, {
+      status: response.status,
+      fieldErrors: error.fieldErrors,
+    });
+  }
+
+  return response.json();
+};
+
+// Posts submissions to the HTTP API at `baseUrl`
+export const createHttpAdapter = (baseUrl: string): SubmissionAdapter => ({
+  async submitApplication(request: SubmissionRequest): Promise<SubmissionResult> {
+    // A draft that was paid for first is completed in place
+    const path = request.applicationId
+      ? `/applications/${request.type}/${encodeURIComponent(request.applicationId)}`
+      : `/applications/${request.type}`;
+    const result = await requestJson<{
+      applicationId: string;
+      submittedAt?: string;
+      fee: FeeQuote;
+      status: ApplicationStatus;
+      payLink?: string | null;
+      paymentSchedule?: PaymentSchedule | null;
+    }>(
+      apiUrl(baseUrl, path),
+      {
+        method: request.applicationId ? 'PUT' : 'POST',
+        headers: { 'X-Client-Reference': request.clientReference },
+        // Photos were uploaded beforehand and are referenced by upload ID
+        body: JSON.stringify(request.data),
+      },
+      'Your application could not be submitted.'
+    );
+    return {
+      applicationId: result.applicationId,
+      type: request.type,
+      submittedAt: result.submittedAt ?? new Date().toISOString(),
+      fee: result.fee,
+      status: result.status,
+      payLink: result.payLink ?? null,
+      paymentSchedule: result.paymentSchedule ?? null,
+    };
+  },
+
+  async startApplication({ type, email, country, clientReference }: StartApplicationRequest): Promise<SubmissionResult> {
+    return requestJson<SubmissionResult>(
+      apiUrl(baseUrl, `/applications/${type}/drafts`),
+      { method: 'POST', headers: { 'X-Client-Reference': clientReference }, body: JSON.stringify({ email, country }) },
+      'Your details could not be saved.'
+    );
+  },
+
+  async resumePayment({ applicationId, token }: ResumePaymentRequest): Promise<SubmissionResult> {
+    return requestJson<SubmissionResult>(
+      apiUrl(baseUrl, `/applications/${encodeURIComponent(applicationId)}/pay-link`),
+      { method: 'POST', body: JSON.stringify({ token }) },
+      'This payment link could not be opened.'
+    );
+  },
+
+  async applyPromoCode({ applicationId, code }: ApplyPromoCodeRequest): Promise<FeeQuote> {
+    const result = await requestJson<{ fee: FeeQuote }>(
+      apiUrl(baseUrl, `/applications/${encodeURIComponent(applicationId)}/promo-code`),
+      code === null ? { method: 'DELETE' } : { method: 'PUT', body: JSON.stringify({ code }) },
+      'The code could not be applied.'
+    );
+    return result.fee;
+  },
+
+  async selectPaymentPlan({ applicationId, planId }: SelectPaymentPlanRequest): Promise<PaymentSchedule | null> {
+    const result = await requestJson<{ paymentSchedule: PaymentSchedule | null }>(
+      apiUrl(baseUrl, `/applications/${encodeURIComponent(applicationId)}/payment-plan`),
+      planId === null ? { method: 'DELETE' } : { method: 'PUT', body: JSON.stringify({ planId }) },
+      'The payment plan could not be changed.'
+    );
+    return result.paymentSchedule;
+  },
+
+  async getApplication(applicationId: string): Promise<ApplicationOverview> {
+    return requestJson<ApplicationOverview>(
+      apiUrl(baseUrl, `/applications/${encodeURIComponent(applicationId)}`),
+      { method: 'GET' },
+      'Your application could not be loaded.'
+    );
+  },
+
+  async getReceipts(applicationId: string): Promise<PaymentReceipt[]> {
+    const result = await requestJson<{ receipts: PaymentReceipt[] }>(
+      apiUrl(baseUrl, `/applications/${encodeURIComponent(applicationId)}/receipts`),
+      { method: 'GET' },
+      'Your receipts could not be loaded.'
+    );
+    return result.receipts;
+  },
+});
@@ -0,0 +1,82 @@
+import { isApiError } from './errors';
+import { apiUrl, requestJson } from './httpAdapter';
+import { applicantSession } from './sessions';
+import type {
+  ApplicantAdapter,
+  ApplicantSession,
+  ApplicantSignInRequest,
+  ApplicationPayload,
+  PortalApplication,
+  SubmitChangesRequest,
+  VerifySignInRequest,
+} from './types';
+
+const authorization = (): Record<string, string> => {
+  const token = applicantSession.get()?.token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// A 401 means the session is no longer valid, so the applicant is asked to sign in again
+const withSession = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (error) {
+    if (isApiError(error) && error.status === 401) {
+      applicantSession.set(null);
+    }
+    throw error;
+  }
+};
+
+// The applicant endpoints of the HTTP API at `baseUrl`
+export const createHttpApplicantAdapter = (baseUrl: string): ApplicantAdapter => ({
+  mode: 'http',
+
+  async requestSignIn(request: ApplicantSignInRequest): Promise<void> {
+    await requestJson<unknown>(
+      apiUrl(baseUrl, '/applicant/sign-in'),
+      { method: 'POST', body: JSON.stringify(request) },
+      'The sign-in email could not be sent.'
+    );
+  },
+
+  async verifySignIn(request: VerifySignInRequest): Promise<ApplicantSession> {
+    return requestJson<ApplicantSession>(
+      apiUrl(baseUrl, '/applicant/sessions'),
+      { method: 'POST', body: JSON.stringify(request) },
+      'You could not be signed in.'
+    );
+  },
+
+  async signOut(): Promise<void> {
+    await requestJson<unknown>(
+      apiUrl(baseUrl, '/applicant/sessions/current'),
+      { method: 'DELETE', headers: authorization() },
+      'You could not be signed out.'
+    ).catch(() => undefined);
+  },
+
+  async listApplications(): Promise<PortalApplication[]> {
+    return withSession(() => requestJson<PortalApplication[]>(
+      apiUrl(baseUrl, '/applicant/applications'),
+      { method: 'GET', headers: authorization() },
+      'Your applications could not be loaded.'
+    ));
+  },
+
+  async getAnswers(applicationId: string): Promise<ApplicationPayload> {
+    return withSession(() => requestJson<ApplicationPayload>(
+      apiUrl(baseUrl, `/applicant/applications/${encodeURIComponent(applicationId)}/answers`),
+      { method: 'GET', headers: authorization() },
+      'Your answers could not be loaded.'
+    ));
+  },
+
+  async submitChanges({ applicationId, requestId, answers }: SubmitChangesRequest): Promise<void> {
+    await withSession(() => requestJson<unknown>(
+      apiUrl(baseUrl, `/applicant/applications/${encodeURIComponent(applicationId)}/change-requests/${encodeURIComponent(requestId)}`),
+      { method: 'PUT', headers: authorization(), body: JSON.stringify({ answers }) },
+      'Your changes could not be sent.'
+    ));
+  },
+});
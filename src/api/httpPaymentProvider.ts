@@ -0,0 +1,73 @@
+import { apiUrl, requestJson } from './httpAdapter';
+import { authorization as staffAuthorization, withSession as withStaffSession } from './httpStaffAdapter';
+import type {
+  CreatePaymentIntentRequest,
+  PaymentIntent,
+  PaymentMethodDetails,
+  PaymentProvider,
+  ReconcileTransferRequest,
+} from './types';
+
+// Payments through the HTTP API at `baseUrl`, which charges them with the payment
+// processor and checks every amount against the application it is for. Requests
+// that charge carry their idempotency key, so a retry can't charge twice.
+export const createHttpPaymentProvider = (baseUrl: string): PaymentProvider => ({
+  mode: 'live',
+
+  async createIntent({ idempotencyKey, ...request }: CreatePaymentIntentRequest): Promise<PaymentIntent> {
+    return requestJson<PaymentIntent>(
+      apiUrl(baseUrl, '/payments'),
+      { method: 'POST', headers: { 'Idempotency-Key': idempotencyKey }, body: JSON.stringify(request) },
+      'Your payment could not be started.'
+    );
+  },
+
+  async confirmIntent(intentId: string, method: PaymentMethodDetails, idempotencyKey: string): Promise<PaymentIntent> {
+    return requestJson<PaymentIntent>(
+      apiUrl(baseUrl, `/payments/${encodeURIComponent(intentId)}/confirm`),
+      { method: 'POST', headers: { 'Idempotency-Key': idempotencyKey }, body: JSON.stringify({ method }) },
+      'Your payment could not be processed.'
+    );
+  },
+
+  async retrieveIntent(intentId: string): Promise<PaymentIntent> {
+    return requestJson<PaymentIntent>(
+      apiUrl(baseUrl, `/payments/${encodeURIComponent(intentId)}`),
+      { method: 'GET' },
+      'Your payment could not be loaded.'
+    );
+  },
+
+  async completeAction(intentId: string, approved: boolean): Promise<PaymentIntent> {
+    return requestJson<PaymentIntent>(
+      apiUrl(baseUrl, `/payments/${encodeURIComponent(intentId)}/action`),
+      { method: 'POST', body: JSON.stringify({ approved }) },
+      'Your payment could not be confirmed.'
+    );
+  },
+
+  // Refunds and transfers are handled by signed-in staff
+  async refund(intentId: string, amount?: number): Promise<PaymentIntent> {
+    return withStaffSession(() => requestJson<PaymentIntent>(
+      apiUrl(baseUrl, `/staff/payments/${encodeURIComponent(intentId)}/refunds`),
+      { method: 'POST', headers: staffAuthorization(), body: JSON.stringify({ amount }) },
+      'The payment could not be refunded.'
+    ));
+  },
+
+  async listAwaitingTransfers(): Promise<PaymentIntent[]> {
+    return withStaffSession(() => requestJson<PaymentIntent[]>(
+      apiUrl(baseUrl, '/staff/transfers'),
+      { method: 'GET', headers: staffAuthorization() },
+      'The bank transfers could not be loaded.'
+    ));
+  },
+
+  async reconcileTransfer(request: ReconcileTransferRequest): Promise<PaymentIntent> {
+    return withStaffSession(() => requestJson<PaymentIntent>(
+      apiUrl(baseUrl, '/staff/transfers'),
+      { method: 'POST', headers: staffAuthorization(), body: JSON.stringify(request) },
+      'The transfer could not be recorded.'
+    ));
+  },
+});
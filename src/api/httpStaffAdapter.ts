@@ -0,0 +1,165 @@
+import { ApiError, isApiError, NetworkError } from './errors';
+import { apiUrl, readErrorBody, requestJson, RETRYABLE_STATUSES } from './httpAdapter';
+import { staffSession } from './sessions';
+import type {
+  ApplicationDetail,
+  ApplicationListPage,
+  ApplicationListQuery,
+  AssignJudgesRequest,
+  ChangeStatusRequest,
+  JudgingApplication,
+  JudgingAssignment,
+  RequestChangesRequest,
+  SendMessageRequest,
+  StaffAccount,
+  StaffAdapter,
+  StaffSession,
+  StaffSignInRequest,
+  SubmitScoresRequest,
+} from './types';
+
+export const authorization = (): Record<string, string> => {
+  const token = staffSession.get()?.token;
+  return token ? { Authorization: `Bearer ${token}` } : {};
+};
+
+// A 401 means the session is no longer valid, so staff are asked to sign in again
+export const withSession = async <T>(request: () => Promise<T>): Promise<T> => {
+  try {
+    return await request();
+  } catch (error) {
+    if (isApiError(error) && error.status === 401) {
+      staffSession.set(null);
+    }
+    throw error;
+  }
+};
+
+const toSearchParams = (query: ApplicationListQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  Object.entries(query).forEach(([key, value]) => {
+    if (value !== undefined && value !== '') params.set(key, String(value));
+  });
+  return params;
+};
+
+// The staff endpoints of the HTTP API at `baseUrl`
+export const createHttpStaffAdapter = (baseUrl: string): StaffAdapter => ({
+  mode: 'http',
+
+  async signIn(request: StaffSignInRequest): Promise<StaffSession> {
+    return requestJson<StaffSession>(
+      apiUrl(baseUrl, '/staff/sessions'),
+      { method: 'POST', body: JSON.stringify(request) },
+      'You could not be signed in.'
+    );
+  },
+
+  async signOut(): Promise<void> {
+    await requestJson<unknown>(
+      apiUrl(baseUrl, '/staff/sessions/current'),
+      { method: 'DELETE', headers: authorization() },
+      'You could not be signed out.'
+    ).catch(() => undefined);
+  },
+
+  async listApplications(query: ApplicationListQuery): Promise<ApplicationListPage> {
+    return withSession(() => requestJson<ApplicationListPage>(
+      apiUrl(baseUrl, `/staff/applications?${toSearchParams(query)}`),
+      { method: 'GET', headers: authorization() },
+      'The applications could not be loaded.'
+    ));
+  },
+
+  async getApplicationDetail(applicationId: string): Promise<ApplicationDetail> {
+    return withSession(() => requestJson<ApplicationDetail>(
+      apiUrl(baseUrl, `/staff/applications/${encodeURIComponent(applicationId)}`),
+      { method: 'GET', headers: authorization() },
+      'The application could not be loaded.'
+    ));
+  },
+
+  async changeStatus({ applicationId, status, reason }: ChangeStatusRequest): Promise<ApplicationDetail> {
+    return withSession(() => requestJson<ApplicationDetail>(
+      apiUrl(baseUrl, `/staff/applications/${encodeURIComponent(applicationId)}/status`),
+      { method: 'PUT', headers: authorization(), body: JSON.stringify({ status, reason }) },
+      'The status could not be changed.'
+    ));
+  },
+
+  async sendMessage({ applicationId, body }: SendMessageRequest): Promise<ApplicationDetail> {
+    return withSession(() => requestJson<ApplicationDetail>(
+      apiUrl(baseUrl, `/staff/applications/${encodeURIComponent(applicationId)}/messages`),
+      { method: 'POST', headers: authorization(), body: JSON.stringify({ body }) },
+      'The message could not be sent.'
+    ));
+  },
+
+  async requestChanges({ applicationId, items }: RequestChangesRequest): Promise<ApplicationDetail> {
+    return withSession(() => requestJson<ApplicationDetail>(
+      apiUrl(baseUrl, `/staff/applications/${encodeURIComponent(applicationId)}/change-requests`),
+      { method: 'POST', headers: authorization(), body: JSON.stringify({ items }) },
+      'The changes could not be requested.'
+    ));
+  },
+
+  async listJudges(): Promise<StaffAccount[]> {
+    return withSession(() => requestJson<StaffAccount[]>(
+      apiUrl(baseUrl, '/staff/judges'),
+      { method: 'GET', headers: authorization() },
+      'The judges could not be loaded.'
+    ));
+  },
+
+  async assignJudges({ applicationId, judgeEmails }: AssignJudgesRequest): Promise<ApplicationDetail> {
+    return withSession(() => requestJson<ApplicationDetail>(
+      apiUrl(baseUrl, `/staff/applications/${encodeURIComponent(applicationId)}/judges`),
+      { method: 'PUT', headers: authorization(), body: JSON.stringify({ judgeEmails }) },
+      'The judges could not be assigned.'
+    ));
+  },
+
+  async listAssignments(): Promise<JudgingAssignment[]> {
+    return withSession(() => requestJson<JudgingAssignment[]>(
+      apiUrl(baseUrl, '/staff/judging/assignments'),
+      { method: 'GET', headers: authorization() },
+      'Your assignments could not be loaded.'
+    ));
+  },
+
+  async getAssignment(applicationId: string): Promise<JudgingApplication> {
+    return withSession(() => requestJson<JudgingApplication>(
+      apiUrl(baseUrl, `/staff/judging/assignments/${encodeURIComponent(applicationId)}`),
+      { method: 'GET', headers: authorization() },
+      'The application could not be loaded.'
+    ));
+  },
+
+  async submitScores({ applicationId, scores, comments }: SubmitScoresRequest): Promise<JudgingApplication> {
+    return withSession(() => requestJson<JudgingApplication>(
+      apiUrl(baseUrl, `/staff/judging/assignments/${encodeURIComponent(applicationId)}/scores`),
+      { method: 'PUT', headers: authorization(), body: JSON.stringify({ scores, comments }) },
+      'Your scores could not be sent.'
+    ));
+  },
+
+  async getPhoto(uploadId: string): Promise<Blob> {
+    return withSession(async () => {
+      let response: Response;
+      try {
+        response = await fetch(apiUrl(baseUrl, `/staff/uploads/${encodeURIComponent(uploadId)}`), { headers: authorization() });
+      } catch {
+        throw new NetworkError();
+      }
+
+      if (RETRYABLE_STATUSES.includes(response.status)) {
+        throw new NetworkError('The server is temporarily unavailable. Please try again.', response.status);
+      }
+      if (!response.ok) {
+        const error = await readErrorBody(response);
+        throw new ApiError(error.message || 'The photo could not be loaded.', { status: response.status });
+      }
+      return response.blob();
+    });
+  },
+});
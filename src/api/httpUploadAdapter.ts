@@ -0,0 +1,82 @@
+import { ApiError, isApiError, NetworkError, RequestCancelledError } from './errors';
+import { apiUrl, requestJson, RETRYABLE_STATUSES } from './httpAdapter';
+import type { StartUploadRequest, UploadAdapter, UploadChunkRequest, UploadSession } from './types';
+
+const UPLOAD_FAILED_MESSAGE = 'Your photo could not be uploaded.';
+
+// Chunks go through XMLHttpRequest because fetch does not report upload progress
+const sendChunk = (url: string, { offset, chunk, totalSize, signal, onProgress }: UploadChunkRequest): Promise<UploadSession> => {
+  return new Promise((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open('PUT', url);
+    xhr.setRequestHeader('Content-Type', 'application/octet-stream');
+    xhr.setRequestHeader('Content-Range', `bytes ${offset}-${offset + chunk.size - 1}/${totalSize}`);
+
+    const onAbort = () => xhr.abort();
+    signal?.addEventListener('abort', onAbort);
+    const cleanup = () => signal?.removeEventListener('abort', onAbort);
+
+    xhr.upload.onprogress = (event) => onProgress?.(event.loaded);
+    xhr.onabort = () => {
+      cleanup();
+      reject(new RequestCancelledError());
+    };
+    xhr.onerror = () => {
+      cleanup();
+      reject(new NetworkError());
+    };
+    xhr.onload = () => {
+      cleanup();
+      if (RETRYABLE_STATUSES.includes(xhr.status)) {
+        reject(new NetworkError('The server is temporarily unavailable. Please try again.', xhr.status));
+      } else if (xhr.status < 200 || xhr.status >= 300) {
+        reject(new ApiError(UPLOAD_FAILED_MESSAGE, { status: xhr.status }));
+      } else {
+        resolve(JSON.parse(xhr.responseText));
+      }
+    };
+
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    xhr.send(chunk);
+  });
+};
+
+// Resumable uploads against the HTTP API at `baseUrl`
+export const createHttpUploadAdapter = (baseUrl: string): UploadAdapter => ({
+  async startUpload(request: StartUploadRequest): Promise<UploadSession> {
+    return requestJson<UploadSession>(
+      apiUrl(baseUrl, '/uploads'),
+      { method: 'POST', body: JSON.stringify(request) },
+      UPLOAD_FAILED_MESSAGE
+    );
+  },
+
+  // Resolves with null for an upload the server no longer has, so it is started again
+  async getUpload(uploadId: string): Promise<UploadSession | null> {
+    try {
+      return await requestJson<UploadSession>(
+        apiUrl(baseUrl, `/uploads/${encodeURIComponent(uploadId)}`),
+        { method: 'GET' },
+        UPLOAD_FAILED_MESSAGE
+      );
+    } catch (error) {
+      if (isApiError(error) && error.status === 404) return null;
+      throw error;
+    }
+  },
+
+  uploadChunk(request: UploadChunkRequest): Promise<UploadSession> {
+    return sendChunk(apiUrl(baseUrl, `/uploads/${encodeURIComponent(request.uploadId)}`), request);
+  },
+
+  async completeUpload(uploadId: string): Promise<UploadSession> {
+    return requestJson<UploadSession>(
+      apiUrl(baseUrl, `/uploads/${encodeURIComponent(uploadId)}/complete`),
+      { method: 'POST' },
+      UPLOAD_FAILED_MESSAGE
+    );
+  },
+});
@@ -0,0 +1,94 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { putMockSubmission, QUOTE_DATE, resetMockStores } from '@/test/mockRecords';
+import { calculateFee } from '@/utils/feeSchedule';
+import { buildPaymentSchedule, findInstallmentPlan } from '@/utils/installmentPlans';
+import { createMockAdapter, MockSubmissionRecord } from './mockAdapter';
+import { isApiError } from './errors';
+import { getAllMockRecords, getMockRecord, MOCK_STORES } from './mockStore';
+
+const adapter = createMockAdapter({ latency: 0 });
+
+const getSubmission = (applicationId: string) => getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, applicationId);
+
+// The error a call was turned down with
+const rejectionOf = async (call: Promise<unknown>) => {
+  const error = await call.then(() => null, (reason: unknown) => reason);
+  if (!isApiError(error)) throw new Error('Expected the call to be turned down');
+  return error;
+};
+
+describe('applyPromoCode', () => {
+  beforeEach(resetMockStores);
+
+  const putKenyan = () => putMockSubmission({ fee: calculateFee('participant', 'Kenya', QUOTE_DATE) });
+
+  it('discounts the stored fee', async () => {
+    const record = await putKenyan();
+    const fee = await adapter.applyPromoCode({ applicationId: record.applicationId, code: 'kenya-half' });
+
+    expect(fee.total).toBe(6000);
+    expect(await getSubmission(record.applicationId)).toMatchObject({ fee, promoCode: 'KENYA-HALF', paymentStatus: 'unpaid' });
+  });
+
+  it('replaces an earlier code instead of adding to it, and removes it again', async () => {
+    const record = await putMockSubmission({ fee: calculateFee('director', 'France', QUOTE_DATE), type: 'director' });
+    await adapter.applyPromoCode({ applicationId: record.applicationId, code: 'DIRECTORS50' });
+    const again = await adapter.applyPromoCode({ applicationId: record.applicationId, code: 'DIRECTORS50' });
+    expect(again.total).toBe(20000);
+
+    const removed = await adapter.applyPromoCode({ applicationId: record.applicationId, code: null });
+    expect(removed.total).toBe(25000);
+    expect((await getSubmission(record.applicationId)).promoCode).toBeNull();
+  });
+
+  it('drops the payment plan chosen for the old total', async () => {
+    const base = await putKenyan();
+    const record = await putMockSubmission({ fee: base.fee, paymentSchedule: buildPaymentSchedule(findInstallmentPlan('deposit-2'), base.fee) });
+    await adapter.applyPromoCode({ applicationId: record.applicationId, code: 'KENYA-HALF' });
+    expect((await getSubmission(record.applicationId)).paymentSchedule).toBeNull();
+  });
+
+  it('marks a fee covered by a voucher as paid without a payment', async () => {
+    const record = await putMockSubmission({ fee: calculateFee('participant', 'Ghana', QUOTE_DATE) });
+    const fee = await adapter.applyPromoCode({ applicationId: record.applicationId, code: 'GHANA-SPONSOR' });
+
+    expect(fee.total).toBe(0);
+    const stored = await getSubmission(record.applicationId);
+    expect(stored).toMatchObject({ paymentStatus: 'paid', status: 'submitted' });
+    expect(stored.statusHistory.at(-1)).toMatchObject({ from: 'pending_payment', to: 'submitted', reason: 'The fee was covered by a voucher.' });
+    expect(await getAllMockRecords(MOCK_STORES.payments)).toEqual([]);
+  });
+
+  it('turns down a code that does not exist', async () => {
+    const record = await putKenyan();
+    const error = await rejectionOf(adapter.applyPromoCode({ applicationId: record.applicationId, code: 'NOPE' }));
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors).toEqual([{ field: 'promoCode', message: 'This code is not valid' }]);
+  });
+
+  it('turns down a code once other applications have used it up', async () => {
+    const fee = calculateFee('participant', 'Ghana', QUOTE_DATE);
+    for (let i = 0; i < 5; i++) {
+      await putMockSubmission({ applicationId: `MB-P-2027-USED0${i}`, fee, promoCode: 'GHANA-SPONSOR', paymentStatus: 'paid' });
+    }
+    const record = await putMockSubmission({ fee });
+
+    const error = await rejectionOf(adapter.applyPromoCode({ applicationId: record.applicationId, code: 'GHANA-SPONSOR' }));
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors[0].message).toBe('This code has already been used the maximum number of times');
+  });
+
+  it('does not count the application\'s own use of a code', async () => {
+    const fee = calculateFee('participant', 'Kenya', QUOTE_DATE);
+    for (let i = 0; i < 9; i++) {
+      await putMockSubmission({ applicationId: `MB-P-2027-USED0${i}`, fee, promoCode: 'KENYA-HALF' });
+    }
+    const record = await putMockSubmission({ fee, promoCode: 'KENYA-HALF' });
+    expect((await adapter.applyPromoCode({ applicationId: record.applicationId, code: 'KENYA-HALF' })).total).toBe(6000);
+  });
+
+  it('turns down codes once the fee has been paid', async () => {
+    const record = await putMockSubmission({ paymentStatus: 'paid', status: 'submitted' });
+    expect((await rejectionOf(adapter.applyPromoCode({ applicationId: record.applicationId, code: 'BLOOM10' }))).status).toBe(409);
+  });
+});
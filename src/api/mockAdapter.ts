@@ -0,0 +1,474 @@
+import { photoFields, validateEmail, FormError } from '@/utils/formUtils';
+import { validateForm } from '@/utils/formDefinition';
+import { participantForm, ParticipantFormValues } from '@/utils/participantForm';
+import { directorForm } from '@/utils/directorForm';
+import { ApplicationType, payLinkPath } from '@/utils/applicationFlow';
+import { calculateFee, FeeQuote, getPaymentTiming } from '@/utils/feeSchedule';
+import { applyPromoCode, findPromoCode, getPromoCodeError, normalizePromoCode } from '@/utils/promoCodes';
+import { buildPaymentSchedule, findInstallmentPlan, getAvailablePlans, getPaidAmount, getUpcomingInstallments, PaymentSchedule } from '@/utils/installmentPlans';
+import { buildReceipt } from '@/utils/receipts';
+import { ApiError } from './errors';
+import { absoluteLink, sendMockMail } from './mockMailbox';
+import { createIdempotencyGuard, getAllMockRecords, getMockRecord, putMockRecord, MOCK_STORES } from './mockStore';
+import type { MockUploadRecord } from './mockUploadAdapter';
+import type {
+  ApplicationOverview,
+  ApplicationPayload,
+  ApplicationPaymentStatus,
+  ApplicationStatus,
+  ApplicationRevision,
+  ApplyPromoCodeRequest,
+  ChangeRequest,
+  PaymentIntent,
+  PaymentReceipt,
+  ResumePaymentRequest,
+  ScoreSheet,
+  SelectPaymentPlanRequest,
+  StartApplicationRequest,
+  StatusActor,
+  StaffMessage,
+  StatusChange,
+  SubmissionAdapter,
+  SubmissionRequest,
+  SubmissionResult,
+} from './types';
+
+// A submission as kept by the mock backend
+export interface MockSubmissionRecord {
+  applicationId: string;
+  type: ApplicationType;
+  clientReference: string;
+  submittedAt: string;
+  email: string;
+  data: SubmissionRequest['data'] | null; // null until the form of a draft is submitted
+  fee: FeeQuote;
+  promoCode: string | null; // Redeemed promo or voucher code
+  paymentSchedule: PaymentSchedule | null; // Set when paying in installments
+  paymentStatus: ApplicationPaymentStatus; // Kept up to date by the sandbox payment provider
+  status: ApplicationStatus;
+  statusHistory: StatusChange[]; // Oldest first
+  messages: StaffMessage[]; // From staff to the applicant, oldest first
+  changeRequests: ChangeRequest[]; // Oldest first
+  revisions: ApplicationRevision[]; // Every submission of `data`, oldest first
+  judges: string[]; // Email addresses of the judges assigned to score it
+  scoreSheets: ScoreSheet[]; // One per judge who has scored it
+  payToken: string; // Proves a pay link was issued by us
+}
+
+interface MockAdapterOptions {
+  latency?: number; // Simulated round-trip time in milliseconds
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateApplicationId = (type: ApplicationType): string => {
+  const prefix = type === 'participant' ? 'P' : 'D';
+  const random = Math.random().toString(36).slice(2, 8).toUpperCase().padEnd(6, '0');
+  return `MB-${prefix}-${new Date().getFullYear()}-${random}`;
+};
+
+const generatePayToken = (): string => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const getSubmissionEmail = (request: ApplicationPayload): string => {
+  return request.type === 'participant' ? request.data.formData.email : request.data.email;
+};
+
+const getSubmissionName = (request: SubmissionRequest): string => {
+  return request.type === 'participant' ? request.data.formData.fullName : request.data.fullName;
+};
+
+export const getApplicantName = ({ data, email }: MockSubmissionRecord): string => {
+  if (!data) return email;
+  return 'formData' in data ? data.formData.fullName : data.fullName;
+};
+
+export const isEmailTaken = (records: MockSubmissionRecord[], type: ApplicationType, email: string, exceptId?: string): boolean => {
+  return records.some(record => record.type === type && record.email === email && record.applicationId !== exceptId);
+};
+
+// An application pending payment counts as submitted once its fee, or the first installment of it, is paid
+export const getStatusAfterPayment = (status: ApplicationStatus, paymentStatus: ApplicationPaymentStatus): ApplicationStatus => {
+  return status === 'pending_payment' && (paymentStatus === 'paid' || paymentStatus === 'partially_paid') ? 'submitted' : status;
+};
+
+export const paymentActor: StatusActor = { kind: 'system', name: 'Payments' };
+
+// Move a record to another status, noting who moved it, when and why
+export const withStatus = (
+  record: MockSubmissionRecord,
+  status: ApplicationStatus,
+  actor: StatusActor,
+  reason: string | null = null
+): MockSubmissionRecord => {
+  if (record.status === status) return record;
+  const change: StatusChange = { from: record.status ?? null, to: status, at: new Date().toISOString(), actor, reason };
+  return { ...record, status, statusHistory: [...(record.statusHistory ?? []), change] };
+};
+
+// Applicants see that the team made a change, but not who or why
+const toApplicantHistory = (history: StatusChange[]): StatusChange[] => {
+  return history.map(change => change.actor.kind === 'staff'
+    ? { ...change, actor: { kind: 'staff', name: 'Miss Bloom team' }, reason: null }
+    : change);
+};
+
+const toSubmissionResult = (record: MockSubmissionRecord): SubmissionResult => ({
+  applicationId: record.applicationId,
+  type: record.type,
+  submittedAt: record.submittedAt,
+  fee: record.fee,
+  status: record.status,
+  payLink: (record.status === 'draft' || record.status === 'pending_payment') && record.paymentStatus === 'unpaid'
+    ? payLinkPath(record.applicationId, record.payToken)
+    : null,
+  paymentSchedule: record.paymentSchedule ?? null,
+});
+
+// What the applicant is shown of their application
+export const toApplicationOverview = (record: MockSubmissionRecord): ApplicationOverview => ({
+  applicationId: record.applicationId,
+  type: record.type,
+  submittedAt: record.submittedAt,
+  fee: record.fee,
+  status: record.status,
+  statusHistory: toApplicantHistory(record.statusHistory ?? []),
+  paymentStatus: record.paymentStatus ?? 'unpaid',
+  paymentSchedule: record.paymentSchedule ?? null,
+  amountPaid: getAmountPaid(record),
+  balance: getBalance(record),
+});
+
+// Tell the applicant their application arrived, and where to follow it and pay for it
+const sendConfirmationMail = async (record: MockSubmissionRecord): Promise<void> => {
+  const { payLink } = toSubmissionResult(record);
+  const links = [{ label: 'Check your application', href: absoluteLink('/status') }];
+  if (payLink) {
+    links.push({ label: 'Pay the application fee', href: absoluteLink(payLink) });
+  }
+
+  await sendMockMail({
+    to: record.email,
+    subject: `We received your application ${record.applicationId}`,
+    body: [
+      `Dear ${getApplicantName(record)},`,
+      `Thank you for applying to Miss Bloom. Your application number is ${record.applicationId}.`,
+      payLink
+        ? 'Your application will be reviewed once the application fee has been paid.'
+        : 'Our team will be in touch once your application has been reviewed.',
+      'You can follow your application at any time by signing in with this email address.',
+    ].join('\n\n'),
+    links,
+  });
+};
+
+// Fees are set by the applicant's country of residence
+export const getSubmissionCountry = (request: ApplicationPayload): string => {
+  return request.type === 'participant' ? request.data.formData.country : request.data.country;
+};
+
+export const getRecordOrThrow = async (applicationId: string): Promise<MockSubmissionRecord> => {
+  const record = await getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, applicationId);
+  if (!record) {
+    throw new ApiError('Application not found.', { status: 404 });
+  }
+  return record;
+};
+
+// The fee can only be changed before anything has been paid towards it
+const assertUnpaid = (record: MockSubmissionRecord) => {
+  if ((record.paymentStatus ?? 'unpaid') !== 'unpaid') {
+    throw new ApiError('The fee for this application has already been paid.', { status: 409 });
+  }
+};
+
+// A pay link also pays the rest of an installment plan that has been started
+const assertOwing = (record: MockSubmissionRecord) => {
+  if (record.paymentStatus === 'partially_paid' && record.paymentSchedule && getUpcomingInstallments(record.paymentSchedule).length > 0) return;
+  assertUnpaid(record);
+};
+
+// Paying in full settles the fee even if a plan had been chosen before
+export const getAmountPaid = (record: MockSubmissionRecord): number => {
+  if (record.paymentStatus === 'paid') return record.fee.total;
+  return record.paymentSchedule ? getPaidAmount(record.paymentSchedule) : 0;
+};
+
+// A refunded fee is no longer owed
+export const getBalance = (record: MockSubmissionRecord): number => {
+  return record.paymentStatus === 'refunded' ? 0 : record.fee.total - getAmountPaid(record);
+};
+
+// Run the same checks a real server would, reusing the client-side rules
+export const validateSubmission = async (request: ApplicationPayload): Promise<FormError[]> => {
+  if (request.type === 'participant') {
+    const { formData, agreeTerms } = request.data;
+    // Photos arrive as upload IDs rather than files; the form only requires them to be present
+    const errors = validateForm(participantForm, { ...formData, agreeTerms } as unknown as ParticipantFormValues);
+
+    // Photos must reference uploads that were completed
+    for (const field of photoFields) {
+      const uploadId = formData[field];
+      if (!uploadId) continue;
+      const upload = await getMockRecord<MockUploadRecord>(MOCK_STORES.uploads, uploadId);
+      if (!upload?.complete) {
+        errors.push({ field, message: 'This photo was not received. Please upload it again.' });
+      }
+    }
+    return errors;
+  }
+
+  return validateForm(directorForm, request.data);
+};
+
+const createAdapter = (latency: number): SubmissionAdapter => ({
+  async submitApplication(request: SubmissionRequest): Promise<SubmissionResult> {
+    await delay(latency);
+
+    const existing = await getAllMockRecords<MockSubmissionRecord>(MOCK_STORES.submissions);
+
+    // A retry of a request that already went through gets the original result back
+    const previous = existing.find(record => record.clientReference === request.clientReference);
+    if (previous) {
+      return toSubmissionResult(previous);
+    }
+
+    // When the fee is paid first, the form completes the draft that was paid for
+    const draft = request.applicationId ? await getRecordOrThrow(request.applicationId) : null;
+    if (draft && (draft.type !== request.type || draft.status !== 'draft')) {
+      throw new ApiError('This application has already been submitted.', { status: 409 });
+    }
+    if (draft ? draft.paymentStatus === 'unpaid' : getPaymentTiming(request.type) === 'pay-first') {
+      throw new ApiError('Please pay the application fee before submitting your application.', { status: 409 });
+    }
+
+    const fieldErrors = await validateSubmission(request);
+    const email = getSubmissionEmail(request).trim().toLowerCase();
+    if (isEmailTaken(existing, request.type, email, draft?.applicationId)) {
+      fieldErrors.push({ field: 'email', message: 'An application with this email address has already been submitted' });
+    }
+    if (draft && getSubmissionCountry(request).trim().toLowerCase() !== draft.fee.country.toLowerCase()) {
+      fieldErrors.push({ field: 'country', message: `This must be the country your fee was paid for (${draft.fee.country})` });
+    }
+    if (fieldErrors.length > 0) {
+      throw new ApiError('Some of your answers need attention.', { status: 422, fieldErrors });
+    }
+
+    const fee = draft?.fee ?? calculateFee(request.type, getSubmissionCountry(request));
+    if (!fee) {
+      throw new ApiError('Applications are closed for this season.', { status: 409 });
+    }
+
+    const submittedAt = new Date().toISOString();
+    const submission = {
+      clientReference: request.clientReference,
+      submittedAt,
+      email,
+      data: request.data,
+      revisions: [{ revision: 1, submittedAt, requestId: null, changes: [] }],
+    };
+    // Unpaid applications are kept as pending payment, to be paid from their pay link
+    const applicant: StatusActor = { kind: 'applicant', name: getSubmissionName(request) };
+    const record: MockSubmissionRecord = draft
+      ? withStatus({ ...draft, ...submission }, getStatusAfterPayment('pending_payment', draft.paymentStatus), applicant)
+      : {
+        ...submission,
+        applicationId: generateApplicationId(request.type),
+        type: request.type,
+        fee,
+        promoCode: null,
+        paymentSchedule: null,
+        paymentStatus: 'unpaid',
+        status: 'pending_payment',
+        statusHistory: [{ from: null, to: 'pending_payment', at: submittedAt, actor: applicant, reason: null }],
+        messages: [],
+        changeRequests: [],
+        judges: [],
+        scoreSheets: [],
+        payToken: generatePayToken(),
+      };
+    await putMockRecord(MOCK_STORES.submissions, record.applicationId, record);
+    await sendConfirmationMail(record);
+
+    return toSubmissionResult(record);
+  },
+
+  async startApplication({ type, email, country, clientReference }: StartApplicationRequest): Promise<SubmissionResult> {
+    await delay(latency);
+
+    const existing = await getAllMockRecords<MockSubmissionRecord>(MOCK_STORES.submissions);
+    const previous = existing.find(record => record.clientReference === clientReference);
+    if (previous) {
+      return toSubmissionResult(previous);
+    }
+
+    if (getPaymentTiming(type) !== 'pay-first') {
+      throw new ApiError('The fee for this application is paid after the form has been submitted.', { status: 409 });
+    }
+
+    const normalizedEmail = email.trim().toLowerCase();
+    const fieldErrors: FormError[] = [];
+    if (!validateEmail(normalizedEmail)) {
+      fieldErrors.push({ field: 'email', message: 'Please enter a valid email address' });
+    } else if (isEmailTaken(existing, type, normalizedEmail)) {
+      fieldErrors.push({ field: 'email', message: 'An application with this email address has already been submitted' });
+    }
+    if (!country.trim()) {
+      fieldErrors.push({ field: 'country', message: 'Country is required' });
+    }
+    if (fieldErrors.length > 0) {
+      throw new ApiError('Some of your answers need attention.', { status: 422, fieldErrors });
+    }
+
+    const fee = calculateFee(type, country);
+    if (!fee) {
+      throw new ApiError('Applications are closed for this season.', { status: 409 });
+    }
+
+    const submittedAt = new Date().toISOString();
+    const record: MockSubmissionRecord = {
+      applicationId: generateApplicationId(type),
+      type,
+      clientReference,
+      submittedAt,
+      email: normalizedEmail,
+      data: null,
+      fee,
+      promoCode: null,
+      paymentSchedule: null,
+      paymentStatus: 'unpaid',
+      status: 'draft',
+      statusHistory: [{ from: null, to: 'draft', at: submittedAt, actor: { kind: 'applicant', name: normalizedEmail }, reason: null }],
+      messages: [],
+      changeRequests: [],
+      revisions: [],
+      judges: [],
+      scoreSheets: [],
+      payToken: generatePayToken(),
+    };
+    await putMockRecord(MOCK_STORES.submissions, record.applicationId, record);
+
+    return toSubmissionResult(record);
+  },
+
+  async resumePayment({ applicationId, token }: ResumePaymentRequest): Promise<SubmissionResult> {
+    await delay(latency / 2);
+
+    const record = await getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, applicationId);
+    if (!record || record.payToken !== token) {
+      throw new ApiError('This payment link is not valid. Please check that you copied all of it.', { status: 404 });
+    }
+    if (record.status === 'withdrawn') {
+      throw new ApiError('This application has been withdrawn.', { status: 409 });
+    }
+    assertOwing(record);
+
+    return toSubmissionResult(record);
+  },
+
+  async applyPromoCode({ applicationId, code }: ApplyPromoCodeRequest): Promise<FeeQuote> {
+    await delay(latency / 2);
+
+    const record = await getRecordOrThrow(applicationId);
+    assertUnpaid(record);
+
+    // Start again from the schedule as it stood at submission, so codes replace rather than stack
+    const baseFee = calculateFee(record.type, record.fee.country, new Date(record.fee.quotedAt));
+    if (!baseFee) {
+      throw new ApiError('Applications are closed for this season.', { status: 409 });
+    }
+
+    let fee = baseFee;
+    if (code !== null) {
+      const promo = findPromoCode(code);
+      if (!promo) {
+        throw new ApiError('This code is not valid.', { status: 422, fieldErrors: [{ field: 'promoCode', message: 'This code is not valid' }] });
+      }
+
+      const submissions = await getAllMockRecords<MockSubmissionRecord>(MOCK_STORES.submissions);
+      const redemptions = submissions.filter(other =>
+        other.applicationId !== applicationId && other.promoCode === normalizePromoCode(code)
+      ).length;
+      const promoError = getPromoCodeError(promo, { applicationType: record.type, country: record.fee.country, redemptions });
+      if (promoError) {
+        throw new ApiError(`${promoError}.`, { status: 422, fieldErrors: [{ field: 'promoCode', message: promoError }] });
+      }
+      fee = applyPromoCode(baseFee, promo);
+    }
+
+    // A voucher covering the whole fee leaves nothing to collect
+    const paymentStatus: ApplicationPaymentStatus = fee.total === 0 ? 'paid' : 'unpaid';
+    const updated: MockSubmissionRecord = {
+      ...record,
+      fee,
+      promoCode: fee.promoCode ?? null,
+      // The schedule was worked out for the old total, so the plan has to be chosen again
+      paymentSchedule: null,
+      paymentStatus,
+    };
+    await putMockRecord(
+      MOCK_STORES.submissions,
+      applicationId,
+      withStatus(updated, getStatusAfterPayment(record.status, paymentStatus), paymentActor, 'The fee was covered by a voucher.')
+    );
+    return fee;
+  },
+
+  async selectPaymentPlan({ applicationId, planId }: SelectPaymentPlanRequest): Promise<PaymentSchedule | null> {
+    await delay(latency / 2);
+
+    const record = await getRecordOrThrow(applicationId);
+    assertUnpaid(record);
+
+    let paymentSchedule: PaymentSchedule | null = null;
+    if (planId !== null) {
+      const plan = findInstallmentPlan(planId);
+      if (!plan || !getAvailablePlans(record.fee).includes(plan)) {
+        throw new ApiError('This payment plan is not available for your application.', { status: 422 });
+      }
+      paymentSchedule = buildPaymentSchedule(plan, record.fee);
+    }
+
+    await putMockRecord(MOCK_STORES.submissions, applicationId, { ...record, paymentSchedule });
+    return paymentSchedule;
+  },
+
+  async getApplication(applicationId: string): Promise<ApplicationOverview> {
+    await delay(latency / 2);
+
+    return toApplicationOverview(await getRecordOrThrow(applicationId));
+  },
+
+  async getReceipts(applicationId: string): Promise<PaymentReceipt[]> {
+    await delay(latency / 2);
+
+    const record = await getRecordOrThrow(applicationId);
+    const payments = await getAllMockRecords<PaymentIntent>(MOCK_STORES.payments);
+    return payments
+      .filter(intent => intent.applicationId === applicationId && intent.paidAt)
+      .sort((a, b) => a.paidAt.localeCompare(b.paidAt))
+      .map((intent, index) => buildReceipt({
+        intent,
+        sequence: index + 1,
+        applicationType: record.type,
+        applicant: { name: getApplicantName(record), email: record.email },
+        fee: record.fee,
+        schedule: record.paymentSchedule ?? null,
+      }));
+  },
+});
+
+// In-browser stand-in for the submissions API, used in development and tests
+export const createMockAdapter = ({ latency = 800 }: MockAdapterOptions = {}): SubmissionAdapter => {
+  const adapter = createAdapter(latency);
+  // A duplicate that arrives while the first request is still being processed
+  // waits for its result, as it would behind a lock on the client reference
+  const withIdempotency = createIdempotencyGuard();
+
+  return {
+    ...adapter,
+    submitApplication: request => withIdempotency(`submit:${request.clientReference}`, () => adapter.submitApplication(request)),
+    startApplication: request => withIdempotency(`start:${request.clientReference}`, () => adapter.startApplication(request)),
+  };
+};
@@ -0,0 +1,148 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { putMockSubmission, QUOTE_DATE, resetMockStores } from '@/test/mockRecords';
+import { calculateFee } from '@/utils/feeSchedule';
+import { AnswerValues, toAnswerValues, toApplicationPayload } from '@/utils/changeRequests';
+import { createMockApplicantAdapter } from './mockApplicantAdapter';
+import { isApiError } from './errors';
+import { getMockRecord, MOCK_STORES, putMockRecord } from './mockStore';
+import { applicantSession } from './sessions';
+import type { MockSubmissionRecord } from './mockAdapter';
+import type { ApplicantSession, ApplicationPayload, ChangeRequest, ChangeRequestItem } from './types';
+
+const adapter = createMockApplicantAdapter({ latency: 0 });
+
+const email = 'applicant@example.com';
+
+const signIn = async () => {
+  const session: ApplicantSession = { token: 'test-session', email, expiresAt: new Date(Date.now() + 60 * 60 * 1000).toISOString() };
+  await putMockRecord(MOCK_STORES.applicantSessions, session.token, session);
+  applicantSession.set(session);
+};
+
+// The error a call was turned down with
+const rejectionOf = async (call: Promise<unknown>) => {
+  const error = await call.then(() => null, (reason: unknown) => reason);
+  if (!isApiError(error)) throw new Error('Expected the call to be turned down');
+  return error;
+};
+
+const directorAnswers: AnswerValues = {
+  fullName: 'Ana Silva',
+  email,
+  phone: '+33 6 12 34 56 78',
+  country: 'France',
+  city: 'Lyon',
+  workExperience: 'Ran the regional pageant for five years',
+  education: 'Business school',
+  skills: 'Events',
+  motivation: 'To grow the pageant in my country',
+  goals: 'Ten delegates from every region',
+  strategy: 'Partner with schools, universities and local sponsors in every region',
+  agreeToTerms: true,
+  agreeToConfidentiality: true,
+  dateOfBirth: '1990-04-02',
+  bio: 'Organizer',
+  socialMedia: '@ana',
+  countryOverview: '',
+  culturalInfo: '',
+};
+
+const changeRequest = (items: ChangeRequestItem[]): ChangeRequest => ({
+  requestId: 'request-1',
+  requestedAt: QUOTE_DATE.toISOString(),
+  requestedBy: 'Staff Member',
+  items,
+  resolvedAt: null,
+});
+
+// A submitted director application with the team waiting for changes to `items`
+const putAskedForChanges = (items: ChangeRequestItem[]) => putMockSubmission({
+  applicationId: 'MB-D-2027-TEST01',
+  type: 'director',
+  fee: calculateFee('director', 'France', QUOTE_DATE),
+  status: 'submitted',
+  paymentStatus: 'paid',
+  data: toApplicationPayload('director', directorAnswers).data,
+  changeRequests: [changeRequest(items)],
+});
+
+const getAnswersOf = async (applicationId: string) => {
+  const record = await getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, applicationId);
+  return { record, answers: toAnswerValues({ type: record.type, data: record.data } as ApplicationPayload) };
+};
+
+describe('submitChanges', () => {
+  beforeEach(async () => {
+    await resetMockStores();
+    await signIn();
+  });
+
+  it('saves the reopened answers as a new revision listing what changed', async () => {
+    const record = await putAskedForChanges([{ sectionId: 'contact', field: null, note: 'Please check your details' }]);
+
+    await adapter.submitChanges({
+      applicationId: record.applicationId,
+      requestId: 'request-1',
+      answers: { fullName: 'Ana Silva', phone: '+33 6 98 76 54 32', city: 'Paris' },
+    });
+
+    const { record: saved, answers } = await getAnswersOf(record.applicationId);
+    expect(answers).toMatchObject({ phone: '+33 6 98 76 54 32', city: 'Paris', skills: 'Events' });
+    expect(saved.changeRequests[0].resolvedAt).not.toBeNull();
+    expect(saved.revisions.map(revision => revision.requestId)).toEqual([null, 'request-1']);
+    expect(saved.revisions[1]).toMatchObject({
+      revision: 2,
+      changes: [
+        { field: 'phone', before: '+33 6 12 34 56 78', after: '+33 6 98 76 54 32' },
+        { field: 'city', before: 'Lyon', after: 'Paris' },
+      ],
+    });
+  });
+
+  it('turns down answers the request did not reopen, and keeps the application as it was', async () => {
+    const record = await putAskedForChanges([{ sectionId: 'profile', field: 'bio', note: 'Please say more' }]);
+
+    const error = await rejectionOf(adapter.submitChanges({
+      applicationId: record.applicationId,
+      requestId: 'request-1',
+      answers: { bio: 'Organizer of ten pageants', skills: 'Everything' },
+    }));
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors).toEqual([{ field: 'skills', message: 'This answer can no longer be changed' }]);
+
+    const { record: saved, answers } = await getAnswersOf(record.applicationId);
+    expect(answers).toMatchObject({ bio: 'Organizer', skills: 'Events' });
+    expect(saved.changeRequests[0].resolvedAt).toBeNull();
+    expect(saved.revisions).toEqual([]);
+  });
+
+  it('turns down a new email address or country even when their section was reopened', async () => {
+    const record = await putAskedForChanges([{ sectionId: 'contact', field: null, note: 'Please check your details' }]);
+
+    const error = await rejectionOf(adapter.submitChanges({
+      applicationId: record.applicationId,
+      requestId: 'request-1',
+      answers: { email: 'someone@example.com', country: 'India', city: 'Paris' },
+    }));
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors.map(fieldError => fieldError.field)).toEqual(['email', 'country']);
+  });
+
+  it('checks the changed answers like a new application', async () => {
+    const record = await putAskedForChanges([{ sectionId: 'contact', field: 'city', note: 'Please check your city' }]);
+
+    const error = await rejectionOf(adapter.submitChanges({ applicationId: record.applicationId, requestId: 'request-1', answers: { city: '' } }));
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors.map(fieldError => fieldError.field)).toEqual(['city']);
+  });
+
+  it('turns down changes to a request that was already answered', async () => {
+    const record = await putAskedForChanges([{ sectionId: 'contact', field: 'city', note: 'Please check your city' }]);
+    await adapter.submitChanges({ applicationId: record.applicationId, requestId: 'request-1', answers: { city: 'Paris' } });
+
+    const error = await rejectionOf(adapter.submitChanges({ applicationId: record.applicationId, requestId: 'request-1', answers: { city: 'Nice' } }));
+    expect(error.status).toBe(409);
+    expect((await getAnswersOf(record.applicationId)).answers.city).toBe('Paris');
+  });
+});
@@ -0,0 +1,295 @@
+import { payLinkPath } from '@/utils/applicationFlow';
+import { diffAnswers, getApplicationForm, getReopenedFields, toAnswerValues, toApplicationPayload } from '@/utils/changeRequests';
+import { formatPaymentReference } from '@/utils/bankTransfer';
+import { formatFeeAmount } from '@/utils/feeSchedule';
+import { getUpcomingInstallments } from '@/utils/installmentPlans';
+import { validateEmail } from '@/utils/formUtils';
+import { ApiError } from './errors';
+import { absoluteLink, sendMockMail } from './mockMailbox';
+import { deleteMockRecord, getAllMockRecords, getMockRecord, putMockRecord, MOCK_STORES } from './mockStore';
+import { getApplicantName, getRecordOrThrow, MockSubmissionRecord, toApplicationOverview, validateSubmission } from './mockAdapter';
+import { applicantSession } from './sessions';
+import type {
+  ApplicantAction,
+  ApplicantAdapter,
+  ApplicantSession,
+  ApplicantSignInRequest,
+  ApplicationPayload,
+  ChangeRequest,
+  PaymentIntent,
+  PortalApplication,
+  SubmitChangesRequest,
+  VerifySignInRequest,
+} from './types';
+
+// In-browser stand-in for the applicant status portal API. Sign-in codes and
+// links are "emailed" to the mock mailbox.
+
+const CODE_LIFETIME_MS = 15 * 60 * 1000;
+const MAX_CODE_ATTEMPTS = 5;
+const SESSION_LENGTH_MS = 24 * 60 * 60 * 1000;
+
+// The code and link last emailed to an address; a new request replaces them
+interface MockSignInChallenge {
+  email: string;
+  code: string;
+  token: string;
+  expiresAt: string;
+  attempts: number; // Wrong codes entered so far
+}
+
+interface MockApplicantAdapterOptions {
+  latency?: number; // Simulated round-trip time in milliseconds
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateToken = (): string => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+const generateCode = (): string => String(crypto.getRandomValues(new Uint32Array(1))[0] % 1000000).padStart(6, '0');
+
+const invalidCode = (message: string) => new ApiError(`${message}.`, { status: 422, fieldErrors: [{ field: 'code', message }] });
+
+const requireApplicant = async (): Promise<ApplicantSession> => {
+  const token = applicantSession.get()?.token;
+  const session = token ? await getMockRecord<ApplicantSession>(MOCK_STORES.applicantSessions, token) : null;
+  if (!session || new Date(session.expiresAt) <= new Date()) {
+    applicantSession.set(null);
+    throw new ApiError('Your session has expired. Please sign in again.', { status: 401 });
+  }
+  return session;
+};
+
+const findApplications = async (email: string): Promise<MockSubmissionRecord[]> => {
+  const submissions = await getAllMockRecords<MockSubmissionRecord>(MOCK_STORES.submissions);
+  return submissions.filter(record => record.email === email);
+};
+
+// Applications of other applicants are answered as if they didn't exist
+const getOwnRecord = async (applicationId: string): Promise<MockSubmissionRecord> => {
+  const session = await requireApplicant();
+  const record = await getRecordOrThrow(applicationId);
+  if (record.email !== session.email) {
+    throw new ApiError('Application not found.', { status: 404 });
+  }
+  return record;
+};
+
+// The change request waiting for the applicant's changes, if any
+const getOpenChangeRequest = (record: MockSubmissionRecord): ChangeRequest | null => {
+  const latest = record.changeRequests?.[record.changeRequests.length - 1];
+  return latest && !latest.resolvedAt ? latest : null;
+};
+
+// Applicants are told the team asked for the changes, not who did
+const toApplicantChangeRequest = (request: ChangeRequest | null): ChangeRequest | null => {
+  return request && { ...request, requestedBy: 'Miss Bloom team' };
+};
+
+// What the applicant still has to do, worked out from the application and its payments
+const getActions = (record: MockSubmissionRecord, payments: PaymentIntent[]): ApplicantAction[] => {
+  const actions: ApplicantAction[] = [];
+  if (record.status === 'withdrawn') return actions;
+
+  const changeRequest = getOpenChangeRequest(record);
+  if (changeRequest) {
+    const count = changeRequest.items.length;
+    actions.push({
+      kind: 'make_changes',
+      title: 'Update your application',
+      description: `The team has asked you to change ${count === 1 ? 'one thing' : `${count} things`} on your application.`,
+      link: `/status/changes/${encodeURIComponent(record.applicationId)}`,
+    });
+  }
+
+  const paymentStatus = record.paymentStatus ?? 'unpaid';
+  if ((record.status === 'draft' || record.status === 'pending_payment') && paymentStatus === 'unpaid') {
+    actions.push({
+      kind: 'pay_fee',
+      title: 'Pay the application fee',
+      description: record.status === 'draft'
+        ? `Pay ${formatFeeAmount(record.fee.total, record.fee.currency)} to go on to your application form.`
+        : `Your application will be reviewed once ${formatFeeAmount(record.fee.total, record.fee.currency)} has been paid.`,
+      link: payLinkPath(record.applicationId, record.payToken),
+    });
+  }
+
+  payments
+    .filter(intent => intent.applicationId === record.applicationId && intent.status === 'awaiting_transfer' && intent.bankTransfer)
+    .forEach(({ amount, currency, bankTransfer }) => {
+      actions.push({
+        kind: 'send_transfer',
+        title: 'Send your bank transfer',
+        description: `We are waiting for ${formatFeeAmount(amount - bankTransfer.receivedAmount, currency)} by bank transfer. `
+          + `Please quote the reference ${formatPaymentReference(bankTransfer.reference)} so we can match it to your application.`,
+        link: null,
+      });
+    });
+
+  if (record.paymentSchedule && paymentStatus === 'partially_paid') {
+    const [next] = getUpcomingInstallments(record.paymentSchedule);
+    if (next) {
+      actions.push({
+        kind: 'pay_installment',
+        title: `Pay the next installment (${next.label})`,
+        description: `${formatFeeAmount(next.amount, record.paymentSchedule.currency)} is due. Please pay it before the due date.`,
+        link: payLinkPath(record.applicationId, record.payToken),
+        dueDate: next.dueDate,
+      });
+    }
+  }
+  return actions;
+};
+
+export const createMockApplicantAdapter = ({ latency = 600 }: MockApplicantAdapterOptions = {}): ApplicantAdapter => ({
+  mode: 'mock',
+
+  async requestSignIn({ email }: ApplicantSignInRequest): Promise<void> {
+    await delay(latency);
+
+    const address = email.trim().toLowerCase();
+    if (!validateEmail(address)) {
+      throw new ApiError('Please enter a valid email address.', {
+        status: 422,
+        fieldErrors: [{ field: 'email', message: 'Please enter a valid email address' }],
+      });
+    }
+
+    // Only the mailbox learns whether the address has applied
+    if ((await findApplications(address)).length === 0) {
+      await sendMockMail({
+        to: address,
+        subject: 'Signing in to Miss Bloom',
+        body: 'Someone asked to sign in to the Miss Bloom application portal with this email address, but no application has been made with it. If you applied with another address, please sign in with that one.',
+        links: [],
+      });
+      return;
+    }
+
+    const challenge: MockSignInChallenge = {
+      email: address,
+      code: generateCode(),
+      token: generateToken(),
+      expiresAt: new Date(Date.now() + CODE_LIFETIME_MS).toISOString(),
+      attempts: 0,
+    };
+    await putMockRecord(MOCK_STORES.signInCodes, address, challenge);
+    await sendMockMail({
+      to: address,
+      subject: `Your Miss Bloom sign-in code is ${challenge.code}`,
+      body: `Enter ${challenge.code} to sign in and check your application, or use the link below. The code and link can be used once, within 15 minutes.\n\nIf you didn't ask to sign in, you can ignore this email.`,
+      links: [{ label: 'Sign in', href: absoluteLink(`/status?token=${challenge.token}`) }],
+    });
+  },
+
+  async verifySignIn(request: VerifySignInRequest): Promise<ApplicantSession> {
+    await delay(latency / 2);
+
+    let challenge: MockSignInChallenge | null;
+    if ('token' in request) {
+      const challenges = await getAllMockRecords<MockSignInChallenge>(MOCK_STORES.signInCodes);
+      challenge = challenges.find(candidate => candidate.token === request.token) ?? null;
+      if (!challenge || new Date(challenge.expiresAt) <= new Date()) {
+        throw new ApiError('This sign-in link has expired or was already used. Please ask for a new one.', { status: 401 });
+      }
+    } else {
+      challenge = await getMockRecord<MockSignInChallenge>(MOCK_STORES.signInCodes, request.email.trim().toLowerCase());
+      if (!challenge || new Date(challenge.expiresAt) <= new Date() || challenge.attempts >= MAX_CODE_ATTEMPTS) {
+        throw invalidCode('This code has expired. Please ask for a new one');
+      }
+      if (challenge.code !== request.code.trim()) {
+        await putMockRecord(MOCK_STORES.signInCodes, challenge.email, { ...challenge, attempts: challenge.attempts + 1 });
+        throw invalidCode('This code is not correct');
+      }
+    }
+
+    // A code or link signs in once
+    await deleteMockRecord(MOCK_STORES.signInCodes, challenge.email);
+    const session: ApplicantSession = {
+      token: generateToken(),
+      email: challenge.email,
+      expiresAt: new Date(Date.now() + SESSION_LENGTH_MS).toISOString(),
+    };
+    await putMockRecord(MOCK_STORES.applicantSessions, session.token, session);
+    return session;
+  },
+
+  async signOut(): Promise<void> {
+    const token = applicantSession.get()?.token;
+    if (token) {
+      await deleteMockRecord(MOCK_STORES.applicantSessions, token);
+    }
+  },
+
+  async listApplications(): Promise<PortalApplication[]> {
+    await delay(latency / 2);
+    const session = await requireApplicant();
+
+    const records = await findApplications(session.email);
+    const payments = await getAllMockRecords<PaymentIntent>(MOCK_STORES.payments);
+    return records
+      .sort((a, b) => b.submittedAt.localeCompare(a.submittedAt))
+      .map(record => ({
+        ...toApplicationOverview(record),
+        name: getApplicantName(record),
+        actions: getActions(record, payments),
+        messages: record.messages ?? [],
+        changeRequest: toApplicantChangeRequest(getOpenChangeRequest(record)),
+      }));
+  },
+
+  async getAnswers(applicationId: string): Promise<ApplicationPayload> {
+    await delay(latency / 2);
+
+    const record = await getOwnRecord(applicationId);
+    if (!record.data) {
+      throw new ApiError('This application has not been submitted yet.', { status: 404 });
+    }
+    return { type: record.type, data: record.data } as ApplicationPayload;
+  },
+
+  async submitChanges({ applicationId, requestId, answers }: SubmitChangesRequest): Promise<void> {
+    await delay(latency);
+
+    const record = await getOwnRecord(applicationId);
+    const request = getOpenChangeRequest(record);
+    if (!record.data || request?.requestId !== requestId) {
+      throw new ApiError('These changes are no longer needed. Please check your application for what the team asked for.', { status: 409 });
+    }
+
+    // Only the answers the request reopened can change
+    const definition = getApplicationForm(record.type);
+    const reopened = getReopenedFields(definition, request.items);
+    const unexpected = Object.keys(answers).filter(field => !reopened.includes(field));
+    if (unexpected.length > 0) {
+      throw new ApiError('Some of these answers can no longer be changed.', {
+        status: 422,
+        fieldErrors: unexpected.map(field => ({ field, message: 'This answer can no longer be changed' })),
+      });
+    }
+
+    // Photos that were not replaced keep the upload that was sent before
+    const before = toAnswerValues({ type: record.type, data: record.data } as ApplicationPayload);
+    const changed = { ...before, ...answers };
+    const after = { ...changed, ...definition.derive?.(changed) };
+    const payload = toApplicationPayload(record.type, after);
+    const fieldErrors = await validateSubmission(payload);
+    if (fieldErrors.length > 0) {
+      throw new ApiError('Some of your answers need attention.', { status: 422, fieldErrors });
+    }
+
+    const submittedAt = new Date().toISOString();
+    // Applications submitted before revisions were kept start from their original answers
+    const revisions = record.revisions?.length
+      ? record.revisions
+      : [{ revision: 1, submittedAt: record.submittedAt, requestId: null, changes: [] }];
+    await putMockRecord(MOCK_STORES.submissions, applicationId, {
+      ...record,
+      data: payload.data,
+      changeRequests: record.changeRequests.map(previous => previous.requestId === requestId ? { ...previous, resolvedAt: submittedAt } : previous),
+      revisions: [...revisions, { revision: revisions.length + 1, submittedAt, requestId, changes: diffAnswers(before, after) }],
+    });
+  },
+});
@@ -0,0 +1,38 @@
+import { getAllMockRecords, putMockRecord, clearMockStore, MOCK_STORES } from './mockStore';
+
+// Local stand-in for outgoing email. The mock backends "send" mail by keeping it
+// here, where it can be read at /dev/mailbox like in a mail catcher.
+
+export interface MockMailLink {
+  label: string;
+  href: string;
+}
+
+export interface MockMail {
+  mailId: string;
+  to: string;
+  subject: string;
+  body: string; // Plain text
+  links: MockMailLink[]; // Shown as buttons under the text
+  sentAt: string;
+}
+
+const generateMailId = (): string => `mail_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Links in mail point at this site, wherever it is running
+export const absoluteLink = (path: string): string => new URL(path, window.location.origin).href;
+
+export const sendMockMail = async (mail: Omit<MockMail, 'mailId' | 'sentAt'>): Promise<void> => {
+  const sent: MockMail = { ...mail, mailId: generateMailId(), sentAt: new Date().toISOString() };
+  await putMockRecord(MOCK_STORES.mail, sent.mailId, sent);
+};
+
+// Newest first
+export const listMockMail = async (): Promise<MockMail[]> => {
+  const mail = await getAllMockRecords<MockMail>(MOCK_STORES.mail);
+  return mail.sort((a, b) => b.sentAt.localeCompare(a.sentAt));
+};
+
+export const clearMockMail = async (): Promise<void> => {
+  await clearMockStore(MOCK_STORES.mail);
+};
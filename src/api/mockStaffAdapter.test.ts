@@ -0,0 +1,121 @@
+// @vitest-environment jsdom
+import { beforeEach, describe, expect, it } from 'vitest';
+import { putMockSubmission, resetMockStores } from '@/test/mockRecords';
+import { toApplicationPayload } from '@/utils/changeRequests';
+import { createMockStaffAdapter, mockStaffAccounts } from './mockStaffAdapter';
+import { isApiError } from './errors';
+import { staffSession } from './sessions';
+
+const adapter = createMockStaffAdapter({ latency: 0 });
+
+const signInAs = async (role: 'staff' | 'judge') => {
+  const account = mockStaffAccounts.find(candidate => candidate.role === role);
+  staffSession.set(await adapter.signIn({ email: account.email, password: account.password }));
+  return account;
+};
+
+// The error a call was turned down with
+const rejectionOf = async (call: Promise<unknown>) => {
+  const error = await call.then(() => null, (reason: unknown) => reason);
+  if (!isApiError(error)) throw new Error('Expected the call to be turned down');
+  return error;
+};
+
+const participantData = toApplicationPayload('participant', { firstName: 'Ana', motivation: 'To serve' }).data;
+
+describe('submitScores', () => {
+  beforeEach(async () => {
+    await resetMockStores();
+    staffSession.set(null);
+  });
+
+  const scoresWith = (presentation: number) => ({ presentation, communication: 7, motivation: 7, advocacy: 7 });
+
+  it('keeps a valid score sheet', async () => {
+    const judge = await signInAs('judge');
+    const record = await putMockSubmission({ status: 'submitted', data: participantData, judges: [judge.email] });
+
+    const application = await adapter.submitScores({ applicationId: record.applicationId, scores: scoresWith(10), comments: {} });
+    expect(application.sheet.scores).toEqual(scoresWith(10));
+  });
+
+  it.each([0, 11, 7.5, Number.NaN])('turns down a score of %s', async score => {
+    const judge = await signInAs('judge');
+    const record = await putMockSubmission({ status: 'submitted', data: participantData, judges: [judge.email] });
+
+    const error = await rejectionOf(adapter.submitScores({ applicationId: record.applicationId, scores: scoresWith(score), comments: {} }));
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors.map(fieldError => fieldError.field)).toEqual(['scores.presentation']);
+  });
+
+  it('turns down a criterion left unscored', async () => {
+    const judge = await signInAs('judge');
+    const record = await putMockSubmission({ status: 'submitted', data: participantData, judges: [judge.email] });
+
+    const error = await rejectionOf(adapter.submitScores({ applicationId: record.applicationId, scores: { presentation: 5 }, comments: {} }));
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors).toHaveLength(3);
+  });
+});
+
+describe('changeStatus', () => {
+  beforeEach(async () => {
+    await resetMockStores();
+    staffSession.set(null);
+  });
+
+  it('moves an application along the lifecycle and records who moved it and why', async () => {
+    const staff = await signInAs('staff');
+    const record = await putMockSubmission({ status: 'submitted', data: participantData });
+
+    const detail = await adapter.changeStatus({ applicationId: record.applicationId, status: 'under_review', reason: '  Complete  ' });
+    expect(detail.status).toBe('under_review');
+    expect(detail.statusHistory.at(-1)).toMatchObject({
+      from: 'submitted',
+      to: 'under_review',
+      actor: { kind: 'staff', name: staff.name },
+      reason: 'Complete',
+    });
+  });
+
+  it.each([
+    ['submitted', 'accepted'],
+    ['pending_payment', 'under_review'],
+    ['rejected', 'under_review'],
+    ['withdrawn', 'submitted'],
+    ['accepted', 'accepted'],
+  ] as const)('turns down a move from %s to %s with 409', async (from, to) => {
+    await signInAs('staff');
+    const record = await putMockSubmission({ status: from, data: participantData });
+
+    const error = await rejectionOf(adapter.changeStatus({ applicationId: record.applicationId, status: to, reason: 'Because' }));
+    expect(error.status).toBe(409);
+  });
+
+  it.each(['', '   '])('turns down a move without a reason ("%s") with 422', async reason => {
+    await signInAs('staff');
+    const record = await putMockSubmission({ status: 'submitted', data: participantData });
+
+    const error = await rejectionOf(adapter.changeStatus({ applicationId: record.applicationId, status: 'under_review', reason }));
+    expect(error.status).toBe(422);
+    expect(error.fieldErrors).toEqual([{ field: 'reason', message: 'Please say why the status is changing' }]);
+  });
+
+  it('leaves the application as it was when a move is turned down', async () => {
+    await signInAs('staff');
+    const record = await putMockSubmission({ status: 'submitted', data: participantData });
+    await rejectionOf(adapter.changeStatus({ applicationId: record.applicationId, status: 'accepted', reason: 'Because' }));
+
+    const detail = await adapter.getApplicationDetail(record.applicationId);
+    expect(detail.status).toBe('submitted');
+    expect(detail.statusHistory).toEqual([]);
+  });
+
+  it('only lets staff change the status', async () => {
+    await signInAs('judge');
+    const record = await putMockSubmission({ status: 'submitted', data: participantData });
+
+    const error = await rejectionOf(adapter.changeStatus({ applicationId: record.applicationId, status: 'under_review', reason: 'Because' }));
+    expect(error.status).toBe(403);
+  });
+});
@@ -0,0 +1,504 @@
+import { applicationStatusLabels, canChangeStatus, isFinalStatus } from '@/utils/applicationStatus';
+import { getApplicationForm, lockedFields, toAnswerValues } from '@/utils/changeRequests';
+import { getSection } from '@/utils/formDefinition';
+import { calculateAge, FormError } from '@/utils/formUtils';
+import {
+  aggregateScores,
+  getJudgeBaselines,
+  getMean,
+  getSheetAverage,
+  MAX_COMMENT_LENGTH,
+  MAX_SCORE,
+  MIN_SCORE,
+  scoringRubrics,
+  toBlindPayload,
+} from '@/utils/judging';
+import { ApiError } from './errors';
+import { absoluteLink, sendMockMail } from './mockMailbox';
+import { deleteMockRecord, getAllMockRecords, getMockRecord, putMockRecord, MOCK_STORES } from './mockStore';
+import { getAmountPaid, getApplicantName, getBalance, getRecordOrThrow, MockSubmissionRecord, withStatus } from './mockAdapter';
+import type { MockUploadRecord } from './mockUploadAdapter';
+import { staffSession } from './sessions';
+import type {
+  ApplicationDetail,
+  ApplicationListPage,
+  ApplicationListQuery,
+  ApplicationPayload,
+  ApplicationSummary,
+  AssignJudgesRequest,
+  ChangeRequest,
+  ChangeRequestItem,
+  ChangeStatusRequest,
+  JudgingApplication,
+  JudgingAssignment,
+  RequestChangesRequest,
+  ScoreSheet,
+  SendMessageRequest,
+  StaffAccount,
+  StaffAdapter,
+  StaffMessage,
+  StaffRole,
+  StaffSession,
+  StaffSignInRequest,
+  SubmitScoresRequest,
+} from './types';
+
+// In-browser stand-in for the staff API. It serves the applications the mock
+// submissions backend has stored, to the accounts below.
+
+interface MockStaffAccount extends StaffAccount {
+  password: string;
+}
+
+// Accounts the mock backend lets in; a real backend keeps its own
+export const mockStaffAccounts: MockStaffAccount[] = [
+  { email: 'staff@missbloom.test', password: 'bloom-staff', name: 'Review Team', role: 'staff' },
+  { email: 'judge.amara@missbloom.test', password: 'bloom-judge', name: 'Amara Okafor', role: 'judge' },
+  { email: 'judge.lucia@missbloom.test', password: 'bloom-judge', name: 'Lucía Reyes', role: 'judge' },
+  { email: 'judge.mei@missbloom.test', password: 'bloom-judge', name: 'Mei Tanaka', role: 'judge' },
+];
+
+const findAccount = (email: string): MockStaffAccount | null => {
+  return mockStaffAccounts.find(candidate => candidate.email === email) ?? null;
+};
+
+const toAccount = ({ email, name, role }: MockStaffAccount): StaffAccount => ({ email, name, role });
+
+const SESSION_LENGTH_MS = 8 * 60 * 60 * 1000;
+
+interface MockStaffSessionRecord {
+  token: string;
+  email: string;
+  expiresAt: string;
+}
+
+interface MockStaffAdapterOptions {
+  latency?: number; // Simulated round-trip time in milliseconds
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const generateToken = (): string => {
+  return Array.from(crypto.getRandomValues(new Uint8Array(24)), byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+// Turn down requests without a live session, and forget the session on this side
+// too. Signed-in accounts of other roles are turned down as well.
+const requireStaff = async (roles: StaffRole[] = ['staff']): Promise<MockStaffSessionRecord> => {
+  const token = staffSession.get()?.token;
+  const session = token ? await getMockRecord<MockStaffSessionRecord>(MOCK_STORES.staffSessions, token) : null;
+  if (!session || new Date(session.expiresAt) <= new Date()) {
+    staffSession.set(null);
+    throw new ApiError('Your session has expired. Please sign in again.', { status: 401 });
+  }
+  const account = findAccount(session.email);
+  if (!account || !roles.includes(account.role)) {
+    throw new ApiError("Your account can't do this.", { status: 403 });
+  }
+  return session;
+};
+
+const getDateOfBirth = ({ data }: MockSubmissionRecord): string => {
+  if (!data) return '';
+  return 'formData' in data ? data.formData.dateOfBirth : data.dateOfBirth;
+};
+
+const toSummary = (record: MockSubmissionRecord): ApplicationSummary => {
+  const dateOfBirth = getDateOfBirth(record);
+  return {
+    applicationId: record.applicationId,
+    type: record.type,
+    name: getApplicantName(record),
+    email: record.email,
+    country: record.fee.country,
+    age: dateOfBirth ? calculateAge(dateOfBirth) : null,
+    submittedAt: record.submittedAt,
+    status: record.status,
+    paymentStatus: record.paymentStatus ?? 'unpaid',
+    score: getMean((record.scoreSheets ?? []).map(getSheetAverage).filter((average): average is number => average !== null)),
+  };
+};
+
+// Normalized scores compare each judge's scores with everything else they have scored against the same rubric
+const toDetail = async (record: MockSubmissionRecord): Promise<ApplicationDetail> => {
+  const records = await getAllMockRecords<MockSubmissionRecord>(MOCK_STORES.submissions);
+  const baselines = getJudgeBaselines(
+    records.filter(candidate => candidate.type === record.type).flatMap(candidate => candidate.scoreSheets ?? [])
+  );
+  const sheets = record.scoreSheets ?? [];
+
+  return {
+    ...toSummary(record),
+    payload: record.data ? { type: record.type, data: record.data } as ApplicationPayload : null,
+    fee: record.fee,
+    promoCode: record.promoCode ?? null,
+    paymentSchedule: record.paymentSchedule ?? null,
+    amountPaid: getAmountPaid(record),
+    balance: getBalance(record),
+    statusHistory: record.statusHistory ?? [],
+    messages: record.messages ?? [],
+    changeRequests: record.changeRequests ?? [],
+    revisions: record.revisions ?? [],
+    judges: (record.judges ?? []).map(email => ({
+      email,
+      name: findAccount(email)?.name ?? email,
+      scoredAt: sheets.find(sheet => sheet.judgeEmail === email)?.submittedAt ?? null,
+    })),
+    scores: aggregateScores(record.type, sheets, baselines),
+  };
+};
+
+// Applications a judge isn't assigned to are as good as missing to them
+const getAssignedRecord = async (session: MockStaffSessionRecord, applicationId: string): Promise<MockSubmissionRecord> => {
+  const record = await getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, applicationId);
+  if (!record?.data || !(record.judges ?? []).includes(session.email)) {
+    throw new ApiError('Application not found.', { status: 404 });
+  }
+  return record;
+};
+
+const getOwnSheet = (record: MockSubmissionRecord, judgeEmail: string): ScoreSheet | null => {
+  return (record.scoreSheets ?? []).find(sheet => sheet.judgeEmail === judgeEmail) ?? null;
+};
+
+const toAssignment = (record: MockSubmissionRecord, judgeEmail: string): JudgingAssignment => ({
+  applicationId: record.applicationId,
+  type: record.type,
+  name: scoringRubrics[record.type].blind ? null : getApplicantName(record),
+  country: record.fee.country,
+  scoredAt: getOwnSheet(record, judgeEmail)?.submittedAt ?? null,
+});
+
+const toJudgingApplication = (record: MockSubmissionRecord, judgeEmail: string): JudgingApplication => {
+  const { blind } = scoringRubrics[record.type];
+  const payload = { type: record.type, data: record.data } as ApplicationPayload;
+  return {
+    ...toAssignment(record, judgeEmail),
+    blind,
+    payload: blind ? toBlindPayload(payload) : payload,
+    sheet: getOwnSheet(record, judgeEmail),
+  };
+};
+
+// Why the scores for a sheet can't be kept, by the field they were sent in
+const getScoreErrors = (record: MockSubmissionRecord, { scores, comments }: SubmitScoresRequest): FormError[] => {
+  return scoringRubrics[record.type].criteria.flatMap(({ id, label }) => {
+    const errors: FormError[] = [];
+    const score = scores[id];
+    if (!Number.isInteger(score) || score < MIN_SCORE || score > MAX_SCORE) {
+      errors.push({ field: `scores.${id}`, message: `Please score ${label.toLowerCase()} from ${MIN_SCORE} to ${MAX_SCORE}` });
+    }
+    if ((comments[id] ?? '').trim().length > MAX_COMMENT_LENGTH) {
+      errors.push({ field: `comments.${id}`, message: `Please keep the comment under ${MAX_COMMENT_LENGTH} characters` });
+    }
+    return errors;
+  });
+};
+
+const MAX_MESSAGE_LENGTH = 2000;
+
+const generateMessageId = (): string => `msg_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const generateRequestId = (): string => `chg_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+// Why an item of a change request can't be asked for, if it can't
+const getChangeRequestItemError = (record: MockSubmissionRecord, { sectionId, field, note }: ChangeRequestItem): string | null => {
+  const section = getSection(getApplicationForm(record.type), sectionId);
+  if (!section || section.kind === 'review') return 'This section is not part of the application';
+  if (field !== null && !section.fields.some(candidate => candidate.name === field)) {
+    return `This field is not part of the ${section.title} section`;
+  }
+  if (field !== null && lockedFields.includes(field)) return "Applicants can't change this answer after submitting";
+  if (!note.trim()) return 'Please say what needs changing';
+  return null;
+};
+
+const getAccountName = (session: MockStaffSessionRecord): string => {
+  return findAccount(session.email)?.name ?? session.email;
+};
+
+const matchesQuery = (summary: ApplicationSummary, query: ApplicationListQuery): boolean => {
+  const search = query.search?.trim().toLowerCase();
+  if (search && ![summary.name, summary.email, summary.applicationId].some(value => value.toLowerCase().includes(search))) {
+    return false;
+  }
+  if (query.type && summary.type !== query.type) return false;
+  if (query.country && summary.country.toLowerCase() !== query.country.toLowerCase()) return false;
+  if (query.status && summary.status !== query.status) return false;
+  if (query.paymentStatus && summary.paymentStatus !== query.paymentStatus) return false;
+  // Without a date of birth the age is unknown, so it can't be in any range
+  if (query.minAge !== undefined && (summary.age === null || summary.age < query.minAge)) return false;
+  if (query.maxAge !== undefined && (summary.age === null || summary.age > query.maxAge)) return false;
+
+  const submittedOn = summary.submittedAt.slice(0, 10);
+  if (query.submittedFrom && submittedOn < query.submittedFrom) return false;
+  if (query.submittedTo && submittedOn > query.submittedTo) return false;
+  return true;
+};
+
+const compareSummaries = (a: ApplicationSummary, b: ApplicationSummary, { sortBy }: ApplicationListQuery): number => {
+  if (sortBy === 'age' || sortBy === 'score') {
+    // Unknown ages and unscored applications go last
+    return (a[sortBy] ?? Number.MAX_SAFE_INTEGER) - (b[sortBy] ?? Number.MAX_SAFE_INTEGER);
+  }
+  return a[sortBy].localeCompare(b[sortBy], undefined, { sensitivity: 'base' });
+};
+
+// Each country once, in the spelling of its first applicant
+const listCountries = (summaries: ApplicationSummary[]): string[] => {
+  const countries = new Map<string, string>();
+  summaries.forEach(({ country }) => {
+    if (!countries.has(country.toLowerCase())) countries.set(country.toLowerCase(), country);
+  });
+  return [...countries.values()].sort((a, b) => a.localeCompare(b));
+};
+
+export const createMockStaffAdapter = ({ latency = 600 }: MockStaffAdapterOptions = {}): StaffAdapter => ({
+  mode: 'mock',
+
+  async signIn({ email, password }: StaffSignInRequest): Promise<StaffSession> {
+    await delay(latency);
+
+    const account = mockStaffAccounts.find(candidate =>
+      candidate.email === email.trim().toLowerCase() && candidate.password === password
+    );
+    if (!account) {
+      throw new ApiError('The email address or password is not correct.', { status: 401 });
+    }
+
+    const session: MockStaffSessionRecord = {
+      token: generateToken(),
+      email: account.email,
+      expiresAt: new Date(Date.now() + SESSION_LENGTH_MS).toISOString(),
+    };
+    await putMockRecord(MOCK_STORES.staffSessions, session.token, session);
+    return { token: session.token, expiresAt: session.expiresAt, account: toAccount(account) };
+  },
+
+  async signOut(): Promise<void> {
+    const token = staffSession.get()?.token;
+    if (token) {
+      await deleteMockRecord(MOCK_STORES.staffSessions, token);
+    }
+  },
+
+  async listApplications(query: ApplicationListQuery): Promise<ApplicationListPage> {
+    await delay(latency / 2);
+    await requireStaff();
+
+    const summaries = (await getAllMockRecords<MockSubmissionRecord>(MOCK_STORES.submissions)).map(toSummary);
+    const direction = query.sortDirection === 'desc' ? -1 : 1;
+    const matching = summaries
+      .filter(summary => matchesQuery(summary, query))
+      .sort((a, b) => direction * compareSummaries(a, b, query) || b.submittedAt.localeCompare(a.submittedAt));
+
+    const start = (query.page - 1) * query.pageSize;
+    return {
+      applications: matching.slice(start, start + query.pageSize),
+      total: matching.length,
+      page: query.page,
+      pageSize: query.pageSize,
+      countries: listCountries(summaries),
+    };
+  },
+
+  async getApplicationDetail(applicationId: string): Promise<ApplicationDetail> {
+    await delay(latency / 2);
+    await requireStaff();
+
+    return toDetail(await getRecordOrThrow(applicationId));
+  },
+
+  async changeStatus({ applicationId, status, reason }: ChangeStatusRequest): Promise<ApplicationDetail> {
+    await delay(latency / 2);
+    const session = await requireStaff();
+
+    const record = await getRecordOrThrow(applicationId);
+    if (!canChangeStatus(record.status, status)) {
+      const from = applicationStatusLabels[record.status].toLowerCase();
+      throw new ApiError(`An application that is ${from} can't be moved to ${applicationStatusLabels[status].toLowerCase()}.`, { status: 409 });
+    }
+    if (!reason.trim()) {
+      throw new ApiError('Please say why the status is changing.', {
+        status: 422,
+        fieldErrors: [{ field: 'reason', message: 'Please say why the status is changing' }],
+      });
+    }
+
+    const updated = withStatus(record, status, { kind: 'staff', name: getAccountName(session) }, reason.trim());
+    await putMockRecord(MOCK_STORES.submissions, applicationId, updated);
+    return toDetail(updated);
+  },
+
+  async sendMessage({ applicationId, body }: SendMessageRequest): Promise<ApplicationDetail> {
+    await delay(latency / 2);
+    const session = await requireStaff();
+
+    const record = await getRecordOrThrow(applicationId);
+    const text = body.trim();
+    if (!text || text.length > MAX_MESSAGE_LENGTH) {
+      const message = text ? `Please keep the message under ${MAX_MESSAGE_LENGTH} characters` : 'Please write a message';
+      throw new ApiError(`${message}.`, { status: 422, fieldErrors: [{ field: 'body', message }] });
+    }
+
+    const sent: StaffMessage = { messageId: generateMessageId(), sentAt: new Date().toISOString(), from: getAccountName(session), body: text };
+    const updated: MockSubmissionRecord = { ...record, messages: [...(record.messages ?? []), sent] };
+    await putMockRecord(MOCK_STORES.submissions, applicationId, updated);
+
+    // The message itself is only shown after signing in, as email isn't private enough for it
+    await sendMockMail({
+      to: record.email,
+      subject: `A message about your application ${applicationId}`,
+      body: `Dear ${getApplicantName(record)},\n\nThe Miss Bloom team has sent you a message about your application. Sign in with this email address to read it.`,
+      links: [{ label: 'Read the message', href: absoluteLink('/status') }],
+    });
+    return toDetail(updated);
+  },
+
+  async requestChanges({ applicationId, items }: RequestChangesRequest): Promise<ApplicationDetail> {
+    await delay(latency / 2);
+    const session = await requireStaff();
+
+    const record = await getRecordOrThrow(applicationId);
+    if (!record.data) {
+      throw new ApiError('The applicant has not submitted the form yet.', { status: 409 });
+    }
+    if (isFinalStatus(record.status)) {
+      throw new ApiError(`An application that is ${applicationStatusLabels[record.status].toLowerCase()} can't be changed.`, { status: 409 });
+    }
+    if (items.length === 0) {
+      throw new ApiError('Please choose what needs changing.', { status: 422, fieldErrors: [{ field: 'items', message: 'Please choose what needs changing' }] });
+    }
+    const fieldErrors = items.flatMap((item, index) => {
+      const message = getChangeRequestItemError(record, item);
+      return message ? [{ field: `items.${index}`, message }] : [];
+    });
+    if (fieldErrors.length > 0) {
+      throw new ApiError('Some of the changes asked for need attention.', { status: 422, fieldErrors });
+    }
+
+    const request: ChangeRequest = {
+      requestId: generateRequestId(),
+      requestedAt: new Date().toISOString(),
+      requestedBy: getAccountName(session),
+      items: items.map(item => ({ ...item, note: item.note.trim() })),
+      resolvedAt: null,
+    };
+    // A request the applicant hasn't answered yet is replaced rather than stacked
+    const answered = (record.changeRequests ?? []).filter(previous => previous.resolvedAt);
+    const updated: MockSubmissionRecord = { ...record, changeRequests: [...answered, request] };
+    await putMockRecord(MOCK_STORES.submissions, applicationId, updated);
+
+    await sendMockMail({
+      to: record.email,
+      subject: `Please update your application ${applicationId}`,
+      body: `Dear ${getApplicantName(record)},\n\nThe Miss Bloom team has asked you to change some of the answers on your application. Sign in with this email address to see what needs changing and send your changes.`,
+      links: [{ label: 'Update your application', href: absoluteLink('/status') }],
+    });
+    return toDetail(updated);
+  },
+
+  async listJudges(): Promise<StaffAccount[]> {
+    await delay(latency / 2);
+    await requireStaff();
+
+    return mockStaffAccounts.filter(account => account.role === 'judge').map(toAccount);
+  },
+
+  async assignJudges({ applicationId, judgeEmails }: AssignJudgesRequest): Promise<ApplicationDetail> {
+    await delay(latency / 2);
+    await requireStaff();
+
+    const record = await getRecordOrThrow(applicationId);
+    if (!record.data) {
+      throw new ApiError('The applicant has not submitted the form yet.', { status: 409 });
+    }
+    const judges = [...new Set(judgeEmails.map(email => email.trim().toLowerCase()))];
+    const unknown = judges.find(email => !mockStaffAccounts.some(account => account.email === email && account.role === 'judge'));
+    if (unknown) {
+      const message = `${unknown} is not a judge`;
+      throw new ApiError(`${message}.`, { status: 422, fieldErrors: [{ field: 'judgeEmails', message }] });
+    }
+    // Their scores would be lost, and counted towards nothing
+    const scored = (record.scoreSheets ?? []).find(sheet => !judges.includes(sheet.judgeEmail));
+    if (scored) {
+      throw new ApiError(`${scored.judgeName} has already scored this application and can't be taken off it.`, { status: 409 });
+    }
+
+    const updated: MockSubmissionRecord = { ...record, judges };
+    await putMockRecord(MOCK_STORES.submissions, applicationId, updated);
+    return toDetail(updated);
+  },
+
+  async listAssignments(): Promise<JudgingAssignment[]> {
+    await delay(latency / 2);
+    const session = await requireStaff(['judge']);
+
+    const records = await getAllMockRecords<MockSubmissionRecord>(MOCK_STORES.submissions);
+    // Still to score first, then oldest first
+    return records
+      .filter(record => record.data && (record.judges ?? []).includes(session.email))
+      .map(record => ({ record, assignment: toAssignment(record, session.email) }))
+      .sort((a, b) => Number(!!a.assignment.scoredAt) - Number(!!b.assignment.scoredAt) || a.record.submittedAt.localeCompare(b.record.submittedAt))
+      .map(({ assignment }) => assignment);
+  },
+
+  async getAssignment(applicationId: string): Promise<JudgingApplication> {
+    await delay(latency / 2);
+    const session = await requireStaff(['judge']);
+
+    return toJudgingApplication(await getAssignedRecord(session, applicationId), session.email);
+  },
+
+  async submitScores(request: SubmitScoresRequest): Promise<JudgingApplication> {
+    await delay(latency / 2);
+    const session = await requireStaff(['judge']);
+
+    const record = await getAssignedRecord(session, request.applicationId);
+    if (isFinalStatus(record.status)) {
+      throw new ApiError(`An application that is ${applicationStatusLabels[record.status].toLowerCase()} can no longer be scored.`, { status: 409 });
+    }
+    const fieldErrors = getScoreErrors(record, request);
+    if (fieldErrors.length > 0) {
+      throw new ApiError('Some of the scores need attention.', { status: 422, fieldErrors });
+    }
+
+    // Only the criteria of the rubric are kept, and comments left empty are dropped
+    const { criteria } = scoringRubrics[record.type];
+    const sheet: ScoreSheet = {
+      judgeEmail: session.email,
+      judgeName: getAccountName(session),
+      scores: Object.fromEntries(criteria.map(({ id }) => [id, request.scores[id]])),
+      comments: Object.fromEntries(criteria.flatMap(({ id }) => {
+        const comment = (request.comments[id] ?? '').trim();
+        return comment ? [[id, comment]] : [];
+      })),
+      submittedAt: new Date().toISOString(),
+    };
+    const others = (record.scoreSheets ?? []).filter(previous => previous.judgeEmail !== session.email);
+    const updated: MockSubmissionRecord = { ...record, scoreSheets: [...others, sheet] };
+    await putMockRecord(MOCK_STORES.submissions, record.applicationId, updated);
+    return toJudgingApplication(updated, session.email);
+  },
+
+  async getPhoto(uploadId: string): Promise<Blob> {
+    const session = await requireStaff(['staff', 'judge']);
+
+    // Judges only get the photos of applications they are assigned to, and none in blind mode
+    if (findAccount(session.email)?.role === 'judge') {
+      const records = await getAllMockRecords<MockSubmissionRecord>(MOCK_STORES.submissions);
+      const visible = records.some(record => record.data && !scoringRubrics[record.type].blind
+        && (record.judges ?? []).includes(session.email)
+        && Object.values(toAnswerValues({ type: record.type, data: record.data } as ApplicationPayload)).includes(uploadId));
+      if (!visible) {
+        throw new ApiError('Photo not found.', { status: 404 });
+      }
+    }
+
+    const upload = await getMockRecord<MockUploadRecord>(MOCK_STORES.uploads, uploadId);
+    if (!upload?.complete) {
+      throw new ApiError('Photo not found.', { status: 404 });
+    }
+    return new Blob(upload.chunks, { type: upload.mimeType });
+  },
+});
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createIdempotencyGuard } from './mockStore';
+
+// A request that stays in flight until it is settled by hand
+const deferred = <T>() => {
+  let resolve: (value: T) => void;
+  let reject: (reason: unknown) => void;
+  const promise = new Promise<T>((res, rej) => {
+    resolve = res;
+    reject = rej;
+  });
+  return { promise, resolve, reject };
+};
+
+describe('createIdempotencyGuard', () => {
+  it('processes a request sent twice with the same key once, and answers both', async () => {
+    const guard = createIdempotencyGuard();
+    const pending = deferred<string>();
+    const process = vi.fn(() => pending.promise);
+
+    const first = guard('key-1', process);
+    const second = guard('key-1', process);
+    pending.resolve('charged once');
+
+    expect(await first).toBe('charged once');
+    expect(await second).toBe('charged once');
+    expect(process).toHaveBeenCalledTimes(1);
+  });
+
+  it('gives duplicates the failure of the first request too', async () => {
+    const guard = createIdempotencyGuard();
+    const pending = deferred<string>();
+    const process = vi.fn(() => pending.promise);
+
+    const first = guard('key-1', process);
+    const second = guard('key-1', process);
+    pending.reject(new Error('declined'));
+
+    await expect(first).rejects.toThrow('declined');
+    await expect(second).rejects.toThrow('declined');
+    expect(process).toHaveBeenCalledTimes(1);
+  });
+
+  it('processes requests with different keys separately', async () => {
+    const guard = createIdempotencyGuard();
+    const process = vi.fn(async () => 'done');
+
+    await Promise.all([guard('key-1', process), guard('key-2', process)]);
+    expect(process).toHaveBeenCalledTimes(2);
+  });
+
+  it('lets go of the key once the request has been answered', async () => {
+    const guard = createIdempotencyGuard();
+    const process = vi.fn(async () => 'done');
+
+    await guard('key-1', process);
+    await guard('key-1', process);
+    expect(process).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,91 @@
+// IndexedDB-backed storage for the in-browser mock backend, so data "sent to the
+// server" during development survives reloads like a real backend would
+
+const DB_NAME = 'miss-bloom-mock-api';
+const DB_VERSION = 5;
+
+export const MOCK_STORES = {
+  submissions: 'submissions',
+  uploads: 'uploads',
+  payments: 'payments',
+  staffSessions: 'staffSessions',
+  applicantSessions: 'applicantSessions',
+  signInCodes: 'signInCodes',
+  mail: 'mail',
+} as const;
+
+type MockStoreName = typeof MOCK_STORES[keyof typeof MOCK_STORES];
+
+const openMockDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      Object.values(MOCK_STORES).forEach(name => {
+        if (!request.result.objectStoreNames.contains(name)) {
+          request.result.createObjectStore(name);
+        }
+      });
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const runMockRequest = async <R>(
+  storeName: MockStoreName,
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<R> => {
+  const db = await openMockDatabase();
+
+  try {
+    return await new Promise<R>((resolve, reject) => {
+      const transaction = db.transaction(storeName, mode);
+      const request = makeRequest(transaction.objectStore(storeName));
+
+      transaction.oncomplete = () => resolve(request.result as R);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const putMockRecord = async <T>(storeName: MockStoreName, key: string, value: T): Promise<void> => {
+  await runMockRequest<IDBValidKey>(storeName, 'readwrite', store => store.put(value, key));
+};
+
+export const getMockRecord = async <T>(storeName: MockStoreName, key: string): Promise<T | null> => {
+  const record = await runMockRequest<T | undefined>(storeName, 'readonly', store => store.get(key));
+  return record ?? null;
+};
+
+export const getAllMockRecords = async <T>(storeName: MockStoreName): Promise<T[]> => {
+  return runMockRequest<T[]>(storeName, 'readonly', store => store.getAll());
+};
+
+export const deleteMockRecord = async (storeName: MockStoreName, key: string): Promise<void> => {
+  await runMockRequest<undefined>(storeName, 'readwrite', store => store.delete(key));
+};
+
+export const clearMockStore = async (storeName: MockStoreName): Promise<void> => {
+  await runMockRequest<undefined>(storeName, 'readwrite', store => store.clear());
+};
+
+// Collapses requests that carry the same idempotency key while the first is still
+// being processed, the way a server holds a lock on the key: the duplicates get
+// the first request's answer instead of being processed again
+export const createIdempotencyGuard = () => {
+  const inFlight = new Map<string, Promise<unknown>>();
+
+  return <T>(key: string, process: () => Promise<T>): Promise<T> => {
+    const pending = inFlight.get(key);
+    if (pending) return pending as Promise<T>;
+
+    const request = process().finally(() => inFlight.delete(key));
+    inFlight.set(key, request);
+    return request;
+  };
+};
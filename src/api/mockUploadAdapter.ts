@@ -0,0 +1,120 @@
+import { ApiError, RequestCancelledError } from './errors';
+import { getMockRecord, putMockRecord, MOCK_STORES } from './mockStore';
+import type { StartUploadRequest, UploadAdapter, UploadChunkRequest, UploadSession } from './types';
+
+// An upload as kept by the mock backend
+export interface MockUploadRecord {
+  uploadId: string;
+  fileName: string;
+  size: number;
+  mimeType: string;
+  chunks: Blob[];
+  receivedBytes: number;
+  complete: boolean;
+  createdAt: string;
+}
+
+interface MockUploadAdapterOptions {
+  bytesPerSecond?: number; // Simulated connection speed
+}
+
+const TICK_MS = 100;
+
+const toSession = (record: MockUploadRecord): UploadSession => ({
+  uploadId: record.uploadId,
+  receivedBytes: record.receivedBytes,
+  complete: record.complete,
+});
+
+const getRecordOrThrow = async (uploadId: string): Promise<MockUploadRecord> => {
+  const record = await getMockRecord<MockUploadRecord>(MOCK_STORES.uploads, uploadId);
+  if (!record) {
+    throw new ApiError('Upload not found.', { status: 404 });
+  }
+  return record;
+};
+
+// Report progress in small steps at the simulated speed, stopping if cancelled
+const simulateTransfer = (size: number, bytesPerSecond: number, signal?: AbortSignal, onProgress?: (sent: number) => void) => {
+  return new Promise<void>((resolve, reject) => {
+    const bytesPerTick = Math.max(1, Math.round(bytesPerSecond * TICK_MS / 1000));
+    let sent = 0;
+
+    const timer = window.setInterval(() => {
+      sent = Math.min(size, sent + bytesPerTick);
+      onProgress?.(sent);
+      if (sent >= size) {
+        window.clearInterval(timer);
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+      }
+    }, TICK_MS);
+
+    const onAbort = () => {
+      window.clearInterval(timer);
+      reject(new RequestCancelledError());
+    };
+    if (signal?.aborted) {
+      onAbort();
+      return;
+    }
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+};
+
+// Reassemble an uploaded file, e.g. to show it to reviewers
+export const getMockUploadBlob = async (uploadId: string): Promise<Blob | null> => {
+  const record = await getMockRecord<MockUploadRecord>(MOCK_STORES.uploads, uploadId);
+  return record ? new Blob(record.chunks, { type: record.mimeType }) : null;
+};
+
+// In-browser stand-in for the resumable upload API
+export const createMockUploadAdapter = ({ bytesPerSecond = 2 * 1024 * 1024 }: MockUploadAdapterOptions = {}): UploadAdapter => ({
+  async startUpload({ fileName, size, mimeType }: StartUploadRequest): Promise<UploadSession> {
+    const record: MockUploadRecord = {
+      uploadId: `upl_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`,
+      fileName,
+      size,
+      mimeType,
+      chunks: [],
+      receivedBytes: 0,
+      complete: false,
+      createdAt: new Date().toISOString(),
+    };
+    await putMockRecord(MOCK_STORES.uploads, record.uploadId, record);
+    return toSession(record);
+  },
+
+  async getUpload(uploadId: string): Promise<UploadSession | null> {
+    const record = await getMockRecord<MockUploadRecord>(MOCK_STORES.uploads, uploadId);
+    return record ? toSession(record) : null;
+  },
+
+  async uploadChunk({ uploadId, offset, chunk, signal, onProgress }: UploadChunkRequest): Promise<UploadSession> {
+    const record = await getRecordOrThrow(uploadId);
+    if (offset !== record.receivedBytes) {
+      throw new ApiError('Chunk does not continue the upload.', { status: 409 });
+    }
+
+    await simulateTransfer(chunk.size, bytesPerSecond, signal, onProgress);
+
+    const updated: MockUploadRecord = {
+      ...record,
+      chunks: [...record.chunks, chunk],
+      receivedBytes: record.receivedBytes + chunk.size,
+    };
+    await putMockRecord(MOCK_STORES.uploads, uploadId, updated);
+    return toSession(updated);
+  },
+
+  async completeUpload(uploadId: string): Promise<UploadSession> {
+    const record = await getRecordOrThrow(uploadId);
+    if (record.receivedBytes !== record.size) {
+      throw new ApiError('Upload is missing data.', { status: 409 });
+    }
+
+    const updated = { ...record, complete: true };
+    await putMockRecord(MOCK_STORES.uploads, uploadId, updated);
+    return toSession(updated);
+  },
+});
@@ -0,0 +1,209 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { putMockSubmission, resetMockStores } from '@/test/mockRecords';
+import { buildPaymentSchedule, findInstallmentPlan } from '@/utils/installmentPlans';
+import { createSandboxPaymentProvider } from './sandboxPaymentProvider';
+import { isApiError, NetworkError } from './errors';
+import { getAllMockRecords, getMockRecord, MOCK_STORES } from './mockStore';
+import type { MockSubmissionRecord } from './mockAdapter';
+import type { PaymentIntent } from './types';
+
+const provider = createSandboxPaymentProvider({ latency: 0 });
+
+const card = { type: 'card' as const, cardNumber: '4242 4242 4242 4242', expiryDate: '12/30', cvv: '123', name: 'Test Payer' };
+
+let keys = 0;
+const nextKey = () => `test-key-${++keys}`;
+
+const pay = async (record: MockSubmissionRecord, amount: number, installmentNumber?: number): Promise<PaymentIntent> => {
+  const intent = await provider.createIntent({
+    applicationId: record.applicationId,
+    amount,
+    currency: record.fee.currency,
+    installmentNumber,
+    idempotencyKey: nextKey(),
+  });
+  return provider.confirmIntent(intent.intentId, card, nextKey());
+};
+
+const getSubmission = (applicationId: string) => getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, applicationId);
+
+// The status a call was turned down with
+const rejectionStatus = async (call: Promise<unknown>) => {
+  const error = await call.then(() => null, (reason: unknown) => reason);
+  if (!isApiError(error)) throw new Error('Expected the call to be turned down');
+  return error.status;
+};
+
+describe('createIntent', () => {
+  beforeEach(resetMockStores);
+
+  const createIntent = (record: MockSubmissionRecord, amount: number, currency = record.fee.currency, installmentNumber?: number) => {
+    return provider.createIntent({ applicationId: record.applicationId, amount, currency, installmentNumber, idempotencyKey: nextKey() });
+  };
+
+  it('charges the stored fee', async () => {
+    const record = await putMockSubmission();
+    const intent = await createIntent(record, record.fee.total);
+    expect(intent).toMatchObject({ amount: record.fee.total, currency: 'USD', status: 'requires_confirmation' });
+  });
+
+  it('turns down an amount other than the stored fee', async () => {
+    const record = await putMockSubmission();
+    expect(await rejectionStatus(createIntent(record, record.fee.total - 100))).toBe(400);
+    expect(await rejectionStatus(createIntent(record, record.fee.total + 100))).toBe(400);
+  });
+
+  it('turns down another currency', async () => {
+    const record = await putMockSubmission();
+    expect(await rejectionStatus(createIntent(record, record.fee.total, 'EUR'))).toBe(400);
+  });
+
+  it('turns down an application it does not know', async () => {
+    const record = await putMockSubmission();
+    expect(await rejectionStatus(createIntent({ ...record, applicationId: 'MB-P-2027-MISSING' }, record.fee.total))).toBe(404);
+  });
+
+  it('charges installments at their scheduled amount only', async () => {
+    const base = await putMockSubmission();
+    const record = await putMockSubmission({ paymentSchedule: buildPaymentSchedule(findInstallmentPlan('deposit-2'), base.fee) });
+    const [deposit] = record.paymentSchedule.installments;
+
+    expect(await rejectionStatus(createIntent(record, deposit.amount + 1, 'USD', deposit.number))).toBe(400);
+    expect(await rejectionStatus(createIntent(record, deposit.amount, 'USD', 9))).toBe(400);
+    expect((await createIntent(record, deposit.amount, 'USD', deposit.number)).installmentNumber).toBe(deposit.number);
+  });
+
+  it('still takes the whole fee instead of a plan nothing has been paid of', async () => {
+    const base = await putMockSubmission();
+    const record = await putMockSubmission({ paymentSchedule: buildPaymentSchedule(findInstallmentPlan('deposit-2'), base.fee) });
+    expect((await createIntent(record, record.fee.total)).amount).toBe(record.fee.total);
+  });
+
+  it('turns down the whole fee once a plan has been started', async () => {
+    const base = await putMockSubmission();
+    const record = await putMockSubmission({ paymentSchedule: buildPaymentSchedule(findInstallmentPlan('deposit-2'), base.fee) });
+    const [deposit] = record.paymentSchedule.installments;
+    await pay(record, deposit.amount, deposit.number);
+
+    expect(await rejectionStatus(createIntent(record, record.fee.total))).toBe(400);
+    expect(await rejectionStatus(createIntent(record, record.fee.total - deposit.amount))).toBe(400);
+  });
+
+  it('turns down an installment that has been paid', async () => {
+    const base = await putMockSubmission();
+    const record = await putMockSubmission({ paymentSchedule: buildPaymentSchedule(findInstallmentPlan('deposit-2'), base.fee) });
+    const [deposit] = record.paymentSchedule.installments;
+    await pay(record, deposit.amount, deposit.number);
+
+    expect(await rejectionStatus(createIntent(record, deposit.amount, 'USD', deposit.number))).toBe(409);
+  });
+});
+
+describe('idempotency', () => {
+  beforeEach(resetMockStores);
+
+  const createIntent = (record: MockSubmissionRecord, idempotencyKey: string) => {
+    return provider.createIntent({ applicationId: record.applicationId, amount: record.fee.total, currency: record.fee.currency, idempotencyKey });
+  };
+
+  it('creates one intent for requests sent again with the same key', async () => {
+    const record = await putMockSubmission();
+    const [first, concurrent] = await Promise.all([createIntent(record, 'create-1'), createIntent(record, 'create-1')]);
+    const retried = await createIntent(record, 'create-1');
+
+    expect(concurrent.intentId).toBe(first.intentId);
+    expect(retried.intentId).toBe(first.intentId);
+    expect(await getAllMockRecords(MOCK_STORES.payments)).toHaveLength(1);
+  });
+
+  it('answers a confirmation sent again with the same key with the first outcome', async () => {
+    const record = await putMockSubmission();
+    const intent = await createIntent(record, 'create-1');
+    const first = await provider.confirmIntent(intent.intentId, card, 'confirm-1');
+    const retried = await provider.confirmIntent(intent.intentId, card, 'confirm-1');
+
+    expect(first.status).toBe('succeeded');
+    expect(retried).toEqual(first);
+  });
+
+  it('charges once when the same confirmation is sent twice at the same time', async () => {
+    const record = await putMockSubmission();
+    const intent = await createIntent(record, 'create-1');
+    const [first, second] = await Promise.all([
+      provider.confirmIntent(intent.intentId, card, 'confirm-1'),
+      provider.confirmIntent(intent.intentId, card, 'confirm-1'),
+    ]);
+
+    expect(second).toEqual(first);
+    const stored = await provider.retrieveIntent(intent.intentId);
+    expect(stored.status).toBe('succeeded');
+    expect((stored as PaymentIntent & { confirmationKeys: string[] }).confirmationKeys).toEqual(['confirm-1']);
+  });
+
+  it('turns down a second attempt while the first is being confirmed', async () => {
+    const record = await putMockSubmission();
+    const intent = await createIntent(record, 'create-1');
+    const [first, second] = await Promise.allSettled([
+      provider.confirmIntent(intent.intentId, card, 'confirm-1'),
+      provider.confirmIntent(intent.intentId, card, 'confirm-2'),
+    ]);
+
+    expect(first).toMatchObject({ status: 'fulfilled', value: { status: 'succeeded' } });
+    expect(second).toMatchObject({ status: 'rejected', reason: { status: 409 } });
+  });
+
+  it('keeps a payment whose answer was lost, for the payer to look up', async () => {
+    const record = await putMockSubmission();
+    const intent = await createIntent(record, 'create-1');
+    const lostCard = { ...card, cardNumber: '4000 0000 0000 0077' };
+
+    await expect(provider.confirmIntent(intent.intentId, lostCard, 'confirm-1')).rejects.toBeInstanceOf(NetworkError);
+    expect((await provider.retrieveIntent(intent.intentId)).status).toBe('succeeded');
+    expect(await provider.confirmIntent(intent.intentId, lostCard, 'confirm-1')).toMatchObject({ status: 'succeeded' });
+  });
+});
+
+describe('refund', () => {
+  beforeEach(resetMockStores);
+
+  it('leaves the other installments of a plan paid', async () => {
+    const base = await putMockSubmission();
+    const record = await putMockSubmission({ paymentSchedule: buildPaymentSchedule(findInstallmentPlan('deposit-2'), base.fee) });
+    const [deposit, second] = record.paymentSchedule.installments;
+
+    const depositIntent = await pay(record, deposit.amount, deposit.number);
+    const secondIntent = await pay(record, second.amount, second.number);
+    await provider.refund(secondIntent.intentId);
+
+    const afterOne = await getSubmission(record.applicationId);
+    expect(afterOne.paymentStatus).toBe('partially_paid');
+    expect(afterOne.paymentSchedule.installments.map(installment => !!installment.paidAt)).toEqual([true, false, false]);
+
+    await provider.refund(depositIntent.intentId);
+    const afterBoth = await getSubmission(record.applicationId);
+    expect(afterBoth.paymentStatus).toBe('refunded');
+    expect(afterBoth.paymentSchedule.installments.some(installment => installment.paidAt)).toBe(false);
+  });
+
+  it('lets a refunded installment be paid again', async () => {
+    const base = await putMockSubmission();
+    const record = await putMockSubmission({ paymentSchedule: buildPaymentSchedule(findInstallmentPlan('deposit-2'), base.fee) });
+    const [deposit, second] = record.paymentSchedule.installments;
+
+    await pay(record, deposit.amount, deposit.number);
+    await provider.refund((await pay(record, second.amount, second.number)).intentId);
+    const repaid = await pay(record, second.amount, second.number);
+
+    expect(repaid.status).toBe('succeeded');
+    expect((await getSubmission(record.applicationId)).paymentStatus).toBe('partially_paid');
+  });
+
+  it('refunds a payment in full', async () => {
+    const record = await putMockSubmission();
+    const intent = await pay(record, record.fee.total);
+    expect((await getSubmission(record.applicationId)).paymentStatus).toBe('paid');
+
+    await provider.refund(intent.intentId);
+    expect((await getSubmission(record.applicationId)).paymentStatus).toBe('refunded');
+  });
+});
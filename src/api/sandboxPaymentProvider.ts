@@ -0,0 +1,426 @@
+import { detectCardBrand } from '@/utils/cardBrands';
+import { beneficiaryAccount, createPaymentReference, isValidPaymentReference, looksLikeIban, normalizePaymentReference } from '@/utils/bankTransfer';
+import type { PaymentSchedule } from '@/utils/installmentPlans';
+import { convertAmount, exchangeRates, ExchangeRateLock, isRateLockExpired } from '@/utils/currencies';
+import { ApiError, NetworkError } from './errors';
+import { createIdempotencyGuard, getAllMockRecords, getMockRecord, putMockRecord, MOCK_STORES } from './mockStore';
+import { getStatusAfterPayment, MockSubmissionRecord, paymentActor, withStatus } from './mockAdapter';
+import type {
+  ApplicationPaymentStatus,
+  CreatePaymentIntentRequest,
+  PaymentCharge,
+  PaymentFailureCode,
+  PaymentIntent,
+  PaymentMethodDetails,
+  PaymentMethodSummary,
+  PaymentProvider,
+  ReconcileTransferRequest,
+} from './types';
+
+// Local stand-in for a payment processor. Nothing is charged: the result of each
+// payment is picked by the test value used, so every path through the payment
+// form can be tried offline. Bank transfers wait until one is recorded with
+// reconcileTransfer, the way staff would match a transfer on the bank statement.
+
+type SandboxOutcome = 'succeeded' | 'challenge' | 'transfer' | 'lost_response' | Exclude<PaymentFailureCode, 'authentication_failed'>;
+
+interface SandboxTestValue {
+  value: string;
+  outcome: SandboxOutcome;
+  description: string;
+}
+
+export const sandboxTestCards: SandboxTestValue[] = [
+  { value: '4242 4242 4242 4242', outcome: 'succeeded', description: 'Payment succeeds' },
+  { value: '4000 0000 0000 3220', outcome: 'challenge', description: '3-D Secure authentication required' },
+  { value: '4000 0000 0000 0002', outcome: 'card_declined', description: 'Card is declined' },
+  { value: '4000 0000 0000 9995', outcome: 'insufficient_funds', description: 'Insufficient funds' },
+  { value: '4000 0000 0000 0119', outcome: 'processing_error', description: 'Processing error' },
+  { value: '4000 0000 0000 0077', outcome: 'lost_response', description: 'Payment succeeds but the response is lost' },
+];
+
+// PayPal payments always need approving in PayPal unless the email says otherwise
+export const sandboxTestPayPalEmails: SandboxTestValue[] = [
+  { value: 'declined@sandbox.test', outcome: 'card_declined', description: 'PayPal declines the payment' },
+  { value: 'insufficient@sandbox.test', outcome: 'insufficient_funds', description: 'Insufficient funds' },
+];
+
+const failureMessages: Record<PaymentFailureCode, string> = {
+  card_declined: 'Your payment was declined. Please use a different payment method.',
+  insufficient_funds: 'There are not enough funds to cover this payment. Please use a different payment method.',
+  authentication_failed: 'We could not verify your payment. Please try again or use a different payment method.',
+  processing_error: 'Something went wrong while processing your payment. Please try again.',
+};
+
+// What is stored for an intent: the keys of the requests that created and confirmed it
+interface SandboxIntentRecord extends PaymentIntent {
+  idempotencyKey: string;
+  confirmationKeys: string[];
+}
+
+interface SandboxPaymentProviderOptions {
+  latency?: number; // Simulated round-trip time in milliseconds
+}
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+const digitsOf = (value: string) => value.replace(/\D/g, '');
+
+const findOutcome = (values: SandboxTestValue[], input: string, normalize: (value: string) => string) => {
+  return values.find(test => normalize(test.value) === normalize(input))?.outcome;
+};
+
+const getOutcome = (method: PaymentMethodDetails): SandboxOutcome => {
+  switch (method.type) {
+    case 'card':
+      return findOutcome(sandboxTestCards, method.cardNumber, digitsOf) ?? 'succeeded';
+    case 'paypal':
+      return findOutcome(sandboxTestPayPalEmails, method.email, value => value.trim().toLowerCase()) ?? 'challenge';
+    case 'bank':
+      return 'transfer';
+  }
+};
+
+// What is kept of the payment details: never the full card or account number
+const summarizeMethod = (method: PaymentMethodDetails): PaymentMethodSummary => {
+  switch (method.type) {
+    case 'card': {
+      const last4 = digitsOf(method.cardNumber).slice(-4);
+      return {
+        type: method.type,
+        summary: `${detectCardBrand(method.cardNumber)?.name ?? 'Card'} ending ${last4}`,
+        payer: method.name.trim(),
+        last4,
+      };
+    }
+    case 'paypal':
+      return { type: method.type, summary: `PayPal (${method.email.trim()})`, payer: method.email.trim() };
+    case 'bank': {
+      const last4 = method.account.replace(/\s/g, '').slice(-4).toUpperCase();
+      return {
+        type: method.type,
+        summary: `Bank transfer from ${looksLikeIban(method.account) ? 'IBAN' : 'account'} ending ${last4}`,
+        payer: method.accountHolder.trim(),
+        last4,
+      };
+    }
+  }
+};
+
+// Charge in the fee currency, or convert at a rate the payer locked from our own rate table
+const getCharge = (amount: number, currency: string, lock: ExchangeRateLock | undefined, now: Date): PaymentCharge => {
+  if (!lock) {
+    return { amount, currency, rate: 1, rateLockedAt: now.toISOString() };
+  }
+  if (lock.baseCurrency !== currency || exchangeRates.rates[lock.currency] !== lock.rate) {
+    throw new ApiError('The exchange rate is not valid. Please refresh the page and try again.', { status: 400 });
+  }
+  if (isRateLockExpired(lock, now)) {
+    throw new ApiError('The exchange rate has expired. Please check the amount and try again.', { status: 409 });
+  }
+  return { amount: convertAmount(amount, lock), currency: lock.currency, rate: lock.rate, rateLockedAt: lock.lockedAt };
+};
+
+const generateIntentId = (): string => `pi_sandbox_${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`;
+
+const getIntentOrThrow = async (intentId: string): Promise<SandboxIntentRecord> => {
+  const intent = await getMockRecord<SandboxIntentRecord>(MOCK_STORES.payments, intentId);
+  if (!intent) {
+    throw new ApiError('Payment not found.', { status: 404 });
+  }
+  return intent;
+};
+
+const paymentStatusOf = (intent: PaymentIntent, schedule: PaymentSchedule | null): ApplicationPaymentStatus => {
+  // With a payment plan the application is only paid once every installment is, and
+  // it is only refunded once no installment is left paid
+  if (schedule && schedule.installments.some(installment => installment.paidAt)) {
+    return schedule.installments.every(installment => installment.paidAt) ? 'paid' : 'partially_paid';
+  }
+  switch (intent.status) {
+    case 'awaiting_transfer':
+      return 'awaiting_transfer';
+    case 'succeeded':
+      return 'paid';
+    case 'refunded':
+      return 'refunded';
+    default:
+      return 'unpaid';
+  }
+};
+
+// Keep the application's payment status in step with its payment
+const updateSubmissionPaymentStatus = async (intent: PaymentIntent): Promise<void> => {
+  const submission = await getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, intent.applicationId);
+  if (!submission) return;
+
+  let schedule = submission.paymentSchedule ?? null;
+  if (schedule && intent.installmentNumber && intent.status === 'succeeded') {
+    schedule = {
+      ...schedule,
+      installments: schedule.installments.map(installment =>
+        installment.number === intent.installmentNumber && !installment.paidAt
+          ? { ...installment, paidAt: intent.updatedAt }
+          : installment
+      ),
+    };
+  }
+  // A refunded installment is owed again
+  if (schedule && intent.installmentNumber && intent.status === 'refunded') {
+    schedule = {
+      ...schedule,
+      installments: schedule.installments.map(installment =>
+        installment.number === intent.installmentNumber ? { ...installment, paidAt: undefined } : installment
+      ),
+    };
+  }
+  const paymentStatus = paymentStatusOf(intent, schedule);
+  const reason = paymentStatus === 'paid' ? 'The application fee was paid.' : 'The first installment of the application fee was paid.';
+  await putMockRecord(
+    MOCK_STORES.submissions,
+    submission.applicationId,
+    withStatus({ ...submission, paymentSchedule: schedule, paymentStatus }, getStatusAfterPayment(submission.status, paymentStatus), paymentActor, reason)
+  );
+};
+
+// What is charged comes from the stored application, never from the payer: the
+// whole fee, or with a payment plan one installment, paid in full and only once.
+// The whole fee can still be paid instead of a plan until its first installment is.
+const assertAmountOwed = async ({ applicationId, amount, currency, installmentNumber }: CreatePaymentIntentRequest) => {
+  const submission = await getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, applicationId);
+  if (!submission) {
+    throw new ApiError('Application not found.', { status: 404 });
+  }
+
+  const schedule = submission.paymentSchedule;
+  if (installmentNumber === undefined) {
+    const planStarted = schedule?.installments.some(installment => installment.paidAt);
+    if (planStarted || submission.fee.total !== amount || submission.fee.currency !== currency) {
+      throw new ApiError('The payment amount does not match your application fee.', { status: 400 });
+    }
+    return;
+  }
+
+  const installment = schedule?.installments.find(candidate => candidate.number === installmentNumber);
+  if (!installment || installment.paidAt || installment.amount !== amount || schedule.currency !== currency) {
+    throw new ApiError('The payment amount does not match your payment plan.', { status: 400 });
+  }
+};
+
+// Never take a second payment for what is already paid, e.g. from another tab or a new attempt
+const assertNotPaid = async ({ applicationId, installmentNumber }: CreatePaymentIntentRequest, intents: PaymentIntent[]) => {
+  const submission = await getMockRecord<MockSubmissionRecord>(MOCK_STORES.submissions, applicationId);
+  const settled = intents.some(intent =>
+    intent.applicationId === applicationId &&
+    intent.installmentNumber === installmentNumber &&
+    (intent.status === 'succeeded' || intent.status === 'awaiting_transfer')
+  );
+  if (settled || submission?.paymentStatus === 'paid') {
+    throw new ApiError('This payment has already been made.', { status: 409 });
+  }
+};
+
+const saveIntent = async (intent: SandboxIntentRecord, changes: Partial<SandboxIntentRecord>): Promise<SandboxIntentRecord> => {
+  const now = new Date().toISOString();
+  const updated = { ...intent, ...changes, updatedAt: now };
+  if (updated.status === 'succeeded' && !updated.paidAt) {
+    updated.paidAt = now;
+  }
+  await putMockRecord(MOCK_STORES.payments, updated.intentId, updated);
+  await updateSubmissionPaymentStatus(updated);
+  return updated;
+};
+
+const fail = (code: PaymentFailureCode): Partial<PaymentIntent> => ({
+  status: 'failed',
+  nextAction: undefined,
+  failure: { code, message: failureMessages[code] },
+});
+
+const createProvider = (latency: number): PaymentProvider => ({
+  mode: 'sandbox',
+
+  async createIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent> {
+    const { applicationId, amount, currency, installmentNumber, exchangeRate, idempotencyKey } = request;
+    await delay(latency / 4);
+    const intents = await getAllMockRecords<SandboxIntentRecord>(MOCK_STORES.payments);
+    // A retried request gets the intent it created the first time
+    const existing = intents.find(intent => intent.idempotencyKey === idempotencyKey);
+    if (existing) {
+      return existing;
+    }
+
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new ApiError('The payment amount is not valid.', { status: 400 });
+    }
+    await assertNotPaid(request, intents);
+    await assertAmountOwed(request);
+
+    const now = new Date();
+    const charge = getCharge(amount, currency, exchangeRate, now);
+    const intent: SandboxIntentRecord = {
+      intentId: generateIntentId(),
+      applicationId,
+      amount,
+      currency,
+      charge,
+      status: 'requires_confirmation',
+      installmentNumber,
+      refundedAmount: 0,
+      createdAt: now.toISOString(),
+      updatedAt: now.toISOString(),
+      idempotencyKey,
+      confirmationKeys: [],
+    };
+    await putMockRecord(MOCK_STORES.payments, intent.intentId, intent);
+    return intent;
+  },
+
+  async confirmIntent(intentId: string, method: PaymentMethodDetails, idempotencyKey: string): Promise<PaymentIntent> {
+    await delay(latency);
+    const intent = await getIntentOrThrow(intentId);
+    // A retried request gets the outcome of the first one, without charging again
+    if (intent.confirmationKeys?.includes(idempotencyKey)) {
+      return intent;
+    }
+    // A declined payment can be tried again, e.g. with another card
+    if (intent.status !== 'requires_confirmation' && intent.status !== 'failed') {
+      throw new ApiError('This payment has already been processed.', { status: 409 });
+    }
+
+    // Our account takes transfers in the fee currency only
+    if (method.type === 'bank' && intent.charge.currency !== intent.currency) {
+      throw new ApiError(`Bank transfers must be paid in ${intent.currency}.`, { status: 400 });
+    }
+
+    const changes: Partial<SandboxIntentRecord> = {
+      method: summarizeMethod(method),
+      failure: undefined,
+      confirmationKeys: [...(intent.confirmationKeys ?? []), idempotencyKey],
+    };
+    const outcome = getOutcome(method);
+
+    if (outcome === 'succeeded') {
+      return saveIntent(intent, { ...changes, status: 'succeeded' });
+    }
+    if (outcome === 'lost_response') {
+      await saveIntent(intent, { ...changes, status: 'succeeded' });
+      throw new NetworkError();
+    }
+    if (outcome === 'challenge') {
+      return saveIntent(intent, {
+        ...changes,
+        status: 'requires_action',
+        nextAction: method.type === 'paypal'
+          ? { type: 'paypal_approval', message: 'Log in to PayPal to approve this payment.' }
+          : { type: 'three_d_secure', message: 'Your bank needs you to confirm this payment.' },
+      });
+    }
+    if (outcome === 'transfer') {
+      return saveIntent(intent, {
+        ...changes,
+        status: 'awaiting_transfer',
+        bankTransfer: {
+          reference: createPaymentReference(intent.applicationId),
+          beneficiary: beneficiaryAccount,
+          receivedAmount: 0,
+        },
+      });
+    }
+    return saveIntent(intent, { ...changes, ...fail(outcome) });
+  },
+
+  async retrieveIntent(intentId: string): Promise<PaymentIntent> {
+    await delay(latency / 4);
+    return getIntentOrThrow(intentId);
+  },
+
+  async completeAction(intentId: string, approved: boolean): Promise<PaymentIntent> {
+    await delay(latency / 2);
+    const intent = await getIntentOrThrow(intentId);
+    if (intent.status !== 'requires_action') {
+      throw new ApiError('This payment is not waiting for confirmation.', { status: 409 });
+    }
+
+    return saveIntent(intent, approved
+      ? { status: 'succeeded', nextAction: undefined }
+      : fail('authentication_failed'));
+  },
+
+  async refund(intentId: string, amount?: number): Promise<PaymentIntent> {
+    await delay(latency / 2);
+    const intent = await getIntentOrThrow(intentId);
+    if (intent.status !== 'succeeded') {
+      throw new ApiError('Only completed payments can be refunded.', { status: 409 });
+    }
+
+    const remaining = intent.amount - intent.refundedAmount;
+    const refundAmount = amount ?? remaining;
+    if (!Number.isInteger(refundAmount) || refundAmount <= 0 || refundAmount > remaining) {
+      throw new ApiError('The refund amount is not valid.', { status: 400 });
+    }
+
+    const refundedAmount = intent.refundedAmount + refundAmount;
+    return saveIntent(intent, {
+      refundedAmount,
+      status: refundedAmount === intent.amount ? 'refunded' : 'succeeded',
+    });
+  },
+
+  async listAwaitingTransfers(): Promise<PaymentIntent[]> {
+    await delay(latency / 4);
+    const intents = await getAllMockRecords<PaymentIntent>(MOCK_STORES.payments);
+    return intents
+      .filter(intent => intent.status === 'awaiting_transfer')
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+  },
+
+  async reconcileTransfer({ reference, amount }: ReconcileTransferRequest): Promise<PaymentIntent> {
+    await delay(latency / 2);
+    if (!isValidPaymentReference(reference)) {
+      throw new ApiError('This is not a valid payment reference.', { status: 400 });
+    }
+    if (!Number.isInteger(amount) || amount <= 0) {
+      throw new ApiError('The transfer amount is not valid.', { status: 400 });
+    }
+
+    const intents = await getAllMockRecords<SandboxIntentRecord>(MOCK_STORES.payments);
+    const intent = intents.find(candidate =>
+      candidate.status === 'awaiting_transfer' &&
+      candidate.bankTransfer?.reference === normalizePaymentReference(reference)
+    );
+    if (!intent?.bankTransfer) {
+      throw new ApiError('No application is awaiting a transfer with this reference.', { status: 404 });
+    }
+
+    // A transfer may arrive in parts, e.g. after bank charges were taken off the first one
+    const receivedAmount = intent.bankTransfer.receivedAmount + amount;
+    return saveIntent(intent, {
+      bankTransfer: { ...intent.bankTransfer, receivedAmount },
+      status: receivedAmount >= intent.amount ? 'succeeded' : 'awaiting_transfer',
+    });
+  },
+});
+
+export const createSandboxPaymentProvider = ({ latency = 1200 }: SandboxPaymentProviderOptions = {}): PaymentProvider => {
+  const provider = createProvider(latency);
+  const withIdempotency = createIdempotencyGuard();
+  // Intents being confirmed right now: a second attempt has to wait for the first one's outcome
+  const confirming = new Set<string>();
+
+  return {
+    ...provider,
+    createIntent: request => withIdempotency(`create:${request.idempotencyKey}`, () => provider.createIntent(request)),
+    confirmIntent: (intentId, method, idempotencyKey) => withIdempotency(`confirm:${idempotencyKey}`, async () => {
+      if (confirming.has(intentId)) {
+        throw new ApiError('This payment is already being processed.', { status: 409 });
+      }
+      confirming.add(intentId);
+      try {
+        return await provider.confirmIntent(intentId, method, idempotencyKey);
+      } finally {
+        confirming.delete(intentId);
+      }
+    }),
+  };
+};
@@ -0,0 +1,67 @@
+import type { ApplicantSession, StaffSession } from './types';
+
+// Signed-in sessions, kept in localStorage so they are shared by every tab until
+// they expire or the backend turns them down
+
+interface StoredSession {
+  token: string;
+  expiresAt: string;
+}
+
+type Listener = () => void;
+
+export interface SessionStore<S extends StoredSession> {
+  get(): S | null;
+  set(session: S | null): void;
+  // Called when the session changes in this tab or another one
+  subscribe(listener: Listener): () => void;
+}
+
+const createSessionStore = <S extends StoredSession>(storageKey: string): SessionStore<S> => {
+  const listeners = new Set<Listener>();
+  // Parsed once per stored value, so the same session object is returned until it changes
+  let cached: { raw: string | null; session: S | null } = { raw: null, session: null };
+
+  return {
+    get() {
+      const raw = localStorage.getItem(storageKey);
+      if (raw !== cached.raw) {
+        let session: S | null = null;
+        try {
+          session = raw ? JSON.parse(raw) : null;
+        } catch {
+          session = null;
+        }
+        cached = { raw, session };
+      }
+
+      const { session } = cached;
+      return session && new Date(session.expiresAt) > new Date() ? session : null;
+    },
+
+    set(session) {
+      if (session) {
+        localStorage.setItem(storageKey, JSON.stringify(session));
+      } else {
+        localStorage.removeItem(storageKey);
+      }
+      listeners.forEach(listener => listener());
+    },
+
+    subscribe(listener) {
+      const onStorage = (event: StorageEvent) => {
+        if (event.key === storageKey) listener();
+      };
+      listeners.add(listener);
+      window.addEventListener('storage', onStorage);
+      return () => {
+        listeners.delete(listener);
+        window.removeEventListener('storage', onStorage);
+      };
+    },
+  };
+};
+
+export const staffSession = createSessionStore<StaffSession>('miss-bloom-staff-session');
+
+export const applicantSession = createSessionStore<ApplicantSession>('miss-bloom-applicant-session');
@@ -0,0 +1,560 @@
+import type { SubmittedApplicationData } from '@/utils/formUtils';
+import type { DirectorFormValues } from '@/utils/directorForm';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { FeeLineItem, FeeQuote } from '@/utils/feeSchedule';
+import type { BeneficiaryAccount } from '@/utils/bankTransfer';
+import type { PaymentSchedule } from '@/utils/installmentPlans';
+import type { ExchangeRateLock } from '@/utils/currencies';
+import type { ReceiptIssuer } from '@/utils/receipts';
+
+// Request and response types shared by every submissions backend
+
+export interface ParticipantSubmission {
+  formData: SubmittedApplicationData; // Photos are referenced by upload ID
+  agreeTerms: boolean;
+}
+
+export type DirectorSubmission = DirectorFormValues;
+
+export type ApplicationPayload =
+  | { type: 'participant'; data: ParticipantSubmission }
+  | { type: 'director'; data: DirectorSubmission };
+
+export type SubmissionRequest = ApplicationPayload & {
+  // Generated once per submit click and reused across retries, so a backend can
+  // recognise a retried request it has already processed
+  clientReference: string;
+  applicationId?: string; // Set when completing an application that was paid for first
+};
+
+// Enough to quote the fee when it is paid before the application form is filled in
+export interface ApplicantRegistration {
+  email: string;
+  country: string; // Sets the fee, so it can't be changed on the form afterwards
+}
+
+export interface StartApplicationRequest extends ApplicantRegistration {
+  type: ApplicationType;
+  clientReference: string;
+}
+
+export interface ResumePaymentRequest {
+  applicationId: string;
+  token: string; // From the pay link
+}
+
+// Where an application stands. A draft has been paid for (or is being paid for)
+// but its form has not been submitted yet. The lifecycle and the changes staff
+// can make are described in utils/applicationStatus.
+export type ApplicationStatus =
+  | 'draft'
+  | 'pending_payment'
+  | 'submitted'
+  | 'under_review'
+  | 'shortlisted'
+  | 'interview'
+  | 'accepted'
+  | 'waitlisted'
+  | 'rejected'
+  | 'withdrawn';
+
+export interface StatusActor {
+  kind: 'applicant' | 'staff' | 'system';
+  name: string;
+}
+
+// One step of an application's status history
+export interface StatusChange {
+  from: ApplicationStatus | null; // null when the application was created
+  to: ApplicationStatus;
+  at: string;
+  actor: StatusActor;
+  reason: string | null;
+}
+
+// Where an application stands with its fee, kept on the submission by the backend
+export type ApplicationPaymentStatus = 'unpaid' | 'awaiting_transfer' | 'partially_paid' | 'paid' | 'refunded';
+
+export interface SubmissionResult {
+  applicationId: string;
+  type: ApplicationType;
+  submittedAt: string;
+  fee: FeeQuote; // What the applicant owes, worked out by the server from the fee schedule
+  status: ApplicationStatus;
+  payLink: string | null; // For paying later, while the fee is unpaid
+  paymentSchedule: PaymentSchedule | null; // Set once an installment plan has been chosen
+}
+
+export interface ApplyPromoCodeRequest {
+  applicationId: string;
+  code: string | null; // null removes the code that was applied
+}
+
+export interface SelectPaymentPlanRequest {
+  applicationId: string;
+  planId: string | null; // null goes back to paying in full
+}
+
+// A submitted application's fee and how much of it has been paid
+export interface ApplicationOverview {
+  applicationId: string;
+  type: ApplicationType;
+  submittedAt: string;
+  fee: FeeQuote;
+  status: ApplicationStatus;
+  // Oldest first. Staff are named only as the team, and their reasons are left out.
+  statusHistory: StatusChange[];
+  paymentStatus: ApplicationPaymentStatus;
+  paymentSchedule: PaymentSchedule | null; // Set when paying in installments
+  amountPaid: number; // In cents
+  balance: number; // In cents
+}
+
+// A backend that application submissions can be sent to
+export interface SubmissionAdapter {
+  submitApplication(request: SubmissionRequest): Promise<SubmissionResult>;
+  // Open a draft application so its fee can be paid before the form is filled in
+  startApplication(request: StartApplicationRequest): Promise<SubmissionResult>;
+  // Look up an unpaid application from its pay link
+  resumePayment(request: ResumePaymentRequest): Promise<SubmissionResult>;
+  // Re-quote the fee of an unpaid application with a promo or voucher code
+  applyPromoCode(request: ApplyPromoCodeRequest): Promise<FeeQuote>;
+  // Choose how an unpaid application's fee is paid; resolves with the schedule, or null when paying in full
+  selectPaymentPlan(request: SelectPaymentPlanRequest): Promise<PaymentSchedule | null>;
+  getApplication(applicationId: string): Promise<ApplicationOverview>;
+  // One receipt per completed payment, oldest first
+  getReceipts(applicationId: string): Promise<PaymentReceipt[]>;
+}
+
+// Proof of a completed payment, for the payer's accounts. The payer may be a
+// sponsor paying on the applicant's behalf.
+export interface PaymentReceipt {
+  receiptNumber: string;
+  issuedAt: string; // When the payment went through
+  transactionReference: string; // The payment intent ID
+  applicationId: string;
+  applicationType: ApplicationType;
+  seasonName: string;
+  applicant: { name: string; email: string };
+  payer: string;
+  method: string; // e.g. "Visa ending 4242"
+  issuer: ReceiptIssuer;
+  lineItems: FeeLineItem[]; // Discounts are negative
+  subtotal: number; // In cents of `currency`, before discounts
+  discounts: number; // Negative or zero
+  tax: { label: string; rate: number; amount: number }; // Included in the total
+  total: number;
+  currency: string;
+  charge: PaymentCharge;
+  refundedAmount: number;
+}
+
+// Resumable uploads: a file is registered with startUpload, sent in chunks with
+// uploadChunk, and finalised with completeUpload
+
+export interface UploadSession {
+  uploadId: string;
+  receivedBytes: number; // How much of the file the server already has
+  complete: boolean;
+}
+
+export interface StartUploadRequest {
+  fileName: string;
+  size: number;
+  mimeType: string;
+}
+
+export interface UploadChunkRequest {
+  uploadId: string;
+  offset: number;
+  chunk: Blob;
+  totalSize: number;
+  signal?: AbortSignal;
+  onProgress?: (sentBytes: number) => void; // Bytes of this chunk sent so far
+}
+
+export interface UploadAdapter {
+  startUpload(request: StartUploadRequest): Promise<UploadSession>;
+  // Returns null when the server no longer knows about the upload
+  getUpload(uploadId: string): Promise<UploadSession | null>;
+  uploadChunk(request: UploadChunkRequest): Promise<UploadSession>;
+  completeUpload(uploadId: string): Promise<UploadSession>;
+}
+
+// Payments: an intent to collect an amount is created for an application, then
+// confirmed with the payer's payment method. Confirming may need an extra step
+// from the payer (3-D Secure or approving in PayPal) before the result is known.
+// Bank transfers wait for the money to arrive and be matched to the application
+// by its payment reference.
+
+export type PaymentMethodDetails =
+  | { type: 'card'; cardNumber: string; expiryDate: string; cvv: string; name: string }
+  | { type: 'paypal'; email: string }
+  // The account the transfer will be sent from: an IBAN, or a local account number outside IBAN countries
+  | { type: 'bank'; accountHolder: string; account: string; bic: string };
+
+export type PaymentMethodType = PaymentMethodDetails['type'];
+
+export type PaymentIntentStatus =
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'awaiting_transfer'
+  | 'succeeded'
+  | 'failed'
+  | 'refunded';
+
+export type PaymentFailureCode = 'card_declined' | 'insufficient_funds' | 'authentication_failed' | 'processing_error';
+
+export interface PaymentIntent {
+  intentId: string;
+  applicationId: string;
+  amount: number; // In cents of the fee currency
+  currency: string; // The fee currency
+  charge: PaymentCharge; // What the payer is charged, which may be in another currency
+  status: PaymentIntentStatus;
+  method?: PaymentMethodSummary;
+  // What the payer has to do next when the status is requires_action
+  nextAction?: { type: 'three_d_secure' | 'paypal_approval'; message: string };
+  failure?: { code: PaymentFailureCode; message: string };
+  bankTransfer?: BankTransferInstructions; // Set when paying by bank transfer
+  installmentNumber?: number; // Which installment of the payment schedule this pays
+  refundedAmount: number;
+  paidAt?: string; // When the payment succeeded
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface PaymentMethodSummary {
+  type: PaymentMethodType;
+  summary: string; // e.g. "Visa ending 4242"
+  payer: string; // Cardholder name, PayPal email or bank account holder
+  last4?: string; // Of the card or account number
+}
+
+export interface PaymentCharge {
+  amount: number; // In the minor unit of `currency`
+  currency: string;
+  rate: number; // Units of `currency` per unit of the fee currency; 1 when charged in the fee currency
+  rateLockedAt: string;
+}
+
+export interface BankTransferInstructions {
+  reference: string; // Must be quoted on the transfer so it can be matched to the application
+  beneficiary: BeneficiaryAccount;
+  receivedAmount: number; // In cents; the payment succeeds once this covers the amount
+}
+
+export interface CreatePaymentIntentRequest {
+  applicationId: string;
+  amount: number;
+  currency: string;
+  installmentNumber?: number; // Must match the amount of that installment
+  exchangeRate?: ExchangeRateLock; // Charge in another currency at this locked rate
+  idempotencyKey: string; // Same key for every retry of one attempt, so it creates one intent
+}
+
+// A payment processor. Declines are not errors: they come back as a failed intent
+// that can be confirmed again with another payment method.
+export interface PaymentProvider {
+  readonly mode: 'sandbox' | 'live';
+  createIntent(request: CreatePaymentIntentRequest): Promise<PaymentIntent>;
+  // Retrying with the same idempotency key returns the first outcome instead of charging again
+  confirmIntent(intentId: string, method: PaymentMethodDetails, idempotencyKey: string): Promise<PaymentIntent>;
+  // The intent as the processor has it now, e.g. to find out how a request that got no answer ended
+  retrieveIntent(intentId: string): Promise<PaymentIntent>;
+  // Finish the extra step of a requires_action intent, passed or failed by the payer
+  completeAction(intentId: string, approved: boolean): Promise<PaymentIntent>;
+  // Refund all of a succeeded payment, or `amount` cents of it
+  refund(intentId: string, amount?: number): Promise<PaymentIntent>;
+  // Bank transfers that have not been received in full yet, oldest first
+  listAwaitingTransfers(): Promise<PaymentIntent[]>;
+  // Record an incoming bank transfer against the awaiting_transfer intent with its reference
+  reconcileTransfer(request: ReconcileTransferRequest): Promise<PaymentIntent>;
+}
+
+export interface ReconcileTransferRequest {
+  reference: string;
+  amount: number; // In cents, as received
+}
+
+// Staff: the team reviews what comes in after signing in. Every staff request is
+// made with the token of the signed-in session.
+
+// Staff run the applications; judges only score the ones they are assigned
+export type StaffRole = 'staff' | 'judge';
+
+export interface StaffAccount {
+  email: string;
+  name: string;
+  role: StaffRole;
+}
+
+export interface StaffSignInRequest {
+  email: string;
+  password: string;
+}
+
+export interface StaffSession {
+  token: string;
+  account: StaffAccount;
+  expiresAt: string;
+}
+
+export type ApplicationSortField = 'submittedAt' | 'name' | 'country' | 'age' | 'status' | 'paymentStatus' | 'score';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface ApplicationListQuery {
+  search?: string; // Matches the name, email address or application ID
+  type?: ApplicationType;
+  country?: string;
+  status?: ApplicationStatus;
+  paymentStatus?: ApplicationPaymentStatus;
+  minAge?: number;
+  maxAge?: number;
+  submittedFrom?: string; // YYYY-MM-DD, inclusive
+  submittedTo?: string; // YYYY-MM-DD, inclusive
+  sortBy: ApplicationSortField;
+  sortDirection: SortDirection;
+  page: number; // From 1
+  pageSize: number;
+}
+
+// One row of the staff list of applications
+export interface ApplicationSummary {
+  applicationId: string;
+  type: ApplicationType;
+  name: string; // The email address until the form of a draft is submitted
+  email: string;
+  country: string;
+  age: number | null; // From the date of birth; null until the form is submitted
+  submittedAt: string;
+  status: ApplicationStatus;
+  paymentStatus: ApplicationPaymentStatus;
+  score: number | null; // The judges' mean score; null until a judge has scored it
+}
+
+export interface ApplicationListPage {
+  applications: ApplicationSummary[];
+  total: number; // Matching applications across all pages
+  page: number;
+  pageSize: number;
+  countries: string[]; // Every country applied from, for filtering
+}
+
+// Everything staff see of one application
+export interface ApplicationDetail extends ApplicationSummary {
+  payload: ApplicationPayload | null; // The answers as submitted; null while a draft's form is not in
+  fee: FeeQuote;
+  promoCode: string | null;
+  paymentSchedule: PaymentSchedule | null;
+  amountPaid: number; // In cents
+  balance: number; // In cents
+  statusHistory: StatusChange[]; // Oldest first
+  messages: StaffMessage[]; // Sent to the applicant, oldest first
+  changeRequests: ChangeRequest[]; // Oldest first; only the last can still be open
+  revisions: ApplicationRevision[]; // Every submission of the answers, oldest first
+  judges: AssignedJudge[];
+  scores: ApplicationScores;
+}
+
+// After submitting, staff can ask for answers to be changed: whole sections of
+// the form, or single fields in them. The applicant reopens just those and sends
+// the changes, which are kept as a new revision of the answers.
+
+export interface ChangeRequestItem {
+  sectionId: string;
+  field: string | null; // null asks for changes anywhere in the section
+  note: string; // What needs changing, for the applicant
+}
+
+export interface ChangeRequest {
+  requestId: string;
+  requestedAt: string;
+  requestedBy: string;
+  items: ChangeRequestItem[];
+  resolvedAt: string | null; // When the applicant sent their changes
+}
+
+export type AnswerValue = string | boolean | null;
+
+export interface AnswerChange {
+  field: string;
+  before: AnswerValue;
+  after: AnswerValue;
+}
+
+export interface ApplicationRevision {
+  revision: number; // 1 is the application as first submitted
+  submittedAt: string;
+  requestId: string | null; // The change request the revision answers
+  changes: AnswerChange[]; // Against the revision before it
+}
+
+export interface RequestChangesRequest {
+  applicationId: string;
+  items: ChangeRequestItem[];
+}
+
+export interface SendMessageRequest {
+  applicationId: string;
+  body: string;
+}
+
+export interface ChangeStatusRequest {
+  applicationId: string;
+  status: ApplicationStatus;
+  reason: string; // Kept in the history; staff always say why
+}
+
+// Judging: the selection committee scores submitted applications against the
+// rubric of their type, each criterion from 1 to 10 with a comment. Judges only
+// see the applications they are assigned to, and in blind mode not who made them.
+
+export interface AssignedJudge {
+  email: string;
+  name: string;
+  scoredAt: string | null;
+}
+
+export interface ScoreSheet {
+  judgeEmail: string;
+  judgeName: string;
+  scores: Record<string, number>; // By criterion ID
+  comments: Record<string, string>; // By criterion ID
+  submittedAt: string;
+}
+
+export interface ScoreAggregate {
+  mean: number | null;
+  median: number | null;
+  // The mean of the judges' scores as standard scores against each judge's own
+  // scoring, so a strict and a generous judge count alike. 0 is the judges' usual score.
+  normalized: number | null;
+}
+
+export interface CriterionScore extends ScoreAggregate {
+  criterionId: string;
+}
+
+export interface ApplicationScores {
+  sheets: ScoreSheet[];
+  criteria: CriterionScore[]; // In rubric order
+  overall: ScoreAggregate; // Of each judge's average across the criteria
+}
+
+export interface AssignJudgesRequest {
+  applicationId: string;
+  judgeEmails: string[]; // Everyone who should judge it, replacing who did
+}
+
+// An application a judge has been asked to score
+export interface JudgingAssignment {
+  applicationId: string;
+  type: ApplicationType;
+  name: string | null; // null in blind mode
+  country: string;
+  scoredAt: string | null;
+}
+
+export interface JudgingApplication extends JudgingAssignment {
+  blind: boolean;
+  payload: ApplicationPayload; // In blind mode without the name, email address or photos
+  sheet: ScoreSheet | null; // The judge's own scores, once sent
+}
+
+export interface SubmitScoresRequest {
+  applicationId: string;
+  scores: Record<string, number>;
+  comments: Record<string, string>;
+}
+
+// The backend the staff area talks to
+export interface StaffAdapter {
+  readonly mode: 'mock' | 'http';
+  signIn(request: StaffSignInRequest): Promise<StaffSession>;
+  signOut(): Promise<void>;
+  listApplications(query: ApplicationListQuery): Promise<ApplicationListPage>;
+  getApplicationDetail(applicationId: string): Promise<ApplicationDetail>;
+  // Move an application on in its lifecycle, as allowed from its current status
+  changeStatus(request: ChangeStatusRequest): Promise<ApplicationDetail>;
+  // Message the applicant; they are emailed to read it in the status portal
+  sendMessage(request: SendMessageRequest): Promise<ApplicationDetail>;
+  // Ask the applicant to change answers. Replaces a request they haven't answered yet.
+  requestChanges(request: RequestChangesRequest): Promise<ApplicationDetail>;
+  // The judge accounts applications can be assigned to
+  listJudges(): Promise<StaffAccount[]>;
+  // Judges who have already scored the application can't be taken off it
+  assignJudges(request: AssignJudgesRequest): Promise<ApplicationDetail>;
+  // For judges: the applications assigned to them, and scoring them. Sending
+  // scores again replaces the judge's earlier ones.
+  listAssignments(): Promise<JudgingAssignment[]>;
+  getAssignment(applicationId: string): Promise<JudgingApplication>;
+  submitScores(request: SubmitScoresRequest): Promise<JudgingApplication>;
+  // A photo an applicant uploaded, by the upload ID in their answers
+  getPhoto(uploadId: string): Promise<Blob>;
+}
+
+// Applicants: the status portal is signed in to with a one-time code or link
+// emailed to the address the application was made with
+
+export interface ApplicantSignInRequest {
+  email: string;
+}
+
+// Either the code from the email, or the token of the link in it
+export type VerifySignInRequest = { email: string; code: string } | { token: string };
+
+export interface ApplicantSession {
+  token: string;
+  email: string;
+  expiresAt: string;
+}
+
+export interface StaffMessage {
+  messageId: string;
+  sentAt: string;
+  from: string; // The staff member's name
+  body: string;
+}
+
+export type ApplicantActionKind = 'pay_fee' | 'send_transfer' | 'pay_installment' | 'make_changes';
+
+// Something the applicant needs to do, with where to do it when it can be done online
+export interface ApplicantAction {
+  kind: ApplicantActionKind;
+  title: string;
+  description: string;
+  link: string | null;
+  dueDate?: string; // YYYY-MM-DD
+}
+
+export interface PortalApplication extends ApplicationOverview {
+  name: string;
+  actions: ApplicantAction[];
+  messages: StaffMessage[]; // Oldest first
+  changeRequest: ChangeRequest | null; // Waiting for the applicant's changes
+}
+
+// The answers to the reopened fields of a change request; photos are left out
+// unless they were replaced, and then hold the new upload ID
+export interface SubmitChangesRequest {
+  applicationId: string;
+  requestId: string;
+  answers: Record<string, AnswerValue>;
+}
+
+// The backend the applicant status portal talks to
+export interface ApplicantAdapter {
+  readonly mode: 'mock' | 'http';
+  // Emails a code and a link to sign in with. Resolves the same whether or not
+  // the address has applied, so it can't be used to find out who has.
+  requestSignIn(request: ApplicantSignInRequest): Promise<void>;
+  verifySignIn(request: VerifySignInRequest): Promise<ApplicantSession>;
+  signOut(): Promise<void>;
+  // Every application made with the signed-in email address, newest first
+  listApplications(): Promise<PortalApplication[]>;
+  // The answers as last submitted, to change the ones a change request reopens
+  getAnswers(applicationId: string): Promise<ApplicationPayload>;
+  submitChanges(request: SubmitChangesRequest): Promise<void>;
+}
@@ -0,0 +1,141 @@
+import { getUploadAdapter } from './client';
+import { isApiError, RequestCancelledError } from './errors';
+import type { UploadSession } from './types';
+
+// Small enough to get through on a slow mobile connection, and the most that is
+// lost when a connection drops mid-chunk
+const CHUNK_SIZE = 1024 * 1024;
+const MAX_ATTEMPTS = 5;
+const REMEMBERED_UPLOADS_KEY = 'miss-bloom-uploads';
+
+interface UploadOptions {
+  signal?: AbortSignal;
+  onProgress?: (uploadedBytes: number, totalBytes: number) => void;
+}
+
+// Uploads are remembered per file so picking (or restoring) the same file again
+// resumes where it stopped instead of starting over
+const fileFingerprint = (file: File) => `${file.name}:${file.size}:${file.lastModified}`;
+
+const readRememberedUploads = (): Record<string, string> => {
+  try {
+    return JSON.parse(localStorage.getItem(REMEMBERED_UPLOADS_KEY) || '{}');
+  } catch {
+    return {};
+  }
+};
+
+const rememberUpload = (file: File, uploadId: string | null) => {
+  const uploads = readRememberedUploads();
+  if (uploadId) {
+    uploads[fileFingerprint(file)] = uploadId;
+  } else {
+    delete uploads[fileFingerprint(file)];
+  }
+  localStorage.setItem(REMEMBERED_UPLOADS_KEY, JSON.stringify(uploads));
+};
+
+const wait = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const timer = window.setTimeout(resolve, ms);
+  signal?.addEventListener('abort', () => {
+    window.clearTimeout(timer);
+    reject(new RequestCancelledError());
+  }, { once: true });
+});
+
+// Run `attempt`, retrying with backoff while it fails with a retryable error
+const withRetries = async <T>(attempt: () => Promise<T>, signal?: AbortSignal): Promise<T> => {
+  for (let attemptNumber = 1; ; attemptNumber++) {
+    try {
+      return await attempt();
+    } catch (error) {
+      if (!isApiError(error) || !error.retryable || attemptNumber >= MAX_ATTEMPTS) {
+        throw error;
+      }
+      await wait(Math.min(1000 * 2 ** attemptNumber, 15000), signal);
+    }
+  }
+};
+
+const findOrStartUpload = async (file: File, signal?: AbortSignal): Promise<UploadSession> => {
+  const adapter = getUploadAdapter();
+  const rememberedId = readRememberedUploads()[fileFingerprint(file)];
+
+  if (rememberedId) {
+    const session = await withRetries(() => adapter.getUpload(rememberedId), signal);
+    if (session) return session;
+  }
+
+  const session = await withRetries(() => adapter.startUpload({
+    fileName: file.name,
+    size: file.size,
+    mimeType: file.type || 'application/octet-stream',
+  }), signal);
+  rememberUpload(file, session.uploadId);
+  return session;
+};
+
+// Sends the chunks the server is missing, then completes the upload
+const uploadChunks = async (file: File, { signal, onProgress }: UploadOptions): Promise<string> => {
+  const adapter = getUploadAdapter();
+  let session = await findOrStartUpload(file, signal);
+  let failedAttempts = 0;
+  onProgress?.(session.receivedBytes, file.size);
+
+  while (!session.complete && session.receivedBytes < file.size) {
+    const offset = session.receivedBytes;
+    const chunk = file.slice(offset, offset + CHUNK_SIZE);
+
+    try {
+      session = await adapter.uploadChunk({
+        uploadId: session.uploadId,
+        offset,
+        chunk,
+        totalSize: file.size,
+        signal,
+        onProgress: (sentBytes) => onProgress?.(offset + sentBytes, file.size),
+      });
+      failedAttempts = 0;
+    } catch (error) {
+      // After a dropped connection or an out-of-sync chunk, ask the server how much
+      // it has and carry on from there
+      const canResync = isApiError(error) && (error.retryable || error.status === 409);
+      failedAttempts++;
+      if (!canResync || failedAttempts >= MAX_ATTEMPTS) throw error;
+
+      await wait(Math.min(1000 * 2 ** failedAttempts, 15000), signal);
+      const current = await withRetries(() => adapter.getUpload(session.uploadId), signal);
+      if (!current) {
+        rememberUpload(file, null);
+        throw error;
+      }
+      session = current;
+    }
+
+    onProgress?.(session.receivedBytes, file.size);
+  }
+
+  if (!session.complete) {
+    const uploadId = session.uploadId;
+    session = await withRetries(() => adapter.completeUpload(uploadId), signal);
+  }
+
+  return session.uploadId;
+};
+
+// Upload `file` in chunks, resuming any earlier partial upload of the same file.
+// Resolves with the upload ID to reference the file by in the application.
+export const uploadFileResumable = async (file: File, options: UploadOptions = {}): Promise<string> => {
+  try {
+    const uploadId = await uploadChunks(file, options);
+    rememberUpload(file, null);
+    return uploadId;
+  } catch (error) {
+    // An upload the server turned down can't be resumed, so it is forgotten. Dropped
+    // connections and cancelled uploads are kept to carry on from next time.
+    if (isApiError(error) && !error.retryable && error.status !== 409) {
+      rememberUpload(file, null);
+    }
+    throw error;
+  }
+};
@@ -0,0 +1,119 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { validateEmail, FormError } from '@/utils/formUtils';
+import { useStartApplication } from '@/hooks/use-start-application';
+import { isApiError } from '@/api/errors';
+import type { ApplicantRegistration as Registration, SubmissionResult } from '@/api/types';
+import type { ApplicationType } from '@/utils/applicationFlow';
+
+interface ApplicantRegistrationProps {
+  type: ApplicationType;
+  onRegistered: (result: SubmissionResult, registration: Registration) => void;
+}
+
+// Asked for before paying first: the fee depends on the country, and the email
+// address keeps one application per applicant
+const ApplicantRegistration: React.FC<ApplicantRegistrationProps> = ({ type, onRegistered }) => {
+  const [email, setEmail] = useState('');
+  const [country, setCountry] = useState('');
+  const [errors, setErrors] = useState<FormError[]>([]);
+  const { start, isPending } = useStartApplication();
+
+  const getErrorMessage = (field: string): string | undefined => {
+    return errors.find(error => error.field === field)?.message;
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formErrors: FormError[] = [];
+    if (!validateEmail(email)) {
+      formErrors.push({ field: 'email', message: 'Please enter a valid email address' });
+    }
+    if (!country.trim()) {
+      formErrors.push({ field: 'country', message: 'Country is required' });
+    }
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    const registration = { email: email.trim(), country: country.trim() };
+    start({ type, ...registration }, {
+      onSuccess: (result) => onRegistered(result, registration),
+      onError: (error) => {
+        if (isApiError(error) && error.fieldErrors.length > 0) {
+          setErrors(error.fieldErrors);
+        }
+        toast.error(error.message);
+      },
+    });
+  };
+
+  return (
+    <div className="w-full max-w-md mx-auto animate-fade-in">
+      <Card className="w-full shadow-lg border-0 neo-shadow overflow-hidden">
+        <CardHeader className="space-y-1 pb-4">
+          <CardTitle className="text-xl text-center font-medium">Before You Pay</CardTitle>
+          <CardDescription className="text-center">
+            The application fee is paid first this season. Tell us where you live so we can work out your fee.
+          </CardDescription>
+        </CardHeader>
+
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            <div className="space-y-2">
+              <Label htmlFor="registration-email" className={getErrorMessage('email') ? 'text-destructive' : ''}>Email Address</Label>
+              <Input
+                id="registration-email"
+                type="email"
+                placeholder="your.email@example.com"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={getErrorMessage('email') ? 'border-destructive' : ''}
+              />
+              {getErrorMessage('email') && (
+                <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                  <AlertCircle size={12} />
+                  {getErrorMessage('email')}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="registration-country" className={getErrorMessage('country') ? 'text-destructive' : ''}>Country of Residence</Label>
+              <Input
+                id="registration-country"
+                placeholder="Enter your country"
+                value={country}
+                onChange={(e) => setCountry(e.target.value)}
+                className={getErrorMessage('country') ? 'border-destructive' : ''}
+              />
+              {getErrorMessage('country') && (
+                <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                  <AlertCircle size={12} />
+                  {getErrorMessage('country')}
+                </p>
+              )}
+              <p className="text-xs text-bloom-muted">This can't be changed on your application later.</p>
+            </div>
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" disabled={isPending} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+              {isPending ? (
+                <>
+                  <Loader2 size={16} className="mr-2 animate-spin" />
+                  Working out your fee...
+                </>
+              ) : 'Continue to Payment'}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default ApplicantRegistration;
@@ -0,0 +1,212 @@
+import React, { useState } from 'react';
+import { Link } from 'react-router-dom';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { InputOTP, InputOTPGroup, InputOTPSeparator, InputOTPSlot } from "@/components/ui/input-opt";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, FlaskConical, Loader2, MailCheck } from 'lucide-react';
+import { toast } from 'sonner';
+import { getApplicantAdapter } from '@/api/client';
+import { isApiError } from '@/api/errors';
+import { useRequestSignIn, useVerifySignIn } from '@/hooks/use-applicant-portal';
+import { validateEmail, FormError } from '@/utils/formUtils';
+
+const CODE_LENGTH = 6;
+
+// Sign-in for the status portal: a one-time code is emailed to the address the
+// application was made with, along with a link that signs in without the code
+const ApplicantSignIn: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [sentTo, setSentTo] = useState<string | null>(null);
+  const [code, setCode] = useState('');
+  const [errors, setErrors] = useState<FormError[]>([]);
+  const requestSignIn = useRequestSignIn();
+  const verifySignIn = useVerifySignIn();
+
+  const getErrorMessage = (field: string): string | undefined => {
+    return errors.find(error => error.field === field)?.message;
+  };
+
+  const sendCode = (address: string) => {
+    requestSignIn.mutate({ email: address }, {
+      onSuccess: () => {
+        setSentTo(address);
+        setCode('');
+        setErrors([]);
+      },
+      onError: (error) => {
+        if (isApiError(error) && error.fieldErrors.length > 0) {
+          setErrors(error.fieldErrors);
+        }
+        toast.error(error.message);
+      },
+    });
+  };
+
+  const handleEmailSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!validateEmail(email)) {
+      setErrors([{ field: 'email', message: 'Please enter a valid email address' }]);
+      return;
+    }
+    sendCode(email.trim());
+  };
+
+  const verify = (value: string) => {
+    verifySignIn.mutate({ email: sentTo, code: value }, {
+      onError: (error) => {
+        setCode('');
+        setErrors(isApiError(error) && error.fieldErrors.length > 0 ? error.fieldErrors : [{ field: 'code', message: error.message }]);
+      },
+    });
+  };
+
+  const handleCodeSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (code.length !== CODE_LENGTH) {
+      setErrors([{ field: 'code', message: `Please enter the ${CODE_LENGTH}-digit code from the email` }]);
+      return;
+    }
+    verify(code);
+  };
+
+  const mockHint = getApplicantAdapter().mode === 'mock' && (
+    <div className="rounded-md border border-dashed border-bloom-gold/40 bg-bloom-gold/5 p-3 text-xs text-bloom-muted space-y-1">
+      <p className="flex items-center gap-1 font-medium text-bloom-primary">
+        <FlaskConical size={12} />
+        Mock backend: no email is really sent
+      </p>
+      <p>
+        Codes and links arrive in the <Link to="/dev/mailbox" target="_blank" className="underline hover:text-bloom-gold">test mailbox</Link>.
+      </p>
+    </div>
+  );
+
+  if (!sentTo) {
+    return (
+      <div className="w-full max-w-sm mx-auto animate-fade-in">
+        <Card className="w-full shadow-lg border-0 neo-shadow overflow-hidden">
+          <CardHeader className="space-y-1 pb-4">
+            <CardTitle className="text-xl text-center font-medium">Check Your Application</CardTitle>
+            <CardDescription className="text-center">
+              Enter the email address you applied with and we'll send you a code to sign in.
+            </CardDescription>
+          </CardHeader>
+
+          <form onSubmit={handleEmailSubmit}>
+            <CardContent className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="applicant-email" className={getErrorMessage('email') ? 'text-destructive' : ''}>Email Address</Label>
+                <Input
+                  id="applicant-email"
+                  type="email"
+                  autoComplete="email"
+                  placeholder="your.email@example.com"
+                  value={email}
+                  onChange={(e) => setEmail(e.target.value)}
+                  className={getErrorMessage('email') ? 'border-destructive' : ''}
+                />
+                {getErrorMessage('email') && (
+                  <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                    <AlertCircle size={12} />
+                    {getErrorMessage('email')}
+                  </p>
+                )}
+              </div>
+              {mockHint}
+            </CardContent>
+            <CardFooter>
+              <Button type="submit" disabled={requestSignIn.isPending} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+                {requestSignIn.isPending ? (
+                  <>
+                    <Loader2 size={16} className="mr-2 animate-spin" />
+                    Sending...
+                  </>
+                ) : 'Email Me a Code'}
+              </Button>
+            </CardFooter>
+          </form>
+        </Card>
+      </div>
+    );
+  }
+
+  return (
+    <div className="w-full max-w-sm mx-auto animate-fade-in">
+      <Card className="w-full shadow-lg border-0 neo-shadow overflow-hidden">
+        <CardHeader className="space-y-1 pb-4">
+          <div className="mx-auto w-12 h-12 rounded-full bg-bloom-accent flex items-center justify-center mb-2">
+            <MailCheck size={20} className="text-bloom-primary" />
+          </div>
+          <CardTitle className="text-xl text-center font-medium">Enter Your Code</CardTitle>
+          <CardDescription className="text-center">
+            If {sentTo} has been used to apply, we've sent a {CODE_LENGTH}-digit code to it. You can also use the link in the email.
+          </CardDescription>
+        </CardHeader>
+
+        <form onSubmit={handleCodeSubmit}>
+          <CardContent className="space-y-4">
+            <div className="flex flex-col items-center space-y-2">
+              <Label htmlFor="applicant-code" className="sr-only">Sign-in code</Label>
+              <InputOTP
+                id="applicant-code"
+                maxLength={CODE_LENGTH}
+                pattern="^[0-9]*$"
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                autoFocus
+                value={code}
+                onChange={setCode}
+                onComplete={verify}
+                disabled={verifySignIn.isPending}
+              >
+                <InputOTPGroup>
+                  {[0, 1, 2].map(index => <InputOTPSlot key={index} index={index} />)}
+                </InputOTPGroup>
+                <InputOTPSeparator />
+                <InputOTPGroup>
+                  {[3, 4, 5].map(index => <InputOTPSlot key={index} index={index} />)}
+                </InputOTPGroup>
+              </InputOTP>
+              {getErrorMessage('code') && (
+                <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                  <AlertCircle size={12} />
+                  {getErrorMessage('code')}
+                </p>
+              )}
+            </div>
+            <div className="flex justify-between text-xs">
+              <button type="button" onClick={() => setSentTo(null)} className="text-bloom-muted hover:text-bloom-gold transition-colors">
+                Use a different email
+              </button>
+              <button
+                type="button"
+                onClick={() => sendCode(sentTo)}
+                disabled={requestSignIn.isPending}
+                className="text-bloom-muted hover:text-bloom-gold transition-colors disabled:opacity-50"
+              >
+                Send a new code
+              </button>
+            </div>
+            {mockHint}
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" disabled={verifySignIn.isPending} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+              {verifySignIn.isPending ? (
+                <>
+                  <Loader2 size={16} className="mr-2 animate-spin" />
+                  Signing in...
+                </>
+              ) : 'Sign In'}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default ApplicantSignIn;
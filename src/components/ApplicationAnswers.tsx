@@ -0,0 +1,75 @@
+import React from 'react';
+import { EyeOff } from 'lucide-react';
+import StaffPhoto from '@/components/StaffPhoto';
+import { AnswerValues, formatAnswer, getApplicationForm, labelFromName, toAnswerValues } from '@/utils/changeRequests';
+import { FieldDefinition, getVisibleFields } from '@/utils/formDefinition';
+import type { ApplicationPayload } from '@/api/types';
+
+interface ApplicationAnswersProps {
+  payload: ApplicationPayload;
+  hiddenFields?: string[]; // Withheld from blind judges; shown as hidden rather than not provided
+}
+
+// Every answer of a submitted application for staff, grouped by section like the
+// form the applicant filled in. Answers no section asks for, such as calculated
+// ones, are listed at the end so nothing that was submitted is left out.
+const ApplicationAnswers: React.FC<ApplicationAnswersProps> = ({ payload, hiddenFields = [] }) => {
+  const definition = getApplicationForm(payload.type);
+  const values = toAnswerValues(payload);
+  const sections = definition.sections
+    .filter(section => section.kind !== 'review')
+    .map(section => ({ id: section.id, title: section.title, fields: getVisibleFields(section, values) }))
+    .filter(({ fields }) => fields.length > 0);
+
+  const asked = new Set(definition.sections.flatMap(section => section.fields.map(field => field.name)));
+  const otherFields: FieldDefinition<AnswerValues>[] = Object.keys(values)
+    .filter(name => !asked.has(name))
+    .map(name => ({ name, type: 'text', label: labelFromName(name) }));
+  if (otherFields.length > 0) {
+    sections.push({ id: 'other', title: 'Other details', fields: otherFields });
+  }
+
+  return (
+    <div className="space-y-6">
+      {sections.map(({ id, title, fields }) => (
+        <section key={id} className="space-y-3 border-b pb-6 last:border-b-0 last:pb-0">
+          <h3 className="font-medium text-bloom-primary">{title}</h3>
+          <dl className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-x-6 gap-y-3">
+            {fields.map(field => {
+              const value = values[field.name];
+              if (hiddenFields.includes(field.name)) {
+                return (
+                  <div key={field.name}>
+                    <dt className="text-xs text-bloom-muted">{field.label}</dt>
+                    <dd className="text-sm text-bloom-muted italic flex items-center gap-1">
+                      <EyeOff size={12} />
+                      Hidden for blind scoring
+                    </dd>
+                  </div>
+                );
+              }
+              if (field.type === 'photo') {
+                return (
+                  <StaffPhoto
+                    key={field.name}
+                    uploadId={typeof value === 'string' ? value : null}
+                    label={field.label}
+                    className="max-w-[12rem]"
+                  />
+                );
+              }
+              return (
+                <div key={field.name} className={field.type === 'textarea' ? 'md:col-span-2 lg:col-span-3' : ''}>
+                  <dt className="text-xs text-bloom-muted">{field.label}</dt>
+                  <dd className="text-sm whitespace-pre-line break-words">{formatAnswer(field, value)}</dd>
+                </div>
+              );
+            })}
+          </dl>
+        </section>
+      ))}
+    </div>
+  );
+};
+
+export default ApplicationAnswers;
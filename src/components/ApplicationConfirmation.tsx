@@ -0,0 +1,213 @@
+import React from 'react';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Link } from 'react-router-dom';
+import { CalendarClock, CheckCircle2, Clock, Download, Loader2, ReceiptText } from 'lucide-react';
+import BankTransferDetails from '@/components/BankTransferDetails';
+import InstallmentSchedule from '@/components/InstallmentSchedule';
+import PayLaterLink from '@/components/PayLaterLink';
+import StatusTimeline from '@/components/StatusTimeline';
+import { useApplicationOverview } from '@/hooks/use-application-overview';
+import { useReceipts } from '@/hooks/use-receipts';
+import { paymentStatusLabels } from '@/utils/applicationList';
+import { applicationStatusDescriptions, applicationStatusLabels } from '@/utils/applicationStatus';
+import { formatFeeAmount, formatFeeDate } from '@/utils/feeSchedule';
+import { getUpcomingInstallments } from '@/utils/installmentPlans';
+import { downloadReceiptPdf } from '@/utils/receiptPdf';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { PaymentIntent } from '@/api/types';
+
+interface ApplicationConfirmationProps {
+  type: ApplicationType;
+  applicationId: string | null; // Reference issued by the server when the application was submitted
+  pendingTransfer?: PaymentIntent | null; // Set when the fee is being paid by bank transfer
+  payLink?: string | null; // Set while any of the fee is unpaid
+}
+
+const introductions: Record<ApplicationType, string> = {
+  participant: 'Thank you for applying to compete in Miss Bloom Global.',
+  director: 'Thank you for applying to become a National Director for Miss Bloom Global.',
+};
+
+// Shown once an application has been submitted and paid for (or its payment
+// arranged): what was paid, what is still owed and when the next payments are due
+const ApplicationConfirmation: React.FC<ApplicationConfirmationProps> = ({ type, applicationId, pendingTransfer, payLink }) => {
+  const overview = useApplicationOverview(applicationId);
+  const receipts = useReceipts(applicationId);
+  const latestReceipt = receipts.data?.[receipts.data.length - 1];
+  const transfer = pendingTransfer?.bankTransfer;
+  const schedule = overview.data?.paymentSchedule;
+  const [nextInstallment] = schedule ? getUpcomingInstallments(schedule) : [];
+
+  return (
+    <div className="w-full max-w-md mx-auto py-12 animate-fade-in">
+      <div className="flex items-center justify-center mb-8">
+        <div className="relative">
+          <h1 className="text-3xl font-light text-center text-bloom-primary">
+            Miss Bloom <span className="font-medium">Global</span>
+          </h1>
+          <div className="absolute -bottom-2 left-1/2 transform -translate-x-1/2 w-16 h-0.5 bg-bloom-gold"></div>
+        </div>
+      </div>
+
+      <Card className="w-full shadow-lg border-0 neo-shadow overflow-hidden">
+        <CardHeader className="text-center pb-6">
+          <div className="flex justify-center mb-4">
+            <div className="w-20 h-20 bg-bloom-gold/10 rounded-full flex items-center justify-center text-bloom-gold animate-fade-in">
+              <CheckCircle2 size={48} />
+            </div>
+          </div>
+          <CardTitle className="text-2xl font-medium">Application Submitted</CardTitle>
+        </CardHeader>
+
+        <CardContent className="text-center space-y-4 text-bloom-muted">
+          <p>{introductions[type]}</p>
+          <p>We've received your application and will review it shortly.</p>
+          {applicationId && (
+            <div className="border border-bloom-gold/40 rounded-md py-3 bg-bloom-gold/5">
+              <p className="text-xs uppercase tracking-wide">Application ID</p>
+              <p className="text-lg font-medium text-bloom-primary">{applicationId}</p>
+            </div>
+          )}
+
+          {overview.isLoading && (
+            <div className="flex items-center justify-center text-sm">
+              <Loader2 size={16} className="mr-2 animate-spin" />
+              Loading your payment details...
+            </div>
+          )}
+          {overview.isError && (
+            <p className="text-sm text-destructive">Your payment details could not be loaded. Please refresh the page to try again.</p>
+          )}
+          {overview.data && (
+            <div className="text-left space-y-3">
+              <div className="space-y-3">
+                <div>
+                  <p className="text-sm font-medium text-bloom-primary">Status: {applicationStatusLabels[overview.data.status]}</p>
+                  <p className="text-sm">{applicationStatusDescriptions[overview.data.status]}</p>
+                </div>
+                <StatusTimeline history={overview.data.statusHistory} />
+              </div>
+              <div className="rounded-md border border-bloom-gold/20 bg-bloom-accent/30 p-3 text-sm space-y-2">
+                <div className="flex justify-between">
+                  <span>Payment</span>
+                  <span className="font-medium text-bloom-primary">{paymentStatusLabels[overview.data.paymentStatus]}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Application fee</span>
+                  <span>{formatFeeAmount(overview.data.fee.total, overview.data.fee.currency)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span>Paid so far</span>
+                  <span>{formatFeeAmount(overview.data.amountPaid, overview.data.fee.currency)}</span>
+                </div>
+                <Separator />
+                <div className="flex justify-between font-medium text-bloom-primary">
+                  <span>Outstanding balance</span>
+                  <span>{formatFeeAmount(overview.data.balance, overview.data.fee.currency)}</span>
+                </div>
+              </div>
+
+              {schedule && (
+                <>
+                  {nextInstallment && (
+                    <p className="flex items-center gap-2 text-sm font-medium text-bloom-primary">
+                      <CalendarClock size={16} className="text-bloom-gold" />
+                      Next payment: {formatFeeAmount(nextInstallment.amount, schedule.currency)} due {formatFeeDate(nextInstallment.dueDate)}
+                    </p>
+                  )}
+                  <InstallmentSchedule schedule={schedule} />
+                  {payLink && nextInstallment && (
+                    <PayLaterLink payLink={payLink}>
+                      Keep this link to pay each of the remaining installments before it is due.
+                    </PayLaterLink>
+                  )}
+                </>
+              )}
+
+              {latestReceipt && (
+                <div className="flex gap-2">
+                  <Button asChild variant="outline" size="sm" className="flex-1">
+                    <Link to={`/receipts/${encodeURIComponent(latestReceipt.applicationId)}`}>
+                      <ReceiptText size={16} className="mr-2" />
+                      View receipt{receipts.data.length > 1 ? 's' : ''}
+                    </Link>
+                  </Button>
+                  <Button variant="outline" size="sm" className="flex-1" onClick={() => downloadReceiptPdf(latestReceipt)}>
+                    <Download size={16} className="mr-2" />
+                    Download PDF
+                  </Button>
+                </div>
+              )}
+            </div>
+          )}
+
+          {payLink && overview.data?.status === 'pending_payment' && overview.data.paymentStatus === 'unpaid' && (
+            <div className="text-left space-y-3 pt-2">
+              <p className="flex items-center gap-2 text-sm font-medium text-amber-700">
+                <Clock size={16} />
+                Awaiting your payment
+              </p>
+              <p className="text-sm">
+                Your application is saved and will be reviewed once the application fee has been paid.
+              </p>
+              <PayLaterLink payLink={payLink} showPayNow>
+                Pay now, or keep this link to pay from any device before the application deadline.
+              </PayLaterLink>
+            </div>
+          )}
+
+          {transfer && pendingTransfer && overview.data?.paymentStatus !== 'paid' && (
+            <div className="text-left space-y-3 pt-2">
+              <p className="flex items-center gap-2 text-sm font-medium text-amber-700">
+                <Clock size={16} />
+                Awaiting your bank transfer
+              </p>
+              <p className="text-sm">
+                Your application will be reviewed once your transfer arrives. Please send it with the reference below.
+              </p>
+              <BankTransferDetails
+                beneficiary={transfer.beneficiary}
+                reference={transfer.reference}
+                amount={pendingTransfer.amount - transfer.receivedAmount}
+                currency={pendingTransfer.currency}
+              />
+            </div>
+          )}
+          <p className="text-sm">
+            We've emailed a confirmation to the address you provided. You can{' '}
+            <Link to="/status" className="text-bloom-primary underline hover:text-bloom-gold">check your application</Link>{' '}
+            at any time by signing in with it.
+          </p>
+        </CardContent>
+
+        <CardFooter className="flex flex-col space-y-4 pt-4">
+          <div className="w-full border border-bloom-accent rounded-md p-4 bg-bloom-accent/30">
+            <h3 className="font-medium text-sm mb-2">What's Next?</h3>
+            <ul className="text-sm space-y-2 text-bloom-muted">
+              <li className="flex items-start">
+                <span className="mr-2 text-bloom-gold">1.</span>
+                <span>Our team will review your application within 5-7 business days.</span>
+              </li>
+              <li className="flex items-start">
+                <span className="mr-2 text-bloom-gold">2.</span>
+                <span>If selected, you'll be contacted for an interview.</span>
+              </li>
+              <li className="flex items-start">
+                <span className="mr-2 text-bloom-gold">3.</span>
+                <span>Final selections will be announced on our official channels.</span>
+              </li>
+            </ul>
+          </div>
+
+          <Button asChild className="w-full bg-bloom-primary hover:bg-bloom-primary/90 hover-lift">
+            <Link to="/">Return to Home</Link>
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default ApplicationConfirmation;
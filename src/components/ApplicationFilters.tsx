@@ -0,0 +1,185 @@
+import React, { useEffect, useState } from 'react';
+import { Search, X } from 'lucide-react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { defaultListQuery, paymentStatusLabels } from '@/utils/applicationList';
+import { applicationStatusLabels } from '@/utils/applicationStatus';
+import { applicationTypeLabels } from '@/utils/feeSchedule';
+import type { ApplicationListQuery } from '@/api/types';
+
+interface ApplicationFiltersProps {
+  query: ApplicationListQuery;
+  countries: string[];
+  onChange: (changes: Partial<ApplicationListQuery>) => void;
+}
+
+// Select has no empty value, so "any" stands in for no filter
+const ANY = 'any';
+
+const SEARCH_DELAY_MS = 300;
+
+interface FilterSelectProps {
+  id: string;
+  label: string;
+  value: string | undefined;
+  options: [string, string][]; // Value and label
+  onChange: (value: string | undefined) => void;
+}
+
+const FilterSelect: React.FC<FilterSelectProps> = ({ id, label, value, options, onChange }) => (
+  <div className="space-y-1">
+    <Label htmlFor={id} className="text-xs text-bloom-muted">{label}</Label>
+    <Select value={value ?? ANY} onValueChange={(next) => onChange(next === ANY ? undefined : next)}>
+      <SelectTrigger id={id} className="h-9">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        <SelectItem value={ANY}>Any</SelectItem>
+        {options.map(([optionValue, optionLabel]) => (
+          <SelectItem key={optionValue} value={optionValue}>{optionLabel}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const toAge = (value: string): number | undefined => {
+  const age = parseInt(value, 10);
+  return age > 0 ? age : undefined;
+};
+
+// Search and filters above the staff list of applications
+const ApplicationFilters: React.FC<ApplicationFiltersProps> = ({ query, countries, onChange }) => {
+  const [search, setSearch] = useState(query.search ?? '');
+
+  // Search once typing pauses rather than on every key
+  useEffect(() => {
+    if (search.trim() === (query.search ?? '')) return;
+    const timer = setTimeout(() => onChange({ search: search.trim() || undefined }), SEARCH_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [search, query.search, onChange]);
+
+  const isFiltered = Boolean(query.search || query.type || query.country || query.status || query.paymentStatus ||
+    query.minAge || query.maxAge || query.submittedFrom || query.submittedTo);
+
+  const clearFilters = () => {
+    setSearch('');
+    onChange({
+      search: undefined,
+      type: undefined,
+      country: undefined,
+      status: undefined,
+      paymentStatus: undefined,
+      minAge: undefined,
+      maxAge: undefined,
+      submittedFrom: undefined,
+      submittedTo: undefined,
+      sortBy: defaultListQuery.sortBy,
+      sortDirection: defaultListQuery.sortDirection,
+    });
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex gap-2">
+        <div className="relative flex-1">
+          <Search size={16} className="absolute left-3 top-1/2 -translate-y-1/2 text-bloom-muted" />
+          <Input
+            placeholder="Search by name, email or application ID"
+            value={search}
+            onChange={(e) => setSearch(e.target.value)}
+            className="pl-9"
+            aria-label="Search applications"
+          />
+        </div>
+        {isFiltered && (
+          <Button variant="ghost" onClick={clearFilters}>
+            <X size={16} className="mr-1" />
+            Clear
+          </Button>
+        )}
+      </div>
+
+      <div className="grid grid-cols-2 md:grid-cols-4 lg:grid-cols-7 gap-3 items-end">
+        <FilterSelect
+          id="filter-type"
+          label="Type"
+          value={query.type}
+          options={Object.entries(applicationTypeLabels)}
+          onChange={(type) => onChange({ type: type as ApplicationListQuery['type'] })}
+        />
+        <FilterSelect
+          id="filter-country"
+          label="Country"
+          value={query.country}
+          options={countries.map(country => [country, country])}
+          onChange={(country) => onChange({ country })}
+        />
+        <FilterSelect
+          id="filter-status"
+          label="Status"
+          value={query.status}
+          options={Object.entries(applicationStatusLabels)}
+          onChange={(status) => onChange({ status: status as ApplicationListQuery['status'] })}
+        />
+        <FilterSelect
+          id="filter-payment"
+          label="Payment"
+          value={query.paymentStatus}
+          options={Object.entries(paymentStatusLabels)}
+          onChange={(paymentStatus) => onChange({ paymentStatus: paymentStatus as ApplicationListQuery['paymentStatus'] })}
+        />
+        <div className="space-y-1">
+          <Label className="text-xs text-bloom-muted">Age</Label>
+          <div className="flex items-center gap-1">
+            <Input
+              type="number"
+              min={1}
+              placeholder="From"
+              value={query.minAge ?? ''}
+              onChange={(e) => onChange({ minAge: toAge(e.target.value) })}
+              className="h-9"
+              aria-label="Minimum age"
+            />
+            <span className="text-bloom-muted">–</span>
+            <Input
+              type="number"
+              min={1}
+              placeholder="To"
+              value={query.maxAge ?? ''}
+              onChange={(e) => onChange({ maxAge: toAge(e.target.value) })}
+              className="h-9"
+              aria-label="Maximum age"
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-from" className="text-xs text-bloom-muted">Submitted from</Label>
+          <Input
+            id="filter-from"
+            type="date"
+            value={query.submittedFrom ?? ''}
+            max={query.submittedTo}
+            onChange={(e) => onChange({ submittedFrom: e.target.value || undefined })}
+            className="h-9"
+          />
+        </div>
+        <div className="space-y-1">
+          <Label htmlFor="filter-to" className="text-xs text-bloom-muted">Submitted to</Label>
+          <Input
+            id="filter-to"
+            type="date"
+            value={query.submittedTo ?? ''}
+            min={query.submittedFrom}
+            onChange={(e) => onChange({ submittedTo: e.target.value || undefined })}
+            className="h-9"
+          />
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ApplicationFilters;
@@ -0,0 +1,74 @@
+import React from 'react';
+import { Copy } from 'lucide-react';
+import { toast } from 'sonner';
+import { BeneficiaryAccount, formatIban, formatPaymentReference } from '@/utils/bankTransfer';
+import { formatFeeAmount } from '@/utils/feeSchedule';
+
+interface BankTransferDetailsProps {
+  beneficiary: BeneficiaryAccount;
+  reference: string;
+  amount?: number; // In cents
+  currency?: string;
+}
+
+const copyToClipboard = (label: string, value: string) => {
+  navigator.clipboard.writeText(value)
+    .then(() => toast.success(`${label} copied`))
+    .catch(() => toast.error(`Could not copy the ${label.toLowerCase()}`));
+};
+
+// Where to send a bank transfer and the reference that ties it to the application
+const BankTransferDetails: React.FC<BankTransferDetailsProps> = ({ beneficiary, reference, amount, currency }) => {
+  const rows = [
+    { label: 'Account name', value: beneficiary.accountName },
+    { label: 'Bank', value: `${beneficiary.bankName}, ${beneficiary.bankAddress}` },
+    { label: 'IBAN', value: formatIban(beneficiary.iban), copyValue: beneficiary.iban },
+    { label: 'SWIFT/BIC', value: beneficiary.bic, copyValue: beneficiary.bic },
+    ...(amount !== undefined && currency ? [{ label: 'Amount', value: formatFeeAmount(amount, currency) }] : []),
+  ];
+
+  return (
+    <div className="space-y-3">
+      <dl className="rounded-md border border-bloom-accent bg-bloom-accent/30 divide-y divide-bloom-accent text-sm">
+        {rows.map(row => (
+          <div key={row.label} className="flex items-start justify-between gap-4 px-3 py-2">
+            <dt className="text-bloom-muted shrink-0">{row.label}</dt>
+            <dd className="flex items-center gap-1 text-right font-medium">
+              <span className={row.copyValue ? 'font-mono' : ''}>{row.value}</span>
+              {row.copyValue && (
+                <button
+                  type="button"
+                  onClick={() => copyToClipboard(row.label, row.copyValue)}
+                  className="text-bloom-muted hover:text-bloom-gold transition-colors"
+                  aria-label={`Copy ${row.label}`}
+                >
+                  <Copy size={12} />
+                </button>
+              )}
+            </dd>
+          </div>
+        ))}
+      </dl>
+
+      <div className="rounded-md border border-bloom-gold/40 bg-bloom-gold/5 p-3 text-center">
+        <p className="text-xs uppercase tracking-wide text-bloom-muted">Payment reference</p>
+        <p className="flex items-center justify-center gap-2 text-lg font-mono font-medium text-bloom-primary">
+          {formatPaymentReference(reference)}
+          <button
+            type="button"
+            onClick={() => copyToClipboard('Payment reference', reference)}
+            className="text-bloom-muted hover:text-bloom-gold transition-colors"
+            aria-label="Copy payment reference"
+          >
+            <Copy size={14} />
+          </button>
+        </p>
+        <p className="text-xs text-bloom-muted mt-1">
+          Quote this reference exactly on your transfer so we can match it to your application.
+        </p>
+      </div>
+    </div>
+  );
+};
+
+export default BankTransferDetails;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { MessageSquareWarning } from 'lucide-react';
+import { FormDefinition, getSection } from '@/utils/formDefinition';
+import type { ChangeRequestItem } from '@/api/types';
+
+interface ChangeRequestNotesProps<V> {
+  definition: FormDefinition<V>;
+  sectionId: string;
+  items: ChangeRequestItem[];
+}
+
+// What the team asked to change in one section of the form
+const ChangeRequestNotes = <V,>({ definition, sectionId, items }: ChangeRequestNotesProps<V>) => {
+  const section = getSection(definition, sectionId);
+  const notes = items.filter(item => item.sectionId === sectionId);
+  if (!section || notes.length === 0) return null;
+
+  const getLabel = (field: string | null) => {
+    return field === null ? null : section.fields.find(candidate => candidate.name === field)?.label ?? null;
+  };
+
+  return (
+    <div className="rounded-md border border-amber-200 bg-amber-50 p-4 space-y-2">
+      <h3 className="flex items-center gap-2 text-sm font-medium text-amber-800">
+        <MessageSquareWarning size={16} />
+        The team asked you to change
+      </h3>
+      <ul className="space-y-1 text-sm text-amber-900">
+        {notes.map((item, index) => (
+          <li key={`${item.field}-${index}`} className="whitespace-pre-line">
+            {getLabel(item.field) && <span className="font-medium">{getLabel(item.field)}: </span>}
+            {item.note}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ChangeRequestNotes;
@@ -0,0 +1,35 @@
+import React from 'react';
+import { describeChangeRequestItem, getApplicationForm } from '@/utils/changeRequests';
+import { formatStatusTime } from '@/utils/applicationStatus';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { ChangeRequest } from '@/api/types';
+
+interface ChangeRequestSummaryProps {
+  type: ApplicationType;
+  request: ChangeRequest;
+}
+
+// What a change request asked for, and whether the applicant has answered it
+const ChangeRequestSummary: React.FC<ChangeRequestSummaryProps> = ({ type, request }) => {
+  const definition = getApplicationForm(type);
+
+  return (
+    <div className="space-y-2">
+      <p className="text-xs text-bloom-muted">
+        Asked by {request.requestedBy} · <time dateTime={request.requestedAt}>{formatStatusTime(request.requestedAt)}</time>
+        {' · '}
+        {request.resolvedAt ? `Answered ${formatStatusTime(request.resolvedAt)}` : 'Waiting for the applicant'}
+      </p>
+      <ul className="space-y-2">
+        {request.items.map((item, index) => (
+          <li key={index} className="text-sm">
+            <p className="font-medium text-bloom-primary">{describeChangeRequestItem(definition, item)}</p>
+            <p className="text-bloom-muted whitespace-pre-line">{item.note}</p>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ChangeRequestSummary;
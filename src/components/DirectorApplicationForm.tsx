@@ -1,618 +1,287 @@
-
-import React, { useState } from 'react';
-import { z } from 'zod';
-import { useForm } from 'react-hook-form';
-import { zodResolver } from '@hookform/resolvers/zod';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { Button } from '@/components/ui/button';
-import { Input } from '@/components/ui/input';
-import { Textarea } from '@/components/ui/textarea';
-import { Checkbox } from '@/components/ui/checkbox';
 import { toast } from 'sonner';
-import { 
-  Form, 
-  FormControl, 
-  FormField, 
-  FormItem, 
-  FormLabel, 
-  FormMessage 
-} from '@/components/ui/form';
+import { Loader2, Trash2 } from 'lucide-react';
+import { loadDraft, deleteDraft, DIRECTOR_DRAFT_KEY } from '@/utils/draftStorage';
+import { useDraftAutosave } from '@/hooks/use-draft-autosave';
+import { useFormSections } from '@/hooks/use-form-sections';
+import { directorForm, DirectorFormValues } from '@/utils/directorForm';
+import { FieldName, getDefaultValues, updateFormValues, validateForm } from '@/utils/formDefinition';
+import { FormRevision, getReopenedFields, getRevisionForm } from '@/utils/changeRequests';
+import { useSubmitApplication } from '@/hooks/use-submit-application';
+import { useSubmitChanges } from '@/hooks/use-applicant-portal';
+import SteppedForm from '@/components/SteppedForm';
+import ChangeRequestNotes from '@/components/ChangeRequestNotes';
+import { isApiError } from '@/api/errors';
+import type { AnswerValue, ApplicantRegistration, SubmissionResult } from '@/api/types';
 
 // Define the component props
 export interface DirectorApplicationFormProps {
-  onSubmitSuccess: () => void;
-  onBack: () => void;
+  onSubmitSuccess?: (result: SubmissionResult) => void;
+  section?: string; // Section requested through the URL
+  onSectionChange: (section: string, options?: { replace?: boolean }) => void;
+  applicationId?: string | null; // Draft being completed after paying first
+  registration?: ApplicantRegistration | null; // Details given before paying first
+  // Set when answering a change request: only the sections it reopens are shown
+  revision?: FormRevision;
+  onChangesSent?: () => void;
 }
 
-// Define the form schema using Zod
-const directorFormSchema = z.object({
-  // Contact Information
-  fullName: z.string().min(2, { message: "Full name is required" }),
-  email: z.string().email({ message: "Valid email address is required" }),
-  phone: z.string().min(8, { message: "Valid phone number is required" }),
-  country: z.string().min(2, { message: "Country is required" }),
-  city: z.string().min(2, { message: "City is required" }),
-  
-  // Background and Experience
-  workExperience: z.string().min(10, { message: "Work experience is required" }),
-  education: z.string().min(5, { message: "Education information is required" }),
-  skills: z.string().min(5, { message: "Skills information is required" }),
-  
-  // Motivation and Goals
-  motivation: z.string().min(20, { message: "Please explain your motivation" }),
-  goals: z.string().min(20, { message: "Please describe your goals" }),
-  
-  // Business Plan
-  strategy: z.string().min(50, { message: "Please provide a detailed strategy" }),
-  
-  // National Director Agreement
-  agreeToTerms: z.boolean().refine(val => val === true, {
-    message: "You must agree to the terms and conditions",
-  }),
-  agreeToConfidentiality: z.boolean().refine(val => val === true, {
-    message: "You must agree to the confidentiality terms",
-  }),
-  
-  // Personal and Professional Information
-  dateOfBirth: z.string().min(2, { message: "Date of birth is required" }),
-  bio: z.string().max(2500, { message: "Bio must be 500 words or less" }),
-  socialMedia: z.string().min(2, { message: "Social media information is required" }),
-  
-  // Country Information
-  countryOverview: z.string().max(2500, { message: "Country overview must be 500 words or less" }),
-  culturalInfo: z.string().max(2500, { message: "Cultural information must be 500 words or less" }),
-});
+const directorDefaultValues = getDefaultValues(directorForm);
+
+// Bump this whenever the fields of directorForm change shape, and add a migration from the previous version
+const DIRECTOR_DRAFT_VERSION = 1;
+
+// Each entry upgrades draft values saved under version `key` to version `key + 1`
+const directorDraftMigrations: Record<number, (values: Record<string, unknown>) => Record<string, unknown>> = {};
+
+interface DirectorDraft {
+  version: number;
+  values: Partial<DirectorFormValues>;
+  currentSection: string;
+}
+
+// Bring a stored draft up to the current form version. Returns null when the draft
+// cannot be migrated (unknown or newer version), so it can be discarded instead of
+// feeding unexpected values to the form.
+const migrateDirectorDraft = (draft: unknown): DirectorFormValues | null => {
+  if (!draft || typeof draft !== 'object') return null;
+
+  const { version, values } = draft as Partial<DirectorDraft>;
+  if (typeof version !== 'number' || version > DIRECTOR_DRAFT_VERSION || !values || typeof values !== 'object') {
+    return null;
+  }
+
+  let migrated: Record<string, unknown> = { ...values };
+  for (let v = version; v < DIRECTOR_DRAFT_VERSION; v++) {
+    const migrate = directorDraftMigrations[v];
+    if (!migrate) return null;
+    migrated = migrate(migrated);
+  }
+
+  // Keep only known fields whose type matches the form, falling back to the defaults
+  const restored = { ...directorDefaultValues };
+  (Object.keys(directorDefaultValues) as (keyof DirectorFormValues)[]).forEach(key => {
+    if (typeof migrated[key] === typeof directorDefaultValues[key]) {
+      (restored as Record<string, unknown>)[key] = migrated[key];
+    }
+  });
 
-type DirectorFormValues = z.infer<typeof directorFormSchema>;
+  return restored;
+};
 
 const DirectorApplicationForm: React.FC<DirectorApplicationFormProps> = ({ 
   onSubmitSuccess,
-  onBack 
+  section,
+  onSectionChange,
+  applicationId,
+  registration,
+  revision,
+  onChangesSent,
 }) => {
-  const [currentSection, setCurrentSection] = useState<
-    'contact' | 'background' | 'motivation' | 'business' | 'agreement' | 'profile' | 'country'
-  >('contact');
+  const definition = useMemo(() => revision ? getRevisionForm(directorForm, revision.request.items) : directorForm, [revision]);
+  // Changes to a submitted application start from its answers rather than a draft
+  const [isRestoring, setIsRestoring] = useState(!revision);
+  const [hasChanges, setHasChanges] = useState(false);
+  const [values, setValues] = useState<DirectorFormValues>(() => revision
+    ? { ...directorDefaultValues, ...revision.answers } as DirectorFormValues
+    : { ...directorDefaultValues, ...registration });
+  // Details given before paying first take precedence over a restored draft
+  const registrationRef = useRef(registration);
+  // Read when the draft is restored, without restoring it again when the callback changes
+  const onSectionChangeRef = useRef(onSectionChange);
+  onSectionChangeRef.current = onSectionChange;
+  const { submit, isPending: isSubmitting } = useSubmitApplication();
+  const submitChanges = useSubmitChanges();
   
-  // Initialize the form
-  const form = useForm<DirectorFormValues>({
-    resolver: zodResolver(directorFormSchema),
-    defaultValues: {
-      fullName: '',
-      email: '',
-      phone: '',
-      country: '',
-      city: '',
-      workExperience: '',
-      education: '',
-      skills: '',
-      motivation: '',
-      goals: '',
-      strategy: '',
-      agreeToTerms: false,
-      agreeToConfidentiality: false,
-      dateOfBirth: '',
-      bio: '',
-      socialMedia: '',
-      countryOverview: '',
-      culturalInfo: '',
-    },
-    mode: 'onChange',
+  // Once the draft is restored, the guard sends directors back to the first
+  // section they have not completed yet
+  const { currentSection, errors, goNext, goPrevious, goTo, showErrors } = useFormSections({
+    definition,
+    section,
+    values,
+    onSectionChange,
+    enabled: !isRestoring,
   });
   
-  // Handle form submission
-  const onSubmit = (data: DirectorFormValues) => {
-    console.log("Form submitted:", data);
-    toast.success("Director application submitted successfully!");
-    onSubmitSuccess();
+  // Restore a previously saved draft, if there is one
+  const isRevision = !!revision;
+  useEffect(() => {
+    if (isRevision) return;
+    let cancelled = false;
+    
+    loadDraft<unknown>(DIRECTOR_DRAFT_KEY)
+      .then(stored => {
+        if (cancelled || !stored) return;
+        
+        const restored = migrateDirectorDraft(stored.data);
+        if (restored) {
+          setValues({ ...restored, ...registrationRef.current });
+          setHasChanges(true);
+          // Back to the section the director left; the guard still holds them at the first incomplete one
+          const { currentSection: savedSection } = stored.data as Partial<DirectorDraft>;
+          if (directorForm.sections.some(candidate => candidate.id === savedSection)) {
+            onSectionChangeRef.current(savedSection, { replace: true });
+          }
+          toast.success("Welcome back! Your saved progress has been restored.");
+        } else {
+          deleteDraft(DIRECTOR_DRAFT_KEY).catch(error => {
+            console.error("Failed to delete application draft:", error);
+          });
+          toast.error("Your saved draft was made with a different version of this form and could not be restored.");
+        }
+      })
+      .catch(error => {
+        console.error("Failed to load application draft:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsRestoring(false);
+      });
+    
+    return () => {
+      cancelled = true;
+    };
+  }, [isRevision]);
+  
+  const draft = useMemo<DirectorDraft>(
+    () => ({ version: DIRECTOR_DRAFT_VERSION, values, currentSection }),
+    [values, currentSection]
+  );
+  const { cancel: cancelAutosave } = useDraftAutosave(DIRECTOR_DRAFT_KEY, draft, hasChanges && !isRestoring && !revision);
+  
+  const handleFieldChange = (name: FieldName<DirectorFormValues>, value: unknown) => {
+    setValues(prev => updateFormValues(directorForm, prev, name, value));
+    setHasChanges(true);
   };
   
-  // Navigate to the next section
-  const goToNextSection = async () => {
-    let shouldContinue = false;
-    
-    // Validate the current section fields
-    if (currentSection === 'contact') {
-      const result = await form.trigger(['fullName', 'email', 'phone', 'country', 'city']);
-      shouldContinue = result;
-    } else if (currentSection === 'background') {
-      const result = await form.trigger(['workExperience', 'education', 'skills']);
-      shouldContinue = result;
-    } else if (currentSection === 'motivation') {
-      const result = await form.trigger(['motivation', 'goals']);
-      shouldContinue = result;
-    } else if (currentSection === 'business') {
-      const result = await form.trigger(['strategy']);
-      shouldContinue = result;
-    } else if (currentSection === 'agreement') {
-      const result = await form.trigger(['agreeToTerms', 'agreeToConfidentiality']);
-      shouldContinue = result;
-    } else if (currentSection === 'profile') {
-      const result = await form.trigger(['dateOfBirth', 'bio', 'socialMedia']);
-      shouldContinue = result;
+  // Throw away the saved draft and start from a blank form
+  const discardDraft = () => {
+    cancelAutosave();
+    deleteDraft(DIRECTOR_DRAFT_KEY)
+      .then(() => {
+        setValues({ ...directorDefaultValues, ...registration });
+        onSectionChange(directorForm.sections[0].id);
+        setHasChanges(false);
+        toast.success("Saved draft discarded");
+      })
+      .catch(error => {
+        console.error("Failed to delete application draft:", error);
+        toast.error("Could not discard your saved draft. Please try again.");
+      });
+  };
+  
+  // Handle form submission
+  const handleSubmit = () => {
+    const allErrors = validateForm(definition, values);
+    if (allErrors.length > 0) {
+      showErrors(allErrors);
+      toast.error("Please fix the errors before submitting");
+      return;
     }
-    
-    // If validation passes, move to the next section
-    if (shouldContinue) {
-      if (currentSection === 'contact') setCurrentSection('background');
-      else if (currentSection === 'background') setCurrentSection('motivation');
-      else if (currentSection === 'motivation') setCurrentSection('business');
-      else if (currentSection === 'business') setCurrentSection('agreement');
-      else if (currentSection === 'agreement') setCurrentSection('profile');
-      else if (currentSection === 'profile') setCurrentSection('country');
-      
-      // Scroll to top
-      window.scrollTo({ top: 0, behavior: 'smooth' });
-    } else {
-      toast.error("Please fix the errors before continuing");
+
+    if (revision) {
+      sendChanges();
+      return;
     }
+    
+    submit({ type: 'director', data: values, applicationId: applicationId ?? undefined }, {
+      onSuccess: (result) => {
+        cancelAutosave();
+        deleteDraft(DIRECTOR_DRAFT_KEY).catch(error => {
+          console.error("Failed to delete application draft:", error);
+        });
+        toast.success("Director application submitted successfully!", {
+          description: `Your application ID is ${result.applicationId}.`
+        });
+        onSubmitSuccess?.(result);
+      },
+      onError: (error) => {
+        // Show problems reported by the server under the fields they belong to
+        if (isApiError(error) && error.fieldErrors.length > 0) {
+          showErrors(error.fieldErrors);
+        }
+        toast.error("Your application could not be submitted", {
+          description: error.message
+        });
+      },
+    });
   };
   
-  // Navigate to the previous section
-  const goToPrevSection = () => {
-    if (currentSection === 'background') setCurrentSection('contact');
-    else if (currentSection === 'motivation') setCurrentSection('background');
-    else if (currentSection === 'business') setCurrentSection('motivation');
-    else if (currentSection === 'agreement') setCurrentSection('business');
-    else if (currentSection === 'profile') setCurrentSection('agreement');
-    else if (currentSection === 'country') setCurrentSection('profile');
-    
-    // Scroll to top
-    window.scrollTo({ top: 0, behavior: 'smooth' });
+  // Only the reopened answers are sent
+  const sendChanges = () => {
+    const answers: Record<string, AnswerValue> = Object.fromEntries(
+      getReopenedFields(directorForm, revision.request.items).map(field => [field, values[field as FieldName<DirectorFormValues>]])
+    );
+
+    submitChanges.mutate({ applicationId: revision.applicationId, requestId: revision.request.requestId, answers }, {
+      onSuccess: () => {
+        toast.success("Your changes have been sent", {
+          description: "The team will look at your updated application."
+        });
+        onChangesSent?.();
+      },
+      onError: (error) => {
+        if (isApiError(error) && error.fieldErrors.length > 0) {
+          showErrors(error.fieldErrors);
+        }
+        toast.error("Your changes could not be sent", {
+          description: error.message
+        });
+      },
+    });
   };
   
+  if (isRestoring) {
+    return (
+      <div className="w-full max-w-3xl mx-auto pb-10">
+        <div className="flex items-center justify-center py-12 text-bloom-muted">
+          <Loader2 size={20} className="mr-2 animate-spin" />
+          Loading your application...
+        </div>
+      </div>
+    );
+  }
+  
   return (
-    <div className="max-w-3xl mx-auto bg-white rounded-xl shadow-lg p-6 md:p-8">
+    <div className="w-full max-w-3xl mx-auto pb-10 animate-fade-in">
       <h1 className="text-2xl md:text-3xl font-bold text-center mb-6 text-bloom-primary">
-        National Director Application
+        {revision ? 'Update Your Application' : directorForm.title}
       </h1>
       
-      {/* Progress indicator */}
-      <div className="mb-8">
-        <div className="h-2 w-full bg-gray-200 rounded-full mb-2">
-          <div 
-            className="h-full bg-bloom-gold rounded-full transition-all duration-300"
-            style={{ 
-              width: 
-                currentSection === 'contact' ? '14%' : 
-                currentSection === 'background' ? '28%' : 
-                currentSection === 'motivation' ? '42%' : 
-                currentSection === 'business' ? '56%' : 
-                currentSection === 'agreement' ? '70%' : 
-                currentSection === 'profile' ? '85%' : '100%' 
-            }}
-          ></div>
+      {hasChanges && !revision && (
+        <div className="flex items-center justify-between mb-4 text-xs text-bloom-muted">
+          <span>Your progress is saved automatically on this device.</span>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={discardDraft}
+            className="text-bloom-muted hover:text-destructive"
+          >
+            <Trash2 size={14} className="mr-1" />
+            Discard draft
+          </Button>
         </div>
-        <div className="text-sm text-bloom-muted text-center">
-          Step {
-            currentSection === 'contact' ? '1' : 
-            currentSection === 'background' ? '2' : 
-            currentSection === 'motivation' ? '3' : 
-            currentSection === 'business' ? '4' : 
-            currentSection === 'agreement' ? '5' : 
-            currentSection === 'profile' ? '6' : '7'
-          } of 7
-        </div>
-      </div>
+      )}
       
-      <Form {...form}>
-        <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
-          {/* Contact Information Section */}
-          {currentSection === 'contact' && (
-            <>
-              <h2 className="text-xl font-semibold text-bloom-primary mb-4">Contact Information</h2>
-              
-              <FormField
-                control={form.control}
-                name="fullName"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Full Name*</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter your full name" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="email"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Email Address*</FormLabel>
-                    <FormControl>
-                      <Input type="email" placeholder="your.email@example.com" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="phone"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Phone Number*</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter your phone number" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="country"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Country*</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter your country" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="city"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>City*</FormLabel>
-                    <FormControl>
-                      <Input placeholder="Enter your city" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </>
-          )}
-          
-          {/* Background and Experience Section */}
-          {currentSection === 'background' && (
-            <>
-              <h2 className="text-xl font-semibold text-bloom-primary mb-4">Background and Experience</h2>
-              
-              <FormField
-                control={form.control}
-                name="workExperience"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Work Experience*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="Please provide a brief overview of your relevant work experience" 
-                        className="min-h-[100px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="education"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Education and Qualifications*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="What education and qualifications do you hold?" 
-                        className="min-h-[100px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="skills"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Skills*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="What skills do you possess that would be beneficial for this role?" 
-                        className="min-h-[100px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </>
-          )}
-          
-          {/* Motivation and Goals Section */}
-          {currentSection === 'motivation' && (
-            <>
-              <h2 className="text-xl font-semibold text-bloom-primary mb-4">Motivation and Goals</h2>
-              
-              <FormField
-                control={form.control}
-                name="motivation"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Motivation*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="Why do you want to become a National Director for Miss Bloom Global?" 
-                        className="min-h-[100px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="goals"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Goals*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="What do you hope to achieve in this role?" 
-                        className="min-h-[100px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </>
-          )}
-          
-          {/* Business Plan Section */}
-          {currentSection === 'business' && (
-            <>
-              <h2 className="text-xl font-semibold text-bloom-primary mb-4">Business Plan</h2>
-              
-              <FormField
-                control={form.control}
-                name="strategy"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Promotion Strategy*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="Please outline your strategy for promoting Miss Bloom Global in your country" 
-                        className="min-h-[200px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </>
-          )}
-          
-          {/* Agreement Section */}
-          {currentSection === 'agreement' && (
-            <>
-              <h2 className="text-xl font-semibold text-bloom-primary mb-4">National Director Agreement</h2>
-              
-              <div className="bg-gray-50 rounded-lg p-4 mb-6">
-                <h3 className="font-medium mb-2">Terms and Conditions</h3>
-                <p className="text-sm text-bloom-muted mb-4">
-                  1. The National Director agrees to promote and represent Miss Bloom Global in their designated country.<br />
-                  2. The National Director will adhere to the rules, regulations, and guidelines set forth by Miss Bloom Global.
-                </p>
-                
-                <h3 className="font-medium mb-2">Confidentiality and Non-Disclosure</h3>
-                <p className="text-sm text-bloom-muted mb-4">
-                  1. The National Director agrees to maintain confidentiality and protect sensitive information related to Miss Bloom Global.
-                </p>
-                
-                <h3 className="font-medium mb-2">Territorial Rights</h3>
-                <p className="text-sm text-bloom-muted mb-4">
-                  1. The National Director will have exclusive rights to promote Miss Bloom Global in their designated country.
-                </p>
-                
-                <h3 className="font-medium mb-2">Payment Terms</h3>
-                <p className="text-sm text-bloom-muted">
-                  1. The National Director will receive percentage or amount of revenue generated from their country.
-                </p>
-              </div>
-              
-              <FormField
-                control={form.control}
-                name="agreeToTerms"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
-                    <FormControl>
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                    <div className="space-y-1 leading-none">
-                      <FormLabel>
-                        I agree to the Terms and Conditions*
-                      </FormLabel>
-                      <FormMessage />
-                    </div>
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="agreeToConfidentiality"
-                render={({ field }) => (
-                  <FormItem className="flex flex-row items-start space-x-3 space-y-0">
-                    <FormControl>
-                      <Checkbox
-                        checked={field.value}
-                        onCheckedChange={field.onChange}
-                      />
-                    </FormControl>
-                    <div className="space-y-1 leading-none">
-                      <FormLabel>
-                        I agree to maintain confidentiality*
-                      </FormLabel>
-                      <FormMessage />
-                    </div>
-                  </FormItem>
-                )}
-              />
-            </>
-          )}
-          
-          {/* Profile Section */}
-          {currentSection === 'profile' && (
-            <>
-              <h2 className="text-xl font-semibold text-bloom-primary mb-4">National Director Profile</h2>
-              
-              <FormField
-                control={form.control}
-                name="dateOfBirth"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Date of Birth*</FormLabel>
-                    <FormControl>
-                      <Input type="date" {...field} />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="bio"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Bio (max 500 words)*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="Please provide a professional bio" 
-                        className="min-h-[200px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <div className="text-xs text-bloom-muted mt-1">
-                      Words: {field.value ? field.value.trim().split(/\s+/).filter(Boolean).length : 0}/500
-                    </div>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="socialMedia"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Social Media Handles*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="Please provide your social media handles (Instagram, Facebook, LinkedIn, etc.)" 
-                        className="min-h-[100px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-            </>
-          )}
-          
-          {/* Country Information Section */}
-          {currentSection === 'country' && (
-            <>
-              <h2 className="text-xl font-semibold text-bloom-primary mb-4">Country Information</h2>
-              
-              <FormField
-                control={form.control}
-                name="countryOverview"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Country Overview (max 500 words)*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="Please provide an overview of your country" 
-                        className="min-h-[200px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <div className="text-xs text-bloom-muted mt-1">
-                      Words: {field.value ? field.value.trim().split(/\s+/).filter(Boolean).length : 0}/500
-                    </div>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <FormField
-                control={form.control}
-                name="culturalInfo"
-                render={({ field }) => (
-                  <FormItem>
-                    <FormLabel>Cultural and Custom Information (max 500 words)*</FormLabel>
-                    <FormControl>
-                      <Textarea 
-                        placeholder="Please provide information about your country's culture and customs" 
-                        className="min-h-[200px]"
-                        {...field} 
-                      />
-                    </FormControl>
-                    <div className="text-xs text-bloom-muted mt-1">
-                      Words: {field.value ? field.value.trim().split(/\s+/).filter(Boolean).length : 0}/500
-                    </div>
-                    <FormMessage />
-                  </FormItem>
-                )}
-              />
-              
-              <div className="pt-4">
-                <Button type="submit" className="w-full bg-bloom-gold text-bloom-primary hover:bg-bloom-gold/80">
-                  Submit Application
-                </Button>
-              </div>
-            </>
-          )}
-          
-          {/* Navigation buttons */}
-          {currentSection !== 'country' && (
-            <div className="flex justify-end pt-4">
-              {currentSection !== 'contact' && (
-                <Button 
-                  type="button"
-                  variant="outline"
-                  onClick={goToPrevSection}
-                  className="mr-2"
-                >
-                  Previous
-                </Button>
-              )}
-              <Button 
-                type="button"
-                onClick={goToNextSection}
-              >
-                Next
-              </Button>
-            </div>
-          )}
-        </form>
-      </Form>
+      <SteppedForm
+        definition={definition}
+        values={values}
+        errors={errors}
+        currentSection={currentSection}
+        onFieldChange={handleFieldChange}
+        onSelectSection={goTo}
+        onPrevious={goPrevious}
+        onNext={goNext}
+        onSubmit={handleSubmit}
+        isSubmitting={isSubmitting || submitChanges.isPending}
+        submitLabel={revision ? 'Send Changes' : undefined}
+        renderSectionIntro={revision && ((sectionId) => (
+          <ChangeRequestNotes definition={definition} sectionId={sectionId} items={revision.request.items} />
+        ))}
+      />
     </div>
   );
 };
 
-export default DirectorApplicationForm;
\ No newline at end of file
+export default DirectorApplicationForm;
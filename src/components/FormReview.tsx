@@ -0,0 +1,79 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Info, Pencil } from 'lucide-react';
+import PhotoThumbnail from '@/components/PhotoThumbnail';
+import { FieldDefinition, FormDefinition, getVisibleFields } from '@/utils/formDefinition';
+
+interface FormReviewProps<V> {
+  definition: FormDefinition<V>;
+  values: V;
+  onEditSection: (sectionId: string) => void;
+}
+
+const formatValue = <V,>(field: FieldDefinition<V>, value: unknown): string => {
+  if (field.type === 'checkbox') return value ? 'Yes' : 'No';
+  return typeof value === 'string' && value.trim() ? value : 'Not provided';
+};
+
+// Every answer of the application, grouped by section, for a last check before submitting
+const FormReview = <V,>({ definition, values, onEditSection }: FormReviewProps<V>) => {
+  const sections = definition.sections
+    .filter(section => section.kind !== 'review')
+    .map(section => ({ section, fields: getVisibleFields(section, values) }))
+    .filter(({ fields }) => fields.length > 0);
+
+  return (
+    <div className="space-y-6">
+      <div className="bg-bloom-accent/30 p-4 rounded-md">
+        <h3 className="font-medium text-lg mb-2 flex items-center">
+          <Info size={16} className="mr-2 text-bloom-muted" />
+          Review Your Application
+        </h3>
+        <p className="text-sm text-bloom-muted">
+          Please review your information below before submitting your application. You can go back to any section to make changes if needed.
+        </p>
+      </div>
+
+      {sections.map(({ section, fields }) => (
+        <div key={section.id} className="space-y-3 border-b pb-6 last:border-b-0 last:pb-0">
+          <div className="flex items-center justify-between">
+            <h4 className="font-medium text-bloom-primary">{section.title}</h4>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onEditSection(section.id)}
+              className="text-bloom-muted hover:text-bloom-primary"
+            >
+              <Pencil size={14} className="mr-1" />
+              Edit
+            </Button>
+          </div>
+          <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-3">
+            {fields.map(field => {
+              const value = values[field.name];
+              if (field.type === 'photo') {
+                return (
+                  <PhotoThumbnail
+                    key={field.name}
+                    file={value instanceof File ? value : null}
+                    label={field.label}
+                    className="max-w-[10rem]"
+                  />
+                );
+              }
+              return (
+                <div key={field.name} className={field.type === 'textarea' ? 'md:col-span-2' : ''}>
+                  <dt className="text-xs text-bloom-muted">{field.label}</dt>
+                  <dd className="text-sm whitespace-pre-line">{formatValue(field, value)}</dd>
+                </div>
+              );
+            })}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default FormReview;
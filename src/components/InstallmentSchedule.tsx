@@ -0,0 +1,37 @@
+import React from 'react';
+import { CheckCircle } from 'lucide-react';
+import { formatFeeAmount, formatFeeDate } from '@/utils/feeSchedule';
+import type { PaymentSchedule } from '@/utils/installmentPlans';
+
+interface InstallmentScheduleProps {
+  schedule: PaymentSchedule;
+  formatAmount?: (amount: number) => string; // Defaults to the schedule's currency
+}
+
+// Each installment of a payment plan with its due date and whether it has been paid
+const InstallmentSchedule: React.FC<InstallmentScheduleProps> = ({ schedule, formatAmount }) => {
+  const format = formatAmount ?? ((amount: number) => formatFeeAmount(amount, schedule.currency));
+
+  return (
+    <ol className="rounded-md border border-bloom-gold/20 bg-bloom-accent/30 p-3 text-sm space-y-2">
+      {schedule.installments.map(installment => (
+        <li key={installment.number} className="flex items-center justify-between gap-4">
+          <span className="flex items-center gap-1.5">
+            {installment.paidAt
+              ? <CheckCircle size={14} className="text-green-500" />
+              : <span className="w-3.5 h-3.5 rounded-full border border-bloom-muted/50" />}
+            <span className={installment.paidAt ? 'text-bloom-muted line-through' : ''}>{installment.label}</span>
+          </span>
+          <span className="flex items-center gap-3">
+            <span className="text-xs text-bloom-muted">
+              {installment.paidAt ? `Paid ${formatFeeDate(installment.paidAt.slice(0, 10))}` : `Due ${formatFeeDate(installment.dueDate)}`}
+            </span>
+            <span className="font-medium w-20 text-right">{format(installment.amount)}</span>
+          </span>
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default InstallmentSchedule;
@@ -0,0 +1,77 @@
+import React, { useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
+import { useAssignJudges, useJudges } from '@/hooks/use-staff-applications';
+import type { AssignedJudge } from '@/api/types';
+
+interface JudgeAssignmentFormProps {
+  applicationId: string;
+  judges: AssignedJudge[];
+}
+
+// Chooses the judges who score an application. Judges who have scored it already
+// stay on it, so their scores keep counting.
+const JudgeAssignmentForm: React.FC<JudgeAssignmentFormProps> = ({ applicationId, judges }) => {
+  const [selected, setSelected] = useState<string[]>(judges.map(judge => judge.email));
+  const accounts = useJudges();
+  const assignJudges = useAssignJudges();
+
+  const scored = new Set(judges.filter(judge => judge.scoredAt).map(judge => judge.email));
+  const changed = selected.length !== judges.length || judges.some(judge => !selected.includes(judge.email));
+
+  const toggle = (email: string, checked: boolean) => {
+    setSelected(prev => checked ? [...prev, email] : prev.filter(candidate => candidate !== email));
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    assignJudges.mutate({ applicationId, judgeEmails: selected }, {
+      onSuccess: () => toast.success('Judges assigned'),
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  if (accounts.isLoading) {
+    return (
+      <p className="flex items-center text-sm text-bloom-muted">
+        <Loader2 size={14} className="mr-2 animate-spin" />
+        Loading judges...
+      </p>
+    );
+  }
+
+  if (accounts.isError) {
+    return <p className="text-sm text-destructive">{accounts.error.message}</p>;
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-2">
+        {accounts.data.map(account => (
+          <div key={account.email} className="flex items-center gap-2">
+            <Checkbox
+              id={`judge-${account.email}`}
+              checked={selected.includes(account.email)}
+              onCheckedChange={(checked) => toggle(account.email, checked === true)}
+              disabled={scored.has(account.email)}
+            />
+            <Label htmlFor={`judge-${account.email}`} className="font-normal">
+              {account.name}
+              {scored.has(account.email) && <span className="text-xs text-bloom-muted"> · scored</span>}
+            </Label>
+          </div>
+        ))}
+      </div>
+      <Button type="submit" disabled={!changed || assignJudges.isPending} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+        {assignJudges.isPending && <Loader2 size={16} className="mr-2 animate-spin" />}
+        Save judges
+      </Button>
+    </form>
+  );
+};
+
+export default JudgeAssignmentForm;
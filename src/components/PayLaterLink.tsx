@@ -0,0 +1,50 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Copy, Link2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+
+interface PayLaterLinkProps {
+  payLink: string; // Path or URL issued by the server
+  children: React.ReactNode; // Explains when to use the link
+  showPayNow?: boolean;
+}
+
+// The link an unpaid application can be paid from later, on this or another device
+const PayLaterLink: React.FC<PayLaterLinkProps> = ({ payLink, children, showPayNow = false }) => {
+  const url = new URL(payLink, window.location.origin);
+
+  const copyLink = () => {
+    navigator.clipboard.writeText(url.href)
+      .then(() => toast.success('Pay link copied'))
+      .catch(() => toast.error('Could not copy the pay link'));
+  };
+
+  return (
+    <div className="rounded-md border border-bloom-gold/40 bg-bloom-gold/5 p-3 space-y-2 text-left">
+      <p className="flex items-center gap-2 text-sm font-medium text-bloom-primary">
+        <Link2 size={16} className="text-bloom-gold" />
+        Your pay link
+      </p>
+      <div className="text-xs text-bloom-muted">{children}</div>
+      <div className="flex items-center gap-2">
+        <code className="flex-1 truncate rounded bg-white px-2 py-1 text-xs border border-bloom-accent">{url.href}</code>
+        <button
+          type="button"
+          onClick={copyLink}
+          className="text-bloom-muted hover:text-bloom-gold transition-colors"
+          aria-label="Copy pay link"
+        >
+          <Copy size={14} />
+        </button>
+      </div>
+      {showPayNow && (
+        <Button asChild size="sm" className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+          <Link to={`${url.pathname}${url.search}`}>Pay now</Link>
+        </Button>
+      )}
+    </div>
+  );
+};
+
+export default PayLaterLink;
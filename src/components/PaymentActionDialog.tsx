@@ -0,0 +1,70 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Loader2, ShieldCheck, Wallet } from 'lucide-react';
+import type { PaymentIntent } from '@/api/types';
+import { formatMoney } from '@/utils/currencies';
+
+interface PaymentActionDialogProps {
+  intent: PaymentIntent | null;
+  isSubmitting: boolean;
+  onComplete: (approved: boolean) => void;
+}
+
+const titles = {
+  three_d_secure: 'Verify your payment',
+  paypal_approval: 'Approve in PayPal',
+};
+
+// Extra step some payments need before they go through: 3-D Secure for cards, or
+// approving the payment in PayPal. Closing the dialog counts as failing the step.
+const PaymentActionDialog: React.FC<PaymentActionDialogProps> = ({ intent, isSubmitting, onComplete }) => {
+  const action = intent?.status === 'requires_action' ? intent.nextAction : undefined;
+  const Icon = action?.type === 'paypal_approval' ? Wallet : ShieldCheck;
+
+  return (
+    <Dialog open={!!action} onOpenChange={(open) => !open && !isSubmitting && onComplete(false)}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Icon size={18} className="text-bloom-gold" />
+            {action && titles[action.type]}
+          </DialogTitle>
+          <DialogDescription>{action?.message}</DialogDescription>
+        </DialogHeader>
+
+        {intent && (
+          <div className="rounded-md border bg-bloom-accent/30 p-3 text-sm space-y-1">
+            <div className="flex justify-between">
+              <span className="text-bloom-muted">Amount</span>
+              <span className="font-medium">{formatMoney(intent.charge.amount, intent.charge.currency)}</span>
+            </div>
+            {intent.method && (
+              <div className="flex justify-between">
+                <span className="text-bloom-muted">Paying with</span>
+                <span>{intent.method.summary}</span>
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" disabled={isSubmitting} onClick={() => onComplete(false)}>
+            Fail verification
+          </Button>
+          <Button
+            type="button"
+            disabled={isSubmitting}
+            onClick={() => onComplete(true)}
+            className="bg-bloom-primary hover:bg-bloom-primary/90"
+          >
+            {isSubmitting && <Loader2 size={16} className="mr-2 animate-spin" />}
+            Complete verification
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PaymentActionDialog;
@@ -1,40 +1,120 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
-import { CreditCard, Lock, Calendar, ShieldCheck, Wallet, Building, AlertCircle, CheckCircle, Crown } from 'lucide-react';
-import { validatePaymentForm, formatCardNumber, formatExpiryDate, FormError } from '@/utils/formUtils';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { CreditCard, Lock, Calendar, ShieldCheck, Wallet, Building, AlertCircle, CheckCircle, Crown, Tag, Loader2, Gift, RefreshCw } from 'lucide-react';
+import { validatePaymentForm, validateBankTransferForm, formatCardNumber, formatExpiryDate, FormError } from '@/utils/formUtils';
+import { beneficiaryAccount, createPaymentReference, formatIban, looksLikeIban } from '@/utils/bankTransfer';
+import { CardBrandId, detectCardBrand, getMaxCardNumberLength } from '@/utils/cardBrands';
+import { FeeQuote, FEE_CURRENCY, formatFeeAmount, formatFeeDate } from '@/utils/feeSchedule';
+import {
+  convertAmount,
+  formatLockTime,
+  formatMoney,
+  getCurrencyForCountry,
+  getCurrencyName,
+  isRateLockExpired,
+  supportedCurrencies,
+} from '@/utils/currencies';
+import { useExchangeRateLock } from '@/hooks/use-exchange-rate-lock';
+import { usePayment } from '@/hooks/use-payment';
+import { useApplyPromoCode } from '@/hooks/use-promo-code';
+import { useSelectPaymentPlan } from '@/hooks/use-payment-plan';
+import { isApiError } from '@/api/errors';
+import PaymentActionDialog from '@/components/PaymentActionDialog';
+import PaymentSandboxHint from '@/components/PaymentSandboxHint';
+import BankTransferDetails from '@/components/BankTransferDetails';
+import PaymentPlanOptions from '@/components/PaymentPlanOptions';
+import InstallmentSchedule from '@/components/InstallmentSchedule';
+import { getAvailablePlans, getUpcomingInstallments, PaymentSchedule } from '@/utils/installmentPlans';
+import type { PaymentIntent, PaymentMethodDetails } from '@/api/types';
 
 interface PaymentFormProps {
+  applicationId: string | null;
+  fee: FeeQuote | null; // Amount due as quoted when the application was submitted
+  onFeeChange: (fee: FeeQuote) => void; // A promo code was applied or removed
+  paymentSchedule: PaymentSchedule | null; // The plan chosen earlier, as confirmed by the server
+  onScheduleChange: (schedule: PaymentSchedule | null) => void; // A plan was chosen or dropped
   onPaymentSuccess: () => void;
+  onTransferPending: (intent: PaymentIntent) => void; // The applicant chose to pay by bank transfer
   onBack: () => void; // Keep this prop for type compatibility, even if we don't use it
 }
 
-const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) => {
+// Explains which deadline the quoted amount depends on
+const describeFeeTier = (fee: FeeQuote): string => {
+  if (fee.tier === 'early-bird') return `Early-bird pricing for applications submitted by ${formatFeeDate(fee.earlyBirdDeadline)}.`;
+  if (fee.tier === 'late') return `Includes the late fee for applications submitted after ${formatFeeDate(fee.lateDeadline)}.`;
+  return `A late fee applies to applications submitted after ${formatFeeDate(fee.lateDeadline)}.`;
+};
+
+// Brands shown in the logo row; the one the card number belongs to is highlighted as it is typed
+const brandLogos: { id: CardBrandId; label: string; className: string }[] = [
+  { id: 'visa', label: 'VISA', className: 'bg-[#1434CB]' },
+  { id: 'mastercard', label: 'MC', className: 'bg-[#FF5F00]' },
+  { id: 'amex', label: 'AMEX', className: 'bg-[#006FCF]' },
+  { id: 'discover', label: 'DISC', className: 'bg-[#000000]' },
+];
+
+const PaymentForm: React.FC<PaymentFormProps> = ({ applicationId, fee: quotedFee, onFeeChange, paymentSchedule, onScheduleChange, onPaymentSuccess, onTransferPending, onBack }) => {
+  const [fee, setFee] = useState<FeeQuote | null>(quotedFee);
+  const [promoCode, setPromoCode] = useState('');
+  const promo = useApplyPromoCode();
+  const [schedule, setSchedule] = useState<PaymentSchedule | null>(paymentSchedule);
+  const plan = useSelectPaymentPlan();
+  const [displayCurrency, setDisplayCurrency] = useState(() => getCurrencyForCountry(quotedFee?.country ?? ''));
+  const rate = useExchangeRateLock(displayCurrency);
   const [paymentMethod, setPaymentMethod] = useState<'card' | 'paypal' | 'bank'>('card');
   const [cardNumber, setCardNumber] = useState('');
   const [expiryDate, setExpiryDate] = useState('');
   const [cvv, setCVV] = useState('');
   const [name, setName] = useState('');
-  const [bankName, setBankName] = useState('');
-  const [accountNumber, setAccountNumber] = useState('');
-  const [routingNumber, setRoutingNumber] = useState('');
+  const [accountHolder, setAccountHolder] = useState('');
+  const [account, setAccount] = useState('');
+  const [bic, setBic] = useState('');
   const [emailAddress, setEmailAddress] = useState('');
-  const [isProcessing, setIsProcessing] = useState(false);
+  // With a payment plan only the next unpaid installment is charged now: the deposit,
+  // or a later installment when coming back from a pay link
+  const nextInstallment = schedule ? getUpcomingInstallments(schedule)[0] : undefined;
+  // Once an installment has been paid the fee and the plan can no longer change
+  const isPlanStarted = !!schedule && schedule.installments.some(installment => installment.paidAt);
+  const amountDueNow = nextInstallment ? nextInstallment.amount : fee?.total ?? 0;
+  const feeCurrency = fee?.currency ?? FEE_CURRENCY;
+  // Bank transfers are always paid in the fee currency
+  const chargeLock = paymentMethod === 'bank' || rate.lock.currency === feeCurrency ? null : rate.lock;
+  const formatAmount = (amount: number): string => {
+    return chargeLock ? formatMoney(convertAmount(amount, chargeLock), chargeLock.currency) : formatFeeAmount(amount, feeCurrency);
+  };
+  const payment = usePayment({
+    applicationId,
+    amount: amountDueNow,
+    currency: feeCurrency,
+    installmentNumber: nextInstallment?.number,
+    exchangeRate: chargeLock,
+    onRecover: (intent) => handlePaymentResult(intent),
+  });
+  const isProcessing = payment.status === 'processing';
+  // A voucher can cover the whole fee, leaving nothing to charge
+  const isCovered = fee?.total === 0;
   const [errors, setErrors] = useState<FormError[]>([]);
   const [focused, setFocused] = useState<string | null>(null);
-  const [amount, setAmount] = useState<string>('250');
+  const cardBrand = detectCardBrand(cardNumber);
+  const cvvLength = cardBrand?.cvvLength ?? 3;
 
   const getErrorMessage = (field: string): string | undefined => {
     return errors.find(error => error.field === field)?.message;
   };
 
   const handleCardNumberChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    const value = e.target.value.replace(/\D/g, '').substring(0, 16);
-    setCardNumber(formatCardNumber(value));
+    const value = e.target.value.replace(/\D/g, '');
+    const formatted = formatCardNumber(value.substring(0, getMaxCardNumberLength(detectCardBrand(value))));
+    setCardNumber(formatted);
+    // Switching to or from Amex changes how many CVV digits the card has
+    const maxCVVLength = detectCardBrand(formatted)?.cvvLength ?? 3;
+    setCVV(current => current.substring(0, maxCVVLength));
   };
 
   const handleExpiryDateChange = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -46,36 +126,24 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
 
   const handleCVVChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const value = e.target.value.replace(/\D/g, '');
-    if (value.length <= 4) {
+    if (value.length <= cvvLength) {
       setCVV(value);
     }
   };
 
-  const handleAmountChange = (e: React.ChangeEvent<HTMLInputElement>) => {
-    // Allow only numbers and decimal point
-    const value = e.target.value.replace(/[^\d.]/g, '');
-    
-    // Validate format (optional decimal with max 2 decimal places)
-    if (/^\d*\.?\d{0,2}$/.test(value)) {
-      setAmount(value);
-    }
-  };
-
   const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
     
-    // Validate amount
-    const amountErrors: FormError[] = [];
-    const numAmount = parseFloat(amount);
-    
-    if (!amount.trim()) {
-      amountErrors.push({ field: 'amount', message: 'Amount is required' });
-    } else if (isNaN(numAmount) || numAmount <= 0) {
-      amountErrors.push({ field: 'amount', message: 'Please enter a valid amount greater than 0' });
+    // Without a quote there is nothing to charge
+    if (!fee) return;
+    if (isCovered) {
+      onPaymentSuccess();
+      return;
     }
-    
-    if (amountErrors.length > 0) {
-      setErrors(amountErrors);
+    // Never charge at a rate the payer hasn't seen
+    if (chargeLock && isRateLockExpired(chargeLock)) {
+      rate.relock();
+      setErrors([{ field: 'exchangeRate', message: 'The exchange rate has been updated. Please check the amount before paying.' }]);
       return;
     }
     
@@ -88,41 +156,90 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
       };
       
       const validationErrors = validatePaymentForm(paymentData);
-      setErrors([...amountErrors, ...validationErrors]);
+      setErrors([...validationErrors]);
       
-      if (validationErrors.length === 0 && amountErrors.length === 0) {
-        processPayment();
+      if (validationErrors.length === 0) {
+        processPayment({ type: 'card', ...paymentData });
       }
     } else if (paymentMethod === 'paypal') {
       // Simple validation for PayPal
       if (!emailAddress.trim()) {
-        setErrors([...amountErrors, { field: 'emailAddress', message: 'Email address is required' }]);
+        setErrors([{ field: 'emailAddress', message: 'Email address is required' }]);
         return;
       }
-      processPayment();
+      processPayment({ type: 'paypal', email: emailAddress });
     } else if (paymentMethod === 'bank') {
-      // Simple validation for bank transfer
-      const bankErrors: FormError[] = [];
-      if (!bankName.trim()) bankErrors.push({ field: 'bankName', message: 'Bank name is required' });
-      if (!accountNumber.trim()) bankErrors.push({ field: 'accountNumber', message: 'Account number is required' });
-      if (!routingNumber.trim()) bankErrors.push({ field: 'routingNumber', message: 'Routing number is required' });
-      
-      setErrors([...amountErrors, ...bankErrors]);
+      const transferData = { accountHolder, account, bic };
+      const bankErrors = validateBankTransferForm(transferData);
+      setErrors([...bankErrors]);
       
-      if (bankErrors.length === 0 && amountErrors.length === 0) {
-        processPayment();
+      if (bankErrors.length === 0) {
+        processPayment({ type: 'bank', ...transferData });
       }
     }
   };
 
-  const processPayment = () => {
-    // Simulate API call delay
-    setIsProcessing(true);
-    setTimeout(() => {
-      // In a real application, you would make an API call to your payment processor here
-      setIsProcessing(false);
+  // The server re-quotes the fee, so the discount shown is the one that will be charged
+  const updatePromoCode = (code: string | null) => {
+    if (!applicationId) return;
+    setErrors(errors.filter(error => error.field !== 'promoCode'));
+    promo.mutate({ applicationId, code }, {
+      onSuccess: (nextFee) => {
+        setFee(nextFee);
+        setPromoCode('');
+        onFeeChange(nextFee);
+        // The server drops the plan when the total changes; choose it again for the new total if it is still offered
+        const previousPlanId = schedule?.planId;
+        setSchedule(null);
+        onScheduleChange(null);
+        if (previousPlanId && getAvailablePlans(nextFee).some(available => available.id === previousPlanId)) {
+          selectPlan(previousPlanId);
+        }
+      },
+      onError: (error) => {
+        const message = isApiError(error)
+          ? error.fieldErrors.find(fieldError => fieldError.field === 'promoCode')?.message ?? error.message
+          : 'The code could not be applied. Please try again.';
+        setErrors([{ field: 'promoCode', message }]);
+      },
+    });
+  };
+
+  const selectPlan = (planId: string | null) => {
+    if (!applicationId) return;
+    setErrors(errors.filter(error => error.field !== 'paymentPlan'));
+    plan.mutate({ applicationId, planId }, {
+      onSuccess: (nextSchedule) => {
+        setSchedule(nextSchedule);
+        onScheduleChange(nextSchedule);
+      },
+      onError: (error) => setErrors([{ field: 'paymentPlan', message: error.message }]),
+    });
+  };
+
+  const handlePromoCodeKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    // Enter applies the code instead of submitting the payment
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      if (promoCode.trim()) updatePromoCode(promoCode);
+    }
+  };
+
+  const handlePaymentResult = (intent: PaymentIntent | null) => {
+    if (intent?.status === 'succeeded') {
       onPaymentSuccess();
-    }, 2000);
+    } else if (intent?.status === 'awaiting_transfer') {
+      onTransferPending(intent);
+    }
+  };
+
+  // Charge through the payment provider; declines and failed verification are shown on the form
+  const processPayment = (method: PaymentMethodDetails) => {
+    payment.pay(method).then(handlePaymentResult);
+  };
+
+  const handleActionComplete = (approved: boolean) => {
+    payment.completeAction(approved).then(handlePaymentResult);
   };
 
   const hasError = (field: string): boolean => {
@@ -167,56 +284,179 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
                 <Lock size={14} className="text-bloom-gold" />
                 <span>Secure Payment</span>
               </div>
-              <div className="flex items-center gap-2">
-                <div className="w-8 h-5 bg-[#1434CB] rounded-sm transform transition-transform hover:scale-105"></div>
-                <div className="w-8 h-5 bg-gradient-to-r from-[#FF5F00] via-[#FF5F00] to-[#FF5F00] rounded-sm transform transition-transform hover:scale-105"></div>
-                <div className="w-8 h-5 bg-[#000000] rounded-sm transform transition-transform hover:scale-105"></div>
-                <div className="w-8 h-5 bg-[#253B80] rounded-sm transform transition-transform hover:scale-105"></div>
+              <div className="flex items-center gap-2" aria-label={cardBrand ? `Card type: ${cardBrand.name}` : 'Accepted cards'}>
+                {brandLogos.map(logo => {
+                  const isDetected = paymentMethod === 'card' && cardBrand?.id === logo.id;
+                  const isDimmed = paymentMethod === 'card' && !!cardBrand && !isDetected;
+                  return (
+                    <div
+                      key={logo.id}
+                      title={logo.label}
+                      className={`w-8 h-5 ${logo.className} rounded-sm flex items-center justify-center text-[7px] font-bold tracking-tight text-white transform transition-all duration-200 hover:scale-105 ${
+                        isDetected ? 'ring-2 ring-bloom-gold ring-offset-1 scale-110' : ''
+                      } ${isDimmed ? 'opacity-25' : ''}`}
+                    >
+                      {logo.label}
+                    </div>
+                  );
+                })}
               </div>
             </div>
 
-            <div className="space-y-2 group">
+            <div className="space-y-2">
               <div className="flex items-center justify-between">
-                <Label htmlFor="amount" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('amount') ? 'text-destructive' : ''}`}>
-                  Payment Amount
-                </Label>
-                <span className="text-xs text-bloom-muted">USD</span>
-              </div>
-              <div className="relative overflow-hidden rounded-md group">
-                <Input 
-                  id="amount" 
-                  value={amount}
-                  onChange={handleAmountChange}
-                  onFocus={() => setFocused('amount')}
-                  onBlur={() => setFocused(null)}
-                  className={`pl-8 transition-all duration-300 ${
-                    focused === 'amount' 
-                      ? 'border-bloom-gold ring-1 ring-bloom-gold/20 shadow-[0_0_0_4px_rgba(220,174,103,0.1)]' 
-                      : ''
-                  } ${
-                    hasError('amount') 
-                      ? 'border-destructive' 
-                      : 'group-hover:border-bloom-gold/50'
-                  }`}
-                  placeholder="Enter payment amount"
-                />
-                <div className="absolute left-3 top-1/2 transform -translate-y-1/2 text-bloom-muted group-hover:text-bloom-gold transition-colors duration-200">
-                  $
-                </div>
-                <div className="absolute bottom-0 left-0 h-0.5 w-0 group-hover:w-full bg-bloom-gold transition-all duration-700 opacity-70"></div>
+                <Label className="text-sm font-medium">Amount Due</Label>
+                <Select value={displayCurrency} onValueChange={setDisplayCurrency} disabled={paymentMethod === 'bank' || isProcessing}>
+                  <SelectTrigger className="h-7 w-auto gap-1 text-xs" aria-label="Currency">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {supportedCurrencies.map(currency => (
+                      <SelectItem key={currency} value={currency} className="text-xs">
+                        {currency} · {getCurrencyName(currency)}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
               </div>
-              {getErrorMessage('amount') && (
-                <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+              {fee ? (
+                <>
+                  <div className="rounded-md border border-bloom-gold/20 bg-bloom-accent/30 p-3 text-sm space-y-2">
+                    {fee.lineItems.map(item => (
+                      <div key={item.label} className="flex justify-between gap-4">
+                        <span className="text-bloom-muted">{item.label}</span>
+                        <span className={item.amount < 0 ? 'text-green-600' : ''}>
+                          {formatAmount(item.amount)}
+                        </span>
+                      </div>
+                    ))}
+                    <Separator />
+                    <div className="flex justify-between font-medium text-bloom-primary">
+                      <span>Total</span>
+                      <span>{formatAmount(fee.total)}</span>
+                    </div>
+                  </div>
+                  {chargeLock && (
+                    <p className={`text-xs flex items-start gap-1 ${rate.isExpired ? 'text-amber-700' : 'text-bloom-muted'}`}>
+                      <RefreshCw size={12} className="mt-0.5 shrink-0" />
+                      {rate.isExpired ? (
+                        <span>
+                          This rate expired at {formatLockTime(chargeLock.expiresAt)}.{' '}
+                          <button type="button" onClick={rate.relock} className="underline hover:text-bloom-gold">Get the current rate</button>
+                        </span>
+                      ) : (
+                        <span>
+                          Converted from {formatFeeAmount(fee.total, fee.currency)} at 1 {fee.currency} = {chargeLock.rate} {chargeLock.currency}.
+                          Rate locked at {formatLockTime(chargeLock.lockedAt)} until {formatLockTime(chargeLock.expiresAt)}.
+                        </span>
+                      )}
+                    </p>
+                  )}
+                  {getErrorMessage('exchangeRate') && (
+                    <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                      <AlertCircle size={12} />
+                      {getErrorMessage('exchangeRate')}
+                    </p>
+                  )}
+                  <p className="text-xs text-bloom-muted mt-1">
+                    {fee.seasonName}. {describeFeeTier(fee)}
+                  </p>
+
+                  {isPlanStarted && nextInstallment ? (
+                    <div className="space-y-2 pt-2">
+                      <p className="text-sm font-medium text-bloom-primary">
+                        Installment {nextInstallment.number} of {schedule.installments.length}, due {formatFeeDate(nextInstallment.dueDate)}
+                      </p>
+                      <InstallmentSchedule schedule={schedule} formatAmount={formatAmount} />
+                    </div>
+                  ) : (
+                    <>
+                      <div className="space-y-1 pt-1">
+                        {fee.promoCode ? (
+                          <div className="flex items-center justify-between rounded-md border border-green-200 bg-green-50 px-3 py-1.5 text-sm">
+                            <span className="flex items-center gap-1.5 text-green-700">
+                              <Tag size={14} />
+                              Code <span className="font-mono font-medium">{fee.promoCode}</span> applied
+                            </span>
+                            <Button
+                              type="button"
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => updatePromoCode(null)}
+                              disabled={promo.isPending || isProcessing}
+                              className="h-7 text-bloom-muted"
+                            >
+                              Remove
+                            </Button>
+                          </div>
+                        ) : (
+                          <div className="flex gap-2">
+                            <Input
+                              id="promo-code"
+                              aria-label="Promo or voucher code"
+                              placeholder="Promo or voucher code"
+                              value={promoCode}
+                              onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                              onKeyDown={handlePromoCodeKeyDown}
+                              className={`font-mono ${hasError('promoCode') ? 'border-destructive' : ''}`}
+                            />
+                            <Button
+                              type="button"
+                              variant="outline"
+                              onClick={() => updatePromoCode(promoCode)}
+                              disabled={!promoCode.trim() || promo.isPending || isProcessing}
+                              className="border-bloom-gold/40 hover:border-bloom-gold hover:text-bloom-gold"
+                            >
+                              {promo.isPending && <Loader2 size={14} className="mr-1 animate-spin" />}
+                              Apply
+                            </Button>
+                          </div>
+                        )}
+                        {getErrorMessage('promoCode') && (
+                          <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                            <AlertCircle size={12} />
+                            {getErrorMessage('promoCode')}
+                          </p>
+                        )}
+                      </div>
+
+                      {!isCovered && (
+                        <div className="pt-2">
+                          <PaymentPlanOptions
+                            fee={fee}
+                            schedule={schedule}
+                            isUpdating={plan.isPending}
+                            disabled={isProcessing || promo.isPending}
+                            onSelect={selectPlan}
+                            formatAmount={formatAmount}
+                          />
+                          {getErrorMessage('paymentPlan') && (
+                            <p className="text-xs text-destructive flex items-center gap-1 mt-1 animate-fade-in">
+                              <AlertCircle size={12} />
+                              {getErrorMessage('paymentPlan')}
+                            </p>
+                          )}
+                        </div>
+                      )}
+                    </>
+                  )}
+                </>
+              ) : (
+                <p className="text-xs text-destructive flex items-center gap-1">
                   <AlertCircle size={12} />
-                  {getErrorMessage('amount')}
+                  The amount due for your application could not be found. Please submit your application again.
                 </p>
               )}
-              <p className="text-xs text-bloom-muted mt-1">
-                Application fee for National Director position
-              </p>
             </div>
 
-            <Tabs defaultValue="card" className="w-full" onValueChange={(value) => setPaymentMethod(value as 'card' | 'paypal' | 'bank')}>
+            {isCovered && (
+              <div className="flex items-center p-4 bg-green-50 rounded-md border border-green-200 animate-fade-in">
+                <Gift size={18} className="text-green-600 mr-3 shrink-0" />
+                <p className="text-sm text-green-700">Your code covers the full fee, so there is nothing to pay.</p>
+              </div>
+            )}
+
+            <Tabs defaultValue="card" className={`w-full ${isCovered ? 'hidden' : ''}`} onValueChange={(value) => setPaymentMethod(value as 'card' | 'paypal' | 'bank')}>
               <TabsList className="grid grid-cols-3 mb-6 bg-bloom-accent/50 border border-bloom-gold/10">
                 <TabsTrigger value="card" className="flex items-center justify-center gap-1 data-[state=active]:text-bloom-gold data-[state=active]:shadow-[0_-2px_0_0_#DCAE67_inset]">
                   <CreditCard size={16} />
@@ -238,12 +478,18 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
                     <Label htmlFor="card-number" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('cardNumber') ? 'text-destructive' : ''}`}>
                       Card Number
                     </Label>
-                    <CreditCard size={16} className="text-bloom-muted group-hover:text-bloom-gold transition-colors duration-200" />
+                    {cardBrand ? (
+                      <span className="text-xs font-medium text-bloom-gold animate-fade-in">{cardBrand.name}</span>
+                    ) : (
+                      <CreditCard size={16} className="text-bloom-muted group-hover:text-bloom-gold transition-colors duration-200" />
+                    )}
                   </div>
                   <div className="relative overflow-hidden rounded-md">
                     <Input
                       id="card-number"
                       placeholder="4242 4242 4242 4242"
+                      inputMode="numeric"
+                      autoComplete="cc-number"
                       value={cardNumber}
                       onChange={handleCardNumberChange}
                       onFocus={() => setFocused('cardNumber')}
@@ -307,14 +553,15 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
                   <div className="space-y-2 group">
                     <div className="flex items-center justify-between">
                       <Label htmlFor="cvv" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('cvv') ? 'text-destructive' : ''}`}>
-                        CVV
+                        {cardBrand?.cvvLabel ?? 'CVV'}
                       </Label>
                       <ShieldCheck size={16} className="text-bloom-muted group-hover:text-bloom-gold transition-colors duration-200" />
                     </div>
                     <div className="relative overflow-hidden rounded-md">
                       <Input
                         id="cvv"
-                        placeholder="123"
+                        placeholder={cvvLength === 4 ? '1234' : '123'}
+                        inputMode="numeric"
                         value={cvv}
                         onChange={handleCVVChange}
                         onFocus={() => setFocused('cvv')}
@@ -432,114 +679,137 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
                     <AlertCircle size={16} className="text-amber-500" />
                   </div>
                   <p className="text-sm text-amber-700">
-                    Bank transfers may take 1-3 business days to process.
+                    Send the amount due in {feeCurrency} from your bank to the account below. International transfers usually take 1-5 business days to arrive, and your application is marked as awaiting transfer until then.
                   </p>
                 </div>
+
+                {applicationId && (
+                  <BankTransferDetails
+                    beneficiary={beneficiaryAccount}
+                    reference={createPaymentReference(applicationId)}
+                    amount={amountDueNow}
+                    currency={fee?.currency}
+                  />
+                )}
+
+                <div className="pt-2">
+                  <h3 className="text-sm font-medium">Sending from</h3>
+                  <p className="text-xs text-bloom-muted">The account you will send the transfer from, so we can find it if the reference is left off.</p>
+                </div>
                 
                 <div className="space-y-2 group">
-                  <Label htmlFor="bank-name" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('bankName') ? 'text-destructive' : ''}`}>
-                    Bank Name
+                  <Label htmlFor="account-holder" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('accountHolder') ? 'text-destructive' : ''}`}>
+                    Account Holder
                   </Label>
                   <div className="relative overflow-hidden rounded-md">
                     <Input
-                      id="bank-name"
-                      placeholder="Enter your bank name"
-                      value={bankName}
-                      onChange={(e) => setBankName(e.target.value)}
-                      onFocus={() => setFocused('bankName')}
+                      id="account-holder"
+                      placeholder="Name on the account"
+                      value={accountHolder}
+                      onChange={(e) => setAccountHolder(e.target.value)}
+                      onFocus={() => setFocused('accountHolder')}
                       onBlur={() => setFocused(null)}
                       className={`transition-all duration-300 ${
-                        focused === 'bankName' 
+                        focused === 'accountHolder' 
                           ? 'border-bloom-gold ring-1 ring-bloom-gold/20 shadow-[0_0_0_4px_rgba(220,174,103,0.1)]' 
                           : ''
                       } ${
-                        hasError('bankName') 
+                        hasError('accountHolder') 
                           ? 'border-destructive' 
                           : 'group-hover:border-bloom-gold/50'
                       }`}
                     />
                     <div className="absolute bottom-0 left-0 h-0.5 w-0 group-hover:w-full bg-bloom-gold transition-all duration-700 opacity-70"></div>
                   </div>
-                  {getErrorMessage('bankName') && (
+                  {getErrorMessage('accountHolder') && (
                     <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
                       <AlertCircle size={12} />
-                      {getErrorMessage('bankName')}
+                      {getErrorMessage('accountHolder')}
                     </p>
                   )}
                 </div>
                 
                 <div className="space-y-2 group">
-                  <Label htmlFor="account-number" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('accountNumber') ? 'text-destructive' : ''}`}>
-                    Account Number
+                  <Label htmlFor="account" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('account') ? 'text-destructive' : ''}`}>
+                    IBAN or Account Number
                   </Label>
                   <div className="relative overflow-hidden rounded-md">
                     <Input
-                      id="account-number"
-                      placeholder="Enter your account number"
-                      value={accountNumber}
-                      onChange={(e) => setAccountNumber(e.target.value)}
-                      onFocus={() => setFocused('accountNumber')}
+                      id="account"
+                      placeholder="e.g. DE89 3704 0044 0532 0130 00"
+                      value={account}
+                      onChange={(e) => setAccount(looksLikeIban(e.target.value) ? formatIban(e.target.value) : e.target.value)}
+                      onFocus={() => setFocused('account')}
                       onBlur={() => setFocused(null)}
                       className={`transition-all duration-300 ${
-                        focused === 'accountNumber' 
+                        focused === 'account' 
                           ? 'border-bloom-gold ring-1 ring-bloom-gold/20 shadow-[0_0_0_4px_rgba(220,174,103,0.1)]' 
                           : ''
                       } ${
-                        hasError('accountNumber') 
+                        hasError('account') 
                           ? 'border-destructive' 
                           : 'group-hover:border-bloom-gold/50'
                       }`}
                     />
                     <div className="absolute bottom-0 left-0 h-0.5 w-0 group-hover:w-full bg-bloom-gold transition-all duration-700 opacity-70"></div>
                   </div>
-                  {getErrorMessage('accountNumber') && (
+                  {getErrorMessage('account') && (
                     <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
                       <AlertCircle size={12} />
-                      {getErrorMessage('accountNumber')}
+                      {getErrorMessage('account')}
                     </p>
                   )}
                 </div>
                 
                 <div className="space-y-2 group">
-                  <Label htmlFor="routing-number" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('routingNumber') ? 'text-destructive' : ''}`}>
-                    Routing Number
+                  <Label htmlFor="bic" className={`text-sm font-medium group-hover:text-bloom-gold transition-colors duration-200 ${hasError('bic') ? 'text-destructive' : ''}`}>
+                    SWIFT/BIC
                   </Label>
                   <div className="relative overflow-hidden rounded-md">
                     <Input
-                      id="routing-number"
-                      placeholder="Enter your routing number"
-                      value={routingNumber}
-                      onChange={(e) => setRoutingNumber(e.target.value)}
-                      onFocus={() => setFocused('routingNumber')}
+                      id="bic"
+                      placeholder="e.g. DEUTDEFF"
+                      value={bic}
+                      onChange={(e) => setBic(e.target.value.replace(/\s/g, '').toUpperCase().substring(0, 11))}
+                      onFocus={() => setFocused('bic')}
                       onBlur={() => setFocused(null)}
                       className={`transition-all duration-300 ${
-                        focused === 'routingNumber' 
+                        focused === 'bic' 
                           ? 'border-bloom-gold ring-1 ring-bloom-gold/20 shadow-[0_0_0_4px_rgba(220,174,103,0.1)]' 
                           : ''
                       } ${
-                        hasError('routingNumber') 
+                        hasError('bic') 
                           ? 'border-destructive' 
                           : 'group-hover:border-bloom-gold/50'
                       }`}
                     />
                     <div className="absolute bottom-0 left-0 h-0.5 w-0 group-hover:w-full bg-bloom-gold transition-all duration-700 opacity-70"></div>
                   </div>
-                  {getErrorMessage('routingNumber') && (
+                  {getErrorMessage('bic') && (
                     <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
                       <AlertCircle size={12} />
-                      {getErrorMessage('routingNumber')}
+                      {getErrorMessage('bic')}
                     </p>
                   )}
                 </div>
               </TabsContent>
             </Tabs>
+
+            {!isCovered && <PaymentSandboxHint method={paymentMethod} />}
+
+            {payment.error && (
+              <div className="flex items-start gap-2 rounded-md border border-destructive/30 bg-destructive/5 p-3 text-sm text-destructive animate-fade-in">
+                <AlertCircle size={16} className="mt-0.5 shrink-0" />
+                <p>{payment.error}</p>
+              </div>
+            )}
           </CardContent>
           
           <CardFooter className="flex flex-col space-y-2 pb-6">
             <Button 
               type="submit" 
               className="w-full bg-gradient-to-r from-bloom-gold/80 via-bloom-gold to-bloom-gold/80 text-white hover:from-bloom-gold hover:to-bloom-gold hover:shadow-md hover:translate-y-[-2px] transition-all duration-300 overflow-hidden group relative"
-              disabled={isProcessing}
+              disabled={isProcessing || !fee || plan.isPending || promo.isPending}
             >
               <span className="absolute inset-0 w-full h-full bg-gradient-to-r from-white/0 via-white/30 to-white/0 -translate-x-full group-hover:translate-x-full transition-all duration-1000 ease-out"></span>
               
@@ -551,12 +821,17 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
                   </svg>
                   Processing...
                 </div>
+              ) : isCovered ? (
+                <span className="flex items-center gap-1.5">
+                  <CheckCircle size={16} />
+                  Complete Application
+                </span>
               ) : (
                 <>
                   {paymentMethod === 'card' && (
                     <span className="flex items-center gap-1.5">
                       <CreditCard size={16} />
-                      Pay ${parseFloat(amount || '0').toFixed(2)}
+                      Pay {fee && formatAmount(amountDueNow)}
                     </span>
                   )}
                   {paymentMethod === 'paypal' && (
@@ -568,7 +843,7 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
                   {paymentMethod === 'bank' && (
                     <span className="flex items-center gap-1.5">
                       <Building size={16} />
-                      Continue to Bank Transfer
+                      I'll Send the Transfer
                     </span>
                   )}
                 </>
@@ -602,6 +877,12 @@ const PaymentForm: React.FC<PaymentFormProps> = ({ onPaymentSuccess, onBack }) =
           </CardFooter>
         </form>
       </Card>
+
+      <PaymentActionDialog
+        intent={payment.intent}
+        isSubmitting={isProcessing}
+        onComplete={handleActionComplete}
+      />
     </div>
   );
 };
@@ -0,0 +1,72 @@
+import React from 'react';
+import { Loader2 } from 'lucide-react';
+import { Label } from "@/components/ui/label";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import InstallmentSchedule from '@/components/InstallmentSchedule';
+import { FeeQuote, formatFeeAmount } from '@/utils/feeSchedule';
+import { buildPaymentSchedule, getAvailablePlans, PaymentSchedule } from '@/utils/installmentPlans';
+
+interface PaymentPlanOptionsProps {
+  fee: FeeQuote;
+  schedule: PaymentSchedule | null; // The plan confirmed by the server, null when paying in full
+  isUpdating: boolean;
+  disabled: boolean;
+  onSelect: (planId: string | null) => void;
+  formatAmount?: (amount: number) => string; // Shows amounts in the currency the payer chose
+}
+
+const FULL_PAYMENT = 'full';
+
+// Pay in full or choose one of the installment plans offered for this fee
+const PaymentPlanOptions: React.FC<PaymentPlanOptionsProps> = ({ fee, schedule, isUpdating, disabled, onSelect, formatAmount }) => {
+  const plans = getAvailablePlans(fee);
+  const format = formatAmount ?? ((amount: number) => formatFeeAmount(amount, fee.currency));
+  if (plans.length === 0) return null;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label className="text-sm font-medium">Payment Plan</Label>
+        {isUpdating && <Loader2 size={14} className="text-bloom-gold animate-spin" />}
+      </div>
+      <RadioGroup
+        value={schedule?.planId ?? FULL_PAYMENT}
+        onValueChange={(value) => onSelect(value === FULL_PAYMENT ? null : value)}
+        disabled={disabled || isUpdating}
+      >
+        <Label
+          htmlFor="plan-full"
+          className="flex items-center gap-3 rounded-md border p-3 cursor-pointer hover:border-bloom-gold/50 has-[[data-state=checked]]:border-bloom-gold"
+        >
+          <RadioGroupItem value={FULL_PAYMENT} id="plan-full" />
+          <span className="flex-1 font-normal">Pay in full</span>
+          <span className="font-medium">{format(fee.total)}</span>
+        </Label>
+        {plans.map(plan => {
+          // Preview only; the schedule that is charged comes from the server
+          const preview = buildPaymentSchedule(plan, fee);
+          const [deposit, ...monthly] = preview.installments;
+          return (
+            <Label
+              key={plan.id}
+              htmlFor={`plan-${plan.id}`}
+              className="flex items-center gap-3 rounded-md border p-3 cursor-pointer hover:border-bloom-gold/50 has-[[data-state=checked]]:border-bloom-gold"
+            >
+              <RadioGroupItem value={plan.id} id={`plan-${plan.id}`} />
+              <span className="flex-1 font-normal">
+                {plan.name}
+                <span className="block text-xs text-bloom-muted">
+                  {format(deposit.amount)} today, then {monthly.length} monthly payments of about {format(monthly[0].amount)}
+                </span>
+              </span>
+            </Label>
+          );
+        })}
+      </RadioGroup>
+
+      {schedule && <InstallmentSchedule schedule={schedule} formatAmount={formatAmount} />}
+    </div>
+  );
+};
+
+export default PaymentPlanOptions;
@@ -0,0 +1,44 @@
+import React from 'react';
+import { FlaskConical } from 'lucide-react';
+import { getPaymentProvider } from '@/api/client';
+import { sandboxTestCards, sandboxTestPayPalEmails } from '@/api/sandboxPaymentProvider';
+import type { PaymentMethodType } from '@/api/types';
+
+interface PaymentSandboxHintProps {
+  method: PaymentMethodType;
+}
+
+const testValues = {
+  card: { values: sandboxTestCards, note: 'Any future expiry date and any CVV. Other valid card numbers succeed.' },
+  paypal: { values: sandboxTestPayPalEmails, note: 'Any other email asks you to approve the payment.' },
+  bank: { values: [], note: 'No transfer arrives by itself. Sign in as staff and record one against the payment reference at /admin/transfers.' },
+};
+
+// Lists the test values that trigger each result while payments go through the sandbox
+const PaymentSandboxHint: React.FC<PaymentSandboxHintProps> = ({ method }) => {
+  if (getPaymentProvider().mode !== 'sandbox') return null;
+
+  const { values, note } = testValues[method];
+
+  return (
+    <div className="rounded-md border border-dashed border-bloom-gold/40 bg-bloom-gold/5 p-3 text-xs text-bloom-muted space-y-2">
+      <p className="flex items-center gap-1 font-medium text-bloom-primary">
+        <FlaskConical size={12} />
+        Sandbox mode: no real payment is taken
+      </p>
+      {values.length > 0 && (
+        <ul className="space-y-1">
+          {values.map(test => (
+            <li key={test.value} className="flex justify-between gap-4">
+              <code className="font-mono">{test.value}</code>
+              <span>{test.description}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      <p>{note}</p>
+    </div>
+  );
+};
+
+export default PaymentSandboxHint;
@@ -0,0 +1,270 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Slider } from "@/components/ui/slider";
+import { Loader2, RotateCcw, RotateCw, ZoomIn, ZoomOut } from 'lucide-react';
+import { canvasToFile, loadImage, photoProcessingConfig } from '@/utils/imageProcessing';
+import { getPhotoDimensionError, photoRequirements, PhotoFramingGuide } from '@/utils/photoRequirements';
+import type { PhotoField } from '@/utils/formUtils';
+
+interface PhotoCropDialogProps {
+  field: PhotoField | null;
+  file: File | null;
+  onCancel: () => void;
+  onConfirm: (file: File) => void;
+}
+
+interface Offset {
+  x: number;
+  y: number;
+}
+
+const FRAME_MAX_WIDTH = 320;
+const FRAME_MAX_HEIGHT = 400;
+const MAX_ZOOM = 3;
+
+const guideDescriptions: Record<PhotoFramingGuide | 'none', string> = {
+  'head-and-shoulders': 'Fit your face inside the oval with your shoulders along the lower guide.',
+  'full-length': 'Fit your whole body between the guides, from the top of your head to your feet.',
+  none: 'Drag the photo to reposition it and use the slider to zoom.',
+};
+
+// On-screen size of the crop frame for the given shape
+const getFrameSize = (aspectRatio: number) => {
+  const width = Math.min(FRAME_MAX_WIDTH, FRAME_MAX_HEIGHT * aspectRatio);
+  return { width, height: width / aspectRatio };
+};
+
+const FramingGuide: React.FC<{ guide: PhotoFramingGuide }> = ({ guide }) => (
+  <svg
+    className="absolute inset-0 w-full h-full pointer-events-none text-white"
+    viewBox="0 0 100 100"
+    preserveAspectRatio="none"
+    aria-hidden="true"
+  >
+    {guide === 'head-and-shoulders' ? (
+      <>
+        <ellipse cx="50" cy="38" rx="20" ry="22" fill="none" stroke="currentColor" strokeWidth="1.5" strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+        <path d="M 8 100 Q 10 74 34 69 L 66 69 Q 90 74 92 100" fill="none" stroke="currentColor" strokeWidth="1.5" strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+      </>
+    ) : (
+      <>
+        <line x1="10" y1="6" x2="90" y2="6" stroke="currentColor" strokeWidth="1.5" strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+        <line x1="10" y1="95" x2="90" y2="95" stroke="currentColor" strokeWidth="1.5" strokeDasharray="4 3" vectorEffect="non-scaling-stroke" />
+        <line x1="50" y1="6" x2="50" y2="95" stroke="currentColor" strokeWidth="1" strokeDasharray="2 4" vectorEffect="non-scaling-stroke" />
+      </>
+    )}
+  </svg>
+);
+
+// Crop, rotate and zoom a photo inside the frame for its slot
+const PhotoCropDialog: React.FC<PhotoCropDialogProps> = ({ field, file, onCancel, onConfirm }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [quarterTurns, setQuarterTurns] = useState(0);
+  const [zoom, setZoom] = useState(1);
+  const [offset, setOffset] = useState<Offset>({ x: 0, y: 0 });
+  const [isSaving, setIsSaving] = useState(false);
+  const [saveError, setSaveError] = useState<string | null>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; start: Offset } | null>(null);
+
+  const rule = field ? photoRequirements[field] : null;
+
+  // Start from a centred, unzoomed crop whenever a new photo comes in
+  useEffect(() => {
+    setImage(null);
+    setQuarterTurns(0);
+    setZoom(1);
+    setOffset({ x: 0, y: 0 });
+    setSaveError(null);
+    if (!file) return;
+
+    let cancelled = false;
+    loadImage(file)
+      .then(loaded => {
+        if (!cancelled) setImage(loaded);
+      })
+      .catch(error => {
+        if (!cancelled) setSaveError(error.message);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [file]);
+
+  // Size of the photo once rotated
+  const sideways = quarterTurns % 2 === 1;
+  const imageWidth = image ? (sideways ? image.naturalHeight : image.naturalWidth) : 1;
+  const imageHeight = image ? (sideways ? image.naturalWidth : image.naturalHeight) : 1;
+
+  const frame = getFrameSize(rule?.framing?.aspectRatio ?? imageWidth / imageHeight);
+  // Screen pixels per photo pixel; at zoom 1 the photo just covers the frame
+  const scale = Math.max(frame.width / imageWidth, frame.height / imageHeight) * zoom;
+
+  // Keep the photo covering the whole frame
+  const maxOffsetX = (imageWidth * scale - frame.width) / 2;
+  const maxOffsetY = (imageHeight * scale - frame.height) / 2;
+  const position: Offset = {
+    x: Math.max(-maxOffsetX, Math.min(maxOffsetX, offset.x)),
+    y: Math.max(-maxOffsetY, Math.min(maxOffsetY, offset.y)),
+  };
+
+  // Size of the cropped photo, limited to the same maximum as every processed photo
+  const cropWidth = frame.width / scale;
+  const cropHeight = frame.height / scale;
+  const outputScale = Math.min(1, photoProcessingConfig.maxEdge / Math.max(cropWidth, cropHeight));
+  const outputWidth = Math.round(cropWidth * outputScale);
+  const outputHeight = Math.round(cropHeight * outputScale);
+  const dimensionError = field && image ? getPhotoDimensionError(field, outputWidth, outputHeight) : null;
+
+  // Draw the framed part of the photo onto a canvas of the given width
+  const drawCrop = (canvas: HTMLCanvasElement, width: number, height: number) => {
+    const context = canvas.getContext('2d');
+    if (!context || !image) return;
+
+    const ratio = width / frame.width;
+    canvas.width = width;
+    canvas.height = height;
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, width, height);
+    context.translate(width / 2 + position.x * ratio, height / 2 + position.y * ratio);
+    context.rotate((quarterTurns * Math.PI) / 2);
+    context.scale(scale * ratio, scale * ratio);
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(image, -image.naturalWidth / 2, -image.naturalHeight / 2);
+  };
+
+  useEffect(() => {
+    if (!canvasRef.current) return;
+    const pixelRatio = window.devicePixelRatio || 1;
+    drawCrop(canvasRef.current, Math.round(frame.width * pixelRatio), Math.round(frame.height * pixelRatio));
+  });
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    event.currentTarget.setPointerCapture(event.pointerId);
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, start: position };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLCanvasElement>) => {
+    const drag = dragRef.current;
+    if (!drag) return;
+    setOffset({
+      x: drag.start.x + event.clientX - drag.pointerX,
+      y: drag.start.y + event.clientY - drag.pointerY,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const rotate = (turns: number) => {
+    setQuarterTurns(prev => (prev + turns + 4) % 4);
+    setOffset({ x: 0, y: 0 });
+  };
+
+  const handleConfirm = async () => {
+    if (!file || !image) return;
+
+    setIsSaving(true);
+    setSaveError(null);
+    try {
+      const canvas = document.createElement('canvas');
+      drawCrop(canvas, outputWidth, outputHeight);
+      onConfirm(await canvasToFile(canvas, file.name));
+    } catch (error) {
+      setSaveError(error instanceof Error ? error.message : 'This image could not be cropped');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const guide = rule?.framing?.guide;
+
+  return (
+    <Dialog open={!!file && !!field} onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Crop {rule?.label.toLowerCase()}</DialogTitle>
+          <DialogDescription>{guideDescriptions[guide ?? 'none']}</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex justify-center">
+          <div
+            className="relative overflow-hidden rounded-md bg-gray-100"
+            style={{ width: frame.width, height: frame.height }}
+          >
+            {image ? (
+              <>
+                <canvas
+                  ref={canvasRef}
+                  className="w-full h-full cursor-move touch-none"
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  onPointerCancel={handlePointerUp}
+                />
+                {guide && <FramingGuide guide={guide} />}
+              </>
+            ) : (
+              !saveError && (
+                <div className="flex items-center justify-center h-full text-bloom-muted">
+                  <Loader2 size={20} className="animate-spin" />
+                </div>
+              )
+            )}
+          </div>
+        </div>
+
+        <div className="flex items-center gap-3">
+          <ZoomOut size={16} className="text-bloom-muted shrink-0" />
+          <Slider
+            value={[zoom]}
+            min={1}
+            max={MAX_ZOOM}
+            step={0.01}
+            onValueChange={([value]) => setZoom(value)}
+            aria-label="Zoom"
+          />
+          <ZoomIn size={16} className="text-bloom-muted shrink-0" />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div className="flex gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => rotate(-1)} aria-label="Rotate left">
+              <RotateCcw size={14} />
+            </Button>
+            <Button type="button" variant="outline" size="sm" onClick={() => rotate(1)} aria-label="Rotate right">
+              <RotateCw size={14} />
+            </Button>
+          </div>
+          {image && (
+            <span className="text-xs text-bloom-muted">{outputWidth} × {outputHeight} px</span>
+          )}
+        </div>
+
+        {(dimensionError || saveError) && (
+          <p className="text-xs text-destructive">{saveError ?? dimensionError}</p>
+        )}
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={onCancel}>
+            Cancel
+          </Button>
+          <Button
+            type="button"
+            onClick={handleConfirm}
+            disabled={!image || !!dimensionError || isSaving}
+            className="bg-bloom-primary hover:bg-bloom-primary/90"
+          >
+            {isSaving && <Loader2 size={14} className="mr-2 animate-spin" />}
+            Use photo
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PhotoCropDialog;
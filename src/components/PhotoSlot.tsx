@@ -0,0 +1,140 @@
+import React, { useRef, useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { GripVertical, RefreshCw, Upload, X } from 'lucide-react';
+import PhotoUploadStatus from '@/components/PhotoUploadStatus';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import type { PhotoUploadState } from '@/hooks/use-photo-uploads';
+import { describePhotoRequirements, photoRequirements, PHOTO_INPUT_ACCEPT } from '@/utils/photoRequirements';
+import { getPhotoDragData, isFileDrag, isPhotoDrag, PhotoDragSource, setPhotoDragData } from '@/utils/photoDrag';
+import type { PhotoField } from '@/utils/formUtils';
+
+interface PhotoSlotProps {
+  field: PhotoField;
+  file: File | null;
+  upload?: PhotoUploadState;
+  error?: string;
+  onSelectFiles: (files: File[]) => void;
+  onDropPhoto: (source: PhotoDragSource) => void;
+  onRemove: () => void;
+  onCancelUpload: () => void;
+  onRetryUpload: () => void;
+}
+
+// One photo slot of the application: pick or drop a file, or drag a thumbnail in
+// from the tray or another slot
+const PhotoSlot: React.FC<PhotoSlotProps> = ({
+  field,
+  file,
+  upload,
+  error,
+  onSelectFiles,
+  onDropPhoto,
+  onRemove,
+  onCancelUpload,
+  onRetryUpload,
+}) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const previewUrl = useObjectUrl(file);
+  const rule = photoRequirements[field];
+  const label = `${rule.label}${rule.required ? '*' : ''}`;
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isPhotoDrag(event)) return;
+    event.preventDefault();
+    event.stopPropagation();
+    event.dataTransfer.dropEffect = isFileDrag(event) ? 'copy' : 'move';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    setIsDragOver(false);
+
+    if (event.dataTransfer.files.length > 0) {
+      onSelectFiles(Array.from(event.dataTransfer.files));
+      return;
+    }
+    const source = getPhotoDragData(event);
+    if (source && !(source.kind === 'slot' && source.field === field)) {
+      onDropPhoto(source);
+    }
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    // Clear the input so choosing the same file again still counts as a change
+    event.target.value = '';
+    if (files.length > 0) onSelectFiles(files);
+  };
+
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={field} className={`${error ? 'text-destructive' : ''}`}>
+        {label}
+      </Label>
+      <div
+        className={`flex items-center justify-center border border-dashed rounded-md h-32 relative transition-colors ${isDragOver ? 'border-bloom-gold bg-bloom-gold/10' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragOver(false)}
+        onDrop={handleDrop}
+      >
+        <Input
+          ref={inputRef}
+          id={field}
+          type="file"
+          accept={PHOTO_INPUT_ACCEPT}
+          multiple
+          className={file ? 'sr-only' : 'absolute inset-0 w-full h-full opacity-0 cursor-pointer'}
+          onChange={handleInputChange}
+        />
+        {file && previewUrl ? (
+          <div
+            draggable
+            onDragStart={(e) => setPhotoDragData(e, { kind: 'slot', field })}
+            className="flex items-center gap-3 w-full h-full p-2 cursor-grab active:cursor-grabbing"
+          >
+            <GripVertical size={16} className="text-gray-400 shrink-0" />
+            <img src={previewUrl} alt={rule.label} className="h-full aspect-[4/5] object-cover rounded" />
+            <div className="flex-1 min-w-0 text-xs text-bloom-muted">
+              <p className="truncate text-sm text-gray-700">{file.name}</p>
+              <p>Drag onto another slot to swap</p>
+            </div>
+            <div className="flex flex-col gap-1 shrink-0">
+              <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={() => inputRef.current?.click()}>
+                <RefreshCw size={12} className="mr-1" />
+                Replace
+              </Button>
+              <Button type="button" variant="ghost" size="sm" className="h-7 px-2" onClick={onRemove}>
+                <X size={12} className="mr-1" />
+                Remove
+              </Button>
+            </div>
+          </div>
+        ) : (
+          <div className="text-center pointer-events-none">
+            <Upload className="mx-auto h-10 w-10 text-gray-400" />
+            <p className="text-sm text-gray-600">Click to upload or drag and drop</p>
+            <p className="text-xs text-gray-500">{describePhotoRequirements(field)}</p>
+          </div>
+        )}
+      </div>
+      {(file || upload) && (
+        <PhotoUploadStatus
+          file={file}
+          upload={upload}
+          onCancel={onCancelUpload}
+          onRetry={onRetryUpload}
+        />
+      )}
+      {error && (
+        <p className="text-xs text-destructive">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default PhotoSlot;
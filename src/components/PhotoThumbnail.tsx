@@ -0,0 +1,31 @@
+import React from 'react';
+import { ImageIcon } from 'lucide-react';
+import { useObjectUrl } from '@/hooks/use-object-url';
+
+interface PhotoThumbnailProps {
+  file: File | null;
+  label: string;
+  className?: string;
+}
+
+// Small preview of a chosen photo, or a placeholder when the slot is empty
+const PhotoThumbnail: React.FC<PhotoThumbnailProps> = ({ file, label, className = '' }) => {
+  const url = useObjectUrl(file);
+
+  return (
+    <figure className={`space-y-1 ${className}`}>
+      <div className="aspect-[4/5] rounded-md border bg-gray-50 overflow-hidden flex items-center justify-center">
+        {url ? (
+          <img src={url} alt={label} className="w-full h-full object-cover" />
+        ) : (
+          <ImageIcon className="h-8 w-8 text-gray-300" aria-hidden="true" />
+        )}
+      </div>
+      <figcaption className="text-xs text-bloom-muted">
+        {label}{!file && ' — not provided'}
+      </figcaption>
+    </figure>
+  );
+};
+
+export default PhotoThumbnail;
@@ -0,0 +1,124 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu";
+import { Images, X } from 'lucide-react';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { photoFields, PhotoField } from '@/utils/formUtils';
+import { photoRequirements, PHOTO_INPUT_ACCEPT } from '@/utils/photoRequirements';
+import { isFileDrag, setPhotoDragData } from '@/utils/photoDrag';
+
+interface PhotoTrayProps {
+  photos: File[];
+  onAddPhotos: (files: File[]) => void;
+  onRemovePhoto: (index: number) => void;
+  onAssignPhoto: (index: number, field: PhotoField) => void;
+}
+
+interface TrayPhotoProps {
+  file: File;
+  index: number;
+  onRemove: () => void;
+  onAssign: (field: PhotoField) => void;
+}
+
+const TrayPhoto: React.FC<TrayPhotoProps> = ({ file, index, onRemove, onAssign }) => {
+  const url = useObjectUrl(file);
+
+  return (
+    <div
+      draggable
+      onDragStart={(e) => setPhotoDragData(e, { kind: 'tray', index })}
+      className="relative w-24 space-y-1 cursor-grab active:cursor-grabbing"
+    >
+      <div className="aspect-[4/5] rounded-md border bg-gray-50 overflow-hidden">
+        {url && <img src={url} alt={file.name} className="w-full h-full object-cover" />}
+      </div>
+      <button
+        type="button"
+        onClick={onRemove}
+        className="absolute top-1 right-1 rounded-full bg-white/90 p-0.5 text-gray-600 hover:text-destructive"
+        aria-label={`Remove ${file.name}`}
+      >
+        <X size={12} />
+      </button>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button type="button" variant="outline" size="sm" className="h-6 w-full px-1 text-xs">
+            Assign to...
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent>
+          {photoFields.map(field => (
+            <DropdownMenuItem key={field} onSelect={() => onAssign(field)}>
+              {photoRequirements[field].label}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+    </div>
+  );
+};
+
+// Drop zone for several photos at once. Dropped photos wait here until they are
+// dragged (or assigned) to a slot.
+const PhotoTray: React.FC<PhotoTrayProps> = ({ photos, onAddPhotos, onRemovePhoto, onAssignPhoto }) => {
+  const [isDragOver, setIsDragOver] = useState(false);
+
+  const handleDragOver = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    event.dataTransfer.dropEffect = 'copy';
+    setIsDragOver(true);
+  };
+
+  const handleDrop = (event: React.DragEvent) => {
+    if (!isFileDrag(event)) return;
+    event.preventDefault();
+    setIsDragOver(false);
+    onAddPhotos(Array.from(event.dataTransfer.files));
+  };
+
+  const handleInputChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(event.target.files ?? []);
+    event.target.value = '';
+    if (files.length > 0) onAddPhotos(files);
+  };
+
+  return (
+    <div
+      className={`rounded-md border border-dashed p-4 transition-colors ${isDragOver ? 'border-bloom-gold bg-bloom-gold/10' : 'bg-bloom-accent/20'}`}
+      onDragOver={handleDragOver}
+      onDragLeave={() => setIsDragOver(false)}
+      onDrop={handleDrop}
+    >
+      <div className="flex items-center gap-3">
+        <Images className="h-8 w-8 text-gray-400 shrink-0" />
+        <div className="flex-1 text-sm">
+          <p className="text-gray-700">Drop all your photos here at once</p>
+          <p className="text-xs text-bloom-muted">Then drag each one onto the slot it belongs to.</p>
+        </div>
+        <Button type="button" variant="outline" size="sm" asChild>
+          <label className="cursor-pointer">
+            Choose photos
+            <input type="file" accept={PHOTO_INPUT_ACCEPT} multiple className="sr-only" onChange={handleInputChange} />
+          </label>
+        </Button>
+      </div>
+      {photos.length > 0 && (
+        <div className="mt-4 flex flex-wrap gap-3">
+          {photos.map((file, index) => (
+            <TrayPhoto
+              key={`${file.name}-${file.lastModified}-${index}`}
+              file={file}
+              index={index}
+              onRemove={() => onRemovePhoto(index)}
+              onAssign={(field) => onAssignPhoto(index, field)}
+            />
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PhotoTray;
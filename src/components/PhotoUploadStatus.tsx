@@ -0,0 +1,84 @@
+import React from 'react';
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { CheckCircle, AlertCircle, Loader2, RotateCcw, X } from 'lucide-react';
+import type { PhotoUploadState } from '@/hooks/use-photo-uploads';
+
+interface PhotoUploadStatusProps {
+  file?: File | null;
+  upload?: PhotoUploadState;
+  onCancel: () => void;
+  onRetry: () => void;
+}
+
+const formatFileSize = (bytes: number): string => {
+  if (bytes < 1024 * 1024) return `${Math.max(1, Math.round(bytes / 1024))} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+// Processing and upload progress for one photo slot, with cancel and retry
+const PhotoUploadStatus: React.FC<PhotoUploadStatusProps> = ({ file, upload, onCancel, onRetry }) => {
+  if (!file) {
+    // The chosen photo is still being processed, or could not be processed at all
+    const fileName = upload?.fileName ?? 'photo';
+    if (upload?.status === 'error') {
+      return (
+        <p className="text-xs text-destructive flex items-center gap-1">
+          <AlertCircle size={12} className="shrink-0" />
+          {fileName}: {upload.error}
+        </p>
+      );
+    }
+    return (
+      <p className="text-xs text-bloom-muted flex items-center gap-1">
+        <Loader2 size={12} className="shrink-0 animate-spin" />
+        Preparing {fileName}...
+      </p>
+    );
+  }
+
+  const label = `${file.name} (${formatFileSize(file.size)})`;
+
+  if (!upload || upload.status === 'uploading' || upload.status === 'processing') {
+    const progress = upload?.progress ?? 0;
+    return (
+      <div className="space-y-1 animate-fade-in">
+        <div className="flex items-center justify-between text-xs text-bloom-muted">
+          <span className="truncate">Uploading {label}</span>
+          <div className="flex items-center gap-2 shrink-0">
+            <span>{progress}%</span>
+            <Button type="button" variant="ghost" size="sm" className="h-6 px-2" onClick={onCancel}>
+              <X size={12} className="mr-1" />
+              Cancel
+            </Button>
+          </div>
+        </div>
+        <Progress value={progress} className="h-1.5 [&>div]:bg-bloom-gold" />
+      </div>
+    );
+  }
+
+  if (upload.status === 'done') {
+    return (
+      <p className="text-xs text-green-600 flex items-center gap-1">
+        <CheckCircle size={12} />
+        {label} uploaded
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex items-center justify-between text-xs">
+      <span className={`flex items-center gap-1 truncate ${upload.status === 'error' ? 'text-destructive' : 'text-bloom-muted'}`}>
+        <AlertCircle size={12} className="shrink-0" />
+        {upload.status === 'error' ? `Upload of ${file.name} failed: ${upload.error}` : `Upload of ${file.name} cancelled`}
+      </span>
+      <Button type="button" variant="ghost" size="sm" className="h-6 px-2 shrink-0" onClick={onRetry}>
+        <RotateCcw size={12} className="mr-1" />
+        Retry
+      </Button>
+    </div>
+  );
+};
+
+export default PhotoUploadStatus;
@@ -0,0 +1,122 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { CalendarClock, CircleAlert, Landmark, MessageSquare, PencilLine, ReceiptText } from 'lucide-react';
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import InstallmentSchedule from '@/components/InstallmentSchedule';
+import StaffMessages from '@/components/StaffMessages';
+import StatusTimeline from '@/components/StatusTimeline';
+import { paymentStatusLabels } from '@/utils/applicationList';
+import { applicationStatusDescriptions, applicationStatusLabels } from '@/utils/applicationStatus';
+import { applicationTypeLabels, formatFeeAmount, formatFeeDate } from '@/utils/feeSchedule';
+import type { ApplicantActionKind, PortalApplication } from '@/api/types';
+
+interface PortalApplicationCardProps {
+  application: PortalApplication;
+}
+
+const actionIcons: Record<ApplicantActionKind, React.ReactNode> = {
+  pay_fee: <CircleAlert size={16} className="text-amber-700" />,
+  send_transfer: <Landmark size={16} className="text-amber-700" />,
+  pay_installment: <CalendarClock size={16} className="text-bloom-gold" />,
+  make_changes: <PencilLine size={16} className="text-amber-700" />,
+};
+
+// One application in the status portal: where it stands, anything the applicant
+// needs to do, what is left to pay and what the team has said
+const PortalApplicationCard: React.FC<PortalApplicationCardProps> = ({ application }) => {
+  const format = (amount: number) => formatFeeAmount(amount, application.fee.currency);
+
+  return (
+    <Card className="w-full shadow-lg border-0 neo-shadow overflow-hidden">
+      <CardHeader className="space-y-2">
+        <div className="flex flex-wrap items-start justify-between gap-2">
+          <div>
+            <CardTitle className="text-lg font-medium">{applicationTypeLabels[application.type]} application</CardTitle>
+            <CardDescription>
+              <span className="font-mono">{application.applicationId}</span> · {application.name}
+            </CardDescription>
+          </div>
+          <Badge variant="outline">{applicationStatusLabels[application.status]}</Badge>
+        </div>
+        <p className="text-sm text-bloom-muted">{applicationStatusDescriptions[application.status]}</p>
+      </CardHeader>
+
+      <CardContent className="space-y-6">
+        {application.actions.length > 0 && (
+          <section className="space-y-2">
+            <h3 className="text-sm font-medium text-bloom-primary">What you need to do</h3>
+            <ul className="space-y-2">
+              {application.actions.map((action, index) => (
+                <li key={`${action.kind}-${index}`} className="rounded-md border border-bloom-gold/40 bg-bloom-gold/5 p-3 space-y-2">
+                  <p className="flex items-center gap-2 text-sm font-medium text-bloom-primary">
+                    {actionIcons[action.kind]}
+                    {action.title}
+                  </p>
+                  <p className="text-sm text-bloom-muted">
+                    {action.description}
+                    {action.dueDate && ` Due ${formatFeeDate(action.dueDate)}.`}
+                  </p>
+                  {action.link && (
+                    <Button asChild size="sm" className="bg-bloom-primary hover:bg-bloom-primary/90">
+                      <Link to={action.link}>{action.title}</Link>
+                    </Button>
+                  )}
+                </li>
+              ))}
+            </ul>
+          </section>
+        )}
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium text-bloom-primary">Payment</h3>
+          <div className="rounded-md border border-bloom-gold/20 bg-bloom-accent/30 p-3 text-sm space-y-2">
+            <div className="flex justify-between">
+              <span>Status</span>
+              <span className="font-medium text-bloom-primary">{paymentStatusLabels[application.paymentStatus]}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Application fee</span>
+              <span>{format(application.fee.total)}</span>
+            </div>
+            <div className="flex justify-between">
+              <span>Paid so far</span>
+              <span>{format(application.amountPaid)}</span>
+            </div>
+            <Separator />
+            <div className="flex justify-between font-medium text-bloom-primary">
+              <span>Outstanding balance</span>
+              <span>{format(application.balance)}</span>
+            </div>
+          </div>
+          {application.paymentSchedule && <InstallmentSchedule schedule={application.paymentSchedule} />}
+          {application.amountPaid > 0 && (
+            <Button asChild variant="outline" size="sm">
+              <Link to={`/receipts/${encodeURIComponent(application.applicationId)}`}>
+                <ReceiptText size={16} className="mr-2" />
+                View receipts
+              </Link>
+            </Button>
+          )}
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="flex items-center gap-2 text-sm font-medium text-bloom-primary">
+            <MessageSquare size={16} className="text-bloom-gold" />
+            Messages from the team
+          </h3>
+          <StaffMessages messages={application.messages} emptyText="The team hasn't sent you any messages." />
+        </section>
+
+        <section className="space-y-2">
+          <h3 className="text-sm font-medium text-bloom-primary">History</h3>
+          <StatusTimeline history={application.statusHistory} />
+        </section>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PortalApplicationCard;
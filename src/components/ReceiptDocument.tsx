@@ -0,0 +1,115 @@
+import React from 'react';
+import { Separator } from "@/components/ui/separator";
+import { formatMoney } from '@/utils/currencies';
+import { applicationTypeNames, describeReceiptExchangeRate, formatReceiptTimestamp } from '@/utils/receipts';
+import type { PaymentReceipt } from '@/api/types';
+
+interface ReceiptDocumentProps {
+  receipt: PaymentReceipt;
+}
+
+// A receipt laid out as a printable page; the PDF download follows the same layout
+const ReceiptDocument: React.FC<ReceiptDocumentProps> = ({ receipt }) => {
+  const exchangeRate = describeReceiptExchangeRate(receipt);
+  const format = (amount: number) => formatMoney(amount, receipt.currency);
+
+  const details: [string, string][] = [
+    ['Receipt number', receipt.receiptNumber],
+    ['Date paid', formatReceiptTimestamp(receipt.issuedAt)],
+    ['Transaction reference', receipt.transactionReference],
+    ['Application ID', receipt.applicationId],
+    ['Payment method', receipt.method],
+  ];
+
+  return (
+    <article className="bg-white rounded-lg neo-shadow p-8 text-sm text-bloom-primary space-y-8 print:shadow-none print:p-0">
+      <header className="flex items-start justify-between">
+        <div>
+          <h2 className="text-2xl font-light">Miss Bloom <span className="font-medium">Global</span></h2>
+          <div className="text-xs text-bloom-muted mt-1">
+            {[receipt.issuer.name, ...receipt.issuer.address, receipt.issuer.taxId].filter(Boolean).map(line => (
+              <p key={line}>{line}</p>
+            ))}
+          </div>
+        </div>
+        <p className="text-2xl font-medium tracking-widest text-bloom-gold">RECEIPT</p>
+      </header>
+
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-6">
+        <dl className="grid grid-cols-[auto_1fr] gap-x-4 gap-y-1 text-xs">
+          {details.map(([label, value]) => (
+            <React.Fragment key={label}>
+              <dt className="text-bloom-muted">{label}</dt>
+              <dd className="font-medium break-all">{value}</dd>
+            </React.Fragment>
+          ))}
+        </dl>
+        <div className="space-y-3">
+          <div>
+            <p className="text-xs text-bloom-muted">Paid by</p>
+            <p className="font-medium">{receipt.payer}</p>
+          </div>
+          <div>
+            <p className="text-xs text-bloom-muted">On behalf of</p>
+            <p>{receipt.applicant.name}</p>
+            <p className="text-xs text-bloom-muted">{receipt.applicant.email}</p>
+          </div>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <h3 className="font-medium">{applicationTypeNames[receipt.applicationType]} – {receipt.seasonName}</h3>
+        <div className="flex justify-between text-xs font-medium text-bloom-muted">
+          <span>Description</span>
+          <span>Amount</span>
+        </div>
+        <Separator />
+        {receipt.lineItems.map((item, index) => (
+          <div key={index} className="flex justify-between gap-4">
+            <span>{item.label}</span>
+            <span>{format(item.amount)}</span>
+          </div>
+        ))}
+        <Separator />
+        <div className="flex justify-between">
+          <span>Subtotal</span>
+          <span>{format(receipt.subtotal)}</span>
+        </div>
+        {receipt.discounts < 0 && (
+          <div className="flex justify-between">
+            <span>Discounts</span>
+            <span>{format(receipt.discounts)}</span>
+          </div>
+        )}
+        <div className="flex justify-between text-bloom-muted">
+          <span>{receipt.tax.label} ({receipt.tax.rate}%, included)</span>
+          <span>{format(receipt.tax.amount)}</span>
+        </div>
+        <Separator className="bg-bloom-primary" />
+        <div className="flex justify-between font-medium text-base">
+          <span>Total paid</span>
+          <span>{format(receipt.total)}</span>
+        </div>
+        {exchangeRate && (
+          <div className="flex justify-between gap-4 text-bloom-muted">
+            <span>Charged in {receipt.charge.currency} ({exchangeRate})</span>
+            <span>{formatMoney(receipt.charge.amount, receipt.charge.currency)}</span>
+          </div>
+        )}
+        {receipt.refundedAmount > 0 && (
+          <div className="flex justify-between text-bloom-muted">
+            <span>Refunded</span>
+            <span>{format(-receipt.refundedAmount)}</span>
+          </div>
+        )}
+      </div>
+
+      <footer className="text-xs text-bloom-muted space-y-1">
+        <p className="text-sm text-bloom-primary">Thank you for your payment.</p>
+        <p>Please quote your application ID if you contact us about this payment.</p>
+      </footer>
+    </article>
+  );
+};
+
+export default ReceiptDocument;
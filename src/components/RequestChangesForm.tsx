@@ -0,0 +1,148 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2, Plus, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useRequestChanges } from '@/hooks/use-staff-applications';
+import { describeChangeRequestItem, getApplicationForm, lockedFields } from '@/utils/changeRequests';
+import { getSection } from '@/utils/formDefinition';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { ChangeRequestItem } from '@/api/types';
+
+interface RequestChangesFormProps {
+  applicationId: string;
+  type: ApplicationType;
+  hasOpenRequest: boolean;
+}
+
+// Select has no empty value, so this stands in for asking about the whole section
+const WHOLE_SECTION = 'section';
+
+// Lets staff list the sections and fields that need changing, with a note for
+// each, and send them to the applicant as one request
+const RequestChangesForm: React.FC<RequestChangesFormProps> = ({ applicationId, type, hasOpenRequest }) => {
+  const definition = getApplicationForm(type);
+  const [items, setItems] = useState<ChangeRequestItem[]>([]);
+  const [sectionId, setSectionId] = useState('');
+  const [field, setField] = useState(WHOLE_SECTION);
+  const [note, setNote] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const requestChanges = useRequestChanges();
+
+  const sections = definition.sections.filter(section => section.kind !== 'review');
+  const fields = getSection(definition, sectionId)?.fields.filter(candidate => !lockedFields.includes(candidate.name)) ?? [];
+
+  const addItem = () => {
+    if (!sectionId) {
+      setError('Please choose a section');
+      return;
+    }
+    if (!note.trim()) {
+      setError('Please say what needs changing');
+      return;
+    }
+    setItems(prev => [...prev, { sectionId, field: field === WHOLE_SECTION ? null : field, note: note.trim() }]);
+    setField(WHOLE_SECTION);
+    setNote('');
+    setError(null);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (items.length === 0) {
+      setError('Please add what needs changing');
+      return;
+    }
+    requestChanges.mutate({ applicationId, items }, {
+      onSuccess: () => {
+        setItems([]);
+        toast.success('Changes requested');
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      {items.length > 0 && (
+        <ul className="space-y-2">
+          {items.map((item, index) => (
+            <li key={index} className="flex items-start justify-between gap-2 rounded-md border border-bloom-accent p-2 text-sm">
+              <div>
+                <p className="font-medium text-bloom-primary">{describeChangeRequestItem(definition, item)}</p>
+                <p className="text-bloom-muted whitespace-pre-line">{item.note}</p>
+              </div>
+              <button
+                type="button"
+                onClick={() => setItems(prev => prev.filter((_, i) => i !== index))}
+                className="text-bloom-muted hover:text-destructive transition-colors"
+                aria-label="Remove"
+              >
+                <X size={14} />
+              </button>
+            </li>
+          ))}
+        </ul>
+      )}
+      <div className="space-y-1">
+        <Label htmlFor="change-section">Section</Label>
+        <Select value={sectionId} onValueChange={(value) => { setSectionId(value); setField(WHOLE_SECTION); }}>
+          <SelectTrigger id="change-section">
+            <SelectValue placeholder="Choose a section" />
+          </SelectTrigger>
+          <SelectContent>
+            {sections.map(section => (
+              <SelectItem key={section.id} value={section.id}>{section.title}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="change-field">Field</Label>
+        <Select value={field} onValueChange={setField} disabled={!sectionId}>
+          <SelectTrigger id="change-field">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value={WHOLE_SECTION}>The whole section</SelectItem>
+            {fields.map(candidate => (
+              <SelectItem key={candidate.name} value={candidate.name}>{candidate.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="change-note">Note for the applicant</Label>
+        <Textarea
+          id="change-note"
+          rows={3}
+          placeholder="What needs changing and why"
+          value={note}
+          onChange={(e) => setNote(e.target.value)}
+        />
+      </div>
+      {error && (
+        <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+          <AlertCircle size={12} />
+          {error}
+        </p>
+      )}
+      <Button type="button" variant="outline" onClick={addItem} className="w-full">
+        <Plus size={16} className="mr-2" />
+        Add to request
+      </Button>
+      <Button type="submit" disabled={requestChanges.isPending || items.length === 0} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+        {requestChanges.isPending && <Loader2 size={16} className="mr-2 animate-spin" />}
+        {hasOpenRequest ? 'Replace the open request' : 'Request changes'}
+      </Button>
+      <p className="text-xs text-bloom-muted">
+        The applicant is emailed to sign in and change just these answers. Their email address and country can't be changed.
+      </p>
+    </form>
+  );
+};
+
+export default RequestChangesForm;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { ArrowRight } from 'lucide-react';
+import StaffPhoto from '@/components/StaffPhoto';
+import { formatAnswer, getApplicationForm, getFieldLabel } from '@/utils/changeRequests';
+import { formatStatusTime } from '@/utils/applicationStatus';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { AnswerChange, ApplicationRevision } from '@/api/types';
+
+interface RevisionHistoryProps {
+  type: ApplicationType;
+  revisions: ApplicationRevision[];
+}
+
+// Every time the answers were submitted, newest first, with what changed from the
+// revision before: old and new side by side, or both photos for a replaced photo
+const RevisionHistory: React.FC<RevisionHistoryProps> = ({ type, revisions }) => {
+  const definition = getApplicationForm(type);
+  const fields = definition.sections.flatMap(section => section.fields);
+
+  if (revisions.length <= 1) {
+    return <p className="text-sm text-bloom-muted">The answers have not been changed since they were submitted.</p>;
+  }
+
+  const renderChange = (change: AnswerChange) => {
+    const field = fields.find(candidate => candidate.name === change.field) ?? { type: 'text' as const };
+    const label = getFieldLabel(definition, change.field);
+    if (field.type === 'photo') {
+      return (
+        <div className="flex items-center gap-3">
+          <StaffPhoto uploadId={typeof change.before === 'string' ? change.before : null} label="Before" className="w-28" />
+          <ArrowRight size={16} className="text-bloom-muted shrink-0" />
+          <StaffPhoto uploadId={typeof change.after === 'string' ? change.after : null} label="After" className="w-28" />
+        </div>
+      );
+    }
+    return (
+      <div className="grid grid-cols-1 md:grid-cols-[1fr_auto_1fr] gap-2 items-start text-sm">
+        <p className="rounded bg-red-50 px-2 py-1 line-through decoration-red-300 whitespace-pre-line break-words" aria-label={`${label} before`}>
+          {formatAnswer(field, change.before)}
+        </p>
+        <ArrowRight size={16} className="hidden md:block text-bloom-muted mt-1" />
+        <p className="rounded bg-green-50 px-2 py-1 whitespace-pre-line break-words" aria-label={`${label} after`}>
+          {formatAnswer(field, change.after)}
+        </p>
+      </div>
+    );
+  };
+
+  return (
+    <ol className="space-y-6">
+      {[...revisions].reverse().map(revision => (
+        <li key={revision.revision} className="space-y-3 border-b pb-6 last:border-b-0 last:pb-0">
+          <p className="text-sm">
+            <span className="font-medium text-bloom-primary">Revision {revision.revision}</span>
+            <span className="text-bloom-muted"> · <time dateTime={revision.submittedAt}>{formatStatusTime(revision.submittedAt)}</time></span>
+          </p>
+          {revision.revision === 1 ? (
+            <p className="text-sm text-bloom-muted">The answers as first submitted.</p>
+          ) : revision.changes.length === 0 ? (
+            <p className="text-sm text-bloom-muted">The applicant sent the answers back unchanged.</p>
+          ) : (
+            <dl className="space-y-3">
+              {revision.changes.map(change => (
+                <div key={change.field} className="space-y-1">
+                  <dt className="text-xs text-bloom-muted">{getFieldLabel(definition, change.field)}</dt>
+                  <dd>{renderChange(change)}</dd>
+                </div>
+              ))}
+            </dl>
+          )}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default RevisionHistory;
@@ -0,0 +1,89 @@
+import React from 'react';
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Checkbox } from "@/components/ui/checkbox";
+import type { FieldDefinition } from '@/utils/formDefinition';
+import { countWords } from '@/utils/formUtils';
+
+interface SchemaFieldProps<V> {
+  field: FieldDefinition<V>;
+  values: V;
+  error?: string;
+  onChange: (value: unknown) => void;
+}
+
+const inputClassName = (error?: string) =>
+  `transition-all focus-visible:border-bloom-gold focus-visible:ring-1 focus-visible:ring-bloom-gold/20 ${error ? 'border-destructive' : ''}`;
+
+// One input of a form definition, with its label, help text and error
+const SchemaField = <V,>({ field, values, error, onChange }: SchemaFieldProps<V>) => {
+  const value = values[field.name];
+  const label = `${field.label}${field.required ? '*' : ''}`;
+  const help = typeof field.help === 'function' ? field.help(values) : field.help;
+
+  if (field.type === 'checkbox') {
+    return (
+      <div className="space-y-2">
+        <div className="flex items-start space-x-2">
+          <Checkbox
+            id={field.name}
+            checked={value === true}
+            onCheckedChange={(checked) => onChange(checked === true)}
+            className={error ? 'border-destructive' : ''}
+          />
+          <label htmlFor={field.name} className="text-sm leading-tight">
+            {label}
+          </label>
+        </div>
+        {error && (
+          <p className="text-xs text-destructive pl-6">{error}</p>
+        )}
+      </div>
+    );
+  }
+
+  const text = typeof value === 'string' ? value : '';
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <Label htmlFor={field.name} className={`${error ? 'text-destructive' : ''}`}>
+          {label}
+        </Label>
+        {field.maxWords && (
+          <span className="text-xs text-bloom-muted">
+            {countWords(text)}/{field.maxWords} words
+          </span>
+        )}
+      </div>
+      {field.type === 'textarea' ? (
+        <Textarea
+          id={field.name}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          rows={field.rows ?? 4}
+          placeholder={field.placeholder}
+          className={inputClassName(error)}
+        />
+      ) : (
+        <Input
+          id={field.name}
+          type={field.type}
+          value={text}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={field.placeholder}
+          className={inputClassName(error)}
+        />
+      )}
+      {help && (
+        <p className="text-xs text-bloom-muted">{help}</p>
+      )}
+      {error && (
+        <p className="text-xs text-destructive">{error}</p>
+      )}
+    </div>
+  );
+};
+
+export default SchemaField;
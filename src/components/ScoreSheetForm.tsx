@@ -0,0 +1,120 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { ToggleGroup, ToggleGroupItem } from "@/components/ui/toggle-group";
+import { useSubmitScores } from '@/hooks/use-judging';
+import { isApiError } from '@/api/errors';
+import { MAX_COMMENT_LENGTH, MAX_SCORE, MIN_SCORE, scoringRubrics } from '@/utils/judging';
+import type { FormError } from '@/utils/formUtils';
+import type { JudgingApplication } from '@/api/types';
+
+interface ScoreSheetFormProps {
+  application: JudgingApplication;
+}
+
+const scoreOptions = Array.from({ length: MAX_SCORE - MIN_SCORE + 1 }, (_, index) => MIN_SCORE + index);
+
+// A judge's scores for one application, a criterion of its rubric at a time with
+// an optional comment each. Sending again replaces the judge's earlier scores.
+const ScoreSheetForm: React.FC<ScoreSheetFormProps> = ({ application }) => {
+  const { criteria } = scoringRubrics[application.type];
+  const [scores, setScores] = useState<Record<string, number>>(application.sheet?.scores ?? {});
+  const [comments, setComments] = useState<Record<string, string>>(application.sheet?.comments ?? {});
+  const [errors, setErrors] = useState<FormError[]>([]);
+  const submitScores = useSubmitScores();
+
+  const getErrorMessage = (field: string): string | undefined => {
+    return errors.find(error => error.field === field)?.message;
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formErrors: FormError[] = criteria.flatMap(({ id, label }) => {
+      const fieldErrors: FormError[] = [];
+      if (scores[id] === undefined) {
+        fieldErrors.push({ field: `scores.${id}`, message: `Please score ${label.toLowerCase()}` });
+      }
+      if ((comments[id] ?? '').trim().length > MAX_COMMENT_LENGTH) {
+        fieldErrors.push({ field: `comments.${id}`, message: `Please keep the comment under ${MAX_COMMENT_LENGTH} characters` });
+      }
+      return fieldErrors;
+    });
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    submitScores.mutate({ applicationId: application.applicationId, scores, comments }, {
+      onSuccess: () => toast.success('Scores sent'),
+      onError: (error) => {
+        if (isApiError(error) && error.fieldErrors.length > 0) {
+          setErrors(error.fieldErrors);
+        }
+        toast.error(error.message);
+      },
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-6">
+      {criteria.map(criterion => {
+        const scoreError = getErrorMessage(`scores.${criterion.id}`);
+        const commentError = getErrorMessage(`comments.${criterion.id}`);
+        return (
+          <fieldset key={criterion.id} className="space-y-2">
+            <legend className={`text-sm font-medium ${scoreError ? 'text-destructive' : 'text-bloom-primary'}`}>{criterion.label}</legend>
+            <p className="text-xs text-bloom-muted">{criterion.description}</p>
+            <ToggleGroup
+              type="single"
+              value={scores[criterion.id] !== undefined ? String(scores[criterion.id]) : ''}
+              onValueChange={(value) => value && setScores(prev => ({ ...prev, [criterion.id]: Number(value) }))}
+              className="grid grid-cols-5 gap-1"
+              aria-label={`${criterion.label} score`}
+            >
+              {scoreOptions.map(score => (
+                <ToggleGroupItem
+                  key={score}
+                  value={String(score)}
+                  size="sm"
+                  variant="outline"
+                  className="data-[state=on]:bg-bloom-primary data-[state=on]:text-white"
+                >
+                  {score}
+                </ToggleGroupItem>
+              ))}
+            </ToggleGroup>
+            {scoreError && (
+              <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                <AlertCircle size={12} />
+                {scoreError}
+              </p>
+            )}
+            <Label htmlFor={`comment-${criterion.id}`} className="sr-only">{criterion.label} comment</Label>
+            <Textarea
+              id={`comment-${criterion.id}`}
+              rows={2}
+              placeholder="Comment (optional)"
+              value={comments[criterion.id] ?? ''}
+              onChange={(e) => setComments(prev => ({ ...prev, [criterion.id]: e.target.value }))}
+              className={commentError ? 'border-destructive' : ''}
+            />
+            {commentError && (
+              <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                <AlertCircle size={12} />
+                {commentError}
+              </p>
+            )}
+          </fieldset>
+        );
+      })}
+      <Button type="submit" disabled={submitScores.isPending} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+        {submitScores.isPending && <Loader2 size={16} className="mr-2 animate-spin" />}
+        {application.sheet ? 'Update scores' : 'Send scores'}
+      </Button>
+    </form>
+  );
+};
+
+export default ScoreSheetForm;
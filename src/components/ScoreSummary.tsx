@@ -0,0 +1,89 @@
+import React from 'react';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { formatStatusTime } from '@/utils/applicationStatus';
+import { formatNormalizedScore, formatScore, getSheetAverage, scoringRubrics } from '@/utils/judging';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { ApplicationScores, ScoreAggregate } from '@/api/types';
+
+interface ScoreSummaryProps {
+  type: ApplicationType;
+  scores: ApplicationScores;
+}
+
+// The judges' scores of an application: each criterion of its rubric and the
+// overall score brought together, then every judge's own scores and comments
+const ScoreSummary: React.FC<ScoreSummaryProps> = ({ type, scores }) => {
+  const { criteria } = scoringRubrics[type];
+
+  if (scores.sheets.length === 0) {
+    return <p className="text-sm text-bloom-muted">No judge has scored this application yet.</p>;
+  }
+
+  const renderAggregate = (aggregate: ScoreAggregate) => (
+    <>
+      <TableCell className="text-right">{formatScore(aggregate.mean)}</TableCell>
+      <TableCell className="text-right">{formatScore(aggregate.median)}</TableCell>
+      <TableCell className="text-right">{formatNormalizedScore(aggregate.normalized)}</TableCell>
+    </>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-2">
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Criterion</TableHead>
+              <TableHead className="text-right">Mean</TableHead>
+              <TableHead className="text-right">Median</TableHead>
+              <TableHead className="text-right">Normalized</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {criteria.map(criterion => {
+              const aggregate = scores.criteria.find(candidate => candidate.criterionId === criterion.id);
+              return (
+                <TableRow key={criterion.id}>
+                  <TableCell>{criterion.label}</TableCell>
+                  {renderAggregate(aggregate ?? { mean: null, median: null, normalized: null })}
+                </TableRow>
+              );
+            })}
+            <TableRow className="font-medium">
+              <TableCell>Overall</TableCell>
+              {renderAggregate(scores.overall)}
+            </TableRow>
+          </TableBody>
+        </Table>
+        <p className="text-xs text-bloom-muted">
+          From {scores.sheets.length} {scores.sheets.length === 1 ? 'judge' : 'judges'}, each scoring from 1 to 10. Normalized
+          scores compare each judge's scores with the rest of their scoring, in standard deviations, so strict and
+          generous judges count alike: above 0 is better than the judges usually score.
+        </p>
+      </div>
+
+      <ul className="space-y-4">
+        {scores.sheets.map(sheet => (
+          <li key={sheet.judgeEmail} className="space-y-2 border-t pt-4">
+            <p className="text-sm">
+              <span className="font-medium text-bloom-primary">{sheet.judgeName}</span>
+              <span className="text-bloom-muted"> · average {formatScore(getSheetAverage(sheet))} · <time dateTime={sheet.submittedAt}>{formatStatusTime(sheet.submittedAt)}</time></span>
+            </p>
+            <dl className="grid grid-cols-1 md:grid-cols-2 gap-x-6 gap-y-2">
+              {criteria.map(criterion => (
+                <div key={criterion.id}>
+                  <dt className="text-xs text-bloom-muted">{criterion.label}: {sheet.scores[criterion.id] ?? '—'}</dt>
+                  {sheet.comments[criterion.id] && (
+                    <dd className="text-sm whitespace-pre-line break-words">{sheet.comments[criterion.id]}</dd>
+                  )}
+                </div>
+              ))}
+            </dl>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default ScoreSummary;
@@ -0,0 +1,72 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { useSendApplicantMessage } from '@/hooks/use-staff-applications';
+import { isApiError } from '@/api/errors';
+import type { FormError } from '@/utils/formUtils';
+
+interface SendMessageFormProps {
+  applicationId: string;
+}
+
+// Sends the applicant a message they read in the status portal
+const SendMessageForm: React.FC<SendMessageFormProps> = ({ applicationId }) => {
+  const [body, setBody] = useState('');
+  const [errors, setErrors] = useState<FormError[]>([]);
+  const sendMessage = useSendApplicantMessage();
+  const bodyError = errors.find(error => error.field === 'body')?.message;
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    if (!body.trim()) {
+      setErrors([{ field: 'body', message: 'Please write a message' }]);
+      return;
+    }
+    setErrors([]);
+
+    sendMessage.mutate({ applicationId, body: body.trim() }, {
+      onSuccess: () => {
+        setBody('');
+        toast.success('Message sent');
+      },
+      onError: (error) => {
+        if (isApiError(error) && error.fieldErrors.length > 0) {
+          setErrors(error.fieldErrors);
+        }
+        toast.error(error.message);
+      },
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="message-body" className={bodyError ? 'text-destructive' : ''}>New message</Label>
+        <Textarea
+          id="message-body"
+          rows={4}
+          placeholder="The applicant is emailed to sign in and read it"
+          value={body}
+          onChange={(e) => setBody(e.target.value)}
+          className={bodyError ? 'border-destructive' : ''}
+        />
+        {bodyError && (
+          <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+            <AlertCircle size={12} />
+            {bodyError}
+          </p>
+        )}
+      </div>
+      <Button type="submit" disabled={sendMessage.isPending} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+        {sendMessage.isPending && <Loader2 size={16} className="mr-2 animate-spin" />}
+        Send message
+      </Button>
+    </form>
+  );
+};
+
+export default SendMessageForm;
@@ -0,0 +1,30 @@
+import React from 'react';
+import { formatStatusTime } from '@/utils/applicationStatus';
+import type { StaffMessage } from '@/api/types';
+
+interface StaffMessagesProps {
+  messages: StaffMessage[];
+  emptyText?: string;
+}
+
+// Messages the team sent an applicant, newest first
+const StaffMessages: React.FC<StaffMessagesProps> = ({ messages, emptyText = 'No messages yet.' }) => {
+  if (messages.length === 0) {
+    return <p className="text-sm text-bloom-muted">{emptyText}</p>;
+  }
+
+  return (
+    <ul className="space-y-3 text-left">
+      {[...messages].reverse().map(message => (
+        <li key={message.messageId} className="rounded-md border border-bloom-accent bg-white p-3">
+          <p className="text-xs text-bloom-muted">
+            {message.from} · <time dateTime={message.sentAt}>{formatStatusTime(message.sentAt)}</time>
+          </p>
+          <p className="text-sm mt-1 whitespace-pre-line">{message.body}</p>
+        </li>
+      ))}
+    </ul>
+  );
+};
+
+export default StaffMessages;
@@ -0,0 +1,41 @@
+import React from 'react';
+import { ImageIcon, Loader2 } from 'lucide-react';
+import { useObjectUrl } from '@/hooks/use-object-url';
+import { useStaffPhoto } from '@/hooks/use-staff-applications';
+
+interface StaffPhotoProps {
+  uploadId: string | null;
+  label: string;
+  className?: string;
+}
+
+// A photo from a submitted application, opening full size in a new tab
+const StaffPhoto: React.FC<StaffPhotoProps> = ({ uploadId, label, className = '' }) => {
+  const photo = useStaffPhoto(uploadId);
+  const url = useObjectUrl(photo.data);
+
+  const preview = url ? (
+    <img src={url} alt={label} className="w-full h-full object-cover" />
+  ) : photo.isLoading ? (
+    <Loader2 className="h-6 w-6 text-gray-300 animate-spin" aria-label="Loading photo" />
+  ) : (
+    <ImageIcon className="h-8 w-8 text-gray-300" aria-hidden="true" />
+  );
+
+  return (
+    <figure className={`space-y-1 ${className}`}>
+      <div className="aspect-[4/5] rounded-md border bg-gray-50 overflow-hidden flex items-center justify-center">
+        {url ? (
+          <a href={url} target="_blank" rel="noreferrer" className="w-full h-full">{preview}</a>
+        ) : preview}
+      </div>
+      <figcaption className="text-xs text-bloom-muted">
+        {label}
+        {!uploadId && ' — not provided'}
+        {photo.isError && ` — ${photo.error.message}`}
+      </figcaption>
+    </figure>
+  );
+};
+
+export default StaffPhoto;
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { AlertCircle, FlaskConical, Loader2, LockKeyhole } from 'lucide-react';
+import { getStaffAdapter } from '@/api/client';
+import { mockStaffAccounts } from '@/api/mockStaffAdapter';
+import { useStaffSignIn } from '@/hooks/use-staff-session';
+import { validateEmail, FormError } from '@/utils/formUtils';
+
+// Sign-in for the staff area; the session it starts is kept until it expires or is signed out
+const StaffSignIn: React.FC = () => {
+  const [email, setEmail] = useState('');
+  const [password, setPassword] = useState('');
+  const [errors, setErrors] = useState<FormError[]>([]);
+  const signIn = useStaffSignIn();
+
+  const getErrorMessage = (field: string): string | undefined => {
+    return errors.find(error => error.field === field)?.message;
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formErrors: FormError[] = [];
+    if (!validateEmail(email)) {
+      formErrors.push({ field: 'email', message: 'Please enter a valid email address' });
+    }
+    if (!password) {
+      formErrors.push({ field: 'password', message: 'Password is required' });
+    }
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    signIn.mutate({ email, password }, {
+      onError: () => setPassword(''),
+    });
+  };
+
+  return (
+    <div className="w-full max-w-sm mx-auto animate-fade-in">
+      <Card className="w-full shadow-lg border-0 neo-shadow overflow-hidden">
+        <CardHeader className="space-y-1 pb-4">
+          <div className="mx-auto w-12 h-12 rounded-full bg-bloom-accent flex items-center justify-center mb-2">
+            <LockKeyhole size={20} className="text-bloom-primary" />
+          </div>
+          <CardTitle className="text-xl text-center font-medium">Staff Sign In</CardTitle>
+          <CardDescription className="text-center">Sign in to review applications.</CardDescription>
+        </CardHeader>
+
+        <form onSubmit={handleSubmit}>
+          <CardContent className="space-y-4">
+            {signIn.isError && (
+              <p className="text-sm text-destructive flex items-center gap-2 animate-fade-in">
+                <AlertCircle size={14} />
+                {signIn.error.message}
+              </p>
+            )}
+            <div className="space-y-2">
+              <Label htmlFor="staff-email" className={getErrorMessage('email') ? 'text-destructive' : ''}>Email Address</Label>
+              <Input
+                id="staff-email"
+                type="email"
+                autoComplete="username"
+                value={email}
+                onChange={(e) => setEmail(e.target.value)}
+                className={getErrorMessage('email') ? 'border-destructive' : ''}
+              />
+              {getErrorMessage('email') && (
+                <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                  <AlertCircle size={12} />
+                  {getErrorMessage('email')}
+                </p>
+              )}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="staff-password" className={getErrorMessage('password') ? 'text-destructive' : ''}>Password</Label>
+              <Input
+                id="staff-password"
+                type="password"
+                autoComplete="current-password"
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                className={getErrorMessage('password') ? 'border-destructive' : ''}
+              />
+              {getErrorMessage('password') && (
+                <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+                  <AlertCircle size={12} />
+                  {getErrorMessage('password')}
+                </p>
+              )}
+            </div>
+            {getStaffAdapter().mode === 'mock' && (
+              <div className="rounded-md border border-dashed border-bloom-gold/40 bg-bloom-gold/5 p-3 text-xs text-bloom-muted space-y-1">
+                <p className="flex items-center gap-1 font-medium text-bloom-primary">
+                  <FlaskConical size={12} />
+                  Mock backend: sign in with a test account
+                </p>
+                {mockStaffAccounts.map(account => (
+                  <p key={account.email} className="font-mono">{account.email} / {account.password}</p>
+                ))}
+              </div>
+            )}
+          </CardContent>
+          <CardFooter>
+            <Button type="submit" disabled={signIn.isPending} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+              {signIn.isPending ? (
+                <>
+                  <Loader2 size={16} className="mr-2 animate-spin" />
+                  Signing in...
+                </>
+              ) : 'Sign In'}
+            </Button>
+          </CardFooter>
+        </form>
+      </Card>
+    </div>
+  );
+};
+
+export default StaffSignIn;
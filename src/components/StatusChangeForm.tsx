@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { AlertCircle, Loader2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Textarea } from "@/components/ui/textarea";
+import { useChangeApplicationStatus } from '@/hooks/use-staff-applications';
+import { isApiError } from '@/api/errors';
+import { applicationStatusLabels, isFinalStatus, statusTransitions } from '@/utils/applicationStatus';
+import type { FormError } from '@/utils/formUtils';
+import type { ApplicationStatus } from '@/api/types';
+
+interface StatusChangeFormProps {
+  applicationId: string;
+  status: ApplicationStatus;
+}
+
+// Lets staff move an application to one of the statuses allowed from its current one
+const StatusChangeForm: React.FC<StatusChangeFormProps> = ({ applicationId, status }) => {
+  const [nextStatus, setNextStatus] = useState<ApplicationStatus | ''>('');
+  const [reason, setReason] = useState('');
+  const [errors, setErrors] = useState<FormError[]>([]);
+  const changeStatus = useChangeApplicationStatus();
+
+  if (isFinalStatus(status)) {
+    return <p className="text-sm text-bloom-muted">This application is {applicationStatusLabels[status].toLowerCase()} and its status can no longer change.</p>;
+  }
+
+  const getErrorMessage = (field: string): string | undefined => {
+    return errors.find(error => error.field === field)?.message;
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const formErrors: FormError[] = [];
+    if (!nextStatus) {
+      formErrors.push({ field: 'status', message: 'Please choose the new status' });
+    }
+    if (!reason.trim()) {
+      formErrors.push({ field: 'reason', message: 'Please say why the status is changing' });
+    }
+    setErrors(formErrors);
+    if (formErrors.length > 0 || !nextStatus) return;
+
+    changeStatus.mutate({ applicationId, status: nextStatus, reason: reason.trim() }, {
+      onSuccess: (detail) => {
+        setNextStatus('');
+        setReason('');
+        toast.success(`Status changed to ${applicationStatusLabels[detail.status].toLowerCase()}`);
+      },
+      onError: (error) => {
+        if (isApiError(error) && error.fieldErrors.length > 0) {
+          setErrors(error.fieldErrors);
+        }
+        toast.error(error.message);
+      },
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-3">
+      <div className="space-y-1">
+        <Label htmlFor="next-status" className={getErrorMessage('status') ? 'text-destructive' : ''}>New status</Label>
+        <Select value={nextStatus} onValueChange={(value) => setNextStatus(value as ApplicationStatus)}>
+          <SelectTrigger id="next-status" className={getErrorMessage('status') ? 'border-destructive' : ''}>
+            <SelectValue placeholder="Choose a status" />
+          </SelectTrigger>
+          <SelectContent>
+            {statusTransitions[status].map(option => (
+              <SelectItem key={option} value={option}>{applicationStatusLabels[option]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        {getErrorMessage('status') && (
+          <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+            <AlertCircle size={12} />
+            {getErrorMessage('status')}
+          </p>
+        )}
+      </div>
+      <div className="space-y-1">
+        <Label htmlFor="status-reason" className={getErrorMessage('reason') ? 'text-destructive' : ''}>Reason</Label>
+        <Textarea
+          id="status-reason"
+          rows={3}
+          placeholder="Kept in the history for the team"
+          value={reason}
+          onChange={(e) => setReason(e.target.value)}
+          className={getErrorMessage('reason') ? 'border-destructive' : ''}
+        />
+        {getErrorMessage('reason') && (
+          <p className="text-xs text-destructive flex items-center gap-1 animate-fade-in">
+            <AlertCircle size={12} />
+            {getErrorMessage('reason')}
+          </p>
+        )}
+      </div>
+      <Button type="submit" disabled={changeStatus.isPending} className="w-full bg-bloom-primary hover:bg-bloom-primary/90">
+        {changeStatus.isPending && <Loader2 size={16} className="mr-2 animate-spin" />}
+        Change status
+      </Button>
+    </form>
+  );
+};
+
+export default StatusChangeForm;
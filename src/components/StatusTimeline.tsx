@@ -0,0 +1,34 @@
+import React from 'react';
+import { applicationStatusLabels, formatStatusTime, sortStatusHistory } from '@/utils/applicationStatus';
+import type { StatusChange } from '@/api/types';
+
+interface StatusTimelineProps {
+  history: StatusChange[];
+}
+
+// Every status an application has had, newest first, with who changed it and why
+const StatusTimeline: React.FC<StatusTimelineProps> = ({ history }) => {
+  if (history.length === 0) {
+    return <p className="text-sm text-bloom-muted">No status changes have been recorded yet.</p>;
+  }
+
+  return (
+    <ol className="relative border-l border-bloom-accent ml-1.5 space-y-4 text-left">
+      {sortStatusHistory(history).map((change, index) => (
+        <li key={`${change.at}-${change.to}`} className="relative pl-5">
+          <span
+            className={`absolute -left-[7px] top-1 h-3 w-3 rounded-full border-2 border-white ${index === 0 ? 'bg-bloom-gold' : 'bg-bloom-accent'}`}
+            aria-hidden="true"
+          />
+          <p className="text-sm font-medium text-bloom-primary">{applicationStatusLabels[change.to]}</p>
+          <p className="text-xs text-bloom-muted">
+            <time dateTime={change.at}>{formatStatusTime(change.at)}</time> · {change.actor.name}
+          </p>
+          {change.reason && <p className="text-sm text-bloom-muted mt-1 whitespace-pre-line">{change.reason}</p>}
+        </li>
+      ))}
+    </ol>
+  );
+};
+
+export default StatusTimeline;
@@ -0,0 +1,263 @@
+import React, { useEffect } from 'react';
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Separator } from "@/components/ui/separator";
+import { Badge } from "@/components/ui/badge";
+import { Check, ChevronRight, ChevronLeft, Loader2 } from 'lucide-react';
+import SchemaField from '@/components/SchemaField';
+import FormReview from '@/components/FormReview';
+import { FieldDefinition, FieldName, FormDefinition, getVisibleFields, SectionNotice } from '@/utils/formDefinition';
+import type { FormError } from '@/utils/formUtils';
+
+interface SteppedFormProps<V> {
+  definition: FormDefinition<V>;
+  values: V;
+  errors: FormError[];
+  currentSection: string;
+  onFieldChange: (name: FieldName<V>, value: unknown) => void;
+  onSelectSection: (sectionId: string) => void;
+  onPrevious: () => void;
+  onNext: () => void;
+  onSubmit: () => void;
+  isSubmitting: boolean;
+  submitLabel?: string;
+  // Renders fields the form cannot render itself, i.e. photos
+  renderField?: (field: FieldDefinition<V>, error?: string) => React.ReactNode;
+  // Extra content shown at the top of a section, before its fields
+  renderSectionIntro?: (sectionId: string) => React.ReactNode;
+}
+
+const rowClassNames = {
+  half: 'grid grid-cols-1 md:grid-cols-2 gap-4',
+  third: 'grid grid-cols-2 md:grid-cols-3 gap-4',
+};
+
+// Consecutive fields of the same (narrow) width share a row. A heading starts a new row.
+const groupIntoRows = <V,>(fields: FieldDefinition<V>[]): FieldDefinition<V>[][] => {
+  const rows: FieldDefinition<V>[][] = [];
+  fields.forEach(field => {
+    const row = rows[rows.length - 1];
+    const width = field.width ?? 'full';
+    if (row && width !== 'full' && row[0].width === width && !field.heading) {
+      row.push(field);
+    } else {
+      rows.push([field]);
+    }
+  });
+  return rows;
+};
+
+const Notice: React.FC<{ notice: SectionNotice }> = ({ notice }) => (
+  <div className="bg-bloom-accent/30 p-4 rounded-md space-y-6">
+    <h3 className="font-medium text-lg">{notice.title}</h3>
+    {notice.blocks.map((block, index) => (
+      <div key={block.heading ?? index}>
+        {block.heading && <h4 className="font-medium mb-2">{block.heading}</h4>}
+        <ol className="list-decimal pl-5 space-y-2 text-sm">
+          {block.items.map(item => (
+            <li key={item}>{item}</li>
+          ))}
+        </ol>
+      </div>
+    ))}
+  </div>
+);
+
+// Renders a form definition one section at a time: progress, section navigation,
+// the current section's fields (or the review page) and the step buttons
+const SteppedForm = <V,>({
+  definition,
+  values,
+  errors,
+  currentSection,
+  onFieldChange,
+  onSelectSection,
+  onPrevious,
+  onNext,
+  onSubmit,
+  isSubmitting,
+  submitLabel = 'Submit Application',
+  renderField,
+  renderSectionIntro,
+}: SteppedFormProps<V>) => {
+  const { sections } = definition;
+  const currentIndex = sections.findIndex(s => s.id === currentSection);
+  const section = sections[currentIndex];
+  const progress = Math.round(((currentIndex + 1) / sections.length) * 100);
+
+  // Start each section at the top of the page
+  useEffect(() => {
+    window.scrollTo({ top: 0, behavior: 'smooth' });
+  }, [currentSection]);
+
+  const getErrorMessage = (field: string): string | undefined => {
+    return errors.find(error => error.field === field)?.message;
+  };
+
+  const renderOne = (field: FieldDefinition<V>) => {
+    const error = getErrorMessage(field.name);
+    if (field.type === 'photo') {
+      return <React.Fragment key={field.name}>{renderField?.(field, error)}</React.Fragment>;
+    }
+    return (
+      <SchemaField
+        key={field.name}
+        field={field}
+        values={values}
+        error={error}
+        onChange={(value) => onFieldChange(field.name, value)}
+      />
+    );
+  };
+
+  return (
+    <>
+      <div className="mb-6">
+        <div className="h-2 w-full bg-gray-200 rounded-full mb-2">
+          <div
+            className="h-full bg-bloom-gold rounded-full transition-all duration-300"
+            style={{ width: `${progress}%` }}
+          ></div>
+        </div>
+        <div className="text-sm text-bloom-muted text-center">
+          Step {currentIndex + 1} of {sections.length}
+        </div>
+      </div>
+
+      {/* Navigation Sections */}
+      <div className="hidden md:flex mb-8 overflow-x-auto">
+        <div className="flex w-full border rounded-md">
+          {sections.map((s, index) => (
+            <button
+              key={s.id}
+              type="button"
+              onClick={() => onSelectSection(s.id)}
+              className={`flex-1 py-2 px-4 text-sm font-medium relative ${
+                index === currentIndex
+                  ? 'bg-bloom-primary text-white'
+                  : index < currentIndex
+                  ? 'bg-bloom-accent text-bloom-primary'
+                  : 'bg-white text-bloom-muted'
+              } ${index === 0 ? 'rounded-l-md' : ''} ${index === sections.length - 1 ? 'rounded-r-md' : ''}`}
+            >
+              <div className="flex items-center justify-center">
+                <Badge variant="outline" className={`w-5 h-5 flex items-center justify-center mr-2 ${
+                  index === currentIndex
+                    ? 'border-white text-white'
+                    : index < currentIndex
+                    ? 'border-bloom-gold bg-bloom-gold text-white'
+                    : 'border-bloom-muted text-bloom-muted'
+                }`}>
+                  {index < currentIndex ? <Check size={12} /> : index + 1}
+                </Badge>
+                <span className="whitespace-nowrap">{s.title}</span>
+              </div>
+
+              {index < sections.length - 1 && (
+                <div className="absolute top-0 right-0 h-full w-4 flex items-center justify-center">
+                  <ChevronRight size={16} className="text-bloom-muted" />
+                </div>
+              )}
+            </button>
+          ))}
+        </div>
+      </div>
+
+      <div className="md:hidden mb-6">
+        <select
+          value={currentSection}
+          onChange={(e) => onSelectSection(e.target.value)}
+          className="w-full p-2 border rounded-md"
+        >
+          {sections.map((s, index) => (
+            <option key={s.id} value={s.id} disabled={index > currentIndex}>
+              {s.title}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      <Card className="w-full shadow-lg border-0 neo-shadow overflow-hidden animate-slide-up">
+        <CardHeader className="space-y-1 pb-4">
+          <div className="flex items-center">
+            <Badge variant="outline" className="mr-2 bg-bloom-primary text-white border-none">
+              {currentIndex + 1}
+            </Badge>
+            <CardTitle className="text-xl">{section.title}</CardTitle>
+          </div>
+          <CardDescription>{section.description}</CardDescription>
+        </CardHeader>
+
+        <Separator />
+
+        <CardContent className="space-y-6 pt-6">
+          <div key={section.id} className="space-y-6 animate-fade-in">
+            {section.notice && <Notice notice={section.notice} />}
+            {renderSectionIntro?.(section.id)}
+            {section.kind === 'review' ? (
+              <FormReview definition={definition} values={values} onEditSection={onSelectSection} />
+            ) : (
+              groupIntoRows(getVisibleFields(section, values)).map(row => (
+                <React.Fragment key={row[0].name}>
+                  {row[0].heading && (
+                    <h3 className="font-medium text-base mt-4">{row[0].heading}</h3>
+                  )}
+                  {row[0].width && row[0].width !== 'full' ? (
+                    <div className={rowClassNames[row[0].width]}>{row.map(renderOne)}</div>
+                  ) : (
+                    renderOne(row[0])
+                  )}
+                </React.Fragment>
+              ))
+            )}
+          </div>
+        </CardContent>
+
+        <CardFooter className="flex justify-between pt-4">
+          {currentIndex > 0 ? (
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onPrevious}
+              className="flex items-center"
+            >
+              <ChevronLeft size={16} className="mr-1" />
+              Previous
+            </Button>
+          ) : (
+            <div></div>
+          )}
+
+          {currentIndex < sections.length - 1 ? (
+            <Button
+              type="button"
+              onClick={onNext}
+              className="bg-bloom-primary hover:bg-bloom-primary/90 hover-lift"
+            >
+              Next
+              <ChevronRight size={16} className="ml-1" />
+            </Button>
+          ) : (
+            <Button
+              type="button"
+              onClick={onSubmit}
+              disabled={isSubmitting}
+              className="bg-bloom-primary hover:bg-bloom-primary/90 hover-lift"
+            >
+              {isSubmitting ? (
+                <div className="flex items-center">
+                  <Loader2 size={16} className="mr-2 animate-spin" />
+                  Submitting...
+                </div>
+              ) : (
+                submitLabel
+              )}
+            </Button>
+          )}
+        </CardFooter>
+      </Card>
+    </>
+  );
+};
+
+export default SteppedForm;
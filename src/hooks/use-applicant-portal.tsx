@@ -0,0 +1,74 @@
+import * as React from "react"
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { getApplicantAdapter } from "@/api/client"
+import { applicantSession } from "@/api/sessions"
+import type {
+  ApplicantSession,
+  ApplicantSignInRequest,
+  ApplicationPayload,
+  PortalApplication,
+  SubmitChangesRequest,
+  VerifySignInRequest,
+} from "@/api/types"
+
+export const APPLICANT_QUERY_KEY = ["applicant"]
+
+// The signed-in applicant session, or null once it is signed out or has expired
+export function useApplicantSession() {
+  return React.useSyncExternalStore(applicantSession.subscribe, applicantSession.get)
+}
+
+// Emails a one-time code and link to the address
+export function useRequestSignIn() {
+  return useMutation<void, Error, ApplicantSignInRequest>({
+    mutationFn: (request) => getApplicantAdapter().requestSignIn(request),
+  })
+}
+
+export function useVerifySignIn() {
+  return useMutation<ApplicantSession, Error, VerifySignInRequest>({
+    mutationFn: (request) => getApplicantAdapter().verifySignIn(request),
+    onSuccess: (session) => applicantSession.set(session),
+  })
+}
+
+export function useApplicantSignOut() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, void>({
+    mutationFn: () => getApplicantAdapter().signOut(),
+    onSettled: () => {
+      applicantSession.set(null)
+      queryClient.removeQueries({ queryKey: APPLICANT_QUERY_KEY })
+    },
+  })
+}
+
+// The signed-in applicant's applications, refreshed when they come back to the tab
+export function useApplicantApplications(session: ApplicantSession | null) {
+  return useQuery<PortalApplication[], Error>({
+    queryKey: [...APPLICANT_QUERY_KEY, "applications", session?.email],
+    queryFn: () => getApplicantAdapter().listApplications(),
+    enabled: !!session,
+    refetchOnWindowFocus: true,
+  })
+}
+
+// The answers as last submitted, for making the changes staff asked for
+export function useApplicantAnswers(applicationId: string | null, session: ApplicantSession | null) {
+  return useQuery<ApplicationPayload, Error>({
+    queryKey: [...APPLICANT_QUERY_KEY, "answers", applicationId],
+    queryFn: () => getApplicantAdapter().getAnswers(applicationId as string),
+    enabled: !!applicationId && !!session,
+  })
+}
+
+export function useSubmitChanges() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, SubmitChangesRequest>({
+    mutationFn: (request) => getApplicantAdapter().submitChanges(request),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: APPLICANT_QUERY_KEY }),
+  })
+}
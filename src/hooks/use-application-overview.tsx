@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { getSubmissionAdapter } from "@/api/client"
+import type { ApplicationOverview } from "@/api/types"
+
+// The fee of a submitted application and what has been paid towards it
+export function useApplicationOverview(applicationId: string | null) {
+  return useQuery<ApplicationOverview, Error>({
+    queryKey: ["applications", applicationId],
+    queryFn: () => getSubmissionAdapter().getApplication(applicationId as string),
+    enabled: !!applicationId,
+  })
+}
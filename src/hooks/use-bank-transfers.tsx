@@ -0,0 +1,24 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { getPaymentProvider } from "@/api/client"
+import type { PaymentIntent, ReconcileTransferRequest } from "@/api/types"
+
+const AWAITING_TRANSFERS_KEY = ["payments", "awaiting-transfer"]
+
+// Bank transfers staff are still waiting to see on the bank statement
+export function useAwaitingTransfers() {
+  return useQuery<PaymentIntent[], Error>({
+    queryKey: AWAITING_TRANSFERS_KEY,
+    queryFn: () => getPaymentProvider().listAwaitingTransfers(),
+  })
+}
+
+// Records a transfer that arrived against the application its reference belongs to
+export function useReconcileTransfer() {
+  const queryClient = useQueryClient()
+
+  return useMutation<PaymentIntent, Error, ReconcileTransferRequest>({
+    mutationFn: (request) => getPaymentProvider().reconcileTransfer(request),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: AWAITING_TRANSFERS_KEY }),
+  })
+}
@@ -0,0 +1,50 @@
+import * as React from "react"
+
+import { saveDraft } from "@/utils/draftStorage"
+
+const AUTOSAVE_DELAY = 500
+
+// Persist `data` under `key` shortly after it stops changing. Pending changes are
+// also flushed when the page is hidden or the component unmounts, so closing the
+// tab or leaving the form does not drop the last few keystrokes.
+export function useDraftAutosave<T>(key: string, data: T, enabled: boolean) {
+  const pendingRef = React.useRef<T | null>(null)
+
+  const flush = React.useCallback(() => {
+    if (pendingRef.current === null) return
+
+    const draft = pendingRef.current
+    pendingRef.current = null
+    saveDraft(key, draft).catch((error) => {
+      console.error("Failed to save application draft:", error)
+    })
+  }, [key])
+
+  React.useEffect(() => {
+    if (!enabled) return
+
+    pendingRef.current = data
+    const timer = window.setTimeout(flush, AUTOSAVE_DELAY)
+    return () => window.clearTimeout(timer)
+  }, [data, enabled, flush])
+
+  React.useEffect(() => {
+    const onVisibilityChange = () => {
+      if (document.visibilityState === "hidden") flush()
+    }
+    document.addEventListener("visibilitychange", onVisibilityChange)
+    window.addEventListener("pagehide", flush)
+    return () => {
+      document.removeEventListener("visibilitychange", onVisibilityChange)
+      window.removeEventListener("pagehide", flush)
+      flush()
+    }
+  }, [flush])
+
+  // Drop anything still waiting to be written, e.g. right before the draft is deleted
+  const cancel = React.useCallback(() => {
+    pendingRef.current = null
+  }, [])
+
+  return { flush, cancel }
+}
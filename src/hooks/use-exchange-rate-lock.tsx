@@ -0,0 +1,28 @@
+import * as React from "react"
+
+import { ExchangeRateLock, isRateLockExpired, lockExchangeRate } from "@/utils/currencies"
+
+const EXPIRY_CHECK_INTERVAL = 15 * 1000
+
+// Locks the exchange rate for `currency` whenever it changes, and reports when the
+// lock has run out so the payer can look at the amount again before paying
+export function useExchangeRateLock(currency: string) {
+  const [lock, setLock] = React.useState<ExchangeRateLock>(() => lockExchangeRate(currency))
+  const [isExpired, setIsExpired] = React.useState(false)
+
+  const relock = React.useCallback(() => {
+    setLock(lockExchangeRate(currency))
+    setIsExpired(false)
+  }, [currency])
+
+  React.useEffect(() => {
+    relock()
+  }, [relock])
+
+  React.useEffect(() => {
+    const interval = setInterval(() => setIsExpired(isRateLockExpired(lock)), EXPIRY_CHECK_INTERVAL)
+    return () => clearInterval(interval)
+  }, [lock])
+
+  return { lock, isExpired, relock }
+}
@@ -0,0 +1,109 @@
+import * as React from "react"
+import { toast } from "sonner"
+
+import {
+  findSectionWithErrors,
+  FormDefinition,
+  validateSection,
+} from "@/utils/formDefinition"
+import type { FormError } from "@/utils/formUtils"
+
+interface UseFormSectionsOptions<V> {
+  definition: FormDefinition<V>
+  section?: string // Section requested through the URL
+  values: V
+  onSectionChange: (section: string, options?: { replace?: boolean }) => void
+  // Hold off redirecting until the values are final, e.g. while a draft is restored
+  enabled?: boolean
+}
+
+// Step-by-step navigation through a form definition. The current section comes
+// from the URL; moving forward requires the section to be valid, and sections
+// further ahead than the applicant has completed cannot be opened directly.
+export function useFormSections<V>({
+  definition,
+  section,
+  values,
+  onSectionChange,
+  enabled = true,
+}: UseFormSectionsOptions<V>) {
+  const { sections } = definition
+  const isKnownSection = sections.some((s) => s.id === section)
+  const currentSection = isKnownSection ? section : sections[0].id
+  const currentIndex = sections.findIndex((s) => s.id === currentSection)
+  const [errors, setErrors] = React.useState<FormError[]>([])
+
+  // The guard below only needs the values as they are when the section changes
+  const valuesRef = React.useRef(values)
+  valuesRef.current = values
+
+  // Keep applicants from skipping ahead through the URL: redirect to the first
+  // earlier section that has not been completed yet. Without a section in the
+  // URL, go as far as the answers so far allow.
+  React.useEffect(() => {
+    if (!enabled) return
+
+    const targetIndex = isKnownSection
+      ? sections.findIndex((s) => s.id === section)
+      : sections.length - 1
+    const firstIncomplete = sections
+      .slice(0, targetIndex)
+      .find((s) => validateSection(definition, s.id, valuesRef.current).length > 0)
+
+    if (firstIncomplete) {
+      onSectionChange(firstIncomplete.id, { replace: true })
+      if (isKnownSection) {
+        toast.error(`Please complete "${firstIncomplete.title}" first`)
+      }
+    } else if (!isKnownSection) {
+      onSectionChange(sections[targetIndex].id, { replace: true })
+    }
+  }, [definition, sections, section, isKnownSection, onSectionChange, enabled])
+
+  const goNext = () => {
+    const sectionErrors = validateSection(definition, currentSection, values)
+    setErrors(sectionErrors)
+
+    if (sectionErrors.length > 0) {
+      toast.error("Please fix the errors before continuing")
+      return
+    }
+    if (currentIndex < sections.length - 1) {
+      onSectionChange(sections[currentIndex + 1].id)
+    }
+  }
+
+  const goPrevious = () => {
+    if (currentIndex > 0) {
+      onSectionChange(sections[currentIndex - 1].id)
+    }
+  }
+
+  // Only sections up to the current one can be revisited
+  const goTo = (sectionId: string) => {
+    const index = sections.findIndex((s) => s.id === sectionId)
+    if (index >= 0 && index <= currentIndex) {
+      onSectionChange(sectionId)
+    }
+  }
+
+  // Show errors, e.g. from submitting, and send the applicant to the first
+  // section containing one of them
+  const showErrors = (allErrors: FormError[]) => {
+    setErrors(allErrors)
+    const firstErrorSection = findSectionWithErrors(definition, allErrors)
+    if (firstErrorSection && firstErrorSection.id !== currentSection) {
+      onSectionChange(firstErrorSection.id)
+    }
+  }
+
+  return {
+    currentSection,
+    currentIndex,
+    errors,
+    goNext,
+    goPrevious,
+    goTo,
+    showErrors,
+  }
+}
@@ -0,0 +1,36 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { getStaffAdapter } from "@/api/client"
+import type { JudgingApplication, JudgingAssignment, SubmitScoresRequest } from "@/api/types"
+import { STAFF_QUERY_KEY } from "@/hooks/use-staff-session"
+
+const JUDGING_QUERY_KEY = [...STAFF_QUERY_KEY, "judging"]
+
+// The applications the signed-in judge is assigned to score
+export function useJudgingAssignments() {
+  return useQuery<JudgingAssignment[], Error>({
+    queryKey: [...JUDGING_QUERY_KEY, "assignments"],
+    queryFn: () => getStaffAdapter().listAssignments(),
+  })
+}
+
+export function useJudgingApplication(applicationId: string | null) {
+  return useQuery<JudgingApplication, Error>({
+    queryKey: [...JUDGING_QUERY_KEY, "assignments", applicationId],
+    queryFn: () => getStaffAdapter().getAssignment(applicationId as string),
+    enabled: !!applicationId,
+  })
+}
+
+// Sends the judge's scores; the list is refreshed as the application is now scored
+export function useSubmitScores() {
+  const queryClient = useQueryClient()
+
+  return useMutation<JudgingApplication, Error, SubmitScoresRequest>({
+    mutationFn: (request) => getStaffAdapter().submitScores(request),
+    onSuccess: (application) => {
+      queryClient.setQueryData([...JUDGING_QUERY_KEY, "assignments", application.applicationId], application)
+      queryClient.invalidateQueries({ queryKey: [...JUDGING_QUERY_KEY, "assignments"], exact: true })
+    },
+  })
+}
@@ -0,0 +1,23 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { clearMockMail, listMockMail, MockMail } from "@/api/mockMailbox"
+
+const MAILBOX_QUERY_KEY = ["mock-mailbox"]
+
+// Mail sent by the mock backends, checked for new mail every few seconds
+export function useMockMailbox() {
+  return useQuery<MockMail[], Error>({
+    queryKey: MAILBOX_QUERY_KEY,
+    queryFn: listMockMail,
+    refetchInterval: 3000,
+  })
+}
+
+export function useClearMockMailbox() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, void>({
+    mutationFn: clearMockMail,
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: MAILBOX_QUERY_KEY }),
+  })
+}
@@ -0,0 +1,20 @@
+import * as React from "react"
+
+// Object URL for previewing a file, revoked again when the file changes or the
+// component unmounts
+export function useObjectUrl(file: Blob | null | undefined) {
+  const [url, setUrl] = React.useState<string | null>(null)
+
+  React.useEffect(() => {
+    if (!file) {
+      setUrl(null)
+      return
+    }
+
+    const objectUrl = URL.createObjectURL(file)
+    setUrl(objectUrl)
+    return () => URL.revokeObjectURL(objectUrl)
+  }, [file])
+
+  return url
+}
@@ -0,0 +1,12 @@
+import { useMutation } from "@tanstack/react-query"
+
+import { getSubmissionAdapter } from "@/api/client"
+import type { SelectPaymentPlanRequest } from "@/api/types"
+import type { PaymentSchedule } from "@/utils/installmentPlans"
+
+// Chooses an installment plan for a submitted application, or goes back to paying in full
+export function useSelectPaymentPlan() {
+  return useMutation<PaymentSchedule | null, Error, SelectPaymentPlanRequest>({
+    mutationFn: (request) => getSubmissionAdapter().selectPaymentPlan(request),
+  })
+}
@@ -0,0 +1,117 @@
+// @vitest-environment jsdom
+import { act, renderHook, waitFor } from "@testing-library/react"
+import { beforeEach, describe, expect, it, vi } from "vitest"
+
+import { setPaymentProvider } from "@/api/client"
+import { NetworkError } from "@/api/errors"
+import type { PaymentIntent, PaymentProvider } from "@/api/types"
+import { usePayment } from "@/hooks/use-payment"
+
+const card = { type: "card" as const, cardNumber: "4242 4242 4242 4242", expiryDate: "12/30", cvv: "123", name: "Test Payer" }
+
+const options = { applicationId: "MB-P-2027-TEST01", amount: 20000, currency: "USD" }
+
+const intentWith = (status: PaymentIntent["status"]): PaymentIntent => ({
+  intentId: "pi_test",
+  applicationId: options.applicationId,
+  amount: options.amount,
+  currency: options.currency,
+  charge: { amount: options.amount, currency: options.currency, rate: 1, rateLockedAt: "2027-01-15T12:00:00.000Z" },
+  status,
+  refundedAmount: 0,
+  createdAt: "2027-01-15T12:00:00.000Z",
+  updatedAt: "2027-01-15T12:00:00.000Z",
+})
+
+// A provider whose answers each test sets up
+const createFakeProvider = () => ({
+  mode: "sandbox" as const,
+  createIntent: vi.fn(async () => intentWith("requires_confirmation")),
+  confirmIntent: vi.fn(async () => intentWith("succeeded")),
+  retrieveIntent: vi.fn(async () => intentWith("requires_confirmation")),
+  completeAction: vi.fn(),
+  refund: vi.fn(),
+  listAwaitingTransfers: vi.fn(),
+  reconcileTransfer: vi.fn(),
+})
+
+let provider: ReturnType<typeof createFakeProvider>
+
+describe("usePayment", () => {
+  beforeEach(() => {
+    sessionStorage.clear()
+    provider = createFakeProvider()
+    setPaymentProvider(provider as unknown as PaymentProvider)
+  })
+
+  it("ignores a second click while the payment is being sent", async () => {
+    let confirm: (intent: PaymentIntent) => void
+    provider.confirmIntent.mockImplementation(() => new Promise(resolve => { confirm = resolve }))
+    const { result } = renderHook(() => usePayment(options))
+
+    let first: Promise<PaymentIntent | null>
+    let second: Promise<PaymentIntent | null>
+    act(() => {
+      first = result.current.pay(card)
+      second = result.current.pay(card)
+    })
+    expect(await second).toBeNull()
+    await waitFor(() => expect(provider.confirmIntent).toHaveBeenCalledTimes(1))
+    await act(async () => {
+      confirm(intentWith("succeeded"))
+      await first
+    })
+
+    expect(provider.createIntent).toHaveBeenCalledTimes(1)
+    expect(result.current.status).toBe("succeeded")
+  })
+
+  it("asks the provider how a payment ended when no answer came back", async () => {
+    provider.confirmIntent.mockRejectedValueOnce(new NetworkError())
+    provider.retrieveIntent.mockResolvedValueOnce(intentWith("succeeded"))
+    const { result } = renderHook(() => usePayment(options))
+
+    await act(() => result.current.pay(card))
+
+    expect(provider.retrieveIntent).toHaveBeenCalledWith("pi_test")
+    expect(result.current.status).toBe("succeeded")
+    expect(result.current.error).toBeNull()
+    expect(sessionStorage.getItem(`miss-bloom-payment:${options.applicationId}`)).toBeNull()
+  })
+
+  it("pays again with the key of an attempt whose outcome is unknown, so the provider returns its outcome", async () => {
+    provider.confirmIntent.mockRejectedValueOnce(new NetworkError())
+    const { result } = renderHook(() => usePayment(options))
+
+    await act(() => result.current.pay(card))
+    expect(result.current.status).toBe("failed")
+    expect(result.current.error).toMatch(/you won't be charged twice/)
+
+    await act(() => result.current.pay(card))
+    const [firstKey, secondKey] = provider.confirmIntent.mock.calls.map(call => (call as unknown[])[2])
+    expect(secondKey).toBe(firstKey)
+    expect(provider.createIntent).toHaveBeenCalledTimes(1)
+    expect(result.current.status).toBe("succeeded")
+  })
+
+  it("uses a new key once the payment details change", async () => {
+    provider.confirmIntent.mockRejectedValueOnce(new NetworkError())
+    const { result } = renderHook(() => usePayment(options))
+
+    await act(() => result.current.pay(card))
+    await act(() => result.current.pay({ ...card, cardNumber: "5555 5555 5555 4444" }))
+    const [firstKey, secondKey] = provider.confirmIntent.mock.calls.map(call => (call as unknown[])[2])
+    expect(secondKey).not.toBe(firstKey)
+  })
+
+  it("picks up a payment that went through before the page was reloaded", async () => {
+    sessionStorage.setItem(`miss-bloom-payment:${options.applicationId}`, "pi_test")
+    provider.retrieveIntent.mockResolvedValueOnce(intentWith("succeeded"))
+    const onRecover = vi.fn()
+    const { result } = renderHook(() => usePayment({ ...options, onRecover }))
+
+    await waitFor(() => expect(result.current.status).toBe("succeeded"))
+    expect(onRecover).toHaveBeenCalledWith(expect.objectContaining({ intentId: "pi_test" }))
+    expect(provider.createIntent).not.toHaveBeenCalled()
+  })
+})
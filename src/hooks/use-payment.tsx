@@ -0,0 +1,170 @@
+import * as React from "react"
+
+import { getPaymentProvider } from "@/api/client"
+import { isApiError } from "@/api/errors"
+import type { PaymentIntent, PaymentMethodDetails } from "@/api/types"
+import type { ExchangeRateLock } from "@/utils/currencies"
+import { createClientReference } from "@/hooks/use-submit-application"
+
+export type PaymentStatus = "idle" | "processing" | "requires_action" | "succeeded" | "failed"
+
+interface UsePaymentOptions {
+  applicationId: string | null
+  amount: number // In cents
+  currency: string
+  installmentNumber?: number // When paying one installment of a payment plan
+  exchangeRate?: ExchangeRateLock | null // Charge in another currency at this locked rate
+  onRecover?: (intent: PaymentIntent) => void // A payment found to have gone through before the page was reloaded
+}
+
+const UNKNOWN_OUTCOME_MESSAGE = "We could not confirm whether your payment went through. Please try again: you won't be charged twice."
+
+// The intent being paid is remembered for the session, so a reload asks the
+// provider how it ended instead of starting a new payment
+const intentKey = (applicationId: string) => `miss-bloom-payment:${applicationId}`
+
+const statusOf = (intent: PaymentIntent): PaymentStatus => {
+  if (intent.status === "requires_action" || intent.status === "succeeded" || intent.status === "failed") {
+    return intent.status
+  }
+  return "idle"
+}
+
+// Whether an intent shows the outcome of a confirmation rather than a state before it
+const isConfirmed = (intent: PaymentIntent) => {
+  return intent.status === "succeeded" || intent.status === "awaiting_transfer" || intent.status === "requires_action"
+}
+
+// A new intent is needed when what is being charged changes
+const matchesIntent = (intent: PaymentIntent, { amount, currency, installmentNumber, exchangeRate }: UsePaymentOptions) => {
+  return intent.amount === amount &&
+    intent.currency === currency &&
+    intent.installmentNumber === installmentNumber &&
+    intent.charge.currency === (exchangeRate?.currency ?? currency) &&
+    intent.charge.rate === (exchangeRate?.rate ?? 1)
+}
+
+// Collects one payment for an application through the configured payment
+// provider. The same intent is confirmed again after a decline, so trying
+// another card never creates a second charge for the application.
+//
+// Each attempt carries an idempotency key. Clicks while an attempt is running
+// are ignored, and when an attempt gets no answer the provider is asked how it
+// ended; paying again with the same details reuses its key, so the provider
+// returns the first outcome instead of charging twice.
+export function usePayment(options: UsePaymentOptions) {
+  const { applicationId, amount, currency, installmentNumber, exchangeRate } = options
+  const [intent, setIntent] = React.useState<PaymentIntent | null>(null)
+  const [status, setStatus] = React.useState<PaymentStatus>("idle")
+  const [error, setError] = React.useState<string | null>(null)
+  const intentRef = React.useRef<PaymentIntent | null>(null)
+  const inFlightRef = React.useRef(false)
+  // The attempt whose outcome is unknown, with what it was paying for and with
+  const attemptRef = React.useRef<{ idempotencyKey: string; fingerprint: string } | null>(null)
+  const onRecoverRef = React.useRef(options.onRecover)
+  onRecoverRef.current = options.onRecover
+
+  // Only uses state setters, so the effect below can depend on it
+  const settle = React.useCallback((next: PaymentIntent) => {
+    intentRef.current = next
+    setIntent(next)
+    setStatus(statusOf(next))
+    setError(next.failure?.message ?? null)
+    if (next.status === "succeeded" || next.status === "awaiting_transfer") {
+      sessionStorage.removeItem(intentKey(next.applicationId))
+    } else {
+      sessionStorage.setItem(intentKey(next.applicationId), next.intentId)
+    }
+    return next
+  }, [])
+
+  const run = async (step: () => Promise<PaymentIntent>): Promise<PaymentIntent | null> => {
+    if (inFlightRef.current) return null
+    inFlightRef.current = true
+    setStatus("processing")
+    setError(null)
+    try {
+      return settle(await step())
+    } catch (err) {
+      setStatus("failed")
+      if (!isApiError(err) || !err.retryable) {
+        attemptRef.current = null
+        setError(err instanceof Error ? err.message : "Your payment could not be processed. Please try again.")
+        return null
+      }
+
+      // No answer came back: the payment may still have gone through
+      const current = intentRef.current
+      const recovered = current ? await getPaymentProvider().retrieveIntent(current.intentId).catch(() => null) : null
+      if (recovered && isConfirmed(recovered)) {
+        attemptRef.current = null
+        return settle(recovered)
+      }
+      setError(UNKNOWN_OUTCOME_MESSAGE)
+      return null
+    } finally {
+      inFlightRef.current = false
+    }
+  }
+
+  // Pick up a payment started before the page was reloaded
+  React.useEffect(() => {
+    const intentId = applicationId ? sessionStorage.getItem(intentKey(applicationId)) : null
+    if (!intentId) return
+
+    let cancelled = false
+    getPaymentProvider().retrieveIntent(intentId)
+      .then(stored => {
+        if (cancelled) return
+        if (isConfirmed(stored)) {
+          settle(stored)
+          onRecoverRef.current?.(stored)
+        } else {
+          intentRef.current = stored
+        }
+      })
+      .catch(() => undefined)
+    return () => {
+      cancelled = true
+    }
+  }, [applicationId, settle])
+
+  const pay = (method: PaymentMethodDetails) => run(async () => {
+    if (!applicationId) {
+      throw new Error("Your application could not be found. Please submit it again before paying.")
+    }
+
+    const fingerprint = JSON.stringify({ amount, currency, installmentNumber, exchangeRate, method })
+    if (attemptRef.current?.fingerprint !== fingerprint) {
+      attemptRef.current = { idempotencyKey: createClientReference(), fingerprint }
+    }
+    const { idempotencyKey } = attemptRef.current
+
+    const provider = getPaymentProvider()
+    let current = intentRef.current
+    if (!current || !matchesIntent(current, options)) {
+      current = await provider.createIntent({
+        applicationId,
+        amount,
+        currency,
+        installmentNumber,
+        exchangeRate: exchangeRate ?? undefined,
+        idempotencyKey,
+      })
+      intentRef.current = current
+      sessionStorage.setItem(intentKey(applicationId), current.intentId)
+    }
+    const confirmed = await provider.confirmIntent(current.intentId, method, idempotencyKey)
+    attemptRef.current = null
+    return confirmed
+  })
+
+  // Pass or fail the extra step (3-D Secure, PayPal approval) the provider asked for
+  const completeAction = (approved: boolean) => run(async () => {
+    const current = intentRef.current
+    if (!current) throw new Error("There is no payment waiting for confirmation.")
+    return getPaymentProvider().completeAction(current.intentId, approved)
+  })
+
+  return { intent, status, error, pay, completeAction }
+}
@@ -0,0 +1,159 @@
+import * as React from "react"
+
+import { uploadFileResumable } from "@/api/uploads"
+import { RequestCancelledError } from "@/api/errors"
+import { photoFields, type PhotoField } from "@/utils/formUtils"
+import { processPhoto } from "@/utils/imageProcessing"
+import { checkPhotoRequirements, getPhotoFileError } from "@/utils/photoRequirements"
+
+export type PhotoUploadStatus = "processing" | "uploading" | "done" | "error" | "cancelled"
+
+export interface PhotoUploadState {
+  status: PhotoUploadStatus
+  progress: number // 0-100
+  fileName?: string // Original name while the photo is still being processed
+  uploadId?: string
+  error?: string
+}
+
+export type PhotoUploads = Partial<Record<PhotoField, PhotoUploadState>>
+
+// Tracks one resumable upload per photo slot. Starting an upload for a slot
+// replaces whatever was uploading there before.
+export function usePhotoUploads() {
+  const [uploads, setUploads] = React.useState<PhotoUploads>({})
+  const controllersRef = React.useRef<Partial<Record<PhotoField, AbortController>>>({})
+  const processingRef = React.useRef<Partial<Record<PhotoField, File>>>({})
+
+  const updateUpload = React.useCallback((field: PhotoField, update: PhotoUploadState | undefined) => {
+    setUploads((prev) => ({ ...prev, [field]: update }))
+  }, [])
+
+  // Slot an upload currently belongs to; photos can move between slots mid-upload
+  const fieldOf = React.useCallback((controller: AbortController): PhotoField | undefined => {
+    return photoFields.find((field) => controllersRef.current[field] === controller)
+  }, [])
+
+  const startUpload = React.useCallback((field: PhotoField, file: File) => {
+    controllersRef.current[field]?.abort()
+    const controller = new AbortController()
+    controllersRef.current[field] = controller
+
+    updateUpload(field, { status: "uploading", progress: 0 })
+
+    const update = (state: PhotoUploadState) => {
+      const current = fieldOf(controller)
+      if (current) updateUpload(current, state)
+    }
+
+    uploadFileResumable(file, {
+      signal: controller.signal,
+      onProgress: (uploadedBytes, totalBytes) => {
+        if (controller.signal.aborted) return
+        const progress = totalBytes > 0 ? Math.round((uploadedBytes / totalBytes) * 100) : 100
+        update({ status: "uploading", progress })
+      },
+    })
+      .then((uploadId) => {
+        if (controller.signal.aborted) return
+        update({ status: "done", progress: 100, uploadId })
+      })
+      .catch((error) => {
+        if (error instanceof RequestCancelledError || controller.signal.aborted) {
+          update({ status: "cancelled", progress: 0 })
+        } else {
+          update({
+            status: "error",
+            progress: 0,
+            error: error instanceof Error ? error.message : "Upload failed",
+          })
+        }
+      })
+  }, [fieldOf, updateUpload])
+
+  const rejectPhoto = React.useCallback((field: PhotoField, fileName: string, error: unknown) => {
+    updateUpload(field, {
+      status: "error",
+      progress: 0,
+      fileName,
+      error: error instanceof Error ? error.message : "This image could not be processed",
+    })
+  }, [updateUpload])
+
+  // First step for a newly chosen photo: check and process it. Resolves with the
+  // processed file, ready for cropping, or null when the photo was rejected or
+  // another photo was chosen for the slot meanwhile.
+  const preparePhoto = React.useCallback(async (field: PhotoField, file: File): Promise<File | null> => {
+    controllersRef.current[field]?.abort()
+    delete controllersRef.current[field]
+    processingRef.current[field] = file
+    updateUpload(field, { status: "processing", progress: 0, fileName: file.name })
+
+    try {
+      // Reject unsuitable files before spending time decoding them
+      const fileError = getPhotoFileError(field, file)
+      if (fileError) throw new Error(fileError)
+      const processed = await processPhoto(file)
+      return processingRef.current[field] === file ? processed : null
+    } catch (error) {
+      if (processingRef.current[field] !== file) return null
+      delete processingRef.current[field]
+      rejectPhoto(field, file.name, error)
+      return null
+    }
+  }, [rejectPhoto, updateUpload])
+
+  // Final step: check the photo as it will be stored (e.g. after cropping) against
+  // the slot's requirements and upload it. Resolves with the file, or null if rejected.
+  const acceptPhoto = React.useCallback(async (field: PhotoField, file: File): Promise<File | null> => {
+    const source = processingRef.current[field]
+
+    try {
+      const requirementError = await checkPhotoRequirements(field, file)
+      if (requirementError) throw new Error(requirementError)
+      if (processingRef.current[field] !== source) return null
+      delete processingRef.current[field]
+      startUpload(field, file)
+      return file
+    } catch (error) {
+      if (processingRef.current[field] !== source) return null
+      delete processingRef.current[field]
+      rejectPhoto(field, file.name, error)
+      return null
+    }
+  }, [rejectPhoto, startUpload])
+
+  const cancelUpload = React.useCallback((field: PhotoField) => {
+    controllersRef.current[field]?.abort()
+  }, [])
+
+  // Forget a slot entirely, e.g. when its photo is removed
+  const clearUpload = React.useCallback((field: PhotoField) => {
+    controllersRef.current[field]?.abort()
+    delete controllersRef.current[field]
+    delete processingRef.current[field]
+    updateUpload(field, undefined)
+  }, [updateUpload])
+
+  // Exchange two slots' photos without uploading them again
+  const swapUploads = React.useCallback((a: PhotoField, b: PhotoField) => {
+    const controllers = controllersRef.current
+    const controllerA = controllers[a]
+    controllers[a] = controllers[b]
+    controllers[b] = controllerA
+    setUploads((prev) => ({ ...prev, [a]: prev[b], [b]: prev[a] }))
+  }, [])
+
+  // Whether a slot's photo is still being checked, processed or cropped
+  const isPreparing = React.useCallback((field: PhotoField) => !!processingRef.current[field], [])
+
+  // Stop anything still in flight when the form goes away
+  React.useEffect(() => {
+    const controllers = controllersRef.current
+    return () => {
+      Object.values(controllers).forEach((controller) => controller?.abort())
+    }
+  }, [])
+
+  return { uploads, preparePhoto, acceptPhoto, startUpload, cancelUpload, clearUpload, swapUploads, isPreparing }
+}
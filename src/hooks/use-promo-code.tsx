@@ -0,0 +1,12 @@
+import { useMutation } from "@tanstack/react-query"
+
+import { getSubmissionAdapter } from "@/api/client"
+import type { ApplyPromoCodeRequest } from "@/api/types"
+import type { FeeQuote } from "@/utils/feeSchedule"
+
+// Applies or removes a promo code on a submitted application; resolves with the new quote
+export function useApplyPromoCode() {
+  return useMutation<FeeQuote, Error, ApplyPromoCodeRequest>({
+    mutationFn: (request) => getSubmissionAdapter().applyPromoCode(request),
+  })
+}
@@ -0,0 +1,13 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { getSubmissionAdapter } from "@/api/client"
+import type { PaymentReceipt } from "@/api/types"
+
+// Receipts for the payments made towards an application, oldest first
+export function useReceipts(applicationId: string | null) {
+  return useQuery<PaymentReceipt[], Error>({
+    queryKey: ["applications", applicationId, "receipts"],
+    queryFn: () => getSubmissionAdapter().getReceipts(applicationId as string),
+    enabled: !!applicationId,
+  })
+}
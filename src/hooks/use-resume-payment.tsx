@@ -0,0 +1,14 @@
+import { useQuery } from "@tanstack/react-query"
+
+import { getSubmissionAdapter } from "@/api/client"
+import type { SubmissionResult } from "@/api/types"
+
+// The unpaid application a pay link leads to
+export function useResumePayment(applicationId: string | undefined, token: string | null) {
+  return useQuery<SubmissionResult, Error>({
+    queryKey: ["pay-links", applicationId, token],
+    queryFn: () => getSubmissionAdapter().resumePayment({ applicationId: applicationId as string, token: token as string }),
+    enabled: !!applicationId && !!token,
+    retry: false,
+  })
+}
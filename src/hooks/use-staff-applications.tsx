@@ -0,0 +1,97 @@
+import { keepPreviousData, useMutation, useQuery, useQueryClient } from "@tanstack/react-query"
+
+import { getStaffAdapter } from "@/api/client"
+import type {
+  ApplicationDetail,
+  ApplicationListPage,
+  ApplicationListQuery,
+  AssignJudgesRequest,
+  ChangeStatusRequest,
+  RequestChangesRequest,
+  SendMessageRequest,
+  StaffAccount,
+} from "@/api/types"
+import { STAFF_QUERY_KEY } from "@/hooks/use-staff-session"
+
+// One page of applications for the staff list. The previous page stays on screen
+// while the next one loads, so the table doesn't jump on every filter change.
+export function useStaffApplications(query: ApplicationListQuery) {
+  return useQuery<ApplicationListPage, Error>({
+    queryKey: [...STAFF_QUERY_KEY, "applications", query],
+    queryFn: () => getStaffAdapter().listApplications(query),
+    placeholderData: keepPreviousData,
+  })
+}
+
+export function useStaffApplication(applicationId: string | null) {
+  return useQuery<ApplicationDetail, Error>({
+    queryKey: [...STAFF_QUERY_KEY, "applications", applicationId],
+    queryFn: () => getStaffAdapter().getApplicationDetail(applicationId as string),
+    enabled: !!applicationId,
+  })
+}
+
+// A photo from an application's answers; photos don't change once uploaded
+export function useStaffPhoto(uploadId: string | null) {
+  return useQuery<Blob, Error>({
+    queryKey: [...STAFF_QUERY_KEY, "photos", uploadId],
+    queryFn: () => getStaffAdapter().getPhoto(uploadId as string),
+    enabled: !!uploadId,
+    staleTime: Infinity,
+  })
+}
+
+// Moves an application on in its lifecycle; the list is refreshed as it may no longer match its filters
+export function useChangeApplicationStatus() {
+  const queryClient = useQueryClient()
+
+  return useMutation<ApplicationDetail, Error, ChangeStatusRequest>({
+    mutationFn: (request) => getStaffAdapter().changeStatus(request),
+    onSuccess: (detail) => {
+      queryClient.setQueryData([...STAFF_QUERY_KEY, "applications", detail.applicationId], detail)
+      queryClient.invalidateQueries({ queryKey: [...STAFF_QUERY_KEY, "applications"] })
+    },
+  })
+}
+
+export function useSendApplicantMessage() {
+  const queryClient = useQueryClient()
+
+  return useMutation<ApplicationDetail, Error, SendMessageRequest>({
+    mutationFn: (request) => getStaffAdapter().sendMessage(request),
+    onSuccess: (detail) => {
+      queryClient.setQueryData([...STAFF_QUERY_KEY, "applications", detail.applicationId], detail)
+    },
+  })
+}
+
+export function useRequestChanges() {
+  const queryClient = useQueryClient()
+
+  return useMutation<ApplicationDetail, Error, RequestChangesRequest>({
+    mutationFn: (request) => getStaffAdapter().requestChanges(request),
+    onSuccess: (detail) => {
+      queryClient.setQueryData([...STAFF_QUERY_KEY, "applications", detail.applicationId], detail)
+    },
+  })
+}
+
+// The judge accounts; they rarely change during a session
+export function useJudges() {
+  return useQuery<StaffAccount[], Error>({
+    queryKey: [...STAFF_QUERY_KEY, "judges"],
+    queryFn: () => getStaffAdapter().listJudges(),
+    staleTime: 5 * 60 * 1000,
+  })
+}
+
+export function useAssignJudges() {
+  const queryClient = useQueryClient()
+
+  return useMutation<ApplicationDetail, Error, AssignJudgesRequest>({
+    mutationFn: (request) => getStaffAdapter().assignJudges(request),
+    onSuccess: (detail) => {
+      queryClient.setQueryData([...STAFF_QUERY_KEY, "applications", detail.applicationId], detail)
+    },
+  })
+}
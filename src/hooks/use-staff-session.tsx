@@ -0,0 +1,33 @@
+import * as React from "react"
+import { useMutation, useQueryClient } from "@tanstack/react-query"
+
+import { getStaffAdapter } from "@/api/client"
+import { staffSession } from "@/api/sessions"
+import type { StaffSession, StaffSignInRequest } from "@/api/types"
+
+export const STAFF_QUERY_KEY = ["staff"]
+
+// The signed-in staff session, or null once it is signed out or has expired
+export function useStaffSession() {
+  return React.useSyncExternalStore(staffSession.subscribe, staffSession.get)
+}
+
+export function useStaffSignIn() {
+  return useMutation<StaffSession, Error, StaffSignInRequest>({
+    mutationFn: (request) => getStaffAdapter().signIn(request),
+    onSuccess: (session) => staffSession.set(session),
+  })
+}
+
+// Ends the session on the backend, then forgets it and everything loaded with it
+export function useStaffSignOut() {
+  const queryClient = useQueryClient()
+
+  return useMutation<void, Error, void>({
+    mutationFn: () => getStaffAdapter().signOut(),
+    onSettled: () => {
+      staffSession.set(null)
+      queryClient.removeQueries({ queryKey: STAFF_QUERY_KEY })
+    },
+  })
+}
@@ -0,0 +1,31 @@
+import { useMutation } from "@tanstack/react-query"
+
+import { getSubmissionAdapter } from "@/api/client"
+import { isApiError } from "@/api/errors"
+import type { StartApplicationRequest, SubmissionResult } from "@/api/types"
+import { useClientReference } from "@/hooks/use-submit-application"
+
+const MAX_RETRIES = 3
+
+// Opens a draft application so its fee can be paid before the form is filled in.
+// Retried and guarded against double clicks the same way as submissions.
+export function useStartApplication() {
+  const reference = useClientReference()
+  const mutation = useMutation<SubmissionResult, Error, StartApplicationRequest>({
+    mutationFn: (request) => getSubmissionAdapter().startApplication(request),
+    retry: (failureCount, error) => isApiError(error) && error.retryable && failureCount < MAX_RETRIES,
+    retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, 8000),
+    onSettled: (_result, error) => reference.settle(error),
+  })
+
+  const start = (
+    request: Omit<StartApplicationRequest, "clientReference">,
+    options?: Parameters<typeof mutation.mutate>[1]
+  ) => {
+    const clientReference = reference.begin(request)
+    if (!clientReference) return
+    mutation.mutate({ ...request, clientReference }, options)
+  }
+
+  return { ...mutation, start }
+}
@@ -0,0 +1,68 @@
+import { useRef } from "react"
+import { useMutation } from "@tanstack/react-query"
+
+import { getSubmissionAdapter } from "@/api/client"
+import { isApiError } from "@/api/errors"
+import type { ApplicationPayload, SubmissionRequest, SubmissionResult } from "@/api/types"
+
+const MAX_RETRIES = 3
+
+export const createClientReference = (): string => {
+  if (typeof crypto !== "undefined" && "randomUUID" in crypto) {
+    return crypto.randomUUID()
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+// Hands out the client reference of each attempt. A click while an attempt is
+// in flight gets none and should be ignored. After a failure that may not have
+// reached the backend, sending the same payload again reuses the reference, so
+// the backend answers with the first attempt's result instead of taking it twice.
+export function useClientReference() {
+  const inFlight = useRef(false)
+  const attempt = useRef<{ clientReference: string; fingerprint: string } | null>(null)
+
+  const begin = (payload: unknown): string | null => {
+    if (inFlight.current) return null
+    inFlight.current = true
+
+    const fingerprint = JSON.stringify(payload)
+    if (attempt.current?.fingerprint !== fingerprint) {
+      attempt.current = { clientReference: createClientReference(), fingerprint }
+    }
+    return attempt.current.clientReference
+  }
+
+  const settle = (error: Error | null) => {
+    inFlight.current = false
+    if (!error || !isApiError(error) || !error.retryable) {
+      attempt.current = null
+    }
+  }
+
+  return { begin, settle }
+}
+
+// Submits an application through the configured backend. Only network failures
+// are retried; every retry carries the same client reference so the backend can
+// tell it apart from a new submission.
+export function useSubmitApplication() {
+  const reference = useClientReference()
+  const mutation = useMutation<SubmissionResult, Error, SubmissionRequest>({
+    mutationFn: (request) => getSubmissionAdapter().submitApplication(request),
+    retry: (failureCount, error) => isApiError(error) && error.retryable && failureCount < MAX_RETRIES,
+    retryDelay: (attempt) => Math.min(1000 * 2 ** attempt, 8000),
+    onSettled: (_result, error) => reference.settle(error),
+  })
+
+  const submit = (
+    payload: ApplicationPayload & Pick<SubmissionRequest, "applicationId">,
+    options?: Parameters<typeof mutation.mutate>[1]
+  ) => {
+    const clientReference = reference.begin(payload)
+    if (!clientReference) return
+    mutation.mutate({ ...payload, clientReference }, options)
+  }
+
+  return { ...mutation, submit }
+}
@@ -0,0 +1,88 @@
+import React from 'react';
+import { Link, Navigate, NavLink, Outlet } from 'react-router-dom';
+import { LogOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import StaffSignIn from '@/components/StaffSignIn';
+import { useStaffSession, useStaffSignOut } from '@/hooks/use-staff-session';
+import type { StaffRole } from '@/api/types';
+
+interface AdminProps {
+  area?: StaffRole;
+}
+
+const areas: Record<StaffRole, { home: string; title: string; navigation: { to: string; label: string; end: boolean }[] }> = {
+  staff: {
+    home: '/admin',
+    title: 'Staff',
+    navigation: [
+      { to: '/admin', label: 'Applications', end: true },
+      { to: '/admin/transfers', label: 'Bank transfers', end: false },
+    ],
+  },
+  judge: {
+    home: '/judging',
+    title: 'Judging',
+    navigation: [{ to: '/judging', label: 'Assignments', end: true }],
+  },
+};
+
+// The staff area, and the judging area judges use. Every page in them needs a
+// signed-in session; without one the sign-in form is shown in its place, and the
+// page follows once signed in. Accounts are sent to the area of their role.
+const Admin: React.FC<AdminProps> = ({ area = 'staff' }) => {
+  const session = useStaffSession();
+  const signOut = useStaffSignOut();
+  const { home, title, navigation } = areas[area];
+
+  if (!session) {
+    return (
+      <div className="min-h-screen w-full bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30 flex items-center justify-center px-4 py-8">
+        <StaffSignIn />
+      </div>
+    );
+  }
+
+  if (session.account.role !== area) {
+    return <Navigate to={areas[session.account.role].home} replace />;
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30">
+      <header className="border-b border-bloom-accent bg-white/70 backdrop-blur">
+        <div className="w-full max-w-6xl mx-auto px-4 py-3 flex flex-wrap items-center justify-between gap-3">
+          <div className="flex items-center gap-6">
+            <Link to={home} className="text-lg font-light text-bloom-primary">
+              Miss Bloom <span className="font-medium">{title}</span>
+            </Link>
+            <nav className="flex gap-1">
+              {navigation.map(item => (
+                <NavLink
+                  key={item.to}
+                  to={item.to}
+                  end={item.end}
+                  className={({ isActive }) => `rounded-md px-3 py-1.5 text-sm transition-colors ${
+                    isActive ? 'bg-bloom-accent text-bloom-primary font-medium' : 'text-bloom-muted hover:text-bloom-primary'
+                  }`}
+                >
+                  {item.label}
+                </NavLink>
+              ))}
+            </nav>
+          </div>
+          <div className="flex items-center gap-3 text-sm">
+            <span className="text-bloom-muted">{session.account.name}</span>
+            <Button variant="ghost" size="sm" onClick={() => signOut.mutate()} disabled={signOut.isPending}>
+              <LogOut size={14} className="mr-2" />
+              Sign out
+            </Button>
+          </div>
+        </div>
+      </header>
+      <main className="w-full max-w-6xl mx-auto px-4 py-8">
+        <Outlet />
+      </main>
+    </div>
+  );
+};
+
+export default Admin;
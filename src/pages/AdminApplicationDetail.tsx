@@ -0,0 +1,241 @@
+import React from 'react';
+import { Link, useLocation, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Separator } from '@/components/ui/separator';
+import ApplicationAnswers from '@/components/ApplicationAnswers';
+import ChangeRequestSummary from '@/components/ChangeRequestSummary';
+import InstallmentSchedule from '@/components/InstallmentSchedule';
+import JudgeAssignmentForm from '@/components/JudgeAssignmentForm';
+import RequestChangesForm from '@/components/RequestChangesForm';
+import RevisionHistory from '@/components/RevisionHistory';
+import ScoreSummary from '@/components/ScoreSummary';
+import SendMessageForm from '@/components/SendMessageForm';
+import StaffMessages from '@/components/StaffMessages';
+import StatusChangeForm from '@/components/StatusChangeForm';
+import StatusTimeline from '@/components/StatusTimeline';
+import { useStaffApplication } from '@/hooks/use-staff-applications';
+import { paymentStatusLabels } from '@/utils/applicationList';
+import { applicationStatusLabels, isFinalStatus } from '@/utils/applicationStatus';
+import { applicationTypeLabels, formatFeeAmount, formatFeeDate } from '@/utils/feeSchedule';
+
+// One application as staff see it: every answer and photo with its revisions, the
+// judges' scores, its status history with the changes that can be made next,
+// changes asked of the applicant, messages to them and where its fee stands
+const AdminApplicationDetail: React.FC = () => {
+  const { applicationId } = useParams<{ applicationId: string }>();
+  const location = useLocation();
+  const application = useStaffApplication(applicationId ?? null);
+  // Back to the page of the list this application was opened from
+  const listSearch = (location.state as { listSearch?: string } | null)?.listSearch ?? '';
+
+  const backLink = (
+    <Button asChild variant="outline">
+      <Link to={`/admin${listSearch}`}>← All applications</Link>
+    </Button>
+  );
+
+  if (application.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-bloom-muted">
+        <Loader2 size={20} className="mr-2 animate-spin" />
+        Loading application...
+      </div>
+    );
+  }
+
+  if (application.isError) {
+    return (
+      <div className="space-y-6 text-center py-12">
+        <p className="text-sm text-destructive">{application.error.message}</p>
+        {backLink}
+      </div>
+    );
+  }
+
+  const detail = application.data;
+  const format = (amount: number) => formatFeeAmount(amount, detail.fee.currency);
+  const latestRequest = detail.changeRequests[detail.changeRequests.length - 1];
+  const openRequest = latestRequest && !latestRequest.resolvedAt ? latestRequest : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-light text-bloom-primary">{detail.name}</h1>
+          <p className="text-sm text-bloom-muted">
+            <span className="font-mono">{detail.applicationId}</span> · {applicationTypeLabels[detail.type]} · {detail.country}
+            {detail.age !== null && ` · ${detail.age} years old`}
+          </p>
+          <div className="flex gap-2 pt-1">
+            <Badge variant="outline">{applicationStatusLabels[detail.status]}</Badge>
+            <Badge variant="secondary">{paymentStatusLabels[detail.paymentStatus]}</Badge>
+          </div>
+        </div>
+        {backLink}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_20rem] items-start">
+        <div className="space-y-6">
+          <Card className="shadow-lg border-0 neo-shadow">
+            <CardHeader>
+              <CardTitle className="text-lg font-medium">Answers</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {detail.payload ? (
+                <ApplicationAnswers payload={detail.payload} />
+              ) : (
+                <p className="text-sm text-bloom-muted">
+                  The fee for this application is paid first and the applicant has not submitted the form yet.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+
+          {detail.payload && (
+            <Card className="shadow-lg border-0 neo-shadow">
+              <CardHeader>
+                <CardTitle className="text-lg font-medium">Scores</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <ScoreSummary type={detail.type} scores={detail.scores} />
+              </CardContent>
+            </Card>
+          )}
+
+          {detail.payload && (
+            <Card className="shadow-lg border-0 neo-shadow">
+              <CardHeader>
+                <CardTitle className="text-lg font-medium">Revisions</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <RevisionHistory type={detail.type} revisions={detail.revisions} />
+              </CardContent>
+            </Card>
+          )}
+        </div>
+
+        <div className="space-y-6">
+          <Card className="shadow-lg border-0 neo-shadow">
+            <CardHeader>
+              <CardTitle className="text-lg font-medium">Status</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <StatusChangeForm key={detail.status} applicationId={detail.applicationId} status={detail.status} />
+              <Separator />
+              <StatusTimeline history={detail.statusHistory} />
+            </CardContent>
+          </Card>
+
+          {detail.payload && (
+            <Card className="shadow-lg border-0 neo-shadow">
+              <CardHeader>
+                <CardTitle className="text-lg font-medium">Changes</CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-6">
+                {openRequest && (
+                  <>
+                    <ChangeRequestSummary type={detail.type} request={openRequest} />
+                    <Separator />
+                  </>
+                )}
+                {isFinalStatus(detail.status) ? (
+                  <p className="text-sm text-bloom-muted">
+                    This application is {applicationStatusLabels[detail.status].toLowerCase()} and its answers can no longer change.
+                  </p>
+                ) : (
+                  <RequestChangesForm
+                    key={openRequest?.requestId}
+                    applicationId={detail.applicationId}
+                    type={detail.type}
+                    hasOpenRequest={!!openRequest}
+                  />
+                )}
+              </CardContent>
+            </Card>
+          )}
+
+          {detail.payload && (
+            <Card className="shadow-lg border-0 neo-shadow">
+              <CardHeader>
+                <CardTitle className="text-lg font-medium">Judges</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <JudgeAssignmentForm
+                  key={detail.judges.map(judge => judge.email).join()}
+                  applicationId={detail.applicationId}
+                  judges={detail.judges}
+                />
+              </CardContent>
+            </Card>
+          )}
+
+          <Card className="shadow-lg border-0 neo-shadow">
+            <CardHeader>
+              <CardTitle className="text-lg font-medium">Messages</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <SendMessageForm applicationId={detail.applicationId} />
+              <Separator />
+              <StaffMessages messages={detail.messages} emptyText="No messages have been sent to this applicant." />
+            </CardContent>
+          </Card>
+
+          <Card className="shadow-lg border-0 neo-shadow">
+            <CardHeader>
+              <CardTitle className="text-lg font-medium">Fee</CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-3 text-sm">
+              <dl className="space-y-2">
+                <div className="flex justify-between gap-4">
+                  <dt className="text-bloom-muted">Submitted</dt>
+                  <dd>{formatFeeDate(detail.submittedAt.slice(0, 10))}</dd>
+                </div>
+                <div className="flex justify-between gap-4">
+                  <dt className="text-bloom-muted">Season</dt>
+                  <dd>{detail.fee.seasonName}</dd>
+                </div>
+                {detail.promoCode && (
+                  <div className="flex justify-between gap-4">
+                    <dt className="text-bloom-muted">Promo code</dt>
+                    <dd className="font-mono">{detail.promoCode}</dd>
+                  </div>
+                )}
+              </dl>
+              <Separator />
+              {detail.fee.lineItems.map((item, index) => (
+                <div key={index} className="flex justify-between gap-4">
+                  <span>{item.label}</span>
+                  <span>{format(item.amount)}</span>
+                </div>
+              ))}
+              <Separator />
+              <div className="flex justify-between font-medium">
+                <span>Total</span>
+                <span>{format(detail.fee.total)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-bloom-muted">Paid</span>
+                <span>{format(detail.amountPaid)}</span>
+              </div>
+              <div className="flex justify-between font-medium">
+                <span>Balance</span>
+                <span>{format(detail.balance)}</span>
+              </div>
+              {detail.paymentSchedule && <InstallmentSchedule schedule={detail.paymentSchedule} />}
+              {detail.amountPaid > 0 && (
+                <Button asChild variant="outline" size="sm" className="w-full">
+                  <Link to={`/receipts/${detail.applicationId}`}>View receipts</Link>
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default AdminApplicationDetail;
@@ -0,0 +1,205 @@
+import React, { useCallback } from 'react';
+import { useLocation, useNavigate, useSearchParams } from 'react-router-dom';
+import { ArrowDown, ArrowUp, ArrowUpDown, Inbox, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import {
+  Pagination,
+  PaginationContent,
+  PaginationEllipsis,
+  PaginationItem,
+  PaginationLink,
+  PaginationNext,
+  PaginationPrevious,
+} from '@/components/ui/pagination';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import ApplicationFilters from '@/components/ApplicationFilters';
+import { useStaffApplications } from '@/hooks/use-staff-applications';
+import {
+  getPageNumbers,
+  PAGE_SIZE_OPTIONS,
+  parseListQuery,
+  paymentStatusLabels,
+  toListSearchParams,
+} from '@/utils/applicationList';
+import { applicationStatusLabels } from '@/utils/applicationStatus';
+import { applicationTypeLabels, formatFeeDate } from '@/utils/feeSchedule';
+import { formatScore } from '@/utils/judging';
+import type { ApplicationListQuery, ApplicationSortField } from '@/api/types';
+
+const columns: { field: ApplicationSortField | null; label: string; className?: string }[] = [
+  { field: 'name', label: 'Applicant' },
+  { field: null, label: 'Type' },
+  { field: 'country', label: 'Country' },
+  { field: 'age', label: 'Age', className: 'text-right' },
+  { field: 'submittedAt', label: 'Submitted' },
+  { field: 'status', label: 'Status' },
+  { field: 'paymentStatus', label: 'Payment' },
+  { field: 'score', label: 'Score', className: 'text-right' },
+];
+
+// Staff list of participant and director applications. The query lives in the
+// address, so going back from an application returns to the same page of results.
+const AdminApplications: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const query = parseListQuery(searchParams);
+  const applications = useStaffApplications(query);
+  const navigate = useNavigate();
+  const location = useLocation();
+
+  // Any change other than paging starts again from the first page
+  const updateQuery = useCallback((changes: Partial<ApplicationListQuery>) => {
+    setSearchParams(current => toListSearchParams({ ...parseListQuery(current), page: 1, ...changes }));
+  }, [setSearchParams]);
+
+  const pageHref = (page: number) => `?${toListSearchParams({ ...query, page })}`;
+
+  const goToPage = (page: number) => (e: React.MouseEvent) => {
+    e.preventDefault();
+    updateQuery({ page });
+  };
+
+  const sortBy = (field: ApplicationSortField) => {
+    const sortDirection = query.sortBy === field && query.sortDirection === 'asc' ? 'desc' : 'asc';
+    updateQuery({ sortBy: field, sortDirection });
+  };
+
+  const total = applications.data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / query.pageSize));
+  const first = (query.page - 1) * query.pageSize + 1;
+  const last = Math.min(query.page * query.pageSize, total);
+
+  return (
+    <div className="space-y-6">
+      <h1 className="text-2xl font-light text-bloom-primary flex items-center gap-2">
+        <Inbox size={22} className="text-bloom-gold" />
+        <span className="font-medium">Applications</span>
+      </h1>
+
+      <Card className="shadow-lg border-0 neo-shadow">
+        <CardContent className="pt-6 space-y-4">
+          <ApplicationFilters query={query} countries={applications.data?.countries ?? []} onChange={updateQuery} />
+
+          {applications.isLoading ? (
+            <div className="flex items-center justify-center py-12 text-bloom-muted">
+              <Loader2 size={20} className="mr-2 animate-spin" />
+              Loading applications...
+            </div>
+          ) : applications.isError ? (
+            <p className="text-sm text-destructive text-center py-12">{applications.error.message}</p>
+          ) : total === 0 ? (
+            <p className="text-sm text-bloom-muted text-center py-12">No applications match these filters.</p>
+          ) : (
+            <div className={applications.isPlaceholderData ? 'opacity-60 transition-opacity' : 'transition-opacity'}>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Application</TableHead>
+                    {columns.map(column => (
+                      <TableHead key={column.label} className={column.className}>
+                        {column.field ? (
+                          <button
+                            type="button"
+                            onClick={() => sortBy(column.field)}
+                            className="inline-flex items-center gap-1 hover:text-bloom-primary"
+                          >
+                            {column.label}
+                            {query.sortBy !== column.field ? (
+                              <ArrowUpDown size={12} className="opacity-50" />
+                            ) : query.sortDirection === 'asc' ? (
+                              <ArrowUp size={12} />
+                            ) : (
+                              <ArrowDown size={12} />
+                            )}
+                          </button>
+                        ) : column.label}
+                      </TableHead>
+                    ))}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {applications.data.applications.map(application => (
+                    <TableRow
+                      key={application.applicationId}
+                      onClick={() => navigate(`applications/${application.applicationId}`, { state: { listSearch: location.search } })}
+                      className="cursor-pointer"
+                    >
+                      <TableCell className="font-mono text-xs">{application.applicationId}</TableCell>
+                      <TableCell>
+                        <p className="font-medium">{application.name}</p>
+                        <p className="text-xs text-bloom-muted">{application.email}</p>
+                      </TableCell>
+                      <TableCell>{applicationTypeLabels[application.type]}</TableCell>
+                      <TableCell>{application.country}</TableCell>
+                      <TableCell className="text-right">{application.age ?? '—'}</TableCell>
+                      <TableCell>{formatFeeDate(application.submittedAt.slice(0, 10))}</TableCell>
+                      <TableCell>
+                        <Badge variant="outline">{applicationStatusLabels[application.status]}</Badge>
+                      </TableCell>
+                      <TableCell>{paymentStatusLabels[application.paymentStatus]}</TableCell>
+                      <TableCell className="text-right">{formatScore(application.score)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          {total > 0 && (
+            <div className="flex flex-wrap items-center justify-between gap-3 text-sm text-bloom-muted">
+              <div className="flex items-center gap-2">
+                <span>Showing {first}–{last} of {total}</span>
+                <Select value={String(query.pageSize)} onValueChange={(pageSize) => updateQuery({ pageSize: Number(pageSize) })}>
+                  <SelectTrigger className="h-8 w-auto gap-1 text-xs" aria-label="Applications per page">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PAGE_SIZE_OPTIONS.map(size => (
+                      <SelectItem key={size} value={String(size)} className="text-xs">{size} per page</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {pageCount > 1 && (
+                <Pagination className="mx-0 w-auto">
+                  <PaginationContent>
+                    <PaginationItem>
+                      <PaginationPrevious
+                        href={pageHref(Math.max(1, query.page - 1))}
+                        onClick={goToPage(Math.max(1, query.page - 1))}
+                        aria-disabled={query.page === 1}
+                        className={query.page === 1 ? 'pointer-events-none opacity-50' : ''}
+                      />
+                    </PaginationItem>
+                    {getPageNumbers(query.page, pageCount).map((page, index) => (
+                      <PaginationItem key={page ?? `gap-${index}`}>
+                        {page === null ? (
+                          <PaginationEllipsis />
+                        ) : (
+                          <PaginationLink href={pageHref(page)} onClick={goToPage(page)} isActive={page === query.page}>
+                            {page}
+                          </PaginationLink>
+                        )}
+                      </PaginationItem>
+                    ))}
+                    <PaginationItem>
+                      <PaginationNext
+                        href={pageHref(Math.min(pageCount, query.page + 1))}
+                        onClick={goToPage(Math.min(pageCount, query.page + 1))}
+                        aria-disabled={query.page === pageCount}
+                        className={query.page === pageCount ? 'pointer-events-none opacity-50' : ''}
+                      />
+                    </PaginationItem>
+                  </PaginationContent>
+                </Pagination>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default AdminApplications;
@@ -0,0 +1,84 @@
+import React, { useCallback, useMemo } from 'react';
+import { Link, useNavigate, useParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ApplicantSignIn from '@/components/ApplicantSignIn';
+import ApplicationForm from '@/components/ApplicationForm';
+import DirectorApplicationForm from '@/components/DirectorApplicationForm';
+import { useApplicantAnswers, useApplicantApplications, useApplicantSession } from '@/hooks/use-applicant-portal';
+import { FormRevision, toAnswerValues } from '@/utils/changeRequests';
+
+// Where applicants make the changes staff asked for: the application form, with
+// only the sections the change request reopens
+const ApplicantChanges: React.FC = () => {
+  const { applicationId, section } = useParams<{ applicationId: string; section?: string }>();
+  const navigate = useNavigate();
+  const session = useApplicantSession();
+  const applications = useApplicantApplications(session);
+  const answers = useApplicantAnswers(applicationId ?? null, session);
+  const application = applications.data?.find(candidate => candidate.applicationId === applicationId);
+
+  const revision = useMemo<FormRevision | null>(() => {
+    if (!application?.changeRequest || !answers.data) return null;
+    return { applicationId: application.applicationId, request: application.changeRequest, answers: toAnswerValues(answers.data) };
+  }, [application, answers.data]);
+
+  const handleSectionChange = useCallback((nextSection: string, options?: { replace?: boolean }) => {
+    navigate(`/status/changes/${encodeURIComponent(applicationId)}/${nextSection}`, options);
+  }, [navigate, applicationId]);
+
+  const handleChangesSent = () => navigate('/status');
+
+  let content: React.ReactNode;
+  if (!session) {
+    content = <ApplicantSignIn />;
+  } else if (applications.isLoading || answers.isLoading) {
+    content = (
+      <div className="flex items-center justify-center py-12 text-bloom-muted">
+        <Loader2 size={20} className="mr-2 animate-spin" />
+        Loading your application...
+      </div>
+    );
+  } else if (applications.isError || answers.isError) {
+    content = <p className="text-sm text-destructive text-center py-12">{(applications.error ?? answers.error).message}</p>;
+  } else if (!revision) {
+    content = (
+      <p className="text-sm text-bloom-muted text-center py-12">
+        The team hasn't asked for any changes to this application.
+      </p>
+    );
+  } else if (application.type === 'participant') {
+    content = (
+      <ApplicationForm
+        key={revision.request.requestId}
+        section={section}
+        onSectionChange={handleSectionChange}
+        revision={revision}
+        onChangesSent={handleChangesSent}
+      />
+    );
+  } else {
+    content = (
+      <DirectorApplicationForm
+        key={revision.request.requestId}
+        section={section}
+        onSectionChange={handleSectionChange}
+        revision={revision}
+        onChangesSent={handleChangesSent}
+      />
+    );
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30 overflow-x-hidden">
+      <div className="w-full max-w-6xl mx-auto px-4 py-8">
+        <Button asChild variant="outline" className="mb-4">
+          <Link to="/status">← Back to your application</Link>
+        </Button>
+        {content}
+      </div>
+    </div>
+  );
+};
+
+export default ApplicantChanges;
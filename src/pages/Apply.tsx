@@ -0,0 +1,244 @@
+import React, { useState, useEffect, useCallback, useReducer } from 'react';
+import { Navigate, useNavigate, useParams } from 'react-router-dom';
+import PaymentForm from '@/components/PaymentForm';
+import ApplicationForm from '@/components/ApplicationForm';
+import DirectorApplicationForm from '@/components/DirectorApplicationForm';
+import ApplicationConfirmation from '@/components/ApplicationConfirmation';
+import ApplicantRegistration from '@/components/ApplicantRegistration';
+import PayLaterLink from '@/components/PayLaterLink';
+import NotFound from './NotFound';
+import { toast } from 'sonner';
+import { Toaster } from "@/components/ui/sonner";
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { loadDraft, ParticipantDraft, PARTICIPANT_DRAFT_KEY } from '@/utils/draftStorage';
+import {
+  ApplicationType,
+  FlowStep,
+  isApplicationType,
+  applicationPath,
+  stepPath,
+  getNextFlowStep,
+  getFlowProgress,
+  setFlowProgress,
+  getFlowApplicationId,
+  setFlowApplicationId,
+  getFlowFeeQuote,
+  setFlowFeeQuote,
+  getFlowPaymentSchedule,
+  setFlowPaymentSchedule,
+  getFlowPendingTransfer,
+  setFlowPendingTransfer,
+  getFlowPayLink,
+  setFlowPayLink,
+  getFlowRegistration,
+  setFlowRegistration,
+} from '@/utils/applicationFlow';
+import type { ApplicantRegistration as Registration, PaymentIntent, SubmissionResult } from '@/api/types';
+
+interface ApplyProps {
+  step: FlowStep;
+}
+
+const Apply: React.FC<ApplyProps> = ({ step }) => {
+  const { type, section } = useParams<{ type: string; section?: string }>();
+  const navigate = useNavigate();
+  const [transition, setTransition] = useState(false);
+  const [participantDraft, setParticipantDraft] = useState<ParticipantDraft | undefined>(undefined);
+  const [isLoadingDraft, setIsLoadingDraft] = useState(type === 'participant' && step === 'application');
+  // The flow is kept in sessionStorage; re-render when it changes without a route change
+  const [, refresh] = useReducer((count: number) => count + 1, 0);
+
+  // Participant forms pick up where the applicant left off, including after a reload
+  useEffect(() => {
+    if (type !== 'participant' || step !== 'application') return;
+
+    let cancelled = false;
+    loadDraft<ParticipantDraft>(PARTICIPANT_DRAFT_KEY)
+      .then(draft => {
+        if (!cancelled) setParticipantDraft(draft?.data);
+      })
+      .catch(error => {
+        console.error("Failed to load application draft:", error);
+      })
+      .finally(() => {
+        if (!cancelled) setIsLoadingDraft(false);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [type, step]);
+
+  // Fade out, change route, fade back in
+  const goTo = useCallback((path: string, message?: string) => {
+    setTransition(true);
+    setTimeout(() => {
+      navigate(path);
+      setTransition(false);
+      if (message) toast.success(message);
+    }, 300);
+  }, [navigate]);
+
+  const handleSectionChange = useCallback((nextSection: string, options?: { replace?: boolean }) => {
+    navigate(applicationPath(type as ApplicationType, nextSection), options);
+  }, [navigate, type]);
+
+  if (!isApplicationType(type)) {
+    return <NotFound />;
+  }
+
+  // Only the current step of the flow can be shown; the order of the steps depends
+  // on when this season's fee is paid (see getPaymentTiming)
+  const progress = getFlowProgress(type);
+  if (step !== progress) {
+    return <Navigate to={stepPath(type, progress)} replace />;
+  }
+
+  const applicationId = getFlowApplicationId(type);
+  const payLink = getFlowPayLink(type);
+
+  const advance = (from: FlowStep, message: string) => {
+    const next = getNextFlowStep(type, from);
+    setFlowProgress(type, next);
+    goTo(stepPath(type, next), message);
+  };
+
+  // Paying first: the fee is quoted from these details, then paid before the form is filled in
+  const handleRegistered = (result: SubmissionResult, registration: Registration) => {
+    setFlowApplicationId(type, result.applicationId);
+    setFlowFeeQuote(type, result.fee);
+    setFlowPaymentSchedule(type, result.paymentSchedule);
+    setFlowPayLink(type, result.payLink);
+    setFlowRegistration(type, registration);
+    refresh();
+  };
+
+  const handleApplicationSuccess = (result: SubmissionResult) => {
+    setFlowApplicationId(type, result.applicationId);
+    setFlowFeeQuote(type, result.fee);
+    setFlowPaymentSchedule(type, result.paymentSchedule);
+    setFlowPayLink(type, result.payLink);
+
+    let message = "Your application is now complete.";
+    if (getNextFlowStep(type, 'application') === 'payment') {
+      message = "Application received! Please complete payment to finalize your submission.";
+    } else if (result.payLink) {
+      message = "Application received! You can pay the application fee from your pay link.";
+    } else if (result.status !== 'submitted') {
+      message = "Application received! We'll confirm it once your payment arrives.";
+    }
+    advance('application', message);
+  };
+
+  // Only after payment is successful can the applicant move on
+  const handlePaymentSuccess = () => {
+    setFlowPayLink(type, null);
+    advance('payment', getNextFlowStep(type, 'payment') === 'application'
+      ? "Payment successful! Now fill in your application."
+      : "Payment successful! Your application is now complete.");
+  };
+
+  // Bank transfers are paid outside the site, so the applicant moves on while the money is on its way
+  const handleTransferPending = (intent: PaymentIntent) => {
+    setFlowPendingTransfer(type, intent);
+    setFlowPayLink(type, null);
+    advance('payment', getNextFlowStep(type, 'payment') === 'application'
+      ? "Thanks! Fill in your application while your transfer is on its way."
+      : "Application received! We'll confirm your payment once your transfer arrives.");
+  };
+
+  // Handle going back to selection screen
+  const handleBackToSelection = () => {
+    goTo('/');
+  };
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30 overflow-x-hidden">
+      <Toaster position="top-center" />
+      <div className="w-full max-w-6xl mx-auto px-4 py-8">
+        <div className={`transition-all duration-300 ${transition ? 'opacity-0 scale-95' : 'opacity-100 scale-100'}`}>
+          {step === 'application' && (
+            <div className="animate-slide-up">
+              <Button
+                onClick={handleBackToSelection}
+                variant="outline"
+                className="mb-4"
+              >
+                ← Back to selection
+              </Button>
+              {type === 'participant' && (
+                isLoadingDraft ? (
+                  <div className="flex items-center justify-center py-12 text-bloom-muted">
+                    <Loader2 size={20} className="mr-2 animate-spin" />
+                    Loading your application...
+                  </div>
+                ) : (
+                  <ApplicationForm
+                    onSubmitSuccess={handleApplicationSuccess}
+                    section={section}
+                    onSectionChange={handleSectionChange}
+                    initialDraft={participantDraft}
+                    applicationId={applicationId}
+                    registration={getFlowRegistration(type)}
+                  />
+                )
+              )}
+              {type === 'director' && (
+                <DirectorApplicationForm
+                  onSubmitSuccess={handleApplicationSuccess}
+                  section={section}
+                  onSectionChange={handleSectionChange}
+                  applicationId={applicationId}
+                  registration={getFlowRegistration(type)}
+                />
+              )}
+            </div>
+          )}
+
+          {step === 'payment' && (
+            <div className="animate-slide-up">
+              {applicationId ? (
+                <>
+                  <PaymentForm
+                    applicationId={applicationId}
+                    fee={getFlowFeeQuote(type)}
+                    onFeeChange={(fee) => setFlowFeeQuote(type, fee)}
+                    paymentSchedule={getFlowPaymentSchedule(type)}
+                    onScheduleChange={(schedule) => setFlowPaymentSchedule(type, schedule)}
+                    onPaymentSuccess={handlePaymentSuccess}
+                    onTransferPending={handleTransferPending}
+                    onBack={handleBackToSelection}
+                  />
+                  {payLink && (
+                    <div className="w-full max-w-md mx-auto mt-6">
+                      <PayLaterLink payLink={payLink}>
+                        Not ready to pay? Your {getNextFlowStep(type, 'payment') === 'application' ? 'details are' : 'application is'} saved.
+                        Keep this link to come back and pay later.
+                      </PayLaterLink>
+                    </div>
+                  )}
+                </>
+              ) : (
+                <ApplicantRegistration type={type} onRegistered={handleRegistered} />
+              )}
+            </div>
+          )}
+
+          {step === 'success' && (
+            <div className="animate-slide-up">
+              <ApplicationConfirmation
+                type={type}
+                applicationId={applicationId}
+                pendingTransfer={getFlowPendingTransfer(type)}
+                payLink={payLink}
+              />
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default Apply;
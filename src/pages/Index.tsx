@@ -1,152 +1,186 @@
-import React, { useState } from 'react';
-import PaymentForm from '@/components/PaymentForm';
-import ApplicationForm from '@/components/ApplicationForm';
-import DirectorApplicationForm from '@/components/DirectorApplicationForm'
-import FormSuccess from '@/components/FormSuccess';
+import React, { useState, useEffect } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { toast } from 'sonner';
 import { Toaster } from "@/components/ui/sonner";
 import { Button } from '@/components/ui/button';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { History, Trash2 } from 'lucide-react';
+import { loadDraft, deleteDraft, ParticipantDraft, StoredDraft, PARTICIPANT_DRAFT_KEY } from '@/utils/draftStorage';
+import { ApplicationType, applicationPath, startFlow, stepPath } from '@/utils/applicationFlow';
 
 const Index = () => {
-  // Track application type and progress
-  const [applicationType, setApplicationType] = useState<'none' | 'participant' | 'director'>('none');
-  const [step, setStep] = useState<'select' | 'application' | 'payment' | 'success'>('select');
+  const navigate = useNavigate();
   const [transition, setTransition] = useState(false);
+  const [savedDraft, setSavedDraft] = useState<StoredDraft<ParticipantDraft> | null>(null);
+  const [confirmNewStart, setConfirmNewStart] = useState(false);
 
-  // Handle application form completion - now goes to payment
-  const handleApplicationSuccess = () => {
+  // Look for an autosaved participant draft
+  useEffect(() => {
+    let cancelled = false;
+    loadDraft<ParticipantDraft>(PARTICIPANT_DRAFT_KEY)
+      .then(draft => {
+        if (!cancelled) setSavedDraft(draft);
+      })
+      .catch(error => {
+        console.error("Failed to load application draft:", error);
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  // Handle selecting application type; the first step depends on when this season's fee is paid
+  const startApplication = (type: ApplicationType) => {
+    const firstStep = startFlow(type);
     setTransition(true);
     setTimeout(() => {
-      setStep('payment');
-      setTransition(false);
-      toast.success("Application received! Please complete payment to finalize your submission.");
+      navigate(stepPath(type, firstStep));
+      toast.success(`${type === 'participant' ? 'Participant' : 'National Director'} application selected`);
     }, 300);
   };
 
-  // Handle payment form completion - only after payment is successful can the user see the success screen
-  const handlePaymentSuccess = () => {
-    setTransition(true);
-    setTimeout(() => {
-      setStep('success');
-      setTransition(false);
-      toast.success("Payment successful! Your application is now complete.");
-    }, 300);
+  // The application form restores the saved draft, so starting afresh discards it
+  // first; with a draft saved, the applicant is asked before it is lost
+  const handleSelectType = (type: ApplicationType) => {
+    if (type === 'participant' && savedDraft) {
+      setConfirmNewStart(true);
+      return;
+    }
+    startApplication(type);
   };
 
-  // Handle going back to application from payment
-  const handleBackToApplication = () => {
-    setTransition(true);
-    setTimeout(() => {
-      setStep('application');
-      setTransition(false);
-    }, 300);
+  const handleStartOver = () => {
+    setConfirmNewStart(false);
+    deleteDraft(PARTICIPANT_DRAFT_KEY)
+      .then(() => {
+        setSavedDraft(null);
+        startApplication('participant');
+      })
+      .catch(error => {
+        console.error("Failed to delete application draft:", error);
+        toast.error("Could not discard your saved application. Please try again.");
+      });
   };
-  
-  // Handle going back to selection screen
-  const handleBackToSelection = () => {
+
+  // Handle resuming the autosaved participant application
+  const handleResumeDraft = () => {
+    if (!savedDraft) return;
+
+    const firstStep = startFlow('participant');
     setTransition(true);
     setTimeout(() => {
-      setStep('select');
-      setApplicationType('none');
-      setTransition(false);
+      navigate(firstStep === 'application'
+        ? applicationPath('participant', savedDraft.data.currentSection)
+        : stepPath('participant', firstStep));
+      toast.success("Welcome back! Your saved application has been restored.");
     }, 300);
   };
 
-  // Handle selecting application type
-  const handleSelectType = (type: 'participant' | 'director') => {
-    setApplicationType(type);
-    setTransition(true);
-    setTimeout(() => {
-      setStep('application');
-      setTransition(false);
-      toast.success(`${type === 'participant' ? 'Participant' : 'National Director'} application selected`);
-    }, 300);
+  // Handle discarding the autosaved participant application
+  const handleDiscardDraft = () => {
+    deleteDraft(PARTICIPANT_DRAFT_KEY)
+      .then(() => {
+        setSavedDraft(null);
+        toast.success("Saved application discarded");
+      })
+      .catch(error => {
+        console.error("Failed to delete application draft:", error);
+        toast.error("Could not discard your saved application. Please try again.");
+      });
   };
 
   return (
     <div className="min-h-screen w-full bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30 overflow-x-hidden">
       <Toaster position="top-center" />
+      <AlertDialog open={confirmNewStart} onOpenChange={setConfirmNewStart}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Start a new application?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Your unfinished participant application will be discarded. Choose Resume instead to carry on with it.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep my draft</AlertDialogCancel>
+            <AlertDialogAction onClick={handleStartOver}>Discard and start again</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
       <div className="w-full max-w-6xl mx-auto px-4 py-8">
         <div className={`transition-all duration-300 ${transition ? 'opacity-0 scale-95' : 'opacity-100 scale-100'}`}>
-          {step === 'select' && (
-            <div className="animate-slide-up">
-              <div className="text-center mb-8">
-                <h1 className="text-3xl md:text-4xl font-bold text-bloom-primary mb-4">Welcome to Miss Bloom Global</h1>
-                <p className="text-bloom-muted max-w-2xl mx-auto">Please select the application type you would like to complete.</p>
-              </div>
-              
-              <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
-                <div className="bg-white rounded-xl shadow-md p-6 hover:shadow-lg transition-all border border-gray-100">
-                  <h2 className="text-xl font-semibold mb-3 text-bloom-primary">Participant Application</h2>
-                  <p className="text-bloom-muted mb-6">Apply to be a contestant in the Miss Bloom Global pageant.</p>
-                  <Button 
-                    onClick={() => handleSelectType('participant')}
-                    className="w-full bg-bloom-gold text-bloom-primary hover:bg-bloom-gold/80"
+          <div className="animate-slide-up">
+            <div className="text-center mb-8">
+              <h1 className="text-3xl md:text-4xl font-bold text-bloom-primary mb-4">Welcome to Miss Bloom Global</h1>
+              <p className="text-bloom-muted max-w-2xl mx-auto">Please select the application type you would like to complete.</p>
+            </div>
+            
+            {savedDraft && (
+              <div className="max-w-4xl mx-auto mb-8 bg-white rounded-xl shadow-md p-6 border border-bloom-gold/40 flex flex-col md:flex-row md:items-center gap-4">
+                <div className="flex items-start gap-3 flex-1">
+                  <div className="bg-bloom-gold/10 rounded-full p-2 text-bloom-gold">
+                    <History size={20} />
+                  </div>
+                  <div>
+                    <h2 className="font-semibold text-bloom-primary">Resume your application</h2>
+                    <p className="text-sm text-bloom-muted">
+                      You have an unfinished participant application
+                      {savedDraft.data.formData.fullName ? ` for ${savedDraft.data.formData.fullName}` : ''}, last saved {new Date(savedDraft.savedAt).toLocaleString()}.
+                    </p>
+                  </div>
+                </div>
+                <div className="flex gap-2">
+                  <Button
+                    onClick={handleDiscardDraft}
+                    variant="outline"
+                    className="flex items-center"
                   >
-                    Apply as Participant
+                    <Trash2 size={16} className="mr-1" />
+                    Discard draft
                   </Button>
-                </div>
-                
-                <div className="bg-white rounded-xl shadow-md p-6 hover:shadow-lg transition-all border border-gray-100">
-                  <h2 className="text-xl font-semibold mb-3 text-bloom-primary">National Director Application</h2>
-                  <p className="text-bloom-muted mb-6">Apply to become a National Director for Miss Bloom Global.</p>
-                  <Button 
-                    onClick={() => handleSelectType('director')}
-                    className="w-full bg-bloom-primary text-white hover:bg-bloom-primary/90"
+                  <Button
+                    onClick={handleResumeDraft}
+                    className="bg-bloom-gold text-bloom-primary hover:bg-bloom-gold/80"
                   >
-                    Apply as Director
+                    Resume
                   </Button>
                 </div>
               </div>
+            )}
+            
+            <div className="grid md:grid-cols-2 gap-8 max-w-4xl mx-auto">
+              <div className="bg-white rounded-xl shadow-md p-6 hover:shadow-lg transition-all border border-gray-100">
+                <h2 className="text-xl font-semibold mb-3 text-bloom-primary">Participant Application</h2>
+                <p className="text-bloom-muted mb-6">Apply to be a contestant in the Miss Bloom Global pageant.</p>
+                <Button 
+                  onClick={() => handleSelectType('participant')}
+                  className="w-full bg-bloom-gold text-bloom-primary hover:bg-bloom-gold/80"
+                >
+                  Apply as Participant
+                </Button>
+              </div>
+              
+              <div className="bg-white rounded-xl shadow-md p-6 hover:shadow-lg transition-all border border-gray-100">
+                <h2 className="text-xl font-semibold mb-3 text-bloom-primary">National Director Application</h2>
+                <p className="text-bloom-muted mb-6">Apply to become a National Director for Miss Bloom Global.</p>
+                <Button 
+                  onClick={() => handleSelectType('director')}
+                  className="w-full bg-bloom-primary text-white hover:bg-bloom-primary/90"
+                >
+                  Apply as Director
+                </Button>
+              </div>
             </div>
-          )}
-          
-          {step === 'application' && applicationType === 'participant' && (
-            <div className="animate-slide-up">
-              <Button 
-                onClick={handleBackToSelection}
-                variant="outline"
-                className="mb-4"
-              >
-                ← Back to selection
-              </Button>
-              <ApplicationForm 
-                onSubmitSuccess={handleApplicationSuccess}
-                onBack={handleBackToApplication}
-              />
-            </div>
-          )}
-          
-          {step === 'application' && applicationType === 'director' && (
-            <div className="animate-slide-up">
-              <Button 
-                onClick={handleBackToSelection}
-                variant="outline"
-                className="mb-4"
-              >
-                ← Back to selection
-              </Button>
-              <DirectorApplicationForm
-                onSubmitSuccess={handleApplicationSuccess}
-                onBack={handleBackToApplication}
-              />
-            </div>
-          )}
-          
-          {step === 'payment' && (
-            <div className="animate-slide-up">
-              <PaymentForm 
-                onPaymentSuccess={handlePaymentSuccess} 
-                onBack={handleBackToApplication}
-              />
-            </div>
-          )}
-          
-          {step === 'success' && (
-            <div className="animate-slide-up">
-              <FormSuccess />
-            </div>
-          )}
+          </div>
         </div>
       </div>
     </div>
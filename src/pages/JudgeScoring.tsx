@@ -0,0 +1,92 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { EyeOff, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import ApplicationAnswers from '@/components/ApplicationAnswers';
+import ScoreSheetForm from '@/components/ScoreSheetForm';
+import { useJudgingApplication } from '@/hooks/use-judging';
+import { applicationTypeLabels } from '@/utils/feeSchedule';
+import { getBlindFields } from '@/utils/judging';
+
+// One assigned application as a judge sees it: the answers, without who made them
+// in blind mode, beside the rubric to score it against
+const JudgeScoring: React.FC = () => {
+  const { applicationId } = useParams<{ applicationId: string }>();
+  const application = useJudgingApplication(applicationId ?? null);
+
+  const backLink = (
+    <Button asChild variant="outline">
+      <Link to="/judging">← All assignments</Link>
+    </Button>
+  );
+
+  if (application.isLoading) {
+    return (
+      <div className="flex items-center justify-center py-12 text-bloom-muted">
+        <Loader2 size={20} className="mr-2 animate-spin" />
+        Loading application...
+      </div>
+    );
+  }
+
+  if (application.isError) {
+    return (
+      <div className="space-y-6 text-center py-12">
+        <p className="text-sm text-destructive">{application.error.message}</p>
+        {backLink}
+      </div>
+    );
+  }
+
+  const detail = application.data;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex flex-wrap items-start justify-between gap-4">
+        <div className="space-y-1">
+          <h1 className="text-2xl font-light text-bloom-primary">{detail.name ?? `Application ${detail.applicationId}`}</h1>
+          <p className="text-sm text-bloom-muted">
+            <span className="font-mono">{detail.applicationId}</span> · {applicationTypeLabels[detail.type]} · {detail.country}
+          </p>
+          {detail.blind && (
+            <div className="flex gap-2 pt-1">
+              <Badge variant="secondary" className="gap-1">
+                <EyeOff size={12} />
+                Blind scoring
+              </Badge>
+            </div>
+          )}
+        </div>
+        {backLink}
+      </div>
+
+      <div className="grid gap-6 lg:grid-cols-[1fr_22rem] items-start">
+        <Card className="shadow-lg border-0 neo-shadow">
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">Answers</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ApplicationAnswers payload={detail.payload} hiddenFields={detail.blind ? getBlindFields(detail.type) : []} />
+          </CardContent>
+        </Card>
+
+        <Card className="shadow-lg border-0 neo-shadow lg:sticky lg:top-4">
+          <CardHeader>
+            <CardTitle className="text-lg font-medium">Your scores</CardTitle>
+            <CardDescription>
+              Score each criterion from 1 to 10.
+              {detail.blind && " The applicant's name, email address and photos are hidden so that only their answers count."}
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <ScoreSheetForm key={detail.sheet?.submittedAt} application={detail} />
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default JudgeScoring;
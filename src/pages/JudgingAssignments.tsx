@@ -0,0 +1,78 @@
+import React from 'react';
+import { useNavigate } from 'react-router-dom';
+import { Inbox, Loader2 } from 'lucide-react';
+import { Badge } from '@/components/ui/badge';
+import { Card, CardContent } from '@/components/ui/card';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useJudgingAssignments } from '@/hooks/use-judging';
+import { formatStatusTime } from '@/utils/applicationStatus';
+import { applicationTypeLabels } from '@/utils/feeSchedule';
+
+// The applications a judge has been asked to score, the ones still to score first
+const JudgingAssignments: React.FC = () => {
+  const navigate = useNavigate();
+  const assignments = useJudgingAssignments();
+  const remaining = assignments.data?.filter(assignment => !assignment.scoredAt).length ?? 0;
+
+  return (
+    <div className="space-y-6">
+      <div className="space-y-1">
+        <h1 className="text-2xl font-light text-bloom-primary">Assignments</h1>
+        {assignments.data && assignments.data.length > 0 && (
+          <p className="text-sm text-bloom-muted">
+            {remaining === 0 ? 'You have scored every application assigned to you.' : `${remaining} of ${assignments.data.length} still to score.`}
+          </p>
+        )}
+      </div>
+
+      <Card className="shadow-lg border-0 neo-shadow">
+        <CardContent className="p-0">
+          {assignments.isLoading ? (
+            <div className="flex items-center justify-center py-12 text-bloom-muted">
+              <Loader2 size={20} className="mr-2 animate-spin" />
+              Loading assignments...
+            </div>
+          ) : assignments.isError ? (
+            <p className="text-sm text-destructive text-center py-12">{assignments.error.message}</p>
+          ) : assignments.data.length === 0 ? (
+            <div className="flex flex-col items-center gap-2 py-12 text-bloom-muted">
+              <Inbox size={28} />
+              <p className="text-sm">No applications have been assigned to you yet.</p>
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Application</TableHead>
+                  <TableHead>Applicant</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Country</TableHead>
+                  <TableHead>Scored</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {assignments.data.map(assignment => (
+                  <TableRow
+                    key={assignment.applicationId}
+                    onClick={() => navigate(`/judging/${assignment.applicationId}`)}
+                    className="cursor-pointer"
+                  >
+                    <TableCell className="font-mono text-xs">{assignment.applicationId}</TableCell>
+                    <TableCell>{assignment.name ?? <span className="text-bloom-muted italic">Hidden</span>}</TableCell>
+                    <TableCell>{applicationTypeLabels[assignment.type]}</TableCell>
+                    <TableCell>{assignment.country}</TableCell>
+                    <TableCell>
+                      {assignment.scoredAt ? formatStatusTime(assignment.scoredAt) : <Badge variant="outline">To score</Badge>}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default JudgingAssignments;
@@ -0,0 +1,77 @@
+import React from 'react';
+import { Link } from 'react-router-dom';
+import { Inbox, Loader2, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { useClearMockMailbox, useMockMailbox } from '@/hooks/use-mock-mailbox';
+import { formatStatusTime } from '@/utils/applicationStatus';
+
+// Every email the mock backends have "sent", for trying out sign-in links,
+// codes and notifications without a mail server
+const MockMailbox: React.FC = () => {
+  const mailbox = useMockMailbox();
+  const clearMailbox = useClearMockMailbox();
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30">
+      <div className="w-full max-w-3xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-light text-bloom-primary flex items-center gap-2">
+            <Inbox size={22} className="text-bloom-gold" />
+            Test <span className="font-medium">Mailbox</span>
+          </h1>
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              onClick={() => clearMailbox.mutate()}
+              disabled={clearMailbox.isPending || !mailbox.data?.length}
+            >
+              <Trash2 size={16} className="mr-2" />
+              Empty
+            </Button>
+            <Button asChild variant="outline">
+              <Link to="/">← Back to site</Link>
+            </Button>
+          </div>
+        </div>
+        <p className="text-sm text-bloom-muted">
+          Mail sent by the mock backend lands here instead of being delivered. New mail shows up on its own.
+        </p>
+
+        {mailbox.isLoading && (
+          <div className="flex items-center justify-center text-sm text-bloom-muted py-12">
+            <Loader2 size={16} className="mr-2 animate-spin" />
+            Loading mail...
+          </div>
+        )}
+        {mailbox.isError && <p className="text-sm text-destructive text-center py-12">{mailbox.error.message}</p>}
+        {mailbox.data?.length === 0 && <p className="text-sm text-bloom-muted text-center py-12">No mail has been sent yet.</p>}
+
+        {mailbox.data?.map(mail => (
+          <Card key={mail.mailId} className="shadow-lg border-0 neo-shadow">
+            <CardHeader className="pb-3">
+              <CardTitle className="text-base font-medium">{mail.subject}</CardTitle>
+              <CardDescription>
+                To {mail.to} · <time dateTime={mail.sentAt}>{formatStatusTime(mail.sentAt)}</time>
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-3">
+              <p className="text-sm whitespace-pre-line">{mail.body}</p>
+              {mail.links.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {mail.links.map(link => (
+                    <Button key={link.href} asChild size="sm" className="bg-bloom-primary hover:bg-bloom-primary/90">
+                      <a href={link.href}>{link.label}</a>
+                    </Button>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default MockMailbox;
@@ -0,0 +1,67 @@
+import React from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { Download, Loader2, Printer, ReceiptText } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import ReceiptDocument from '@/components/ReceiptDocument';
+import { useReceipts } from '@/hooks/use-receipts';
+import { downloadReceiptPdf } from '@/utils/receiptPdf';
+
+// Receipts for every payment made towards an application, ready to print or download.
+// Printing leaves out the page chrome and puts each receipt on its own page.
+const Receipts: React.FC = () => {
+  const { applicationId } = useParams<{ applicationId: string }>();
+  const receipts = useReceipts(applicationId ?? null);
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30 print:bg-none print:bg-white">
+      <div className="w-full max-w-3xl mx-auto px-4 py-8 space-y-6 print:p-0">
+        <div className="flex items-center justify-between print:hidden">
+          <h1 className="text-2xl font-light text-bloom-primary flex items-center gap-2">
+            <ReceiptText size={22} className="text-bloom-gold" />
+            Payment <span className="font-medium">Receipts</span>
+          </h1>
+          <div className="flex gap-2">
+            {receipts.data && receipts.data.length > 0 && (
+              <Button variant="outline" onClick={() => window.print()}>
+                <Printer size={16} className="mr-2" />
+                Print
+              </Button>
+            )}
+            <Button asChild variant="outline">
+              <Link to="/">← Back to site</Link>
+            </Button>
+          </div>
+        </div>
+
+        {receipts.isLoading && (
+          <div className="flex items-center justify-center text-sm text-bloom-muted py-12">
+            <Loader2 size={16} className="mr-2 animate-spin" />
+            Loading your receipts...
+          </div>
+        )}
+        {receipts.isError && (
+          <p className="text-sm text-destructive text-center py-12">{receipts.error.message}</p>
+        )}
+        {receipts.data?.length === 0 && (
+          <p className="text-sm text-bloom-muted text-center py-12">
+            No payments have been completed for application {applicationId} yet.
+          </p>
+        )}
+
+        {receipts.data?.map(receipt => (
+          <section key={receipt.receiptNumber} className="space-y-3 print:break-after-page">
+            <div className="flex justify-end print:hidden">
+              <Button variant="ghost" size="sm" onClick={() => downloadReceiptPdf(receipt)}>
+                <Download size={16} className="mr-2" />
+                Download PDF
+              </Button>
+            </div>
+            <ReceiptDocument receipt={receipt} />
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default Receipts;
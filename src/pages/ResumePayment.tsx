@@ -0,0 +1,73 @@
+import React, { useEffect } from 'react';
+import { useNavigate, useParams, useSearchParams } from 'react-router-dom';
+import { Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import { useResumePayment } from '@/hooks/use-resume-payment';
+import {
+  getPayLinkSteps,
+  paymentPath,
+  payLinkPath,
+  setFlowApplicationId,
+  setFlowFeeQuote,
+  setFlowPayLink,
+  setFlowPaymentSchedule,
+  setFlowProgress,
+  startFlow,
+} from '@/utils/applicationFlow';
+
+// Landing page of a pay link: checks the link, then picks the application up at its payment step,
+// or at the next installment of a plan that has been started
+const ResumePayment: React.FC = () => {
+  const { applicationId } = useParams<{ applicationId: string }>();
+  const [searchParams] = useSearchParams();
+  const token = searchParams.get('token');
+  const navigate = useNavigate();
+  const application = useResumePayment(applicationId, token);
+
+  useEffect(() => {
+    const result = application.data;
+    if (!result) return;
+
+    startFlow(result.type, getPayLinkSteps(result.status));
+    setFlowApplicationId(result.type, result.applicationId);
+    setFlowFeeQuote(result.type, result.fee);
+    // The server only issues a pay link while nothing has been paid; the next installment is paid from this one
+    setFlowPayLink(result.type, result.payLink ?? payLinkPath(result.applicationId, token as string));
+    setFlowPaymentSchedule(result.type, result.paymentSchedule);
+    setFlowProgress(result.type, 'payment');
+    navigate(paymentPath(result.type), { replace: true });
+  }, [application.data, navigate, token]);
+
+  const error = !token ? 'This payment link is incomplete. Please check that you copied all of it.' : application.error?.message;
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30 p-4">
+      {error ? (
+        <Card className="w-full max-w-md shadow-lg border-0 neo-shadow">
+          <CardHeader className="text-center">
+            <CardTitle className="text-2xl font-light">Payment link</CardTitle>
+          </CardHeader>
+          <CardContent className="text-center text-bloom-muted">
+            <p>{error}</p>
+          </CardContent>
+          <CardFooter className="flex justify-center">
+            <Button
+              onClick={() => navigate('/')}
+              className="bg-bloom-primary hover:bg-bloom-primary/90 hover-lift"
+            >
+              Return to Home
+            </Button>
+          </CardFooter>
+        </Card>
+      ) : (
+        <div className="flex items-center text-bloom-muted">
+          <Loader2 size={20} className="mr-2 animate-spin" />
+          Opening your application...
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ResumePayment;
@@ -0,0 +1,88 @@
+import React, { useEffect, useRef } from 'react';
+import { Link, useSearchParams } from 'react-router-dom';
+import { Loader2, LogOut } from 'lucide-react';
+import { toast } from 'sonner';
+import { Button } from '@/components/ui/button';
+import ApplicantSignIn from '@/components/ApplicantSignIn';
+import PortalApplicationCard from '@/components/PortalApplicationCard';
+import { useApplicantApplications, useApplicantSession, useApplicantSignOut, useVerifySignIn } from '@/hooks/use-applicant-portal';
+
+// The applicant status portal. Signing in by the link in the email lands here
+// with its token, which is exchanged for a session and taken out of the address.
+const Status: React.FC = () => {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const session = useApplicantSession();
+  const applications = useApplicantApplications(session);
+  const { mutate: verifyLink, isPending: isVerifying } = useVerifySignIn();
+  const signOut = useApplicantSignOut();
+  const linkToken = searchParams.get('token');
+  const verifiedToken = useRef<string | null>(null);
+
+  useEffect(() => {
+    if (!linkToken || verifiedToken.current === linkToken) return;
+    verifiedToken.current = linkToken;
+
+    verifyLink({ token: linkToken }, {
+      onError: (error) => toast.error(error.message),
+      onSettled: () => setSearchParams({}, { replace: true }),
+    });
+  }, [linkToken, verifyLink, setSearchParams]);
+
+  let content: React.ReactNode;
+  if (linkToken || isVerifying) {
+    content = (
+      <div className="flex items-center justify-center text-sm text-bloom-muted py-12">
+        <Loader2 size={16} className="mr-2 animate-spin" />
+        Signing you in...
+      </div>
+    );
+  } else if (!session) {
+    content = <ApplicantSignIn />;
+  } else if (applications.isLoading) {
+    content = (
+      <div className="flex items-center justify-center text-sm text-bloom-muted py-12">
+        <Loader2 size={16} className="mr-2 animate-spin" />
+        Loading your applications...
+      </div>
+    );
+  } else if (applications.isError) {
+    content = <p className="text-sm text-destructive text-center py-12">{applications.error.message}</p>;
+  } else if (applications.data.length === 0) {
+    content = (
+      <p className="text-sm text-bloom-muted text-center py-12">
+        No applications have been made with {session.email}.
+      </p>
+    );
+  } else {
+    content = applications.data.map(application => (
+      <PortalApplicationCard key={application.applicationId} application={application} />
+    ));
+  }
+
+  return (
+    <div className="min-h-screen w-full bg-gradient-to-br from-white via-gray-50 to-bloom-gold/30">
+      <div className="w-full max-w-2xl mx-auto px-4 py-8 space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <h1 className="text-2xl font-light text-bloom-primary">
+            Your <span className="font-medium">Application</span>
+          </h1>
+          <div className="flex gap-2">
+            {session && (
+              <Button variant="outline" onClick={() => signOut.mutate()} disabled={signOut.isPending}>
+                <LogOut size={16} className="mr-2" />
+                Sign out
+              </Button>
+            )}
+            <Button asChild variant="outline">
+              <Link to="/">← Back to site</Link>
+            </Button>
+          </div>
+        </div>
+        {session && !linkToken && <p className="text-sm text-bloom-muted">Signed in as {session.email}</p>}
+        {content}
+      </div>
+    </div>
+  );
+};
+
+export default Status;
@@ -0,0 +1,159 @@
+import React, { useState } from 'react';
+import { toast } from 'sonner';
+import { Building, Loader2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useAwaitingTransfers, useReconcileTransfer } from '@/hooks/use-bank-transfers';
+import { formatPaymentReference, isValidPaymentReference } from '@/utils/bankTransfer';
+import { formatFeeAmount, formatFeeDate, FEE_CURRENCY } from '@/utils/feeSchedule';
+import type { FormError } from '@/utils/formUtils';
+import type { PaymentIntent } from '@/api/types';
+
+const outstandingOf = (intent: PaymentIntent): number => {
+  return intent.amount - (intent.bankTransfer?.receivedAmount ?? 0);
+};
+
+// Staff page for matching incoming bank transfers to applications by their payment reference
+const TransferReconciliation: React.FC = () => {
+  const transfers = useAwaitingTransfers();
+  const reconcile = useReconcileTransfer();
+  const [reference, setReference] = useState('');
+  const [amount, setAmount] = useState('');
+  const [errors, setErrors] = useState<FormError[]>([]);
+
+  const getErrorMessage = (field: string): string | undefined => {
+    return errors.find(error => error.field === field)?.message;
+  };
+
+  const selectTransfer = (intent: PaymentIntent) => {
+    setReference(formatPaymentReference(intent.bankTransfer?.reference ?? ''));
+    setAmount((outstandingOf(intent) / 100).toFixed(2));
+    setErrors([]);
+  };
+
+  const handleSubmit = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+
+    const cents = Math.round(Number(amount) * 100);
+    const formErrors: FormError[] = [];
+    if (!isValidPaymentReference(reference)) {
+      formErrors.push({ field: 'reference', message: 'This reference is not valid. Check it against the bank statement for typos' });
+    }
+    if (!Number.isFinite(cents) || cents <= 0) {
+      formErrors.push({ field: 'amount', message: 'Please enter the amount received' });
+    }
+    setErrors(formErrors);
+    if (formErrors.length > 0) return;
+
+    reconcile.mutate({ reference, amount: cents }, {
+      onSuccess: (intent) => {
+        setReference('');
+        setAmount('');
+        if (intent.status === 'succeeded') {
+          toast.success(`Payment for ${intent.applicationId} is complete`);
+        } else {
+          toast.success(`Part payment recorded for ${intent.applicationId}; ${formatFeeAmount(outstandingOf(intent), intent.currency)} still outstanding`);
+        }
+      },
+      onError: (error) => toast.error(error.message),
+    });
+  };
+
+  return (
+    <div className="w-full max-w-4xl mx-auto space-y-6">
+      <h1 className="text-2xl font-light text-bloom-primary flex items-center gap-2">
+        <Building size={22} className="text-bloom-gold" />
+        Bank <span className="font-medium">Transfers</span>
+      </h1>
+
+      <Card className="shadow-lg border-0 neo-shadow">
+        <CardHeader>
+          <CardTitle className="text-lg font-medium">Record a transfer</CardTitle>
+          <CardDescription>Enter the reference and amount exactly as they appear on the bank statement.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          <form onSubmit={handleSubmit} className="grid gap-4 sm:grid-cols-[2fr_1fr_auto] sm:items-start">
+            <div className="space-y-2">
+              <Label htmlFor="reference">Payment reference</Label>
+              <Input
+                id="reference"
+                placeholder="RF00 MBP2 026A BC123"
+                value={reference}
+                onChange={(e) => setReference(e.target.value.toUpperCase())}
+                className={`font-mono ${getErrorMessage('reference') ? 'border-destructive' : ''}`}
+              />
+              {getErrorMessage('reference') && <p className="text-xs text-destructive">{getErrorMessage('reference')}</p>}
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="amount">Amount received ({FEE_CURRENCY})</Label>
+              <Input
+                id="amount"
+                inputMode="decimal"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value.replace(/[^\d.]/g, ''))}
+                className={getErrorMessage('amount') ? 'border-destructive' : ''}
+              />
+              {getErrorMessage('amount') && <p className="text-xs text-destructive">{getErrorMessage('amount')}</p>}
+            </div>
+            <Button
+              type="submit"
+              disabled={reconcile.isPending}
+              className="sm:mt-8 bg-bloom-primary hover:bg-bloom-primary/90"
+            >
+              {reconcile.isPending && <Loader2 size={16} className="mr-2 animate-spin" />}
+              Record transfer
+            </Button>
+          </form>
+        </CardContent>
+      </Card>
+
+      <Card className="shadow-lg border-0 neo-shadow">
+        <CardHeader>
+          <CardTitle className="text-lg font-medium">Awaiting transfer</CardTitle>
+          <CardDescription>Applications whose fee has not arrived in full. Select one to fill in the form.</CardDescription>
+        </CardHeader>
+        <CardContent>
+          {transfers.isLoading ? (
+            <div className="flex items-center justify-center py-8 text-bloom-muted">
+              <Loader2 size={20} className="mr-2 animate-spin" />
+              Loading transfers...
+            </div>
+          ) : transfers.isError ? (
+            <p className="text-sm text-destructive">{transfers.error.message}</p>
+          ) : transfers.data?.length ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Reference</TableHead>
+                  <TableHead>Application</TableHead>
+                  <TableHead>Since</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {transfers.data.map(intent => (
+                  <TableRow key={intent.intentId} onClick={() => selectTransfer(intent)} className="cursor-pointer">
+                    <TableCell className="font-mono">{formatPaymentReference(intent.bankTransfer?.reference ?? '')}</TableCell>
+                    <TableCell>{intent.applicationId}</TableCell>
+                    <TableCell>{formatFeeDate(intent.createdAt.slice(0, 10))}</TableCell>
+                    <TableCell className="text-right">{formatFeeAmount(intent.bankTransfer?.receivedAmount ?? 0, intent.currency)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatFeeAmount(outstandingOf(intent), intent.currency)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-bloom-muted text-center py-8">No transfers are outstanding.</p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default TransferReconciliation;
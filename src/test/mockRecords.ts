@@ -0,0 +1,40 @@
+import 'fake-indexeddb/auto';
+import { calculateFee } from '@/utils/feeSchedule';
+import { clearMockStore, putMockRecord, MOCK_STORES } from '@/api/mockStore';
+import type { MockSubmissionRecord } from '@/api/mockAdapter';
+
+// Records for tests of the in-browser mock backend, kept in an in-memory IndexedDB
+
+// A regular-tier date in the 2027 season
+export const QUOTE_DATE = new Date('2027-01-15T12:00:00.000Z');
+
+export const resetMockStores = async (): Promise<void> => {
+  await Promise.all(Object.values(MOCK_STORES).map(name => clearMockStore(name)));
+};
+
+// A submitted, unpaid participant application, changed by `overrides`
+export const putMockSubmission = async (overrides: Partial<MockSubmissionRecord> = {}): Promise<MockSubmissionRecord> => {
+  const record: MockSubmissionRecord = {
+    applicationId: 'MB-P-2027-TEST01',
+    type: 'participant',
+    clientReference: 'test-client-reference',
+    submittedAt: QUOTE_DATE.toISOString(),
+    email: 'applicant@example.com',
+    data: null,
+    fee: calculateFee('participant', 'France', QUOTE_DATE),
+    promoCode: null,
+    paymentSchedule: null,
+    paymentStatus: 'unpaid',
+    status: 'pending_payment',
+    statusHistory: [],
+    messages: [],
+    changeRequests: [],
+    revisions: [],
+    judges: [],
+    scoreSheets: [],
+    payToken: 'test-pay-token',
+    ...overrides,
+  };
+  await putMockRecord(MOCK_STORES.submissions, record.applicationId, record);
+  return record;
+};
@@ -0,0 +1,192 @@
+import { FeeQuote, getPaymentTiming, PaymentTiming } from '@/utils/feeSchedule';
+import type { PaymentSchedule } from '@/utils/installmentPlans';
+import type { ApplicantRegistration, ApplicationStatus, PaymentIntent } from '@/api/types';
+
+// Application flow helpers shared by the routes under /apply/:type
+
+export type ApplicationType = 'participant' | 'director';
+
+export type FlowStep = 'application' | 'payment' | 'success';
+
+export const isApplicationType = (value: string | undefined): value is ApplicationType => {
+  return value === 'participant' || value === 'director';
+};
+
+// Paths for each step of the flow
+export const applicationPath = (type: ApplicationType, section?: string): string => {
+  return section ? `/apply/${type}/${section}` : `/apply/${type}`;
+};
+
+export const paymentPath = (type: ApplicationType): string => `/apply/${type}/payment`;
+
+export const successPath = (type: ApplicationType): string => `/apply/${type}/done`;
+
+export const stepPath = (type: ApplicationType, step: FlowStep): string => {
+  switch (step) {
+    case 'application':
+      return applicationPath(type);
+    case 'payment':
+      return paymentPath(type);
+    case 'success':
+      return successPath(type);
+  }
+};
+
+// Where a pay link sent for an unpaid application leads
+export const payLinkPath = (applicationId: string, token: string): string => {
+  return `/pay/${encodeURIComponent(applicationId)}?token=${encodeURIComponent(token)}`;
+};
+
+// The steps of the flow for each payment timing, in order
+const timingSteps: Record<PaymentTiming, FlowStep[]> = {
+  'pay-first': ['payment', 'application', 'success'],
+  'apply-first': ['application', 'payment', 'success'],
+  'pay-later': ['application', 'success'],
+};
+
+// Paying from a pay link: a draft still has its form to fill in afterwards
+export const getPayLinkSteps = (status: ApplicationStatus): FlowStep[] => {
+  return status === 'draft' ? timingSteps['pay-first'] : ['payment', 'success'];
+};
+
+// The steps of the flow started in this tab. The order is fixed when the flow
+// starts, so a season changing over midway doesn't reorder it.
+const stepsKey = (type: ApplicationType) => `miss-bloom-steps:${type}`;
+
+export const getFlowSteps = (type: ApplicationType): FlowStep[] => {
+  try {
+    const stored = JSON.parse(sessionStorage.getItem(stepsKey(type)) ?? 'null');
+    if (Array.isArray(stored) && stored.length > 0) return stored;
+  } catch {
+    // Fall back to the configured order below
+  }
+  return timingSteps[getPaymentTiming(type)];
+};
+
+export const getNextFlowStep = (type: ApplicationType, step: FlowStep): FlowStep => {
+  const steps = getFlowSteps(type);
+  return steps[steps.indexOf(step) + 1] ?? 'success';
+};
+
+// Start over in this tab, by default with the order configured for the current season.
+// Resolves with the first step.
+export const startFlow = (type: ApplicationType, steps = timingSteps[getPaymentTiming(type)]): FlowStep => {
+  resetFlowProgress(type);
+  sessionStorage.setItem(stepsKey(type), JSON.stringify(steps));
+  return steps[0];
+};
+
+// How far the applicant has got is kept in sessionStorage so that only the current
+// step can be shown, across page reloads within the same tab
+const progressKey = (type: ApplicationType) => `miss-bloom-flow:${type}`;
+
+export const getFlowProgress = (type: ApplicationType): FlowStep => {
+  const steps = getFlowSteps(type);
+  const stored = sessionStorage.getItem(progressKey(type)) as FlowStep | null;
+  return stored && steps.includes(stored) ? stored : steps[0];
+};
+
+export const setFlowProgress = (type: ApplicationType, step: FlowStep): void => {
+  sessionStorage.setItem(progressKey(type), step);
+};
+
+export const resetFlowProgress = (type: ApplicationType): void => {
+  sessionStorage.removeItem(stepsKey(type));
+  sessionStorage.removeItem(progressKey(type));
+  sessionStorage.removeItem(applicationIdKey(type));
+  sessionStorage.removeItem(feeQuoteKey(type));
+  sessionStorage.removeItem(paymentScheduleKey(type));
+  sessionStorage.removeItem(pendingTransferKey(type));
+  sessionStorage.removeItem(payLinkKey(type));
+  sessionStorage.removeItem(registrationKey(type));
+};
+
+// The server-issued ID of the application submitted in this tab
+const applicationIdKey = (type: ApplicationType) => `miss-bloom-application-id:${type}`;
+
+export const getFlowApplicationId = (type: ApplicationType): string | null => {
+  return sessionStorage.getItem(applicationIdKey(type));
+};
+
+export const setFlowApplicationId = (type: ApplicationType, applicationId: string): void => {
+  sessionStorage.setItem(applicationIdKey(type), applicationId);
+};
+
+// The amount due for the application submitted in this tab, as quoted by the server
+const feeQuoteKey = (type: ApplicationType) => `miss-bloom-fee:${type}`;
+
+export const getFlowFeeQuote = (type: ApplicationType): FeeQuote | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(feeQuoteKey(type)) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const setFlowFeeQuote = (type: ApplicationType, fee: FeeQuote): void => {
+  sessionStorage.setItem(feeQuoteKey(type), JSON.stringify(fee));
+};
+
+// The installment plan the fee of the application submitted in this tab is paid by, as confirmed by the server
+const paymentScheduleKey = (type: ApplicationType) => `miss-bloom-schedule:${type}`;
+
+export const getFlowPaymentSchedule = (type: ApplicationType): PaymentSchedule | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(paymentScheduleKey(type)) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const setFlowPaymentSchedule = (type: ApplicationType, schedule: PaymentSchedule | null): void => {
+  if (schedule) {
+    sessionStorage.setItem(paymentScheduleKey(type), JSON.stringify(schedule));
+  } else {
+    sessionStorage.removeItem(paymentScheduleKey(type));
+  }
+};
+
+// The bank transfer the applicant chose to pay with, so its instructions stay on the success screen
+const pendingTransferKey = (type: ApplicationType) => `miss-bloom-transfer:${type}`;
+
+export const getFlowPendingTransfer = (type: ApplicationType): PaymentIntent | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(pendingTransferKey(type)) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const setFlowPendingTransfer = (type: ApplicationType, intent: PaymentIntent): void => {
+  sessionStorage.setItem(pendingTransferKey(type), JSON.stringify(intent));
+};
+
+// Link for paying the fee of the application submitted in this tab later on
+const payLinkKey = (type: ApplicationType) => `miss-bloom-pay-link:${type}`;
+
+export const getFlowPayLink = (type: ApplicationType): string | null => {
+  return sessionStorage.getItem(payLinkKey(type));
+};
+
+export const setFlowPayLink = (type: ApplicationType, payLink: string | null): void => {
+  if (payLink) {
+    sessionStorage.setItem(payLinkKey(type), payLink);
+  } else {
+    sessionStorage.removeItem(payLinkKey(type));
+  }
+};
+
+// Details given before paying first, used to fill in the same fields of the form
+const registrationKey = (type: ApplicationType) => `miss-bloom-registration:${type}`;
+
+export const getFlowRegistration = (type: ApplicationType): ApplicantRegistration | null => {
+  try {
+    return JSON.parse(sessionStorage.getItem(registrationKey(type)) ?? 'null');
+  } catch {
+    return null;
+  }
+};
+
+export const setFlowRegistration = (type: ApplicationType, registration: ApplicantRegistration): void => {
+  sessionStorage.setItem(registrationKey(type), JSON.stringify(registration));
+};
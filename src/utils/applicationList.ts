@@ -0,0 +1,85 @@
+import type {
+  ApplicationListQuery,
+  ApplicationPaymentStatus,
+  ApplicationSortField,
+  ApplicationStatus,
+} from '@/api/types';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import { applicationStatusLabels } from '@/utils/applicationStatus';
+
+// The staff list of applications: labels for its columns and filters, and its
+// query kept in the address bar so a filtered list can be shared or bookmarked
+
+export const paymentStatusLabels: Record<ApplicationPaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  awaiting_transfer: 'Awaiting transfer',
+  partially_paid: 'Paying in installments',
+  paid: 'Paid in full',
+  refunded: 'Refunded',
+};
+
+export const PAGE_SIZE_OPTIONS = [10, 25, 50];
+
+export const defaultListQuery: ApplicationListQuery = {
+  sortBy: 'submittedAt',
+  sortDirection: 'desc',
+  page: 1,
+  pageSize: PAGE_SIZE_OPTIONS[0],
+};
+
+const sortFields: ApplicationSortField[] = ['submittedAt', 'name', 'country', 'age', 'status', 'paymentStatus', 'score'];
+
+const oneOf = <T extends string>(value: string | null, options: readonly T[]): T | undefined => {
+  return options.includes(value as T) ? value as T : undefined;
+};
+
+const positiveInteger = (value: string | null): number | undefined => {
+  const number = Number(value);
+  return value && Number.isInteger(number) && number > 0 ? number : undefined;
+};
+
+const isoDate = (value: string | null): string | undefined => {
+  return value && /^\d{4}-\d{2}-\d{2}$/.test(value) ? value : undefined;
+};
+
+// Anything missing or not understood falls back to the default
+export const parseListQuery = (params: URLSearchParams): ApplicationListQuery => ({
+  search: params.get('search') || undefined,
+  type: oneOf<ApplicationType>(params.get('type'), ['participant', 'director']),
+  country: params.get('country') || undefined,
+  status: oneOf(params.get('status'), Object.keys(applicationStatusLabels) as ApplicationStatus[]),
+  paymentStatus: oneOf(params.get('paymentStatus'), Object.keys(paymentStatusLabels) as ApplicationPaymentStatus[]),
+  minAge: positiveInteger(params.get('minAge')),
+  maxAge: positiveInteger(params.get('maxAge')),
+  submittedFrom: isoDate(params.get('submittedFrom')),
+  submittedTo: isoDate(params.get('submittedTo')),
+  sortBy: oneOf(params.get('sortBy'), sortFields) ?? defaultListQuery.sortBy,
+  sortDirection: oneOf(params.get('sortDirection'), ['asc', 'desc'] as const) ?? defaultListQuery.sortDirection,
+  page: positiveInteger(params.get('page')) ?? defaultListQuery.page,
+  pageSize: oneOf(params.get('pageSize'), PAGE_SIZE_OPTIONS.map(String)) ? Number(params.get('pageSize')) : defaultListQuery.pageSize,
+});
+
+// Only what differs from the default, to keep the address short
+export const toListSearchParams = (query: ApplicationListQuery): URLSearchParams => {
+  const params = new URLSearchParams();
+  (Object.keys(query) as (keyof ApplicationListQuery)[]).forEach(key => {
+    const value = query[key];
+    if (value !== undefined && value !== '' && value !== defaultListQuery[key]) {
+      params.set(key, String(value));
+    }
+  });
+  return params;
+};
+
+// The page numbers to offer around the current one, with null marking a gap
+export const getPageNumbers = (page: number, pageCount: number): (number | null)[] => {
+  const pages: (number | null)[] = [];
+  for (let number = 1; number <= pageCount; number++) {
+    if (number === 1 || number === pageCount || Math.abs(number - page) <= 1) {
+      pages.push(number);
+    } else if (pages[pages.length - 1] !== null) {
+      pages.push(null);
+    }
+  }
+  return pages;
+};
@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest';
+import { applicationStatusLabels, canChangeStatus, isFinalStatus, sortStatusHistory, statusTransitions } from '@/utils/applicationStatus';
+import type { ApplicationStatus, StatusChange } from '@/api/types';
+
+const statuses = Object.keys(applicationStatusLabels) as ApplicationStatus[];
+
+describe('statusTransitions', () => {
+  it('lets staff move applications only along the lifecycle', () => {
+    expect(statusTransitions).toEqual({
+      draft: ['withdrawn'],
+      pending_payment: ['withdrawn'],
+      submitted: ['under_review', 'rejected', 'withdrawn'],
+      under_review: ['shortlisted', 'waitlisted', 'rejected', 'withdrawn'],
+      shortlisted: ['interview', 'waitlisted', 'rejected', 'withdrawn'],
+      interview: ['accepted', 'waitlisted', 'rejected', 'withdrawn'],
+      waitlisted: ['shortlisted', 'interview', 'accepted', 'rejected', 'withdrawn'],
+      accepted: ['withdrawn'],
+      rejected: [],
+      withdrawn: [],
+    });
+  });
+
+  it('never moves an application to the statuses the backend sets by itself', () => {
+    statuses.forEach(from => {
+      expect(canChangeStatus(from, 'draft')).toBe(false);
+      expect(canChangeStatus(from, 'pending_payment')).toBe(false);
+      expect(canChangeStatus(from, 'submitted')).toBe(false);
+    });
+  });
+
+  it('never moves an application to the status it already has', () => {
+    statuses.forEach(status => expect(canChangeStatus(status, status)).toBe(false));
+  });
+
+  it('lets any application that is still open be withdrawn', () => {
+    statuses.filter(status => !isFinalStatus(status)).forEach(status => expect(canChangeStatus(status, 'withdrawn')).toBe(true));
+  });
+
+  it('treats rejected and withdrawn applications as final', () => {
+    expect(statuses.filter(isFinalStatus)).toEqual(['rejected', 'withdrawn']);
+  });
+
+  it.each<[ApplicationStatus, ApplicationStatus]>([
+    ['submitted', 'accepted'],
+    ['submitted', 'shortlisted'],
+    ['under_review', 'interview'],
+    ['accepted', 'rejected'],
+    ['rejected', 'under_review'],
+    ['withdrawn', 'submitted'],
+  ])('turns down %s to %s', (from, to) => {
+    expect(canChangeStatus(from, to)).toBe(false);
+  });
+});
+
+describe('sortStatusHistory', () => {
+  it('lists the newest change first', () => {
+    const change = (to: ApplicationStatus, at: string): StatusChange => ({ from: null, to, at, actor: { kind: 'system', name: 'Test' }, reason: null });
+    const history = [change('submitted', '2027-01-01T10:00:00.000Z'), change('accepted', '2027-03-01T10:00:00.000Z'), change('under_review', '2027-02-01T10:00:00.000Z')];
+    expect(sortStatusHistory(history).map(entry => entry.to)).toEqual(['accepted', 'under_review', 'submitted']);
+    expect(history[0].to).toBe('submitted');
+  });
+});
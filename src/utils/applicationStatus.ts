@@ -0,0 +1,64 @@
+import type { ApplicationStatus, StatusChange } from '@/api/types';
+
+// The lifecycle of an application. The backend moves it through the first steps
+// by itself: a draft is opened when the fee is paid first, the form then leaves it
+// pending payment until the fee (or its first installment) is paid, and it counts
+// as submitted from then on. Staff take it from there, as allowed below.
+
+export const applicationStatusLabels: Record<ApplicationStatus, string> = {
+  draft: 'Draft',
+  pending_payment: 'Pending payment',
+  submitted: 'Submitted',
+  under_review: 'Under review',
+  shortlisted: 'Shortlisted',
+  interview: 'Interview',
+  accepted: 'Accepted',
+  waitlisted: 'Waitlisted',
+  rejected: 'Not selected',
+  withdrawn: 'Withdrawn',
+};
+
+// What each status means for the applicant
+export const applicationStatusDescriptions: Record<ApplicationStatus, string> = {
+  draft: 'Your fee is being paid. Your application form is still to be submitted.',
+  pending_payment: 'Your application form has been received. It will be submitted once the application fee is paid.',
+  submitted: 'Your application has been submitted and is waiting to be reviewed.',
+  under_review: 'Our team is reviewing your application.',
+  shortlisted: 'Your application has been shortlisted.',
+  interview: 'You have been invited to an interview.',
+  accepted: 'Congratulations, your application has been accepted.',
+  waitlisted: 'Your application is on our waiting list.',
+  rejected: 'Your application has not been selected this season.',
+  withdrawn: 'This application has been withdrawn.',
+};
+
+// The statuses staff can move an application to from each status
+export const statusTransitions: Record<ApplicationStatus, ApplicationStatus[]> = {
+  draft: ['withdrawn'],
+  pending_payment: ['withdrawn'],
+  submitted: ['under_review', 'rejected', 'withdrawn'],
+  under_review: ['shortlisted', 'waitlisted', 'rejected', 'withdrawn'],
+  shortlisted: ['interview', 'waitlisted', 'rejected', 'withdrawn'],
+  interview: ['accepted', 'waitlisted', 'rejected', 'withdrawn'],
+  waitlisted: ['shortlisted', 'interview', 'accepted', 'rejected', 'withdrawn'],
+  accepted: ['withdrawn'],
+  rejected: [],
+  withdrawn: [],
+};
+
+export const canChangeStatus = (from: ApplicationStatus, to: ApplicationStatus): boolean => {
+  return statusTransitions[from].includes(to);
+};
+
+// Applications that can no longer change status
+export const isFinalStatus = (status: ApplicationStatus): boolean => statusTransitions[status].length === 0;
+
+// Newest first, the way the timeline lists them
+export const sortStatusHistory = (history: StatusChange[]): StatusChange[] => {
+  return [...history].sort((a, b) => b.at.localeCompare(a.at));
+};
+
+// In the reader's own time zone, e.g. "Mar 3, 2027, 2:15 PM"
+export const formatStatusTime = (date: string): string => {
+  return new Date(date).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short' });
+};
@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import {
+  beneficiaryAccount,
+  createPaymentReference,
+  formatIban,
+  getIbanError,
+  isValidBic,
+  isValidPaymentReference,
+} from '@/utils/bankTransfer';
+
+describe('getIbanError', () => {
+  it.each([
+    'GB82WEST12345698765432',
+    'GB82 WEST 1234 5698 7654 32',
+    'gb82west12345698765432',
+    'DE89370400440532013000',
+    'FR1420041010050500013M02606',
+    'NL91ABNA0417164300',
+    'BE68539007547034',
+    'CH9300762011623852957',
+    'NO9386011117947',
+    beneficiaryAccount.iban,
+  ])('accepts %s', iban => {
+    expect(getIbanError(iban)).toBeNull();
+  });
+
+  it.each([
+    ['GB82WEST12345698765433', 'This IBAN is not valid. Please check it for typos'],
+    ['GB28WEST12345698765432', 'This IBAN is not valid. Please check it for typos'],
+    ['DE89370400440532031000', 'This IBAN is not valid. Please check it for typos'],
+    ['GB82WEST1234569876543', 'IBANs from GB have 22 characters'],
+    ['NL91ABNA04171643001', 'IBANs from NL have 18 characters'],
+    ['US12345678901234567890', 'US is not a country that uses IBANs'],
+    ['12WEST12345698765432', 'IBANs start with a two-letter country code and two check digits'],
+    ['GB8WEST12345698765432', 'IBANs start with a two-letter country code and two check digits'],
+    ['GB82-WEST-1234-5698-7654-32', 'IBANs start with a two-letter country code and two check digits'],
+  ])('turns down %s', (iban, error) => {
+    expect(getIbanError(iban)).toBe(error);
+  });
+
+  it('prints IBANs in groups of four', () => {
+    expect(formatIban('de89370400440532013000')).toBe('DE89 3704 0044 0532 0130 00');
+  });
+});
+
+describe('isValidBic', () => {
+  it.each(['NWBKGB2L', 'DEUTDEFF', 'DEUTDEFF500', 'BNPAFRPPXXX', 'deut de ff'])('accepts %s', bic => {
+    expect(isValidBic(bic)).toBe(true);
+  });
+
+  it.each(['', 'DEUTDEF', 'DEUTDEFF5', 'DEUTDEFF50', 'DEUTDEFF5000', 'DEU1DEFF', 'DEUT1EFF', 'DEUTDEF-'])('turns down "%s"', bic => {
+    expect(isValidBic(bic)).toBe(false);
+  });
+});
+
+describe('payment references', () => {
+  it.each(['RF18539007547034', 'RF18 5390 0754 7034', 'rf18539007547034', 'RF712348231'])('accepts %s', reference => {
+    expect(isValidPaymentReference(reference)).toBe(true);
+  });
+
+  it.each([
+    'RF19539007547034', // Wrong check digits
+    'RF18539007547035', // Mistyped last character
+    'RF18539070547034', // Swapped characters
+    'RF18',
+    'RF1853900754703412345678901', // Longer than 25 characters
+    'XX18539007547034',
+    'RF18-5390-0754-7034',
+  ])('turns down %s', reference => {
+    expect(isValidPaymentReference(reference)).toBe(false);
+  });
+
+  it('creates a valid reference from the application ID', () => {
+    const reference = createPaymentReference('MB-P-2027-ABC123');
+    expect(reference).toMatch(/^RF\d{2}MBP2027ABC123$/);
+    expect(isValidPaymentReference(reference)).toBe(true);
+  });
+
+  it('pads single check digits', () => {
+    // 98 - mod97("7RF00") is 9, written as 09
+    expect(createPaymentReference('7')).toBe('RF097');
+    expect(isValidPaymentReference('RF097')).toBe(true);
+  });
+
+  it('tells the references of different applications apart', () => {
+    const reference = createPaymentReference('MB-P-2027-ABC123');
+    const other = createPaymentReference('MB-P-2027-ABC124');
+    expect(other).not.toBe(reference);
+    expect(isValidPaymentReference(reference.slice(0, 4) + other.slice(4))).toBe(false);
+  });
+});
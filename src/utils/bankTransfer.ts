@@ -0,0 +1,94 @@
+// Bank transfer details for international payments, and the checks used on IBANs,
+// SWIFT/BIC codes and payment references
+
+export interface BeneficiaryAccount {
+  accountName: string;
+  bankName: string;
+  bankAddress: string;
+  iban: string;
+  bic: string;
+}
+
+// The account applicants send their transfers to
+export const beneficiaryAccount: BeneficiaryAccount = {
+  accountName: 'Miss Bloom Global Ltd',
+  bankName: 'National Westminster Bank',
+  bankAddress: '250 Bishopsgate, London EC2M 4AA, United Kingdom',
+  iban: 'GB29NWBK60161331926819',
+  bic: 'NWBKGB2L',
+};
+
+// IBAN length for each country that uses them
+const ibanLengths: Record<string, number> = {
+  AD: 24, AE: 23, AL: 28, AT: 20, AZ: 28, BA: 20, BE: 16, BG: 22, BH: 22, BR: 29,
+  CH: 21, CR: 22, CY: 28, CZ: 24, DE: 22, DK: 18, DO: 28, EE: 20, EG: 29, ES: 24,
+  FI: 18, FO: 18, FR: 27, GB: 22, GE: 22, GI: 23, GL: 18, GR: 27, GT: 28, HR: 21,
+  HU: 28, IE: 22, IL: 23, IQ: 23, IS: 26, IT: 27, JO: 30, KW: 30, KZ: 20, LB: 28,
+  LC: 32, LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MD: 24, ME: 22, MK: 19, MR: 27,
+  MT: 31, MU: 30, NL: 18, NO: 15, PK: 24, PL: 28, PS: 29, PT: 25, QA: 29, RO: 24,
+  RS: 22, SA: 24, SC: 31, SE: 24, SI: 19, SK: 24, SM: 27, TL: 23, TN: 24, TR: 26,
+  UA: 29, VA: 22, VG: 24, XK: 20,
+};
+
+const compact = (value: string): string => value.replace(/\s/g, '').toUpperCase();
+
+// Letters count as two-digit numbers (A = 10 ... Z = 35) in ISO 7064 mod 97-10
+const mod97 = (value: string): number => {
+  const digits = value.replace(/[A-Z]/g, letter => String(letter.charCodeAt(0) - 55));
+  let remainder = 0;
+  for (const digit of digits) {
+    remainder = (remainder * 10 + Number(digit)) % 97;
+  }
+  return remainder;
+};
+
+// IBANs and RF references both carry their check digits in positions 3-4
+const hasValidCheckDigits = (value: string): boolean => mod97(value.slice(4) + value.slice(0, 4)) === 1;
+
+// Shown in groups of four, the way banks print them
+const groupInFours = (value: string): string => compact(value).replace(/(.{4})/g, '$1 ').trim();
+
+export const formatIban = groupInFours;
+
+export const looksLikeIban = (value: string): boolean => /^[A-Z]{2}\d{2}/.test(compact(value));
+
+// The problem with an IBAN, or null if it is valid
+export const getIbanError = (value: string): string | null => {
+  const iban = compact(value);
+  if (!/^[A-Z]{2}\d{2}[A-Z0-9]+$/.test(iban)) {
+    return 'IBANs start with a two-letter country code and two check digits';
+  }
+  const length = ibanLengths[iban.slice(0, 2)];
+  if (!length) {
+    return `${iban.slice(0, 2)} is not a country that uses IBANs`;
+  }
+  if (iban.length !== length) {
+    return `IBANs from ${iban.slice(0, 2)} have ${length} characters`;
+  }
+  if (!hasValidCheckDigits(iban)) {
+    return 'This IBAN is not valid. Please check it for typos';
+  }
+  return null;
+};
+
+// 8 or 11 characters: bank code, country code, location code and optional branch code
+export const isValidBic = (value: string): boolean => {
+  return /^[A-Z]{4}[A-Z]{2}[A-Z0-9]{2}([A-Z0-9]{3})?$/.test(compact(value));
+};
+
+// ISO 11649 structured creditor reference ("RF" + check digits + the application ID),
+// so a mistyped reference can be told apart from one that belongs to someone else
+export const createPaymentReference = (applicationId: string): string => {
+  const body = applicationId.replace(/[^A-Za-z0-9]/g, '').toUpperCase();
+  const checkDigits = 98 - mod97(`${body}RF00`);
+  return `RF${String(checkDigits).padStart(2, '0')}${body}`;
+};
+
+export const normalizePaymentReference = compact;
+
+export const isValidPaymentReference = (value: string): boolean => {
+  const reference = compact(value);
+  return /^RF\d{2}[A-Z0-9]{1,21}$/.test(reference) && hasValidCheckDigits(reference);
+};
+
+export const formatPaymentReference = groupInFours;
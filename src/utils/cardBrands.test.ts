@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+import { CardBrandId, detectCardBrand, getCardNumberGaps, getMaxCardNumberLength, passesLuhn } from '@/utils/cardBrands';
+import { validatePaymentForm } from '@/utils/formUtils';
+
+// The card number error of an otherwise valid payment form
+const cardErrorOf = (cardNumber: string) => {
+  const cvv = /^3[47]/.test(cardNumber) ? '1234' : '123';
+  const errors = validatePaymentForm({ cardNumber, expiryDate: '12/99', cvv, name: 'Test Payer' });
+  return errors.find(error => error.field === 'cardNumber')?.message ?? null;
+};
+
+describe('detectCardBrand', () => {
+  it.each<[string, CardBrandId]>([
+    ['4', 'visa'],
+    ['34', 'amex'],
+    ['37', 'amex'],
+    ['300', 'diners'],
+    ['305', 'diners'],
+    ['36', 'diners'],
+    ['38', 'diners'],
+    ['39', 'diners'],
+    ['3528', 'jcb'],
+    ['3589', 'jcb'],
+    ['6011', 'discover'],
+    ['644', 'discover'],
+    ['649', 'discover'],
+    ['65', 'discover'],
+    ['5018', 'maestro'],
+    ['5020', 'maestro'],
+    ['5038', 'maestro'],
+    ['5893', 'maestro'],
+    ['6304', 'maestro'],
+    ['6759', 'maestro'],
+    ['6761', 'maestro'],
+    ['6763', 'maestro'],
+    ['81', 'unionpay'],
+    ['51', 'mastercard'],
+    ['55', 'mastercard'],
+    ['2221', 'mastercard'],
+    ['2720', 'mastercard'],
+  ])('knows %s as %s', (prefix, brand) => {
+    expect(detectCardBrand(prefix.padEnd(16, '0'))?.id).toBe(brand);
+  });
+
+  it.each(['306', '3527', '3590', '50', '56', '2220', '2721', '643', '1', '9'])('knows no brand starting %s', prefix => {
+    expect(detectCardBrand(prefix.padEnd(16, '0'))).toBeNull();
+  });
+
+  it('tells Discover apart inside the UnionPay range', () => {
+    expect(detectCardBrand('6221250000000000')?.id).toBe('unionpay');
+    expect(detectCardBrand('6221260000000000')?.id).toBe('discover');
+    expect(detectCardBrand('6229250000000000')?.id).toBe('discover');
+    expect(detectCardBrand('6229260000000000')?.id).toBe('unionpay');
+  });
+
+  it('changes its mind as a UnionPay number turns out to be Discover', () => {
+    expect(detectCardBrand('62')?.id).toBe('unionpay');
+    expect(detectCardBrand('622126')?.id).toBe('discover');
+  });
+
+  it('waits for enough digits', () => {
+    expect(detectCardBrand('')).toBeNull();
+    expect(detectCardBrand('3')).toBeNull();
+    expect(detectCardBrand('35')).toBeNull();
+  });
+
+  it('ignores spaces and dashes', () => {
+    expect(detectCardBrand('3782 822463 10005')?.id).toBe('amex');
+    expect(detectCardBrand('5555-5555-5555-4444')?.id).toBe('mastercard');
+  });
+});
+
+describe('card number lengths and grouping', () => {
+  it('allows each brand its longest number', () => {
+    expect(getMaxCardNumberLength(detectCardBrand('34'))).toBe(15);
+    expect(getMaxCardNumberLength(detectCardBrand('51'))).toBe(16);
+    expect(getMaxCardNumberLength(detectCardBrand('4'))).toBe(19);
+    expect(getMaxCardNumberLength(null)).toBe(19);
+  });
+
+  it('groups American Express and Diners numbers 4-6-5', () => {
+    expect(getCardNumberGaps(detectCardBrand('34'))).toEqual([4, 10]);
+    expect(getCardNumberGaps(detectCardBrand('36'))).toEqual([4, 10]);
+    expect(getCardNumberGaps(detectCardBrand('4'))).toEqual([4, 8, 12]);
+  });
+});
+
+describe('passesLuhn', () => {
+  it.each(['4242424242424242', '4222222222222', '5555 5555 5555 4444', '378282246310005', '6011111111111117', '30569309025904', '3530111333300000'])('accepts %s', number => {
+    expect(passesLuhn(number)).toBe(true);
+  });
+
+  it.each(['4242424242424241', '5555555555554445', '378282246310006', ''])('turns down "%s"', number => {
+    expect(passesLuhn(number)).toBe(false);
+  });
+});
+
+describe('validatePaymentForm card numbers', () => {
+  it.each([
+    '4111111111111111',
+    '4222222222222',
+    '5555555555554444',
+    '2223003122003222',
+    '378282246310005',
+    '6011000990139424',
+    '6445644564456445',
+    '30569309025904',
+    '36227206271667',
+    '3566002020360505',
+    '6759649826438453',
+    '6250941006528599',
+  ])('accepts %s', number => {
+    expect(cardErrorOf(number)).toBeNull();
+  });
+
+  it('checks the Luhn digit of brands that carry one', () => {
+    expect(cardErrorOf('4242424242424241')).toBe('Please check your card number');
+    expect(cardErrorOf('6229250000000009')).toBe('Please check your card number');
+  });
+
+  it('skips the Luhn check for UnionPay', () => {
+    expect(passesLuhn('6200000000000006')).toBe(false);
+    expect(cardErrorOf('6200000000000006')).toBeNull();
+    expect(cardErrorOf('8100000000000000')).toBeNull();
+  });
+
+  it.each([
+    ['424242424242424', 'Visa card numbers have 13, 16 or 19 digits'],
+    ['37828224631000', 'American Express card numbers have 15 digits'],
+    ['55555555555544', 'Mastercard card numbers have 16 digits'],
+    ['620000000000000', 'UnionPay card numbers have 16 to 19 digits'],
+    ['60110009901394', 'Discover card numbers have 16 or 19 digits'],
+  ])('turns down %s for its length', (number, message) => {
+    expect(cardErrorOf(number)).toBe(message);
+  });
+
+  it('turns down numbers of unknown brands', () => {
+    expect(cardErrorOf('9111111111111111')).toBe('This card type is not supported');
+  });
+
+  it('asks American Express for a 4-digit CID', () => {
+    const errors = validatePaymentForm({ cardNumber: '378282246310005', expiryDate: '12/99', cvv: '123', name: 'Test Payer' });
+    expect(errors).toEqual([{ field: 'cvv', message: 'Please enter the 4-digit CID' }]);
+  });
+});
@@ -0,0 +1,144 @@
+// Card brands recognised from the first digits of the card number (the BIN range),
+// with each brand's number lengths, security code length and digit grouping
+
+export type CardBrandId = 'visa' | 'mastercard' | 'amex' | 'discover' | 'diners' | 'jcb' | 'unionpay' | 'maestro';
+
+export interface CardBrand {
+  id: CardBrandId;
+  name: string;
+  lengths: number[];
+  cvvLength: number;
+  cvvLabel: string;
+  gaps: number[]; // Positions after which a space is shown
+  luhn: boolean; // Some UnionPay cards do not carry a Luhn check digit
+  // Inclusive prefix ranges; a single prefix is written as [prefix, prefix]
+  ranges: [number, number][];
+}
+
+// Checked in order, so narrower ranges that overlap a broader one (Discover's
+// 622126-622925 inside UnionPay's 62) come first
+export const cardBrands: CardBrand[] = [
+  {
+    id: 'amex',
+    name: 'American Express',
+    lengths: [15],
+    cvvLength: 4,
+    cvvLabel: 'CID',
+    gaps: [4, 10],
+    luhn: true,
+    ranges: [[34, 34], [37, 37]],
+  },
+  {
+    id: 'diners',
+    name: 'Diners Club',
+    lengths: [14, 16, 19],
+    cvvLength: 3,
+    cvvLabel: 'CVV',
+    gaps: [4, 10],
+    luhn: true,
+    ranges: [[300, 305], [36, 36], [38, 39]],
+  },
+  {
+    id: 'jcb',
+    name: 'JCB',
+    lengths: [16, 17, 18, 19],
+    cvvLength: 3,
+    cvvLabel: 'CAV2',
+    gaps: [4, 8, 12],
+    luhn: true,
+    ranges: [[3528, 3589]],
+  },
+  {
+    id: 'discover',
+    name: 'Discover',
+    lengths: [16, 19],
+    cvvLength: 3,
+    cvvLabel: 'CID',
+    gaps: [4, 8, 12],
+    luhn: true,
+    ranges: [[6011, 6011], [622126, 622925], [644, 649], [65, 65]],
+  },
+  {
+    id: 'maestro',
+    name: 'Maestro',
+    lengths: [12, 13, 14, 15, 16, 17, 18, 19],
+    cvvLength: 3,
+    cvvLabel: 'CVC',
+    gaps: [4, 8, 12],
+    luhn: true,
+    ranges: [[5018, 5018], [5020, 5020], [5038, 5038], [5893, 5893], [6304, 6304], [6759, 6759], [6761, 6763]],
+  },
+  {
+    id: 'unionpay',
+    name: 'UnionPay',
+    lengths: [16, 17, 18, 19],
+    cvvLength: 3,
+    cvvLabel: 'CVN',
+    gaps: [4, 8, 12],
+    luhn: false,
+    ranges: [[62, 62], [81, 81]],
+  },
+  {
+    id: 'mastercard',
+    name: 'Mastercard',
+    lengths: [16],
+    cvvLength: 3,
+    cvvLabel: 'CVC',
+    gaps: [4, 8, 12],
+    luhn: true,
+    ranges: [[51, 55], [2221, 2720]],
+  },
+  {
+    id: 'visa',
+    name: 'Visa',
+    lengths: [13, 16, 19],
+    cvvLength: 3,
+    cvvLabel: 'CVV',
+    gaps: [4, 8, 12],
+    luhn: true,
+    ranges: [[4, 4]],
+  },
+];
+
+export const MAX_CARD_NUMBER_LENGTH = 19;
+
+const DEFAULT_GAPS = [4, 8, 12, 16];
+
+const matchesRange = (digits: string, [min, max]: [number, number]): boolean => {
+  const prefixLength = String(min).length;
+  if (digits.length < prefixLength) return false;
+  const prefix = Number(digits.slice(0, prefixLength));
+  return prefix >= min && prefix <= max;
+};
+
+// The brand of a (possibly partial) card number, or null while it cannot be told yet
+export const detectCardBrand = (cardNumber: string): CardBrand | null => {
+  const digits = cardNumber.replace(/\D/g, '');
+  if (!digits) return null;
+  return cardBrands.find(brand => brand.ranges.some(range => matchesRange(digits, range))) ?? null;
+};
+
+// Luhn (mod 10) check digit validation
+export const passesLuhn = (cardNumber: string): boolean => {
+  const digits = cardNumber.replace(/\D/g, '');
+  if (!digits) return false;
+
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+};
+
+export const getMaxCardNumberLength = (brand: CardBrand | null): number => {
+  return brand ? Math.max(...brand.lengths) : MAX_CARD_NUMBER_LENGTH;
+};
+
+export const getCardNumberGaps = (brand: CardBrand | null): number[] => {
+  return brand ? brand.gaps : DEFAULT_GAPS;
+};
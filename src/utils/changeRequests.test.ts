@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import { diffAnswers, getApplicationForm, getReopenedFields, getRevisionForm } from '@/utils/changeRequests';
+import type { ChangeRequestItem } from '@/api/types';
+
+const item = (sectionId: string, field: string | null = null): ChangeRequestItem => ({ sectionId, field, note: 'Please check this' });
+
+describe('diffAnswers', () => {
+  it('lists only the answers that changed', () => {
+    const before = { firstName: 'Ana', city: 'Lyon', agreeTerms: true };
+    const after = { firstName: 'Ana', city: 'Paris', agreeTerms: true };
+    expect(diffAnswers(before, after)).toEqual([{ field: 'city', before: 'Lyon', after: 'Paris' }]);
+  });
+
+  it('records answers given or cleared as changes from or to nothing', () => {
+    expect(diffAnswers({ charity: 'Red Cross' }, { middleName: 'Maria' })).toEqual([
+      { field: 'charity', before: 'Red Cross', after: null },
+      { field: 'middleName', before: null, after: 'Maria' },
+    ]);
+  });
+
+  it('treats a missing answer and an empty one alike', () => {
+    expect(diffAnswers({ middleName: null }, {})).toEqual([]);
+  });
+
+  it('compares answers exactly', () => {
+    expect(diffAnswers({ bio: 'Hello' }, { bio: 'Hello ' })).toEqual([{ field: 'bio', before: 'Hello', after: 'Hello ' }]);
+    expect(diffAnswers({ agreeTerms: true }, { agreeTerms: false })).toEqual([{ field: 'agreeTerms', before: true, after: false }]);
+  });
+});
+
+describe('getReopenedFields', () => {
+  const definition = getApplicationForm('director');
+
+  it('reopens a whole section, except for the locked answers', () => {
+    expect(getReopenedFields(definition, [item('contact')])).toEqual(['fullName', 'phone', 'city']);
+  });
+
+  it('reopens just the fields asked about', () => {
+    expect(getReopenedFields(definition, [item('background', 'skills'), item('profile', 'bio')])).toEqual(['skills', 'bio']);
+  });
+
+  it('lists the fields in form order, whatever order they were asked about in', () => {
+    expect(getReopenedFields(definition, [item('profile', 'bio'), item('contact', 'phone')])).toEqual(['phone', 'bio']);
+  });
+
+  it('never reopens the email address or the country', () => {
+    expect(getReopenedFields(definition, [item('contact', 'email'), item('contact', 'country')])).toEqual([]);
+  });
+
+  it('ignores the review page and sections the form does not have', () => {
+    expect(getReopenedFields(definition, [item('review'), item('missing')])).toEqual([]);
+  });
+});
+
+describe('getRevisionForm', () => {
+  it('asks for the reopened sections, then the review page', () => {
+    const revision = getRevisionForm(getApplicationForm('director'), [item('profile', 'bio'), item('contact', 'city')]);
+    expect(revision.sections.map(section => section.id)).toEqual(['contact', 'profile', 'review']);
+    expect(revision.sections[0].fields.map(field => field.name)).toEqual(['city']);
+  });
+
+  it('keeps the photos already sent unless they are replaced', () => {
+    const revision = getRevisionForm(getApplicationForm('participant'), [item('photos')]);
+    const photos = revision.sections.find(section => section.id === 'photos');
+    expect(photos.fields.map(field => field.required)).toEqual(photos.fields.map(() => undefined));
+    expect(getApplicationForm('participant').sections.find(section => section.id === 'photos').fields[0].required).toBeTruthy();
+  });
+});
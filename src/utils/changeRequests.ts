@@ -0,0 +1,106 @@
+import { directorForm, DirectorFormValues } from '@/utils/directorForm';
+import { participantForm } from '@/utils/participantForm';
+import type { FieldDefinition, FormDefinition, SectionDefinition } from '@/utils/formDefinition';
+import type { SubmittedApplicationData } from '@/utils/formUtils';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { AnswerChange, AnswerValue, ApplicationPayload, ChangeRequest, ChangeRequestItem } from '@/api/types';
+
+// Submitted answers as form values, and the parts of the form a change request
+// reopens. Used by the staff who ask for changes, the applicant who makes them
+// and the (mock) server that checks and records them.
+
+export type AnswerValues = Record<string, AnswerValue>;
+
+export const getApplicationForm = (type: ApplicationType): FormDefinition<AnswerValues> => {
+  return (type === 'participant' ? participantForm : directorForm) as unknown as FormDefinition<AnswerValues>;
+};
+
+// The answers as one set of form values, the way the form definitions see them
+export const toAnswerValues = (payload: ApplicationPayload): AnswerValues => {
+  if (payload.type === 'participant') {
+    return { ...payload.data.formData, agreeTerms: payload.data.agreeTerms };
+  }
+  return { ...payload.data };
+};
+
+export const toApplicationPayload = (type: ApplicationType, values: AnswerValues): ApplicationPayload => {
+  if (type === 'participant') {
+    const { agreeTerms, ...formData } = values;
+    return { type, data: { formData: formData as unknown as SubmittedApplicationData, agreeTerms: agreeTerms === true } };
+  }
+  return { type, data: values as unknown as DirectorFormValues };
+};
+
+// e.g. "swimsuitSizeTop" → "Swimsuit size top"
+export const labelFromName = (name: string): string => {
+  const words = name.replace(/([a-z])([A-Z0-9])/g, '$1 $2').toLowerCase();
+  return words.charAt(0).toUpperCase() + words.slice(1);
+};
+
+// Answers no section asks for, such as calculated ones, are labelled from their name
+export const getFieldLabel = (definition: FormDefinition<AnswerValues>, name: string): string => {
+  const field = definition.sections.flatMap(section => section.fields).find(candidate => candidate.name === name);
+  return field?.label ?? labelFromName(name);
+};
+
+export const formatAnswer = (field: Pick<FieldDefinition<AnswerValues>, 'type'>, value: unknown): string => {
+  if (field.type === 'checkbox' || typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return typeof value === 'string' && value.trim() ? value : 'Not provided';
+};
+
+// Answers that stay as submitted: the email address is what the applicant signs
+// in to the portal with, and the country sets the fee
+export const lockedFields = ['email', 'country'];
+
+// e.g. "Contact Information: Phone Number", or just the section for the whole of it
+export const describeChangeRequestItem = (definition: FormDefinition<AnswerValues>, { sectionId, field }: ChangeRequestItem): string => {
+  const section = definition.sections.find(candidate => candidate.id === sectionId);
+  const title = section?.title ?? labelFromName(sectionId);
+  return field === null ? title : `${title}: ${getFieldLabel(definition, field)}`;
+};
+
+// The sections a change request reopens, in form order: all of a section's
+// fields when it was asked about as a whole, otherwise just the fields asked about
+export const getReopenedSections = <V>(definition: FormDefinition<V>, items: ChangeRequestItem[]): SectionDefinition<V>[] => {
+  return definition.sections.flatMap(section => {
+    const sectionItems = items.filter(item => item.sectionId === section.id);
+    if (section.kind === 'review' || sectionItems.length === 0) return [];
+
+    const fields = section.fields.filter(field => !lockedFields.includes(field.name) && (
+      sectionItems.some(item => item.field === null || item.field === field.name)
+    ));
+    return fields.length > 0 ? [{ ...section, fields }] : [];
+  });
+};
+
+export const getReopenedFields = <V>(definition: FormDefinition<V>, items: ChangeRequestItem[]): string[] => {
+  return getReopenedSections(definition, items).flatMap(section => section.fields.map(field => field.name));
+};
+
+// The form for answering a change request: the reopened sections, then the review
+// page. Photos already sent are kept unless replaced, so none of them is required.
+export const getRevisionForm = <V>(definition: FormDefinition<V>, items: ChangeRequestItem[]): FormDefinition<V> => ({
+  ...definition,
+  sections: [
+    ...getReopenedSections(definition, items).map(section => ({
+      ...section,
+      fields: section.fields.map(field => field.type === 'photo' ? { ...field, required: undefined } : field),
+    })),
+    ...definition.sections.filter(section => section.kind === 'review'),
+  ],
+});
+
+// The answers that differ between two revisions
+export const diffAnswers = (before: AnswerValues, after: AnswerValues): AnswerChange[] => {
+  const fields = [...new Set([...Object.keys(before), ...Object.keys(after)])];
+  return fields
+    .filter(field => (before[field] ?? null) !== (after[field] ?? null))
+    .map(field => ({ field, before: before[field] ?? null, after: after[field] ?? null }));
+};
+
+// A change request being answered on an application form, with the answers it starts from
+export interface FormRevision {
+  applicationId: string;
+  request: ChangeRequest;
+  answers: AnswerValues;
+}
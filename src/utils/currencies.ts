@@ -0,0 +1,125 @@
+import { FEE_CURRENCY } from '@/utils/feeSchedule';
+
+// Currencies the fee can be shown and charged in. Fees are set in FEE_CURRENCY and
+// converted with the rate table below; a rate is locked for a while once chosen so
+// the amount doesn't change under the payer while they fill in the form.
+
+interface ExchangeRateTable {
+  baseCurrency: string;
+  updatedAt: string; // When the rates were last reviewed (ISO 8601)
+  rates: Record<string, number>; // Units of each currency per unit of the base currency
+}
+
+export const exchangeRates: ExchangeRateTable = {
+  baseCurrency: FEE_CURRENCY,
+  updatedAt: '2026-10-01T00:00:00.000Z',
+  rates: {
+    USD: 1,
+    EUR: 0.92,
+    GBP: 0.79,
+    CAD: 1.37,
+    AUD: 1.52,
+    JPY: 149.5,
+    INR: 83.9,
+    IDR: 15650,
+    PHP: 57.2,
+    VND: 25350,
+    NGN: 1545,
+    GHS: 15.8,
+    KES: 129.4,
+    ZAR: 18.1,
+    BRL: 5.45,
+    MXN: 19.6,
+  },
+};
+
+// How long a locked rate is honoured
+export const RATE_LOCK_MINUTES = 30;
+
+export interface ExchangeRateLock {
+  baseCurrency: string;
+  currency: string;
+  rate: number;
+  lockedAt: string;
+  expiresAt: string;
+}
+
+// Local currency for the countries most applicants come from, keyed by lower-case country name
+const countryCurrencies: Record<string, string> = {
+  'united states': 'USD',
+  'united kingdom': 'GBP',
+  canada: 'CAD',
+  australia: 'AUD',
+  japan: 'JPY',
+  india: 'INR',
+  indonesia: 'IDR',
+  philippines: 'PHP',
+  vietnam: 'VND',
+  nigeria: 'NGN',
+  ghana: 'GHS',
+  kenya: 'KES',
+  'south africa': 'ZAR',
+  brazil: 'BRL',
+  mexico: 'MXN',
+  france: 'EUR',
+  germany: 'EUR',
+  italy: 'EUR',
+  spain: 'EUR',
+  netherlands: 'EUR',
+  ireland: 'EUR',
+  portugal: 'EUR',
+  belgium: 'EUR',
+  austria: 'EUR',
+  greece: 'EUR',
+  finland: 'EUR',
+};
+
+export const supportedCurrencies = Object.keys(exchangeRates.rates);
+
+export const getCurrencyForCountry = (country: string): string => {
+  return countryCurrencies[country.trim().toLowerCase()] ?? exchangeRates.baseCurrency;
+};
+
+export const getCurrencyName = (currency: string): string => {
+  return new Intl.DisplayNames(['en'], { type: 'currency' }).of(currency) ?? currency;
+};
+
+// Decimal places used for the currency's minor unit (2 for USD, 0 for JPY)
+export const getMinorUnitDigits = (currency: string): number => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+};
+
+// `amount` is in the currency's minor unit (cents for USD, yen for JPY). Pass
+// 'code' for "USD 10.00" where symbols can't be printed or would be ambiguous.
+export const formatMoney = (amount: number, currency: string, currencyDisplay: 'symbol' | 'code' = 'symbol'): string => {
+  return new Intl.NumberFormat(undefined, { style: 'currency', currency, currencyDisplay }).format(amount / 10 ** getMinorUnitDigits(currency));
+};
+
+export const lockExchangeRate = (currency: string, now = new Date()): ExchangeRateLock => {
+  const rate = exchangeRates.rates[currency];
+  if (rate === undefined) {
+    throw new Error(`No exchange rate is configured for ${currency}`);
+  }
+  return {
+    baseCurrency: exchangeRates.baseCurrency,
+    currency,
+    rate,
+    lockedAt: now.toISOString(),
+    expiresAt: new Date(now.getTime() + RATE_LOCK_MINUTES * 60 * 1000).toISOString(),
+  };
+};
+
+export const isRateLockExpired = (lock: ExchangeRateLock, now = new Date()): boolean => {
+  return now > new Date(lock.expiresAt);
+};
+
+// Convert an amount in the base currency's minor unit to the locked currency's minor unit
+export const convertAmount = (amount: number, lock: ExchangeRateLock): number => {
+  const baseDigits = getMinorUnitDigits(lock.baseCurrency);
+  const targetDigits = getMinorUnitDigits(lock.currency);
+  return Math.round(amount / 10 ** baseDigits * lock.rate * 10 ** targetDigits);
+};
+
+export const formatLockTime = (date: string): string => {
+  return new Date(date).toLocaleTimeString(undefined, { hour: 'numeric', minute: '2-digit' });
+};
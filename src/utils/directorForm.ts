@@ -0,0 +1,230 @@
+import { validateEmail } from '@/utils/formUtils';
+import type { FormDefinition } from '@/utils/formDefinition';
+
+// Everything the National Director application asks, section by section
+
+export interface DirectorFormValues {
+  // Contact Information
+  fullName: string;
+  email: string;
+  phone: string;
+  country: string;
+  city: string;
+
+  // Background and Experience
+  workExperience: string;
+  education: string;
+  skills: string;
+
+  // Motivation and Goals
+  motivation: string;
+  goals: string;
+
+  // Business Plan
+  strategy: string;
+
+  // National Director Agreement
+  agreeToTerms: boolean;
+  agreeToConfidentiality: boolean;
+
+  // Personal and Professional Information
+  dateOfBirth: string;
+  bio: string;
+  socialMedia: string;
+
+  // Country Information
+  countryOverview: string;
+  culturalInfo: string;
+}
+
+export const directorForm: FormDefinition<DirectorFormValues> = {
+  title: 'National Director Application',
+  sections: [
+    {
+      id: 'contact',
+      title: 'Contact Information',
+      description: 'How we can reach you',
+      fields: [
+        { name: 'fullName', type: 'text', label: 'Full Name', placeholder: 'Enter your full name', minLength: 2, required: 'Full name is required' },
+        {
+          name: 'email',
+          type: 'email',
+          label: 'Email Address',
+          placeholder: 'your.email@example.com',
+          required: 'Valid email address is required',
+          validate: (value) => validateEmail(String(value)) ? null : 'Valid email address is required',
+        },
+        { name: 'phone', type: 'tel', label: 'Phone Number', placeholder: 'Enter your phone number', minLength: 8, required: 'Valid phone number is required' },
+        { name: 'country', type: 'text', label: 'Country', placeholder: 'Enter your country', width: 'half', minLength: 2, required: 'Country is required' },
+        { name: 'city', type: 'text', label: 'City', placeholder: 'Enter your city', width: 'half', minLength: 2, required: 'City is required' },
+      ],
+    },
+    {
+      id: 'background',
+      title: 'Background and Experience',
+      description: 'Tell us about your experience and qualifications',
+      fields: [
+        {
+          name: 'workExperience',
+          type: 'textarea',
+          label: 'Work Experience',
+          placeholder: 'Please provide a brief overview of your relevant work experience',
+          rows: 4,
+          minLength: 10,
+          required: 'Work experience is required',
+        },
+        {
+          name: 'education',
+          type: 'textarea',
+          label: 'Education and Qualifications',
+          placeholder: 'What education and qualifications do you hold?',
+          rows: 4,
+          minLength: 5,
+          required: 'Education information is required',
+        },
+        {
+          name: 'skills',
+          type: 'textarea',
+          label: 'Skills',
+          placeholder: 'What skills do you possess that would be beneficial for this role?',
+          rows: 4,
+          minLength: 5,
+          required: 'Skills information is required',
+        },
+      ],
+    },
+    {
+      id: 'motivation',
+      title: 'Motivation and Goals',
+      description: 'Why do you want to represent Miss Bloom Global?',
+      fields: [
+        {
+          name: 'motivation',
+          type: 'textarea',
+          label: 'Motivation',
+          placeholder: 'Why do you want to become a National Director for Miss Bloom Global?',
+          rows: 4,
+          minLength: 20,
+          required: 'Please explain your motivation',
+        },
+        {
+          name: 'goals',
+          type: 'textarea',
+          label: 'Goals',
+          placeholder: 'What do you hope to achieve in this role?',
+          rows: 4,
+          minLength: 20,
+          required: 'Please describe your goals',
+        },
+      ],
+    },
+    {
+      id: 'business',
+      title: 'Business Plan',
+      description: 'Your strategy to promote Miss Bloom Global',
+      fields: [
+        {
+          name: 'strategy',
+          type: 'textarea',
+          label: 'Promotion Strategy',
+          placeholder: 'Please outline your strategy for promoting Miss Bloom Global in your country',
+          help: 'At least 50 characters',
+          rows: 8,
+          minLength: 50,
+          required: 'Please provide a detailed strategy',
+        },
+      ],
+    },
+    {
+      id: 'agreement',
+      title: 'National Director Agreement',
+      description: 'Review and agree to the terms of the role',
+      notice: {
+        title: 'National Director Agreement',
+        blocks: [
+          {
+            heading: 'Terms and Conditions',
+            items: [
+              'The National Director agrees to promote and represent Miss Bloom Global in their designated country.',
+              'The National Director will adhere to the rules, regulations, and guidelines set forth by Miss Bloom Global.',
+            ],
+          },
+          {
+            heading: 'Confidentiality and Non-Disclosure',
+            items: ['The National Director agrees to maintain confidentiality and protect sensitive information related to Miss Bloom Global.'],
+          },
+          {
+            heading: 'Territorial Rights',
+            items: ['The National Director will have exclusive rights to promote Miss Bloom Global in their designated country.'],
+          },
+          {
+            heading: 'Payment Terms',
+            items: ['The National Director will receive percentage or amount of revenue generated from their country.'],
+          },
+        ],
+      },
+      fields: [
+        {
+          name: 'agreeToTerms',
+          type: 'checkbox',
+          label: 'I agree to the Terms and Conditions',
+          required: 'You must agree to the terms and conditions',
+        },
+        {
+          name: 'agreeToConfidentiality',
+          type: 'checkbox',
+          label: 'I agree to maintain confidentiality',
+          required: 'You must agree to the confidentiality terms',
+        },
+      ],
+    },
+    {
+      id: 'profile',
+      title: 'National Director Profile',
+      description: 'Personal and professional information for your profile',
+      fields: [
+        { name: 'dateOfBirth', type: 'date', label: 'Date of Birth', required: 'Date of birth is required' },
+        { name: 'bio', type: 'textarea', label: 'Bio', placeholder: 'Please provide a professional bio', rows: 8, maxWords: 500 },
+        {
+          name: 'socialMedia',
+          type: 'textarea',
+          label: 'Social Media Handles',
+          placeholder: 'Please provide your social media handles (Instagram, Facebook, LinkedIn, etc.)',
+          rows: 4,
+          minLength: 2,
+          required: 'Social media information is required',
+        },
+      ],
+    },
+    {
+      id: 'country',
+      title: 'Country Information',
+      description: 'Information about your country and culture',
+      fields: [
+        {
+          name: 'countryOverview',
+          type: 'textarea',
+          label: 'Country Overview',
+          placeholder: 'Please provide an overview of your country',
+          rows: 8,
+          maxWords: 500,
+        },
+        {
+          name: 'culturalInfo',
+          type: 'textarea',
+          label: 'Cultural and Custom Information',
+          placeholder: "Please provide information about your country's culture and customs",
+          rows: 8,
+          maxWords: 500,
+        },
+      ],
+    },
+    {
+      id: 'review',
+      title: 'Review & Submit',
+      description: 'Review your application before submitting',
+      kind: 'review',
+      fields: [],
+    },
+  ],
+};
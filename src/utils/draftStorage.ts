@@ -0,0 +1,78 @@
+import type { ApplicationFormData } from '@/utils/formUtils';
+
+// Local draft persistence backed by IndexedDB.
+// IndexedDB is used instead of localStorage because drafts can hold File objects
+// (application photos), which IndexedDB stores natively via structured cloning.
+
+const DB_NAME = 'miss-bloom-drafts';
+const DB_VERSION = 1;
+const STORE_NAME = 'drafts';
+
+export const PARTICIPANT_DRAFT_KEY = 'participant-application';
+export const DIRECTOR_DRAFT_KEY = 'director-application';
+
+export interface StoredDraft<T> {
+  data: T;
+  savedAt: string;
+}
+
+const openDraftDatabase = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available in this browser'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+// Run a single request against the drafts store and close the connection afterwards
+const runDraftRequest = async <R>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest
+): Promise<R> => {
+  const db = await openDraftDatabase();
+
+  try {
+    return await new Promise<R>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = makeRequest(transaction.objectStore(STORE_NAME));
+
+      transaction.oncomplete = () => resolve(request.result as R);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveDraft = async <T>(key: string, data: T): Promise<void> => {
+  const draft: StoredDraft<T> = { data, savedAt: new Date().toISOString() };
+  await runDraftRequest<IDBValidKey>('readwrite', store => store.put(draft, key));
+};
+
+export const loadDraft = async <T>(key: string): Promise<StoredDraft<T> | null> => {
+  const draft = await runDraftRequest<StoredDraft<T> | undefined>('readonly', store => store.get(key));
+  return draft ?? null;
+};
+
+export const deleteDraft = async (key: string): Promise<void> => {
+  await runDraftRequest<undefined>('readwrite', store => store.delete(key));
+};
+
+// Everything needed to put the participant form back where the applicant left it
+export interface ParticipantDraft {
+  formData: ApplicationFormData;
+  currentSection: string;
+  agreeTerms: boolean;
+}
@@ -0,0 +1,57 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFee, findOpenSeason, getPaymentTiming } from '@/utils/feeSchedule';
+
+const at = (timestamp: string) => new Date(timestamp);
+
+describe('calculateFee', () => {
+  it.each([
+    ['2026-07-01T00:00:00.000Z', 'early-bird', 17500],
+    ['2026-11-30T23:59:59.999Z', 'early-bird', 17500],
+    ['2026-12-01T00:00:00.000Z', 'regular', 20000],
+    ['2027-03-31T23:59:59.999Z', 'regular', 20000],
+    ['2027-04-01T00:00:00.000Z', 'late', 25000],
+    ['2027-06-30T23:59:59.999Z', 'late', 25000],
+  ])('quotes a participant applying at %s the %s fee', (timestamp, tier, total) => {
+    const fee = calculateFee('participant', 'France', at(timestamp));
+    expect(fee.tier).toBe(tier);
+    expect(fee.total).toBe(total);
+    expect(fee.currency).toBe('USD');
+  });
+
+  it.each([
+    ['2026-11-30T12:00:00.000Z', 20000],
+    ['2027-01-15T12:00:00.000Z', 25000],
+    ['2027-04-15T12:00:00.000Z', 30000],
+  ])('applies the director fees at %s', (timestamp, total) => {
+    expect(calculateFee('director', 'France', at(timestamp)).total).toBe(total);
+  });
+
+  it('applies the regional rate whatever the case and spacing of the country', () => {
+    const fee = calculateFee('participant', '  Kenya ', at('2027-01-15T12:00:00.000Z'));
+    expect(fee.total).toBe(12000);
+    expect(fee.country).toBe('Kenya');
+    expect(fee.lineItems[0].label).toBe('Participant application fee (regional rate for Kenya)');
+  });
+
+  it('adds the discount and late fee to the regional rate', () => {
+    expect(calculateFee('director', 'india', at('2026-08-01T12:00:00.000Z')).total).toBe(10000);
+    expect(calculateFee('director', 'india', at('2027-05-01T12:00:00.000Z')).total).toBe(20000);
+  });
+
+  it('charges the base fee in other countries', () => {
+    const fee = calculateFee('participant', 'Brazil', at('2027-01-15T12:00:00.000Z'));
+    expect(fee.lineItems).toEqual([{ label: 'Participant application fee', amount: 20000 }]);
+  });
+
+  it.each(['2026-06-30T23:59:59.999Z', '2027-07-01T00:00:00.000Z'])('quotes nothing outside a season, at %s', timestamp => {
+    expect(findOpenSeason(at(timestamp))).toBeNull();
+    expect(calculateFee('participant', 'France', at(timestamp))).toBeNull();
+  });
+});
+
+describe('getPaymentTiming', () => {
+  it('has both application types pay straight after the form in the 2027 season', () => {
+    expect(getPaymentTiming('participant', at('2027-01-15T12:00:00.000Z'))).toBe('apply-first');
+    expect(getPaymentTiming('director', at('2027-01-15T12:00:00.000Z'))).toBe('apply-first');
+  });
+});
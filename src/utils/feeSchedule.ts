@@ -0,0 +1,144 @@
+import type { ApplicationType } from '@/utils/applicationFlow';
+
+// Application fees per season. The amount due is worked out from the schedule when
+// an application is submitted, and the payer only ever sees the resulting breakdown.
+// All amounts are in cents.
+
+export const FEE_CURRENCY = 'USD';
+
+export type FeeTier = 'early-bird' | 'regular' | 'late';
+
+// When the fee is paid: before the application form, straight after it, or later
+// from the pay link sent once the application has been submitted
+export type PaymentTiming = 'pay-first' | 'apply-first' | 'pay-later';
+
+export interface FeeLineItem {
+  label: string;
+  amount: number; // Negative for discounts
+}
+
+export interface FeeQuote {
+  applicationType: ApplicationType;
+  seasonId: string;
+  seasonName: string;
+  country: string;
+  tier: FeeTier;
+  currency: string;
+  lineItems: FeeLineItem[];
+  total: number;
+  promoCode?: string; // Promo or voucher code included in the line items
+  quotedAt: string;
+  earlyBirdDeadline: string;
+  lateDeadline: string;
+}
+
+interface SeasonFees {
+  id: string;
+  name: string;
+  // Dates are inclusive and in UTC (YYYY-MM-DD)
+  opensOn: string;
+  earlyBirdDeadline: string; // Last day of early-bird pricing
+  lateDeadline: string; // Last day before the late fee applies
+  closesOn: string;
+  baseFees: Record<ApplicationType, number>;
+  // Regional rates replacing the base fee, keyed by lower-case country name
+  countryFees: Record<ApplicationType, Record<string, number>>;
+  earlyBirdDiscount: Record<ApplicationType, number>;
+  lateFee: Record<ApplicationType, number>;
+  paymentTiming: Record<ApplicationType, PaymentTiming>;
+}
+
+const regionalCountries = ['ghana', 'india', 'indonesia', 'kenya', 'nigeria', 'philippines', 'vietnam'];
+
+const regionalRates = (amount: number): Record<string, number> => {
+  return Object.fromEntries(regionalCountries.map(country => [country, amount]));
+};
+
+export const feeSchedule: SeasonFees[] = [
+  {
+    id: '2027',
+    name: 'Miss Bloom Global 2027',
+    opensOn: '2026-07-01',
+    earlyBirdDeadline: '2026-11-30',
+    lateDeadline: '2027-03-31',
+    closesOn: '2027-06-30',
+    baseFees: { participant: 20000, director: 25000 },
+    countryFees: { participant: regionalRates(12000), director: regionalRates(15000) },
+    earlyBirdDiscount: { participant: 2500, director: 5000 },
+    lateFee: { participant: 5000, director: 5000 },
+    paymentTiming: { participant: 'apply-first', director: 'apply-first' },
+  },
+];
+
+export const applicationTypeLabels: Record<ApplicationType, string> = {
+  participant: 'Participant',
+  director: 'National Director',
+};
+
+const startOfDay = (date: string) => new Date(`${date}T00:00:00.000Z`);
+const endOfDay = (date: string) => new Date(`${date}T23:59:59.999Z`);
+
+export const formatFeeDate = (date: string): string => {
+  return startOfDay(date).toLocaleDateString('en-US', { month: 'short', day: 'numeric', year: 'numeric', timeZone: 'UTC' });
+};
+
+export const formatFeeAmount = (amount: number, currency = FEE_CURRENCY): string => {
+  return new Intl.NumberFormat('en-US', { style: 'currency', currency }).format(amount / 100);
+};
+
+// The season taking applications on `date`, if any
+export const findOpenSeason = (date: Date): SeasonFees | null => {
+  return feeSchedule.find(season => date >= startOfDay(season.opensOn) && date <= endOfDay(season.closesOn)) ?? null;
+};
+
+// Outside a season the usual order applies, so the closed-season message shows after the form as before
+export const getPaymentTiming = (type: ApplicationType, date = new Date()): PaymentTiming => {
+  return findOpenSeason(date)?.paymentTiming[type] ?? 'apply-first';
+};
+
+const getFeeTier = (season: SeasonFees, date: Date): FeeTier => {
+  if (date <= endOfDay(season.earlyBirdDeadline)) return 'early-bird';
+  if (date <= endOfDay(season.lateDeadline)) return 'regular';
+  return 'late';
+};
+
+// Work out what an applicant owes. Returns null when no season is open on `date`.
+export const calculateFee = (type: ApplicationType, country: string, date = new Date()): FeeQuote | null => {
+  const season = findOpenSeason(date);
+  if (!season) return null;
+
+  const normalizedCountry = country.trim().toLowerCase();
+  const regionalFee = season.countryFees[type][normalizedCountry];
+  const tier = getFeeTier(season, date);
+
+  const lineItems: FeeLineItem[] = [{
+    label: `${applicationTypeLabels[type]} application fee${regionalFee !== undefined ? ` (regional rate for ${country.trim()})` : ''}`,
+    amount: regionalFee ?? season.baseFees[type],
+  }];
+  if (tier === 'early-bird') {
+    lineItems.push({
+      label: `Early-bird discount (until ${formatFeeDate(season.earlyBirdDeadline)})`,
+      amount: -season.earlyBirdDiscount[type],
+    });
+  }
+  if (tier === 'late') {
+    lineItems.push({
+      label: `Late application fee (after ${formatFeeDate(season.lateDeadline)})`,
+      amount: season.lateFee[type],
+    });
+  }
+
+  return {
+    applicationType: type,
+    seasonId: season.id,
+    seasonName: season.name,
+    country: country.trim(),
+    tier,
+    currency: FEE_CURRENCY,
+    lineItems,
+    total: lineItems.reduce((sum, item) => sum + item.amount, 0),
+    quotedAt: date.toISOString(),
+    earlyBirdDeadline: season.earlyBirdDeadline,
+    lateDeadline: season.lateDeadline,
+  };
+};
@@ -0,0 +1,134 @@
+import { countWords, FormError } from '@/utils/formUtils';
+
+// Declarative application forms. A form definition lists its sections and their
+// fields, with each field's type, label, help text, validation and visibility.
+// The stepped form renders steps, progress, navigation and the review page from it,
+// and the same definition validates submissions on the (mock) server.
+
+export type FieldType = 'text' | 'email' | 'tel' | 'date' | 'textarea' | 'checkbox' | 'photo';
+
+export type FieldName<V> = keyof V & string;
+
+export interface FieldDefinition<V> {
+  name: FieldName<V>;
+  type: FieldType;
+  label: string;
+  // Extra guidance under the field; may depend on the answers so far
+  help?: string | ((values: V) => string | null);
+  placeholder?: string;
+  rows?: number; // Height of textareas
+  // Fields narrower than the full width share a row with their neighbours
+  width?: 'full' | 'half' | 'third';
+  heading?: string; // Sub-heading shown above the field
+  // Message shown when the field is left empty (or a checkbox unticked); makes it required
+  required?: string;
+  minLength?: number; // Shortest accepted answer, reported with the `required` message
+  maxWords?: number; // Longest accepted answer in words; also shows a word counter
+  validate?: (value: V[FieldName<V>], values: V) => string | null;
+  // Hidden fields are neither shown, validated nor reviewed
+  visibleWhen?: (values: V) => boolean;
+}
+
+export interface SectionNotice {
+  title: string;
+  blocks: { heading?: string; items: string[] }[];
+}
+
+export interface SectionDefinition<V> {
+  id: string;
+  title: string;
+  description: string;
+  notice?: SectionNotice; // Text the applicant reads before answering, e.g. terms
+  kind?: 'review'; // The review page lists every answer instead of asking questions
+  fields: FieldDefinition<V>[];
+}
+
+export interface FormDefinition<V> {
+  title: string;
+  sections: SectionDefinition<V>[];
+  // Values calculated from other answers, e.g. a full name from its parts
+  derive?: (values: V) => Partial<V>;
+}
+
+const emptyValueFor = (type: FieldType): unknown => {
+  if (type === 'checkbox') return false;
+  if (type === 'photo') return null;
+  return '';
+};
+
+// Blank values for every field of the form, including derived ones
+export const getDefaultValues = <V>(definition: FormDefinition<V>): V => {
+  const values = {} as V;
+  definition.sections.forEach(section => {
+    section.fields.forEach(field => {
+      (values as Record<string, unknown>)[field.name] = emptyValueFor(field.type);
+    });
+  });
+  return { ...values, ...definition.derive?.(values) };
+};
+
+// Set one answer and recalculate the derived values
+export const updateFormValues = <V>(definition: FormDefinition<V>, values: V, name: FieldName<V>, value: unknown): V => {
+  const next = { ...values, [name]: value };
+  return { ...next, ...definition.derive?.(next) };
+};
+
+export const getSection = <V>(definition: FormDefinition<V>, sectionId: string): SectionDefinition<V> | undefined => {
+  return definition.sections.find(section => section.id === sectionId);
+};
+
+export const isFieldVisible = <V>(field: FieldDefinition<V>, values: V): boolean => {
+  return field.visibleWhen ? field.visibleWhen(values) : true;
+};
+
+export const getVisibleFields = <V>(section: SectionDefinition<V>, values: V): FieldDefinition<V>[] => {
+  return section.fields.filter(field => isFieldVisible(field, values));
+};
+
+const isEmptyValue = (value: unknown): boolean => {
+  if (typeof value === 'string') return value.trim().length === 0;
+  if (typeof value === 'boolean') return !value;
+  return value === null || value === undefined;
+};
+
+export const validateField = <V>(field: FieldDefinition<V>, values: V): string | null => {
+  if (!isFieldVisible(field, values)) return null;
+
+  const value = values[field.name];
+  if (isEmptyValue(value)) {
+    return field.required ?? null;
+  }
+
+  if (typeof value === 'string') {
+    if (field.minLength && value.trim().length < field.minLength) {
+      return field.required ?? `${field.label} is too short`;
+    }
+    if (field.maxWords && countWords(value) > field.maxWords) {
+      return `${field.label} must be ${field.maxWords} words or less`;
+    }
+  }
+
+  return field.validate?.(value, values) ?? null;
+};
+
+export const validateSection = <V>(definition: FormDefinition<V>, sectionId: string, values: V): FormError[] => {
+  const section = getSection(definition, sectionId);
+  if (!section) return [];
+
+  return section.fields.flatMap(field => {
+    const message = validateField(field, values);
+    return message ? [{ field: field.name, message }] : [];
+  });
+};
+
+// Validate every section, as done before submitting
+export const validateForm = <V>(definition: FormDefinition<V>, values: V): FormError[] => {
+  return definition.sections.flatMap(section => validateSection(definition, section.id, values));
+};
+
+// First section, in form order, that contains one of the errors
+export const findSectionWithErrors = <V>(definition: FormDefinition<V>, errors: FormError[]): SectionDefinition<V> | undefined => {
+  return definition.sections.find(section =>
+    section.fields.some(field => errors.some(error => error.field === field.name))
+  );
+};
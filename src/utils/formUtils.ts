@@ -1,3 +1,6 @@
+import { detectCardBrand, getCardNumberGaps, passesLuhn } from '@/utils/cardBrands';
+import { getIbanError, isValidBic, looksLikeIban } from '@/utils/bankTransfer';
+
 // Form validation utilities
 export const validateEmail = (email: string): boolean => {
   const emailRegex = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
@@ -14,8 +17,13 @@ export const validateRequired = (value: string): boolean => {
   return value.trim().length > 0;
 };
 
-export const validateMaxLength = (value: string, maxLength: number): boolean => {
-  return value.length <= maxLength;
+// "15", "14 or 16", "16 to 19"
+const formatLengths = (lengths: number[]): string => {
+  if (lengths.length === 1) return String(lengths[0]);
+  const min = Math.min(...lengths);
+  const max = Math.max(...lengths);
+  if (lengths.length === max - min + 1) return `${min} to ${max}`;
+  return `${lengths.slice(0, -1).join(', ')} or ${max}`;
 };
 
 export interface FormError {
@@ -31,9 +39,17 @@ export const validatePaymentForm = (data: {
 }): FormError[] => {
   const errors: FormError[] = [];
   
-  // Validate card number (simple check for now - would use a library in production)
-  if (!data.cardNumber || data.cardNumber.replace(/\s/g, '').length !== 16) {
-    errors.push({ field: 'cardNumber', message: 'Please enter a valid 16-digit card number' });
+  // Validate card number against the rules of the brand its first digits belong to
+  const digits = data.cardNumber.replace(/\D/g, '');
+  const brand = detectCardBrand(digits);
+  if (!digits) {
+    errors.push({ field: 'cardNumber', message: 'Please enter your card number' });
+  } else if (!brand) {
+    errors.push({ field: 'cardNumber', message: 'This card type is not supported' });
+  } else if (!brand.lengths.includes(digits.length)) {
+    errors.push({ field: 'cardNumber', message: `${brand.name} card numbers have ${formatLengths(brand.lengths)} digits` });
+  } else if (brand.luhn && !passesLuhn(digits)) {
+    errors.push({ field: 'cardNumber', message: 'Please check your card number' });
   }
   
   // Validate expiry date (MM/YY format)
@@ -50,9 +66,10 @@ export const validatePaymentForm = (data: {
     }
   }
   
-  // Validate CVV (3 or 4 digits)
-  if (!/^[0-9]{3,4}$/.test(data.cvv)) {
-    errors.push({ field: 'cvv', message: 'Please enter a valid CVV' });
+  // Validate CVV (4 digits for American Express, 3 for other brands)
+  const cvvLength = brand?.cvvLength ?? 3;
+  if (!new RegExp(`^[0-9]{${cvvLength}}$`).test(data.cvv)) {
+    errors.push({ field: 'cvv', message: `Please enter the ${cvvLength}-digit ${brand?.cvvLabel ?? 'CVV'}` });
   }
   
   // Validate cardholder name
@@ -63,6 +80,36 @@ export const validatePaymentForm = (data: {
   return errors;
 };
 
+// Details of the account a bank transfer will be sent from, used to match it on arrival
+export const validateBankTransferForm = (data: {
+  accountHolder: string;
+  account: string;
+  bic: string;
+}): FormError[] => {
+  const errors: FormError[] = [];
+
+  if (!validateRequired(data.accountHolder)) {
+    errors.push({ field: 'accountHolder', message: 'Please enter the account holder name' });
+  }
+
+  // IBAN countries are checked against the IBAN checksum; elsewhere a local account number is used
+  const account = data.account.replace(/\s/g, '');
+  if (!account) {
+    errors.push({ field: 'account', message: 'Please enter your IBAN or account number' });
+  } else if (looksLikeIban(account)) {
+    const ibanError = getIbanError(account);
+    if (ibanError) errors.push({ field: 'account', message: ibanError });
+  } else if (!/^[0-9A-Za-z-]{4,34}$/.test(account)) {
+    errors.push({ field: 'account', message: 'Please enter a valid account number' });
+  }
+
+  if (!isValidBic(data.bic)) {
+    errors.push({ field: 'bic', message: 'Please enter a valid 8 or 11 character SWIFT/BIC code' });
+  }
+
+  return errors;
+};
+
 export interface ApplicationFormData {
   // Basic info
   firstName: string;
@@ -141,189 +188,29 @@ export interface ApplicationFormData {
   willFollowRules: boolean;
 }
 
-export const validateApplicationForm = (
-  data: Partial<ApplicationFormData>,
-  currentSection: string
-): FormError[] => {
-  const errors: FormError[] = [];
-  
-  // Contact Information section validation
-  if (currentSection === 'contact') {
-    if (!validateRequired(data.firstName || '')) {
-      errors.push({ field: 'firstName', message: 'First name is required' });
-    }
-    
-    if (!validateRequired(data.lastName || '')) {
-      errors.push({ field: 'lastName', message: 'Last name is required' });
-    }
-    
-    if (!validateEmail(data.email || '')) {
-      errors.push({ field: 'email', message: 'Please enter a valid email address' });
-    }
-    
-    if (!validatePhone(data.phone || '')) {
-      errors.push({ field: 'phone', message: 'Please enter a valid phone number' });
-    }
-    
-    if (!validateRequired(data.country || '')) {
-      errors.push({ field: 'country', message: 'Country is required' });
-    }
-    
-    if (!validateRequired(data.city || '')) {
-      errors.push({ field: 'city', message: 'City is required' });
-    }
-  }
-  
-  // Eligibility section validation
-  if (currentSection === 'eligibility') {
-    if (data.isEligible !== true) {
-      errors.push({ field: 'isEligible', message: 'You must confirm your eligibility to proceed' });
-    }
-    
-    if (data.hasValidPassport !== true) {
-      errors.push({ field: 'hasValidPassport', message: 'You must have a valid international passport' });
-    }
-    
-    if (data.canTravel !== true) {
-      errors.push({ field: 'canTravel', message: 'You must be available to travel' });
-    }
-    
-    if (data.isGoodHealth !== true) {
-      errors.push({ field: 'isGoodHealth', message: 'You must be in good physical and mental health' });
-    }
-    
-    if (data.willFollowRules !== true) {
-      errors.push({ field: 'willFollowRules', message: 'You must commit to follow pageant rules and regulations' });
-    }
-  }
-  
-  // Personal Information section validation
-  if (currentSection === 'personal') {
-    if (!validateRequired(data.dateOfBirth || '')) {
-      errors.push({ field: 'dateOfBirth', message: 'Date of birth is required' });
-    }
-    
-    if (!validateRequired(data.ethnicity || '')) {
-      errors.push({ field: 'ethnicity', message: 'Ethnicity is required' });
-    }
-    
-    if (!validateRequired(data.representCountry || '')) {
-      errors.push({ field: 'representCountry', message: 'Country to represent is required' });
-    }
-    
-    if (!validateRequired(data.height || '')) {
-      errors.push({ field: 'height', message: 'Height is required' });
-    }
-    
-    if (!validateRequired(data.weight || '')) {
-      errors.push({ field: 'weight', message: 'Weight is required' });
-    }
-  }
-  
-  // Background section validation
-  if (currentSection === 'background') {
-    if (!validateRequired(data.experience || '')) {
-      errors.push({ field: 'experience', message: 'Work experience information is required' });
-    }
-    
-    if (!validateRequired(data.education || '')) {
-      errors.push({ field: 'education', message: 'Education information is required' });
-    }
-    
-    if (!validateRequired(data.skills || '')) {
-      errors.push({ field: 'skills', message: 'Skills information is required' });
-    }
-  }
-  
-  // Motivation section validation
-  if (currentSection === 'motivation') {
-    if (!validateRequired(data.motivation || '')) {
-      errors.push({ field: 'motivation', message: 'Motivation information is required' });
-    }
-    
-    if (!validateRequired(data.goals || '')) {
-      errors.push({ field: 'goals', message: 'Goals information is required' });
-    }
-  }
-  
-  // Business Plan section validation
-  if (currentSection === 'business') {
-    if (!validateRequired(data.strategy || '')) {
-      errors.push({ field: 'strategy', message: 'Strategy information is required' });
-    }
-  }
-  
-  // Profile section validation
-  if (currentSection === 'profile') {
-    if (!validateRequired(data.dateOfBirth || '')) {
-      errors.push({ field: 'dateOfBirth', message: 'Date of birth is required' });
-    }
-    
-    if (!validateRequired(data.bio || '')) {
-      errors.push({ field: 'bio', message: 'Bio is required' });
-    }
-    
-    if (data.bio && !validateMaxLength(data.bio, 500)) {
-      errors.push({ field: 'bio', message: 'Bio must be 500 words or less' });
-    }
-    
-    if (!validateRequired(data.socialMedia || '')) {
-      errors.push({ field: 'socialMedia', message: 'Social media information is required' });
-    }
-  }
-  
-  // Photos section validation
-  if (currentSection === 'photos') {
-    if (!data.headShot1) {
-      errors.push({ field: 'headShot1', message: 'Head shot #1 is required' });
-    }
-    
-    if (!data.headShot2) {
-      errors.push({ field: 'headShot2', message: 'Head shot #2 is required' });
-    }
-    
-    if (!data.bodyShot1) {
-      errors.push({ field: 'bodyShot1', message: 'Body shot #1 is required' });
-    }
-    
-    if (!data.bodyShot2) {
-      errors.push({ field: 'bodyShot2', message: 'Body shot #2 is required' });
-    }
-  }
-  
-  // Country Info section validation
-  if (currentSection === 'countryInfo') {
-    if (!validateRequired(data.countryOverview || '')) {
-      errors.push({ field: 'countryOverview', message: 'Country overview is required' });
-    }
-    
-    if (data.countryOverview && !validateMaxLength(data.countryOverview, 500)) {
-      errors.push({ field: 'countryOverview', message: 'Country overview must be 500 words or less' });
-    }
-    
-    if (!validateRequired(data.culturalInfo || '')) {
-      errors.push({ field: 'culturalInfo', message: 'Cultural information is required' });
-    }
-    
-    if (data.culturalInfo && !validateMaxLength(data.culturalInfo, 500)) {
-      errors.push({ field: 'culturalInfo', message: 'Cultural information must be 500 words or less' });
-    }
-  }
-  
-  return errors;
-};
+// Photo fields of the participant application
+export const photoFields = ['headShot1', 'headShot2', 'bodyShot1', 'bodyShot2', 'additionalImage1', 'additionalImage2'] as const;
+
+export type PhotoField = typeof photoFields[number];
+
+// Application data as submitted, with each photo replaced by the ID of its completed upload
+export type SubmittedApplicationData = Omit<ApplicationFormData, PhotoField> & Record<PhotoField, string | null>;
 
 // Function to count words in a string
 export const countWords = (text: string): number => {
   return text.trim().split(/\s+/).filter(Boolean).length;
 };
 
-// Format credit card number with spaces
+// Format credit card number with spaces, grouped the way the brand prints it (4-6-5 for Amex)
 export const formatCardNumber = (value: string): string => {
-  return value
-    .replace(/\s/g, '')
-    .replace(/(\d{4})/g, '$1 ')
-    .trim();
+  const digits = value.replace(/\D/g, '');
+  const gaps = getCardNumberGaps(detectCardBrand(digits));
+  let formatted = '';
+  for (let i = 0; i < digits.length; i++) {
+    if (gaps.includes(i)) formatted += ' ';
+    formatted += digits[i];
+  }
+  return formatted;
 };
 
 // Format expiry date as MM/YY
@@ -0,0 +1,173 @@
+// Client-side photo processing applied before upload: photos are decoded,
+// turned upright, downscaled and re-encoded. Re-encoding through a canvas writes
+// a fresh file without any of the original metadata, so EXIF data such as GPS
+// coordinates and camera details never leaves the applicant's device.
+
+export interface PhotoProcessingOptions {
+  maxEdge: number; // Longest side of the output in pixels
+  mimeType: 'image/jpeg' | 'image/webp';
+  quality: number; // Encoder quality between 0 and 1
+}
+
+export const photoProcessingConfig: PhotoProcessingOptions = {
+  maxEdge: 2400,
+  mimeType: 'image/jpeg',
+  quality: 0.85,
+};
+
+const HEIC_TYPES = ['image/heic', 'image/heif', 'image/heic-sequence', 'image/heif-sequence'];
+
+export const isHeicFile = (file: File): boolean => {
+  return HEIC_TYPES.includes(file.type.toLowerCase()) || /\.(heic|heif)$/i.test(file.name);
+};
+
+const isImageFile = (file: File): boolean => file.type.startsWith('image/') || isHeicFile(file);
+
+// Read the EXIF orientation tag (1-8) from a JPEG. Returns 1 when there is none.
+export const readExifOrientation = async (file: Blob): Promise<number> => {
+  const view = new DataView(await file.slice(0, 128 * 1024).arrayBuffer());
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return 1;
+
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    const segmentLength = view.getUint16(offset + 2);
+
+    // APP1 segment starting with "Exif\0\0"
+    if (marker === 0xffe1 && offset + 10 <= view.byteLength && view.getUint32(offset + 4) === 0x45786966) {
+      const tiffStart = offset + 10;
+      // Malformed EXIF points outside the data; the photo is then taken as upright
+      if (tiffStart + 8 > view.byteLength) return 1;
+      const littleEndian = view.getUint16(tiffStart) === 0x4949;
+      const ifdStart = tiffStart + view.getUint32(tiffStart + 4, littleEndian);
+      if (ifdStart + 2 > view.byteLength) return 1;
+      const entryCount = view.getUint16(ifdStart, littleEndian);
+
+      for (let i = 0; i < entryCount; i++) {
+        const entry = ifdStart + 2 + i * 12;
+        if (entry + 10 > view.byteLength) break;
+        if (view.getUint16(entry, littleEndian) === 0x0112) {
+          const orientation = view.getUint16(entry + 8, littleEndian);
+          return orientation >= 1 && orientation <= 8 ? orientation : 1;
+        }
+      }
+      return 1;
+    }
+
+    // Orientation lives before the image data, so stop at start-of-scan
+    if (marker === 0xffda || (marker & 0xff00) !== 0xff00) break;
+    offset += 2 + segmentLength;
+  }
+
+  return 1;
+};
+
+// Browsers that honour `image-orientation: from-image` already draw images upright
+const browserAppliesOrientation = (): boolean => {
+  return typeof CSS !== 'undefined' && CSS.supports?.('image-orientation', 'from-image');
+};
+
+export const loadImage = (file: Blob): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const url = URL.createObjectURL(file);
+    const image = new Image();
+    image.onload = () => {
+      URL.revokeObjectURL(url);
+      resolve(image);
+    };
+    image.onerror = () => {
+      URL.revokeObjectURL(url);
+      reject(new Error('This image could not be read'));
+    };
+    image.src = url;
+  });
+};
+
+const canvasToBlob = (canvas: HTMLCanvasElement, mimeType: string, quality: number): Promise<Blob> => {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => {
+      if (blob) {
+        resolve(blob);
+      } else {
+        reject(new Error('This image could not be processed'));
+      }
+    }, mimeType, quality);
+  });
+};
+
+const replaceExtension = (fileName: string, mimeType: string): string => {
+  const extension = mimeType === 'image/webp' ? 'webp' : 'jpg';
+  const baseName = fileName.replace(/\.[^.]+$/, '') || 'photo';
+  return `${baseName}.${extension}`;
+};
+
+// Encode a canvas as a photo file named after the original
+export const canvasToFile = async (
+  canvas: HTMLCanvasElement,
+  fileName: string,
+  options: PhotoProcessingOptions = photoProcessingConfig
+): Promise<File> => {
+  let blob = await canvasToBlob(canvas, options.mimeType, options.quality);
+  // Browsers that cannot encode WebP silently fall back to PNG; use JPEG instead
+  if (blob.type !== options.mimeType) {
+    blob = await canvasToBlob(canvas, 'image/jpeg', options.quality);
+  }
+
+  return new File([blob], replaceExtension(fileName, blob.type), { type: blob.type });
+};
+
+// Apply the canvas transform that turns an image with the given EXIF orientation upright
+const applyOrientation = (context: CanvasRenderingContext2D, orientation: number, width: number, height: number) => {
+  switch (orientation) {
+    case 2: context.transform(-1, 0, 0, 1, width, 0); break;
+    case 3: context.transform(-1, 0, 0, -1, width, height); break;
+    case 4: context.transform(1, 0, 0, -1, 0, height); break;
+    case 5: context.transform(0, 1, 1, 0, 0, 0); break;
+    case 6: context.transform(0, 1, -1, 0, height, 0); break;
+    case 7: context.transform(0, -1, -1, 0, height, width); break;
+    case 8: context.transform(0, -1, 1, 0, 0, width); break;
+  }
+};
+
+// Decode, orient, downscale and re-encode a photo, returning a metadata-free copy
+export const processPhoto = async (file: File, options: PhotoProcessingOptions = photoProcessingConfig): Promise<File> => {
+  if (!isImageFile(file)) {
+    throw new Error('Please choose an image file');
+  }
+
+  let image: HTMLImageElement;
+  try {
+    image = await loadImage(file);
+  } catch {
+    throw new Error(isHeicFile(file)
+      ? 'HEIC photos are not supported by this browser. Please choose a JPEG or PNG version.'
+      : 'This image could not be read. Please choose a JPEG, PNG or WebP photo.');
+  }
+
+  const orientation = browserAppliesOrientation() ? 1 : await readExifOrientation(file);
+  const swapsSides = orientation >= 5;
+
+  // Natural size as decoded, scaled so the longest side fits
+  const scale = Math.min(1, options.maxEdge / Math.max(image.naturalWidth, image.naturalHeight));
+  const drawWidth = Math.round(image.naturalWidth * scale);
+  const drawHeight = Math.round(image.naturalHeight * scale);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = swapsSides ? drawHeight : drawWidth;
+  canvas.height = swapsSides ? drawWidth : drawHeight;
+
+  const context = canvas.getContext('2d');
+  if (!context) {
+    throw new Error('This image could not be processed');
+  }
+  if (options.mimeType === 'image/jpeg') {
+    // JPEG has no transparency, so flatten onto white rather than black
+    context.fillStyle = '#ffffff';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+  }
+  applyOrientation(context, orientation, drawWidth, drawHeight);
+  context.imageSmoothingQuality = 'high';
+  context.drawImage(image, 0, 0, drawWidth, drawHeight);
+
+  return canvasToFile(canvas, file.name, options);
+};
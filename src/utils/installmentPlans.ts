@@ -0,0 +1,93 @@
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { FeeQuote } from '@/utils/feeSchedule';
+
+// Installment plans let the fee be paid as a deposit now and the rest in monthly
+// payments. The schedule is fixed by the server when a plan is chosen, and only
+// the deposit is charged on the payment step. All amounts are in cents.
+
+export interface InstallmentPlan {
+  id: string;
+  name: string;
+  depositPercent: number;
+  monthlyPayments: number; // After the deposit
+  applicationTypes: ApplicationType[];
+  minimumTotal: number; // Smaller fees are paid in full
+}
+
+export const installmentPlans: InstallmentPlan[] = [
+  {
+    id: 'deposit-2',
+    name: 'Deposit + 2 monthly payments',
+    depositPercent: 40,
+    monthlyPayments: 2,
+    applicationTypes: ['participant'],
+    minimumTotal: 10000,
+  },
+  {
+    id: 'deposit-3',
+    name: 'Deposit + 3 monthly payments',
+    depositPercent: 25,
+    monthlyPayments: 3,
+    applicationTypes: ['participant'],
+    minimumTotal: 15000,
+  },
+];
+
+export interface Installment {
+  number: number; // 1 is the deposit
+  label: string;
+  amount: number;
+  dueDate: string; // YYYY-MM-DD, UTC
+  paidAt?: string;
+}
+
+export interface PaymentSchedule {
+  planId: string;
+  planName: string;
+  currency: string;
+  total: number;
+  installments: Installment[];
+}
+
+export const findInstallmentPlan = (id: string): InstallmentPlan | null => {
+  return installmentPlans.find(plan => plan.id === id) ?? null;
+};
+
+// Plans the applicant can choose for this quote
+export const getAvailablePlans = (fee: FeeQuote): InstallmentPlan[] => {
+  return installmentPlans.filter(plan => plan.applicationTypes.includes(fee.applicationType) && fee.total >= plan.minimumTotal);
+};
+
+// The same day `months` later, or the last day of that month when it is shorter
+const addMonths = (date: Date, months: number): string => {
+  const year = date.getUTCFullYear();
+  const month = date.getUTCMonth() + months;
+  const lastDay = new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month, Math.min(date.getUTCDate(), lastDay))).toISOString().slice(0, 10);
+};
+
+// Deposit due on `startDate`, then equal monthly payments; rounding is taken up by the last one
+export const buildPaymentSchedule = (plan: InstallmentPlan, fee: FeeQuote, startDate = new Date()): PaymentSchedule => {
+  const deposit = Math.round(fee.total * plan.depositPercent / 100);
+  const monthly = Math.floor((fee.total - deposit) / plan.monthlyPayments);
+
+  const installments: Installment[] = [{ number: 1, label: 'Deposit', amount: deposit, dueDate: addMonths(startDate, 0) }];
+  for (let month = 1; month <= plan.monthlyPayments; month++) {
+    installments.push({
+      number: month + 1,
+      label: `Payment ${month} of ${plan.monthlyPayments}`,
+      amount: month === plan.monthlyPayments ? fee.total - deposit - monthly * (plan.monthlyPayments - 1) : monthly,
+      dueDate: addMonths(startDate, month),
+    });
+  }
+
+  return { planId: plan.id, planName: plan.name, currency: fee.currency, total: fee.total, installments };
+};
+
+export const getPaidAmount = (schedule: PaymentSchedule): number => {
+  return schedule.installments.filter(installment => installment.paidAt).reduce((sum, installment) => sum + installment.amount, 0);
+};
+
+export const getUpcomingInstallments = (schedule: PaymentSchedule): Installment[] => {
+  return schedule.installments.filter(installment => !installment.paidAt);
+};
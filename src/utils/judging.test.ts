@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest';
+import { AnswerValues, getApplicationForm, toAnswerValues, toApplicationPayload } from '@/utils/changeRequests';
+import { aggregateScores, getBlindFields, getJudgeBaselines, getMedian, toBlindPayload } from '@/utils/judging';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { ScoreSheet } from '@/api/types';
+
+const contactFields = ['firstName', 'middleName', 'lastName', 'fullName', 'email', 'phone', 'homePhone', 'street', 'addressLine2', 'zipCode', 'socialMedia'];
+
+// Every question of the form answered with a value that names the field it came from
+const answerEverything = (type: ApplicationType): AnswerValues => {
+  const values: AnswerValues = {};
+  getApplicationForm(type).sections.flatMap(section => section.fields).forEach(field => {
+    values[field.name] = `answer to ${field.name}`;
+  });
+  return values;
+};
+
+describe('toBlindPayload', () => {
+  it.each<ApplicationType>(['participant', 'director'])('leaves none of the identifying %s answers', type => {
+    const values = answerEverything(type);
+    const blind = toAnswerValues(toBlindPayload(toApplicationPayload(type, values)));
+
+    const identifying = [...contactFields, ...getBlindFields(type)].filter(name => name in values);
+    expect(identifying.length).toBeGreaterThan(0);
+    identifying.forEach(name => {
+      expect(blind[name]).toBeNull();
+      expect(JSON.stringify(blind)).not.toContain(`answer to ${name}"`);
+    });
+  });
+
+  it('keeps the answers the rubric is scored on', () => {
+    const blind = toAnswerValues(toBlindPayload(toApplicationPayload('participant', answerEverything('participant'))));
+    expect(blind.motivation).toBe('answer to motivation');
+    expect(blind.country).toBe('answer to country');
+  });
+});
+
+// A sheet giving every participant criterion the same score
+const sheet = (judgeEmail: string, score: number): ScoreSheet => ({
+  judgeEmail,
+  judgeName: judgeEmail,
+  scores: { presentation: score, communication: score, motivation: score, advocacy: score },
+  comments: {},
+  submittedAt: '2027-01-15T12:00:00.000Z',
+});
+
+describe('getMedian', () => {
+  it('takes the middle score of an odd count', () => {
+    expect(getMedian([9, 1, 5])).toBe(5);
+  });
+
+  it('averages the two middle scores of an even count', () => {
+    expect(getMedian([8, 2, 4, 6])).toBe(5);
+  });
+
+  it('has no median without scores', () => {
+    expect(getMedian([])).toBeNull();
+  });
+});
+
+describe('getJudgeBaselines', () => {
+  it('works out each judge\'s mean and standard deviation', () => {
+    const baselines = getJudgeBaselines([sheet('strict', 2), sheet('strict', 4), sheet('generous', 8)]);
+    expect(baselines.get('strict')).toEqual({ mean: 3, deviation: 1 });
+  });
+
+  it('gives a judge who always scores the same no deviation', () => {
+    const baselines = getJudgeBaselines([sheet('flat', 7), sheet('flat', 7)]);
+    expect(baselines.get('flat')).toEqual({ mean: 7, deviation: 0 });
+  });
+});
+
+describe('aggregateScores', () => {
+  it('normalizes each score against the judge\'s own baseline', () => {
+    // The strict judge scores 2 and 4, the generous one 6 and 10: both rank this application their best
+    const baselines = getJudgeBaselines([sheet('strict', 2), sheet('strict', 4), sheet('generous', 6), sheet('generous', 10)]);
+    const scores = aggregateScores('participant', [sheet('strict', 4), sheet('generous', 10)], baselines);
+
+    expect(scores.overall).toEqual({ mean: 7, median: 7, normalized: 1 });
+    expect(scores.criteria.map(criterion => criterion.criterionId)).toEqual(['presentation', 'communication', 'motivation', 'advocacy']);
+    scores.criteria.forEach(criterion => expect(criterion.normalized).toBe(1));
+  });
+
+  it('counts a judge without deviation as average', () => {
+    const baselines = getJudgeBaselines([sheet('flat', 7), sheet('flat', 7)]);
+    const scores = aggregateScores('participant', [sheet('flat', 7)], baselines);
+    expect(scores.overall).toEqual({ mean: 7, median: 7, normalized: 0 });
+  });
+
+  it('leaves criteria nobody scored empty', () => {
+    const scores = aggregateScores('participant', [], new Map());
+    expect(scores.overall).toEqual({ mean: null, median: null, normalized: null });
+  });
+});
@@ -0,0 +1,141 @@
+import { getApplicationForm, toAnswerValues, toApplicationPayload } from '@/utils/changeRequests';
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { ApplicationPayload, ApplicationScores, ScoreAggregate, ScoreSheet } from '@/api/types';
+
+// The rubrics the selection committee scores applications against, and how their
+// scores are brought together. Used by the judges who score, the staff who read
+// the results and the (mock) server that keeps them.
+
+export interface RubricCriterion {
+  id: string;
+  label: string;
+  description: string; // What judges look for
+}
+
+export interface ScoringRubric {
+  criteria: RubricCriterion[];
+  blind: boolean; // Judges see the answers without the name, contact details or photos
+}
+
+export const MIN_SCORE = 1;
+export const MAX_SCORE = 10;
+export const MAX_COMMENT_LENGTH = 1000;
+
+export const scoringRubrics: Record<ApplicationType, ScoringRubric> = {
+  participant: {
+    blind: true,
+    criteria: [
+      { id: 'presentation', label: 'Presentation', description: 'Poise, confidence and how the applicant comes across in their answers and photos' },
+      { id: 'communication', label: 'Communication', description: 'How clearly and convincingly they express themselves' },
+      { id: 'motivation', label: 'Motivation', description: 'Why they want to compete and what they hope to achieve' },
+      { id: 'advocacy', label: 'Advocacy', description: 'Their commitment to a cause and their plan to champion it' },
+    ],
+  },
+  director: {
+    blind: false,
+    criteria: [
+      { id: 'experience', label: 'Experience', description: 'Relevant work, events and leadership experience' },
+      { id: 'communication', label: 'Communication', description: 'How clearly and professionally they express themselves' },
+      { id: 'motivation', label: 'Motivation', description: 'Why they want to direct Miss Bloom in their country' },
+      { id: 'strategy', label: 'Strategy', description: 'How realistic and complete their plan for the franchise is' },
+    ],
+  },
+};
+
+// Answers that would tell a blind judge who the applicant is
+const identifyingFields = [
+  'firstName', 'middleName', 'lastName', 'fullName',
+  'email', 'phone', 'homePhone', 'street', 'addressLine2', 'zipCode', 'socialMedia',
+];
+
+export const getBlindFields = (type: ApplicationType): string[] => {
+  const photoFields = getApplicationForm(type).sections
+    .flatMap(section => section.fields)
+    .filter(field => field.type === 'photo')
+    .map(field => field.name);
+  return [...identifyingFields, ...photoFields];
+};
+
+// The answers as a blind judge gets them, with the identifying ones emptied
+export const toBlindPayload = (payload: ApplicationPayload): ApplicationPayload => {
+  const values = toAnswerValues(payload);
+  getBlindFields(payload.type).forEach(name => {
+    if (name in values) values[name] = null;
+  });
+  return toApplicationPayload(payload.type, values);
+};
+
+export const getMean = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  return values.reduce((sum, value) => sum + value, 0) / values.length;
+};
+
+export const getMedian = (values: number[]): number | null => {
+  if (values.length === 0) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+export interface JudgeBaseline {
+  mean: number;
+  deviation: number; // Standard deviation; 0 when every score the judge gave is the same
+}
+
+// How each judge scores across the sheets given, by their email address. Pass the sheets
+// of one application type: each type has its own rubric, so its scores compare only with each other.
+export const getJudgeBaselines = (sheets: ScoreSheet[]): Map<string, JudgeBaseline> => {
+  const scoresByJudge = new Map<string, number[]>();
+  sheets.forEach(sheet => {
+    scoresByJudge.set(sheet.judgeEmail, [...(scoresByJudge.get(sheet.judgeEmail) ?? []), ...Object.values(sheet.scores)]);
+  });
+
+  const baselines = new Map<string, JudgeBaseline>();
+  scoresByJudge.forEach((scores, judgeEmail) => {
+    const mean = getMean(scores) ?? 0;
+    const variance = getMean(scores.map(score => (score - mean) ** 2)) ?? 0;
+    baselines.set(judgeEmail, { mean, deviation: Math.sqrt(variance) });
+  });
+  return baselines;
+};
+
+// A score as standard deviations from the judge's own mean. A judge who gives
+// everyone the same score says nothing about how applications compare.
+const normalize = (score: number, baseline: JudgeBaseline | undefined): number => {
+  return baseline && baseline.deviation > 0 ? (score - baseline.mean) / baseline.deviation : 0;
+};
+
+const aggregate = (sheets: ScoreSheet[], scoreOf: (sheet: ScoreSheet) => number | null, baselines: Map<string, JudgeBaseline>): ScoreAggregate => {
+  const scored = sheets.flatMap(sheet => {
+    const score = scoreOf(sheet);
+    return score === null ? [] : [{ score, normalized: normalize(score, baselines.get(sheet.judgeEmail)) }];
+  });
+  return {
+    mean: getMean(scored.map(({ score }) => score)),
+    median: getMedian(scored.map(({ score }) => score)),
+    normalized: getMean(scored.map(({ normalized }) => normalized)),
+  };
+};
+
+// The average of the criteria a judge scored
+export const getSheetAverage = (sheet: ScoreSheet): number | null => getMean(Object.values(sheet.scores));
+
+// The scores of one application, against baselines from the sheets of every application of its type
+export const aggregateScores = (type: ApplicationType, sheets: ScoreSheet[], baselines: Map<string, JudgeBaseline>): ApplicationScores => ({
+  sheets,
+  criteria: scoringRubrics[type].criteria.map(criterion => ({
+    criterionId: criterion.id,
+    ...aggregate(sheets, sheet => sheet.scores[criterion.id] ?? null, baselines),
+  })),
+  overall: aggregate(sheets, getSheetAverage, baselines),
+});
+
+// e.g. "7.3", or "—" before anyone has scored
+export const formatScore = (score: number | null): string => score === null ? '—' : score.toFixed(1);
+
+// e.g. "+0.42" above the judges' usual score, "−0.10" below it
+export const formatNormalizedScore = (score: number | null): string => {
+  if (score === null) return '—';
+  const rounded = Math.round(score * 100) / 100;
+  return `${rounded > 0 ? '+' : rounded < 0 ? '−' : '±'}${Math.abs(rounded).toFixed(2)}`;
+};
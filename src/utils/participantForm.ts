@@ -0,0 +1,321 @@
+import { ApplicationFormData, calculateAge, isAgeInRange, photoFields, validateEmail, validatePhone } from '@/utils/formUtils';
+import { getPhotoFileError, photoRequirements } from '@/utils/photoRequirements';
+import type { FieldDefinition, FormDefinition } from '@/utils/formDefinition';
+
+// Everything the participant application asks, section by section
+
+export type ParticipantFormValues = ApplicationFormData & {
+  agreeTerms: boolean;
+};
+
+const photoFieldDefinitions: FieldDefinition<ParticipantFormValues>[] = photoFields.map(field => {
+  const rule = photoRequirements[field];
+  return {
+    name: field,
+    type: 'photo',
+    label: rule.label,
+    required: rule.required ? `${rule.label} is required` : undefined,
+    // Submitted applications reference their uploads by ID, which have been checked already
+    validate: (value) => value instanceof File ? getPhotoFileError(field, value) : null,
+  };
+});
+
+export const participantForm: FormDefinition<ParticipantFormValues> = {
+  title: 'Participant Application',
+  derive: (values) => ({
+    fullName: [values.firstName, values.middleName, values.lastName].filter(Boolean).join(' '),
+    age: values.dateOfBirth ? calculateAge(values.dateOfBirth).toString() : '',
+  }),
+  sections: [
+    {
+      id: 'eligibility',
+      title: 'Eligibility',
+      description: 'Please confirm you meet all eligibility requirements',
+      notice: {
+        title: 'Eligibility Requirements For Participation',
+        blocks: [{
+          items: [
+            'Must be female',
+            'Must be between the ages of 18-35 years old on pageant date',
+            'Must not currently be married or pregnant',
+            'Must be able to communicate in English',
+            'Must have never been arrested or convicted of any crime',
+            'Must have never modeled for any sexually explicit or pornographic materials. Artistic nude is acceptable but must be approved by the organization.',
+            'Must be in good physical and mental health and have no known current sickness that can be contagious',
+            'Must be committed to adhere to all the pageant rules and regulations upon acceptance.',
+            'Must have a valid international passport',
+            'Must be available to travel',
+          ],
+        }],
+      },
+      fields: [
+        {
+          name: 'dateOfBirth',
+          type: 'date',
+          label: 'Date of Birth',
+          required: 'Date of birth is required',
+          help: (values) => values.age ? `Your age: ${values.age} years old` : null,
+          validate: (value) => isAgeInRange(String(value), 18, 35)
+            ? null
+            : 'You must be between 18 and 35 years old to participate',
+        },
+        {
+          name: 'isEligible',
+          type: 'checkbox',
+          heading: 'Please confirm that you meet the following requirements:',
+          label: 'I confirm that I meet all the eligibility requirements listed above',
+          required: 'You must confirm your eligibility to proceed',
+        },
+        {
+          name: 'hasValidPassport',
+          type: 'checkbox',
+          label: 'I have a valid international passport',
+          required: 'You must have a valid international passport',
+        },
+        {
+          name: 'canTravel',
+          type: 'checkbox',
+          label: 'I am available to travel',
+          required: 'You must be available to travel',
+        },
+        {
+          name: 'isGoodHealth',
+          type: 'checkbox',
+          label: 'I am in good physical and mental health with no known contagious diseases',
+          required: 'You must be in good physical and mental health',
+        },
+        {
+          name: 'willFollowRules',
+          type: 'checkbox',
+          label: 'I commit to adhere to all pageant rules and regulations',
+          required: 'You must commit to follow pageant rules and regulations',
+        },
+      ],
+    },
+    {
+      id: 'contact',
+      title: 'Contact Information',
+      description: 'Your basic contact information',
+      fields: [
+        { name: 'firstName', type: 'text', label: 'First Name', width: 'half', required: 'First name is required' },
+        { name: 'middleName', type: 'text', label: 'Middle Name', width: 'half' },
+        { name: 'lastName', type: 'text', label: 'Last Name', required: 'Last name is required' },
+        {
+          name: 'email',
+          type: 'email',
+          label: 'Email Address',
+          required: 'Please enter a valid email address',
+          validate: (value) => validateEmail(String(value)) ? null : 'Please enter a valid email address',
+        },
+        {
+          name: 'phone',
+          type: 'tel',
+          label: 'Cell Phone',
+          width: 'half',
+          required: 'Please enter a valid phone number',
+          validate: (value) => validatePhone(String(value)) ? null : 'Please enter a valid phone number',
+        },
+        { name: 'homePhone', type: 'tel', label: 'Home Phone', width: 'half' },
+        { name: 'street', type: 'text', label: 'Street Address' },
+        { name: 'addressLine2', type: 'text', label: 'Address Line 2' },
+        { name: 'city', type: 'text', label: 'City', width: 'half', required: 'City is required' },
+        { name: 'stateRegion', type: 'text', label: 'State / Province / Region', width: 'half' },
+        { name: 'zipCode', type: 'text', label: 'ZIP / Postal Code', width: 'half' },
+        { name: 'country', type: 'text', label: 'Country', width: 'half', required: 'Country is required' },
+      ],
+    },
+    {
+      id: 'personal',
+      title: 'Personal Details',
+      description: 'Your personal details and measurements',
+      fields: [
+        { name: 'ethnicity', type: 'text', label: 'Ethnicity', required: 'Ethnicity is required' },
+        {
+          name: 'representCountry',
+          type: 'text',
+          label: 'What Country Would You Like to Represent?',
+          width: 'half',
+          required: 'Country to represent is required',
+        },
+        { name: 'alternateCountry', type: 'text', label: 'What Other Country Would You Like to Represent?', width: 'half' },
+        {
+          name: 'height',
+          type: 'text',
+          label: 'Height',
+          width: 'third',
+          heading: 'Measurements',
+          help: "e.g. 5'8\" or 173 cm",
+          required: 'Height is required',
+        },
+        { name: 'weight', type: 'text', label: 'Weight', width: 'third', help: 'e.g. 125 lb or 57 kg', required: 'Weight is required' },
+        { name: 'bust', type: 'text', label: 'Bust', width: 'third' },
+        { name: 'waist', type: 'text', label: 'Waist', width: 'third' },
+        { name: 'hips', type: 'text', label: 'Hips', width: 'third' },
+        { name: 'dressSize', type: 'text', label: 'Dress Size', width: 'third' },
+        { name: 'shoeSize', type: 'text', label: 'Shoe Size', width: 'third' },
+        { name: 'swimsuitSizeTop', type: 'text', label: 'Swimsuit Size Top', width: 'third' },
+        { name: 'swimsuitSizeBottom', type: 'text', label: 'Swimsuit Size Bottom', width: 'third' },
+      ],
+    },
+    {
+      id: 'background',
+      title: 'Background & Experience',
+      description: 'Tell us about your experience and qualifications',
+      fields: [
+        { name: 'schoolAttended', type: 'text', label: 'School Attended' },
+        { name: 'fieldOfStudy', type: 'text', label: 'Field of Study' },
+        { name: 'highestEducation', type: 'textarea', label: 'Highest Education Level & Accomplishments', rows: 4 },
+        {
+          name: 'experience',
+          type: 'textarea',
+          label: 'Please provide a brief overview of your relevant work experience',
+          rows: 5,
+          required: 'Work experience information is required',
+        },
+        {
+          name: 'education',
+          type: 'textarea',
+          label: 'What education and qualifications do you hold?',
+          rows: 5,
+          required: 'Education information is required',
+        },
+        {
+          name: 'skills',
+          type: 'textarea',
+          label: 'What skills do you possess that would be beneficial for this role?',
+          rows: 5,
+          required: 'Skills information is required',
+        },
+        { name: 'threeWords', type: 'text', label: 'Three Words that Best Describe You', placeholder: 'e.g. Determined, Compassionate, Creative' },
+        { name: 'hobbies', type: 'textarea', label: 'Hobbies & Talents', rows: 4 },
+        { name: 'pageantExperience', type: 'textarea', label: 'List Previous Pageant or Modeling Experience & Titles Received', rows: 4 },
+      ],
+    },
+    {
+      id: 'motivation',
+      title: 'Motivation & Goals',
+      description: 'Why do you want to join Miss Bloom Global?',
+      fields: [
+        {
+          name: 'motivation',
+          type: 'textarea',
+          label: 'Why do you want to become a National Director for Miss Bloom Global?',
+          rows: 5,
+          required: 'Motivation information is required',
+        },
+        {
+          name: 'goals',
+          type: 'textarea',
+          label: 'What do you hope to achieve in this role?',
+          rows: 5,
+          required: 'Goals information is required',
+        },
+        { name: 'charity', type: 'textarea', label: 'What charity/cause you would like to support & why?', rows: 4 },
+        { name: 'hearAboutUs', type: 'text', label: 'How Did You Hear About Us?' },
+      ],
+    },
+    {
+      id: 'business',
+      title: 'Business Plan',
+      description: 'Your strategy to promote Miss Bloom Global',
+      fields: [
+        {
+          name: 'strategy',
+          type: 'textarea',
+          label: 'Please outline your strategy for promoting Miss Bloom Global in your country',
+          rows: 8,
+          required: 'Strategy information is required',
+        },
+      ],
+    },
+    {
+      id: 'photos',
+      title: 'Photos',
+      description: 'Upload your photos for the application',
+      fields: photoFieldDefinitions,
+    },
+    {
+      id: 'terms',
+      title: 'Terms & Conditions',
+      description: 'Review and agree to the terms and conditions',
+      notice: {
+        title: 'National Director Agreement',
+        blocks: [
+          {
+            heading: 'Terms and Conditions',
+            items: [
+              'The National Director agrees to promote and represent Miss Bloom Global in their designated country.',
+              'The National Director will adhere to the rules, regulations, and guidelines set forth by Miss Bloom Global.',
+            ],
+          },
+          {
+            heading: 'Confidentiality and Non-Disclosure',
+            items: ['The National Director agrees to maintain confidentiality and protect sensitive information related to Miss Bloom Global.'],
+          },
+          {
+            heading: 'Territorial Rights',
+            items: ['The National Director will have exclusive rights to promote Miss Bloom Global in their designated country.'],
+          },
+          {
+            heading: 'Payment Terms',
+            items: ['The National Director will receive percentage or amount of revenue generated from their country.'],
+          },
+        ],
+      },
+      fields: [
+        {
+          name: 'agreeTerms',
+          type: 'checkbox',
+          label: 'I have read and agree to the terms and conditions above',
+          required: 'You must agree to the terms and conditions',
+        },
+      ],
+    },
+    {
+      id: 'profile',
+      title: 'Personal Profile',
+      description: 'Personal information for your profile',
+      fields: [
+        { name: 'bio', type: 'textarea', label: 'Bio', rows: 8, maxWords: 500, required: 'Bio is required' },
+        {
+          name: 'socialMedia',
+          type: 'textarea',
+          label: 'Social Media Handles',
+          rows: 4,
+          placeholder: 'Instagram: @username\nFacebook: facebook.com/username\nLinkedIn: linkedin.com/in/username',
+          required: 'Social media information is required',
+        },
+      ],
+    },
+    {
+      id: 'countryInfo',
+      title: 'Country Information',
+      description: 'Information about your country and culture',
+      fields: [
+        {
+          name: 'countryOverview',
+          type: 'textarea',
+          label: 'Country Overview',
+          rows: 8,
+          maxWords: 500,
+          required: 'Country overview is required',
+        },
+        {
+          name: 'culturalInfo',
+          type: 'textarea',
+          label: 'Cultural and Custom Information',
+          rows: 8,
+          maxWords: 500,
+          required: 'Cultural information is required',
+        },
+      ],
+    },
+    {
+      id: 'review',
+      title: 'Review & Submit',
+      description: 'Review your application before submitting',
+      kind: 'review',
+      fields: [],
+    },
+  ],
+};
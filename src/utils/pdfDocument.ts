@@ -0,0 +1,137 @@
+// A small PDF writer for plain documents such as receipts: text in the standard
+// Helvetica fonts and ruled lines on A4 pages. The standard fonts need no
+// embedding but only cover Latin-1, so other characters are replaced.
+// Coordinates are in points from the top-left corner of the page.
+
+export type PdfFont = 'regular' | 'bold';
+
+export type PdfColor = [number, number, number]; // RGB, 0-255
+
+interface PdfTextOptions {
+  font?: PdfFont;
+  size?: number;
+  color?: PdfColor;
+  align?: 'left' | 'right'; // `x` is the right edge of right-aligned text
+}
+
+interface PdfLineOptions {
+  width?: number;
+  color?: PdfColor;
+}
+
+export const PDF_PAGE_SIZE = { width: 595.28, height: 841.89 }; // A4
+
+// Glyph widths of the printable ASCII characters (32-126) in 1/1000 em, from the fonts' AFM metrics
+const glyphWidths: Record<PdfFont, number[]> = {
+  regular: [
+    278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+    1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+    333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+    556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+  ],
+  bold: [
+    278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+    556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+    975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+    667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+    333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+    611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+  ],
+};
+
+const fontResources: Record<PdfFont, string> = { regular: 'F1', bold: 'F2' };
+
+// Typographic characters Intl and form input commonly produce, spelled in Latin-1
+const replacements: Record<string, string> = {
+  '\u2013': '-',
+  '\u2014': '-',
+  '\u2018': "'",
+  '\u2019': "'",
+  '\u201c': '"',
+  '\u201d': '"',
+  '\u2026': '...',
+  '\u202f': ' ', // Narrow no-break space, used by some locales in times
+  '\u20ac': 'EUR',
+};
+
+const toLatin1 = (value: string): string => {
+  return Array.from(value, char => replacements[char] ?? (char.charCodeAt(0) <= 0xff ? char : '?')).join('');
+};
+
+const escapeText = (value: string): string => value.replace(/[\\()]/g, match => `\\${match}`);
+
+const formatNumber = (value: number): string => Number(value.toFixed(2)).toString();
+
+const formatColor = ([red, green, blue]: PdfColor): string => {
+  return [red, green, blue].map(channel => formatNumber(channel / 255)).join(' ');
+};
+
+// Width of `value` in points; characters outside ASCII are taken to be as wide as a digit
+export const measurePdfText = (value: string, font: PdfFont = 'regular', size = 10): number => {
+  const units = Array.from(toLatin1(value)).reduce((sum, char) => {
+    return sum + (glyphWidths[font][char.charCodeAt(0) - 32] ?? 556);
+  }, 0);
+  return units * size / 1000;
+};
+
+export const createPdfDocument = () => {
+  const pages: string[][] = [[]];
+  const currentPage = () => pages[pages.length - 1];
+  const toPdfY = (y: number) => PDF_PAGE_SIZE.height - y;
+
+  const addPage = () => {
+    pages.push([]);
+  };
+
+  // `y` is the text's baseline
+  const text = (value: string, x: number, y: number, { font = 'regular', size = 10, color = [0, 0, 0], align = 'left' }: PdfTextOptions = {}) => {
+    const safe = toLatin1(value);
+    const left = align === 'right' ? x - measurePdfText(safe, font, size) : x;
+    currentPage().push(
+      `BT /${fontResources[font]} ${size} Tf ${formatColor(color)} rg ${formatNumber(left)} ${formatNumber(toPdfY(y))} Td (${escapeText(safe)}) Tj ET`
+    );
+  };
+
+  const line = (x1: number, y1: number, x2: number, y2: number, { width = 0.5, color = [0, 0, 0] }: PdfLineOptions = {}) => {
+    currentPage().push(
+      `${formatColor(color)} RG ${width} w ${formatNumber(x1)} ${formatNumber(toPdfY(y1))} m ${formatNumber(x2)} ${formatNumber(toPdfY(y2))} l S`
+    );
+  };
+
+  // Every character written is a single byte, so string lengths double as byte offsets
+  const toBlob = (): Blob => {
+    const objects = [
+      '<< /Type /Catalog /Pages 2 0 R >>',
+      `<< /Type /Pages /Kids [${pages.map((_, index) => `${5 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+      '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    ];
+    pages.forEach((operations, index) => {
+      const content = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PDF_PAGE_SIZE.width} ${PDF_PAGE_SIZE.height}] ` +
+          `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${6 + index * 2} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      );
+    });
+
+    let pdf = '%PDF-1.4\n';
+    const offsets = objects.map((body, index) => {
+      const offset = pdf.length;
+      pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xrefOffset = pdf.length;
+    pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    pdf += offsets.map(offset => `${offset.toString().padStart(10, '0')} 00000 n \n`).join('');
+    pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return new Blob([Uint8Array.from(pdf, char => char.charCodeAt(0))], { type: 'application/pdf' });
+  };
+
+  return { addPage, text, line, toBlob };
+};
+
+export type PdfDocument = ReturnType<typeof createPdfDocument>;
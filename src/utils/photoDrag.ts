@@ -0,0 +1,35 @@
+import type { DragEvent } from 'react';
+import { photoFields, PhotoField } from '@/utils/formUtils';
+
+// Drag and drop within the photos section: thumbnails can be dragged from the tray
+// of dropped photos into a slot, or from one slot to another to swap them.
+
+export type PhotoDragSource =
+  | { kind: 'tray'; index: number }
+  | { kind: 'slot'; field: PhotoField };
+
+const PHOTO_DRAG_TYPE = 'application/x-miss-bloom-photo';
+
+export const setPhotoDragData = (event: DragEvent, source: PhotoDragSource): void => {
+  event.dataTransfer.setData(PHOTO_DRAG_TYPE, JSON.stringify(source));
+  event.dataTransfer.effectAllowed = 'move';
+};
+
+export const getPhotoDragData = (event: DragEvent): PhotoDragSource | null => {
+  try {
+    const source = JSON.parse(event.dataTransfer.getData(PHOTO_DRAG_TYPE));
+    if (source?.kind === 'tray' && Number.isInteger(source.index)) return source;
+    if (source?.kind === 'slot' && photoFields.includes(source.field)) return source;
+  } catch {
+    // Not one of our thumbnails
+  }
+  return null;
+};
+
+// Whether a drag carries files from outside the page or one of our thumbnails.
+// Only the types are readable until the drop itself.
+export const isFileDrag = (event: DragEvent): boolean => event.dataTransfer.types.includes('Files');
+
+export const isPhotoDrag = (event: DragEvent): boolean => {
+  return isFileDrag(event) || event.dataTransfer.types.includes(PHOTO_DRAG_TYPE);
+};
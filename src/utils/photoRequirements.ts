@@ -0,0 +1,129 @@
+import type { PhotoField } from '@/utils/formUtils';
+import { isHeicFile, loadImage } from '@/utils/imageProcessing';
+
+// Requirements for each photo slot of the participant application. Everything the
+// form checks about a photo, and the hint shown under each upload box, comes from here.
+
+export interface PhotoRequirement {
+  label: string;
+  required: boolean;
+  minWidth: number;
+  minHeight: number;
+  // Allowed width / height ratio, or null when any shape is fine
+  aspectRatio: { min: number; max: number; description: string } | null;
+  maxBytes: number;
+  allowedTypes: string[];
+  // Crop frame and guide shown in the crop dialog, or null to keep the photo's own shape
+  framing: { aspectRatio: number; guide: PhotoFramingGuide } | null;
+}
+
+export type PhotoFramingGuide = 'head-and-shoulders' | 'full-length';
+
+const MB = 1024 * 1024;
+
+// File picker filter; HEIC photos are listed by extension for systems without a MIME type for them
+export const PHOTO_INPUT_ACCEPT = 'image/*,.heic,.heif';
+
+const PHOTO_TYPES = ['image/jpeg', 'image/png', 'image/webp', 'image/heic', 'image/heif'];
+
+const headShot: Omit<PhotoRequirement, 'label' | 'required'> = {
+  minWidth: 800,
+  minHeight: 1000,
+  aspectRatio: { min: 0.6, max: 0.9, description: 'a portrait (taller than wide) head-and-shoulders photo' },
+  maxBytes: 25 * MB,
+  allowedTypes: PHOTO_TYPES,
+  framing: { aspectRatio: 4 / 5, guide: 'head-and-shoulders' },
+};
+
+const bodyShot: Omit<PhotoRequirement, 'label' | 'required'> = {
+  minWidth: 900,
+  minHeight: 1600,
+  aspectRatio: { min: 0.35, max: 0.75, description: 'a full-length photo, clearly taller than wide' },
+  maxBytes: 25 * MB,
+  allowedTypes: PHOTO_TYPES,
+  framing: { aspectRatio: 2 / 3, guide: 'full-length' },
+};
+
+const additionalImage: Omit<PhotoRequirement, 'label' | 'required'> = {
+  minWidth: 600,
+  minHeight: 600,
+  aspectRatio: null,
+  maxBytes: 25 * MB,
+  allowedTypes: PHOTO_TYPES,
+  framing: null,
+};
+
+export const photoRequirements: Record<PhotoField, PhotoRequirement> = {
+  headShot1: { label: 'Head shot #1', required: true, ...headShot },
+  headShot2: { label: 'Head shot #2', required: true, ...headShot },
+  bodyShot1: { label: 'Body shot #1', required: true, ...bodyShot },
+  bodyShot2: { label: 'Body shot #2', required: true, ...bodyShot },
+  additionalImage1: { label: 'Additional image #1', required: false, ...additionalImage },
+  additionalImage2: { label: 'Additional image #2', required: false, ...additionalImage },
+};
+
+const TYPE_NAMES: Record<string, string> = {
+  'image/jpeg': 'JPEG',
+  'image/png': 'PNG',
+  'image/webp': 'WebP',
+  'image/heic': 'HEIC',
+  'image/heif': 'HEIF',
+};
+
+const formatBytes = (bytes: number): string => `${Math.round(bytes / MB)} MB`;
+
+const listTypes = (types: string[]): string => {
+  return Array.from(new Set(types.map(type => TYPE_NAMES[type] ?? type))).join(', ');
+};
+
+// Some systems report HEIC photos without a MIME type, so fall back to the extension
+const getFileType = (file: File): string => {
+  if (file.type) return file.type.toLowerCase();
+  return isHeicFile(file) ? 'image/heic' : '';
+};
+
+// Short summary of a slot's requirements for the hint under its upload box
+export const describePhotoRequirements = (field: PhotoField): string => {
+  const rule = photoRequirements[field];
+  return `${listTypes(rule.allowedTypes)} · at least ${rule.minWidth} × ${rule.minHeight} px · max. ${formatBytes(rule.maxBytes)}`;
+};
+
+// Checks that only need the file itself: type and size
+export const getPhotoFileError = (field: PhotoField, file: File): string | null => {
+  const rule = photoRequirements[field];
+
+  if (!rule.allowedTypes.includes(getFileType(file))) {
+    return `${rule.label} must be a ${listTypes(rule.allowedTypes)} image`;
+  }
+
+  if (file.size > rule.maxBytes) {
+    return `${rule.label} must be ${formatBytes(rule.maxBytes)} or smaller`;
+  }
+
+  return null;
+};
+
+// Checks that need the decoded image: real pixel dimensions and shape
+export const getPhotoDimensionError = (field: PhotoField, width: number, height: number): string | null => {
+  const rule = photoRequirements[field];
+
+  if (width < rule.minWidth || height < rule.minHeight) {
+    return `${rule.label} must be at least ${rule.minWidth} × ${rule.minHeight} pixels (this photo is ${width} × ${height})`;
+  }
+
+  const ratio = width / height;
+  if (rule.aspectRatio && (ratio < rule.aspectRatio.min || ratio > rule.aspectRatio.max)) {
+    return `${rule.label} must be ${rule.aspectRatio.description}`;
+  }
+
+  return null;
+};
+
+// Decode the photo and check every requirement for its slot
+export const checkPhotoRequirements = async (field: PhotoField, file: File): Promise<string | null> => {
+  const fileError = getPhotoFileError(field, file);
+  if (fileError) return fileError;
+
+  const image = await loadImage(file);
+  return getPhotoDimensionError(field, image.naturalWidth, image.naturalHeight);
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { calculateFee } from '@/utils/feeSchedule';
+import { applyPromoCode, findPromoCode, getPromoCodeError, PromoCode } from '@/utils/promoCodes';
+
+const regularFee = (type: 'participant' | 'director', country: string) => calculateFee(type, country, new Date('2027-01-15T12:00:00.000Z'));
+
+const use = { applicationType: 'participant' as const, country: 'France', redemptions: 0, date: new Date('2026-10-01T12:00:00.000Z') };
+
+describe('findPromoCode', () => {
+  it('matches codes whatever their case and spacing', () => {
+    expect(findPromoCode('  bloom10 ')?.code).toBe('BLOOM10');
+    expect(findPromoCode('BLOOM11')).toBeNull();
+  });
+});
+
+describe('applyPromoCode', () => {
+  it('takes a percentage off the total', () => {
+    const fee = applyPromoCode(regularFee('participant', 'France'), findPromoCode('BLOOM10'));
+    expect(fee.total).toBe(18000);
+    expect(fee.promoCode).toBe('BLOOM10');
+    expect(fee.lineItems.at(-1)).toEqual({ label: 'Code BLOOM10 (10% off)', amount: -2000 });
+  });
+
+  it('takes a fixed amount off the total', () => {
+    const fee = applyPromoCode(regularFee('director', 'France'), findPromoCode('DIRECTORS50'));
+    expect(fee.total).toBe(20000);
+    expect(fee.lineItems.at(-1)).toEqual({ label: 'Code DIRECTORS50 ($50.00 off)', amount: -5000 });
+  });
+
+  it('rounds a percentage to the cent', () => {
+    const promo: PromoCode = { code: 'THIRD', description: 'Test', discount: { type: 'percent', percent: 33 } };
+    expect(applyPromoCode({ ...regularFee('participant', 'France'), total: 1001 }, promo).total).toBe(671);
+  });
+
+  it('covers the whole fee with a full voucher', () => {
+    const fee = applyPromoCode(regularFee('participant', 'Ghana'), findPromoCode('GHANA-SPONSOR'));
+    expect(fee.total).toBe(0);
+  });
+
+  it('never takes the total below zero', () => {
+    const promo: PromoCode = { code: 'HUGE', description: 'Test', discount: { type: 'fixed', amount: 1000000 } };
+    const fee = applyPromoCode(regularFee('participant', 'France'), promo);
+    expect(fee.total).toBe(0);
+    expect(fee.lineItems.at(-1).amount).toBe(-20000);
+  });
+});
+
+describe('getPromoCodeError', () => {
+  const bloom10 = findPromoCode('BLOOM10');
+
+  it('accepts a code on the last day before it expires', () => {
+    expect(getPromoCodeError(bloom10, { ...use, date: new Date('2026-12-31T23:59:59.999Z') })).toBeNull();
+  });
+
+  it('turns down a code after it has expired', () => {
+    expect(getPromoCodeError(bloom10, { ...use, date: new Date('2027-01-01T00:00:00.000Z') })).toBe('This code expired on Dec 31, 2026');
+  });
+
+  it('turns down a code for another application type', () => {
+    expect(getPromoCodeError(findPromoCode('DIRECTORS50'), use)).toBe('This code is only valid for national director applications');
+  });
+
+  it('turns down a code for another country', () => {
+    expect(getPromoCodeError(findPromoCode('GHANA-SPONSOR'), use)).toBe('This code is not valid for applications from France');
+    expect(getPromoCodeError(findPromoCode('GHANA-SPONSOR'), { ...use, country: ' Ghana ' })).toBeNull();
+  });
+
+  it('turns down a code once it has been used the maximum number of times', () => {
+    const ghana = { ...use, country: 'Ghana' };
+    expect(getPromoCodeError(findPromoCode('GHANA-SPONSOR'), { ...ghana, redemptions: 4 })).toBeNull();
+    expect(getPromoCodeError(findPromoCode('GHANA-SPONSOR'), { ...ghana, redemptions: 5 }))
+      .toBe('This code has already been used the maximum number of times');
+  });
+});
@@ -0,0 +1,107 @@
+import type { ApplicationType } from '@/utils/applicationFlow';
+import { FeeQuote, formatFeeAmount, formatFeeDate } from '@/utils/feeSchedule';
+
+// Promo campaign codes and the voucher codes national directors hand to the
+// contestants they recruit. A code takes a percentage or a fixed amount off the
+// amount due and can be limited by expiry date, number of uses, application type
+// and country.
+
+export type PromoDiscount =
+  | { type: 'percent'; percent: number }
+  | { type: 'fixed'; amount: number }; // In cents
+
+export interface PromoCode {
+  code: string; // Upper case; codes are matched case-insensitively
+  description: string;
+  discount: PromoDiscount;
+  expiresOn?: string; // Last day the code can be used, inclusive (YYYY-MM-DD, UTC)
+  maxRedemptions?: number;
+  applicationTypes?: ApplicationType[];
+  countries?: string[]; // Lower-case country names
+}
+
+export const promoCodes: PromoCode[] = [
+  {
+    code: 'BLOOM10',
+    description: 'Launch campaign',
+    discount: { type: 'percent', percent: 10 },
+    expiresOn: '2026-12-31',
+  },
+  {
+    code: 'DIRECTORS50',
+    description: 'Returning national directors',
+    discount: { type: 'fixed', amount: 5000 },
+    applicationTypes: ['director'],
+  },
+  {
+    code: 'GHANA-SPONSOR',
+    description: 'Sponsored by the national director for Ghana',
+    discount: { type: 'percent', percent: 100 },
+    maxRedemptions: 5,
+    applicationTypes: ['participant'],
+    countries: ['ghana'],
+  },
+  {
+    code: 'KENYA-HALF',
+    description: 'Part-sponsored by the national director for Kenya',
+    discount: { type: 'percent', percent: 50 },
+    maxRedemptions: 10,
+    applicationTypes: ['participant'],
+    countries: ['kenya'],
+  },
+];
+
+const applicationTypeNames: Record<ApplicationType, string> = {
+  participant: 'participant',
+  director: 'national director',
+};
+
+export const normalizePromoCode = (code: string): string => code.trim().toUpperCase();
+
+export const findPromoCode = (code: string): PromoCode | null => {
+  return promoCodes.find(promo => promo.code === normalizePromoCode(code)) ?? null;
+};
+
+export const describePromoDiscount = (discount: PromoDiscount): string => {
+  return discount.type === 'percent' ? `${discount.percent}% off` : `${formatFeeAmount(discount.amount)} off`;
+};
+
+interface PromoCodeUse {
+  applicationType: ApplicationType;
+  country: string;
+  redemptions: number; // Times the code has been redeemed by other applications
+  date?: Date;
+}
+
+// Why a code cannot be used for this application, or null if it can
+export const getPromoCodeError = (promo: PromoCode, { applicationType, country, redemptions, date = new Date() }: PromoCodeUse): string | null => {
+  if (promo.expiresOn && date > new Date(`${promo.expiresOn}T23:59:59.999Z`)) {
+    return `This code expired on ${formatFeeDate(promo.expiresOn)}`;
+  }
+  if (promo.applicationTypes && !promo.applicationTypes.includes(applicationType)) {
+    return `This code is only valid for ${promo.applicationTypes.map(type => applicationTypeNames[type]).join(' or ')} applications`;
+  }
+  if (promo.countries && !promo.countries.includes(country.trim().toLowerCase())) {
+    return `This code is not valid for applications from ${country.trim() || 'your country'}`;
+  }
+  if (promo.maxRedemptions !== undefined && redemptions >= promo.maxRedemptions) {
+    return 'This code has already been used the maximum number of times';
+  }
+  return null;
+};
+
+// The quote with the code's discount added as a line item. The discount never
+// takes the total below zero, so a full voucher leaves nothing to pay.
+export const applyPromoCode = (fee: FeeQuote, promo: PromoCode): FeeQuote => {
+  const requested = promo.discount.type === 'percent'
+    ? Math.round(fee.total * promo.discount.percent / 100)
+    : promo.discount.amount;
+  const discount = Math.min(requested, fee.total);
+
+  return {
+    ...fee,
+    promoCode: promo.code,
+    lineItems: [...fee.lineItems, { label: `Code ${promo.code} (${describePromoDiscount(promo.discount)})`, amount: -discount }],
+    total: fee.total - discount,
+  };
+};
@@ -0,0 +1,124 @@
+import { formatMoney } from '@/utils/currencies';
+import { createPdfDocument, PdfColor, PDF_PAGE_SIZE } from '@/utils/pdfDocument';
+import {
+  applicationTypeNames,
+  describeReceiptExchangeRate,
+  formatReceiptTimestamp,
+  getReceiptFileName,
+} from '@/utils/receipts';
+import type { PaymentReceipt } from '@/api/types';
+
+// The downloadable version of a receipt, laid out like the printable page
+
+const MARGIN = 50;
+const RIGHT = PDF_PAGE_SIZE.width - MARGIN;
+const BOTTOM = PDF_PAGE_SIZE.height - MARGIN;
+
+const colors: Record<'primary' | 'muted' | 'gold' | 'rule', PdfColor> = {
+  primary: [16, 24, 40],
+  muted: [102, 112, 133],
+  gold: [220, 174, 103],
+  rule: [229, 229, 229],
+};
+
+// Symbols outside Latin-1 (₹, ₦, ₱...) can't be printed with the standard fonts
+const formatAmount = (amount: number, currency: string) => formatMoney(amount, currency, 'code');
+
+export const createReceiptPdf = (receipt: PaymentReceipt): Blob => {
+  const pdf = createPdfDocument();
+  let y = MARGIN + 20;
+
+  // Start a new page when the next `height` points would run past the bottom margin
+  const reserve = (height: number) => {
+    if (y + height > BOTTOM) {
+      pdf.addPage();
+      y = MARGIN + 20;
+    }
+  };
+
+  const row = (label: string, value: string, { bold = false, muted = false } = {}) => {
+    reserve(18);
+    const options = { font: bold ? 'bold' as const : 'regular' as const, color: muted ? colors.muted : colors.primary };
+    pdf.text(label, MARGIN, y, options);
+    pdf.text(value, RIGHT, y, { ...options, align: 'right' });
+    y += 18;
+  };
+
+  const rule = (color = colors.rule) => {
+    pdf.line(MARGIN, y - 12, RIGHT, y - 12, { color });
+    y += 4;
+  };
+
+  pdf.text('Miss Bloom Global', MARGIN, y, { font: 'bold', size: 18, color: colors.primary });
+  pdf.text('RECEIPT', RIGHT, y, { font: 'bold', size: 18, color: colors.gold, align: 'right' });
+  y += 18;
+  for (const line of [receipt.issuer.name, ...receipt.issuer.address, receipt.issuer.taxId].filter(Boolean)) {
+    pdf.text(line, MARGIN, y, { size: 9, color: colors.muted });
+    y += 12;
+  }
+  y += 24;
+
+  const detailsTop = y;
+  const details: [string, string][] = [
+    ['Receipt number', receipt.receiptNumber],
+    ['Date paid', formatReceiptTimestamp(receipt.issuedAt)],
+    ['Transaction reference', receipt.transactionReference],
+    ['Application ID', receipt.applicationId],
+    ['Payment method', receipt.method],
+  ];
+  for (const [label, value] of details) {
+    pdf.text(label, MARGIN, y, { size: 9, color: colors.muted });
+    pdf.text(value, MARGIN + 110, y, { size: 9, color: colors.primary });
+    y += 14;
+  }
+
+  const column = MARGIN + 330;
+  let columnY = detailsTop;
+  pdf.text('Paid by', column, columnY, { size: 9, color: colors.muted });
+  pdf.text(receipt.payer, column, columnY += 14, { font: 'bold', size: 10, color: colors.primary });
+  pdf.text('On behalf of', column, columnY += 22, { size: 9, color: colors.muted });
+  pdf.text(receipt.applicant.name, column, columnY += 14, { size: 10, color: colors.primary });
+  pdf.text(receipt.applicant.email, column, columnY += 13, { size: 9, color: colors.muted });
+  y = Math.max(y, columnY) + 30;
+
+  pdf.text(`${applicationTypeNames[receipt.applicationType]} - ${receipt.seasonName}`, MARGIN, y, { font: 'bold', size: 11, color: colors.primary });
+  y += 24;
+  row('Description', 'Amount', { bold: true, muted: true });
+  rule();
+  for (const item of receipt.lineItems) {
+    row(item.label, formatAmount(item.amount, receipt.currency));
+  }
+  rule();
+  row('Subtotal', formatAmount(receipt.subtotal, receipt.currency));
+  if (receipt.discounts < 0) {
+    row('Discounts', formatAmount(receipt.discounts, receipt.currency));
+  }
+  row(`${receipt.tax.label} (${receipt.tax.rate}%, included)`, formatAmount(receipt.tax.amount, receipt.currency), { muted: true });
+  rule(colors.primary);
+  row('Total paid', formatAmount(receipt.total, receipt.currency), { bold: true });
+
+  const exchangeRate = describeReceiptExchangeRate(receipt);
+  if (exchangeRate) {
+    row(`Charged in ${receipt.charge.currency} (${exchangeRate})`, formatAmount(receipt.charge.amount, receipt.charge.currency), { muted: true });
+  }
+  if (receipt.refundedAmount > 0) {
+    row('Refunded', formatAmount(-receipt.refundedAmount, receipt.currency), { muted: true });
+  }
+
+  y += 30;
+  reserve(30);
+  pdf.text('Thank you for your payment.', MARGIN, y, { size: 10, color: colors.primary });
+  pdf.text('Please quote your application ID if you contact us about this payment.', MARGIN, y + 14, { size: 9, color: colors.muted });
+
+  return pdf.toBlob();
+};
+
+export const downloadReceiptPdf = (receipt: PaymentReceipt): void => {
+  const url = URL.createObjectURL(createReceiptPdf(receipt));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = getReceiptFileName(receipt);
+  link.click();
+  // Give the browser a moment to start the download before the URL is released
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+};
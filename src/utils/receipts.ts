@@ -0,0 +1,89 @@
+import type { ApplicationType } from '@/utils/applicationFlow';
+import type { FeeLineItem, FeeQuote } from '@/utils/feeSchedule';
+import type { PaymentSchedule } from '@/utils/installmentPlans';
+import type { PaymentIntent, PaymentReceipt } from '@/api/types';
+
+// Receipts are issued by the server for each completed payment, so the payer
+// (often a sponsor paying for a contestant) has something to file with their
+// accounts. All amounts are in cents of the fee currency unless noted.
+
+export interface ReceiptIssuer {
+  name: string;
+  address: string[];
+  taxId?: string; // Shown once we are registered for tax
+}
+
+export const receiptIssuer: ReceiptIssuer = {
+  name: 'Miss Bloom Global Ltd',
+  address: ['London', 'United Kingdom'],
+};
+
+export const applicationTypeNames: Record<ApplicationType, string> = {
+  participant: 'Participant application',
+  director: 'National Director application',
+};
+
+// Application fees are not currently taxed. Prices include any tax, so the tax
+// line shows the share of the total that is tax rather than adding to it.
+export const receiptTax = { label: 'VAT', rate: 0 };
+
+interface BuildReceiptOptions {
+  intent: PaymentIntent; // A payment that went through
+  sequence: number; // 1 for the application's first payment
+  applicationType: ApplicationType;
+  applicant: { name: string; email: string };
+  fee: FeeQuote;
+  schedule: PaymentSchedule | null;
+}
+
+// Tax included in `amount` at `rate` percent
+const getIncludedTax = (amount: number, rate: number): number => {
+  return Math.round(amount - amount / (1 + rate / 100));
+};
+
+// An installment is receipted as one line; paying in full itemizes the fee
+const getLineItems = ({ intent, fee, schedule }: BuildReceiptOptions): FeeLineItem[] => {
+  const installment = schedule?.installments.find(candidate => candidate.number === intent.installmentNumber);
+  if (installment && schedule) {
+    return [{ label: `${fee.seasonName}: ${installment.label} (${schedule.planName})`, amount: intent.amount }];
+  }
+  return fee.lineItems;
+};
+
+export const buildReceipt = (options: BuildReceiptOptions): PaymentReceipt => {
+  const { intent, sequence, applicationType, applicant, fee } = options;
+  const lineItems = getLineItems(options);
+
+  return {
+    receiptNumber: `${intent.applicationId}-R${sequence}`,
+    issuedAt: intent.paidAt ?? intent.updatedAt,
+    transactionReference: intent.intentId,
+    applicationId: intent.applicationId,
+    applicationType,
+    seasonName: fee.seasonName,
+    applicant,
+    payer: intent.method?.payer || applicant.name,
+    method: intent.method?.summary ?? 'Not recorded',
+    issuer: receiptIssuer,
+    lineItems,
+    subtotal: lineItems.filter(item => item.amount > 0).reduce((sum, item) => sum + item.amount, 0),
+    discounts: lineItems.filter(item => item.amount < 0).reduce((sum, item) => sum + item.amount, 0),
+    tax: { ...receiptTax, amount: getIncludedTax(intent.amount, receiptTax.rate) },
+    total: intent.amount,
+    currency: intent.currency,
+    charge: intent.charge,
+    refundedAmount: intent.refundedAmount,
+  };
+};
+
+export const formatReceiptTimestamp = (date: string): string => {
+  return new Date(date).toLocaleString('en-US', { dateStyle: 'medium', timeStyle: 'short', timeZone: 'UTC' }) + ' UTC';
+};
+
+// The exchange rate used, when the payer was charged in another currency
+export const describeReceiptExchangeRate = (receipt: PaymentReceipt): string | null => {
+  if (receipt.charge.currency === receipt.currency) return null;
+  return `1 ${receipt.currency} = ${receipt.charge.rate} ${receipt.charge.currency}, locked ${formatReceiptTimestamp(receipt.charge.rateLockedAt)}`;
+};
+
+export const getReceiptFileName = (receipt: PaymentReceipt): string => `receipt-${receipt.receiptNumber}.pdf`;